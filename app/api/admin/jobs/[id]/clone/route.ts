@@ -0,0 +1,78 @@
+/**
+ * Admin API for re-running a job with the same configuration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue, JobQueueError, JobQueueRequestFields, parseQueueOptions } from '@/lib/migration/job-queue';
+import { logger } from '@/lib/migration/logging';
+import { cloneJob, getJobSpec, TemplateValidationError } from '@/lib/migration/templates/service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/jobs/[id]/clone
+ * The job's configuration as a job spec, to pre-fill a new job or template
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    return NextResponse.json({ jobId, spec: await getJobSpec(jobId) });
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return NextResponse.json({ error: 'Job cannot be cloned', details: error.message }, { status: 400 });
+    }
+    logger.error('Admin API: Failed to get job spec', { error });
+    return NextResponse.json(
+      { error: 'Failed to get job spec', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/jobs/[id]/clone
+ * Create and queue a new job with this job's configuration
+ * Body: { overrides?, priority?, runAt? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sourceJobId } = await params;
+    const body = ((await request.json().catch(() => ({}))) ?? {}) as JobQueueRequestFields & {
+      overrides?: Record<string, unknown>;
+    };
+
+    let queueOptions;
+    try {
+      queueOptions = parseQueueOptions(body);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json({ error: 'Invalid queue settings', details: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    logger.info('Admin API: Cloning job', { jobId: sourceJobId });
+    const { jobId, spec } = await cloneJob(sourceJobId, body.overrides);
+    const queueStatus = await jobQueue.enqueue(jobId, queueOptions);
+
+    return NextResponse.json(
+      { success: true, sourceJobId, jobId, jobType: spec.type, queueStatus },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return NextResponse.json({ error: 'Job cannot be cloned', details: error.message }, { status: 400 });
+    }
+    logger.error('Admin API: Failed to clone job', { error });
+    return NextResponse.json(
+      { error: 'Failed to clone job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
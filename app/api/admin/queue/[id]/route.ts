@@ -0,0 +1,80 @@
+/**
+ * Admin API for a Queued Job
+ * Reprioritizes, reschedules or removes a job that is waiting in the queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue, JobQueueError, parseQueueOptions } from '@/lib/migration/job-queue';
+import { logger } from '@/lib/migration/logging';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/admin/queue/[id]
+ * Body: { priority?: number, runAt?: string | null } - `runAt: null` starts the job as soon as a slot is free
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+
+  try {
+    const body = await request.json();
+
+    let options;
+    try {
+      options = parseQueueOptions({ priority: body.priority, runAt: body.runAt });
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json({ error: 'Invalid queue settings', details: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const { priority, runAt } = options;
+
+    const status = await jobQueue.reschedule(jobId, {
+      priority,
+      runAt: body.runAt === null ? null : runAt,
+    });
+    logger.info('Admin API: Rescheduled queued job', { jobId, priority, runAt: body.runAt });
+
+    return NextResponse.json({ success: true, jobId, status });
+  } catch (error) {
+    if (error instanceof JobQueueError) {
+      return NextResponse.json({ error: error.message, jobId }, { status: 409 });
+    }
+    logger.error('Admin API: Failed to reschedule job', { jobId, error });
+    return NextResponse.json(
+      { error: 'Failed to reschedule job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/queue/[id]
+ * Remove a waiting job from the queue and mark it cancelled
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+
+  try {
+    await jobQueue.cancel(jobId);
+    logger.info('Admin API: Removed job from queue', { jobId });
+
+    return NextResponse.json({ success: true, jobId, status: 'cancelled' });
+  } catch (error) {
+    if (error instanceof JobQueueError) {
+      return NextResponse.json({ error: error.message, jobId }, { status: 409 });
+    }
+    logger.error('Admin API: Failed to remove job from queue', { jobId, error });
+    return NextResponse.json(
+      { error: 'Failed to remove job from queue', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
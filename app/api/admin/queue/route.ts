@@ -0,0 +1,42 @@
+/**
+ * Admin API for the Job Queue
+ * Shows running and waiting jobs in start order
+ */
+
+import { NextResponse } from 'next/server';
+import { getJobType } from '@/lib/migration/storage/job-serialization';
+import { jobQueue } from '@/lib/migration/job-queue';
+import { logger } from '@/lib/migration/logging';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/queue
+ * List the jobs running in this process and the queued/deferred jobs
+ */
+export async function GET() {
+  try {
+    const snapshot = await jobQueue.snapshot();
+
+    return NextResponse.json({
+      maxConcurrentJobs: snapshot.maxConcurrentJobs,
+      running: snapshot.running,
+      waiting: snapshot.waiting.map((job, index) => ({
+        position: index + 1,
+        jobId: job.id,
+        jobType: getJobType(job),
+        status: job.status,
+        priority: job.queue?.priority,
+        enqueuedAt: job.queue?.enqueuedAt,
+        runAt: job.queue?.runAt,
+        reason: job.queue?.reason,
+      })),
+    });
+  } catch (error) {
+    logger.error('Admin API: Failed to read job queue', { error });
+    return NextResponse.json(
+      { error: 'Failed to read job queue', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { createFlowCloneJob } from '@/lib/globiflow/service';
 import { isPodioConfigured } from '@/lib/podio/config';
 import { PodioApiError } from '@/lib/podio/errors';
 import { FlowCloneRequest } from '@/lib/globiflow/types';
+import { JobQueueError, JobQueueRequestFields, JobScheduleOptions, jobQueue, parseQueueOptions } from '@/lib/migration/job-queue';
 
 /**
  * POST /api/globiflow/clone
@@ -54,22 +55,36 @@ export async function POST(request: Request) {
       );
     }
 
+    let queueOptions: JobScheduleOptions;
+    try {
+      queueOptions = parseQueueOptions(body as JobQueueRequestFields);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'INVALID_REQUEST',
+              message: error.message,
+            },
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     // Create the clone job
     const job = await createFlowCloneJob(body);
 
-    // Start job execution in the background (fire-and-forget)
-    // We'll import the runner dynamically to avoid circular dependencies
-    import('@/lib/globiflow/clone-runner').then(({ executeFlowCloneJob }) => {
-      executeFlowCloneJob(job.id).catch((error) => {
-        console.error('Flow clone job execution failed:', error);
-      });
-    });
+    // Queue the job; the queue loads the clone runner when the job starts
+    const status = await jobQueue.enqueue(job.id, queueOptions);
 
     return NextResponse.json({
       success: true,
       data: {
         jobId: job.id,
-        status: job.status,
+        status,
         message: `Flow clone job created with ${job.steps.length} flows to clone.`,
       },
     });
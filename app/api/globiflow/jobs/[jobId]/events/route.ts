@@ -0,0 +1,56 @@
+/**
+ * Flow Clone Job Events API
+ * - GET: Server-Sent Events stream of status changes, per-flow progress and
+ *   completion. Opens with a snapshot of the stored status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { flowCloneProgress } from '@/lib/globiflow/clone-runner';
+import { MigrationJob, migrationStateStore } from '@/lib/migration/state-store';
+import {
+  createJobEventStream,
+  JOB_EVENT_STREAM_HEADERS,
+  snapshotJobEvent,
+} from '@/lib/migration/job-events';
+
+export const runtime = 'nodejs';
+
+/**
+ * Snapshot of a flow clone job, with progress counted in flows
+ */
+function snapshotFlowCloneEvent(job: MigrationJob) {
+  return { ...snapshotJobEvent(job), progress: flowCloneProgress(job.steps) };
+}
+
+/**
+ * GET /api/globiflow/jobs/:jobId/events
+ * Stream flow clone job events
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job || job.jobType !== 'flow_clone') {
+    return NextResponse.json(
+      {
+        error: 'Not found',
+        message: `Flow clone job not found: ${jobId}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const stream = createJobEventStream(
+    jobId,
+    async () => {
+      const current = await migrationStateStore.getMigrationJob(jobId);
+      return snapshotFlowCloneEvent(current ?? job);
+    },
+    request.signal
+  );
+
+  return new Response(stream, { headers: JOB_EVENT_STREAM_HEADERS });
+}
@@ -0,0 +1,48 @@
+/**
+ * Cleanup Job Events API
+ * - GET: Server-Sent Events stream of detection/deletion phases, progress and
+ *   completion. Opens with a snapshot of the stored status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import {
+  createJobEventStream,
+  JOB_EVENT_STREAM_HEADERS,
+  snapshotJobEvent,
+} from '@/lib/migration/job-events';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/migration/cleanup/:jobId/events
+ * Stream cleanup job events
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job || job.jobType !== 'cleanup') {
+    return NextResponse.json(
+      {
+        error: 'Not found',
+        message: `Cleanup job not found: ${jobId}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const stream = createJobEventStream(
+    jobId,
+    async () => {
+      const current = await migrationStateStore.getMigrationJob(jobId);
+      return snapshotJobEvent(current ?? job);
+    },
+    request.signal
+  );
+
+  return new Response(stream, { headers: JOB_EVENT_STREAM_HEADERS });
+}
@@ -97,8 +97,11 @@ export async function POST(
       matchField: jobMetadata.matchField,
       mode: jobMetadata.mode,
       keepStrategy: jobMetadata.keepStrategy,
+      keepRule: jobMetadata.keepRule,
       batchSize: jobMetadata.batchSize,
       concurrency: jobMetadata.concurrency,
+      fuzzy: jobMetadata.fuzzy,
+      merge: jobMetadata.merge,
       dryRun: false,
       approvedGroups,
     };
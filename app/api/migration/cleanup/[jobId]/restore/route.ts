@@ -0,0 +1,136 @@
+/**
+ * Cleanup Restore API
+ * - GET: Items archived by a cleanup job before deletion, with their restore status
+ * - POST: Recreate selected archived items
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cleanupArchiveStore } from '@/lib/migration/cleanup/archive';
+import { CleanupJobNotFoundError } from '@/lib/migration/cleanup/errors';
+import { restoreArchivedItems } from '@/lib/migration/cleanup/restore';
+import { RestoredCleanupItem } from '@/lib/migration/cleanup/types';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { loadPodioConfig } from '@/lib/podio/config';
+import { getPodioHttpClient } from '@/lib/podio/http/client';
+
+export const runtime = 'nodejs';
+
+const restoreRequestSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1),
+  reuploadFiles: z.boolean().optional(),
+});
+
+/**
+ * GET /api/migration/cleanup/:jobId/restore
+ * List archived items
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job || job.jobType !== 'cleanup') {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: `Cleanup job not found: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const restoredItems = (job.metadata?.restoredItems as RestoredCleanupItem[] | undefined) ?? [];
+    const restoredById = new Map(restoredItems.map((entry) => [entry.itemId, entry]));
+    const archived = await cleanupArchiveStore.getArchivedItems(jobId);
+
+    const items = archived.map((item) => ({
+      itemId: item.itemId,
+      appId: item.appId,
+      title: item.title,
+      matchValue: item.matchValue,
+      keepItemId: item.keepItemId,
+      files: item.files.length,
+      archivedAt: item.archivedAt,
+      restoredItemId: restoredById.get(item.itemId)?.restoredItemId,
+    }));
+
+    return NextResponse.json({ jobId, items, total: items.length }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to list archived cleanup items:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/migration/cleanup/:jobId/restore
+ * Recreate archived items, optionally uploading their archived files again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const parsedBody = restoreRequestSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          message: parsedBody.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check Podio configuration
+    try {
+      loadPodioConfig();
+    } catch (configError) {
+      return NextResponse.json(
+        {
+          error: 'Podio not configured',
+          message: 'Please configure Podio credentials in .env.local',
+        },
+        { status: 503 }
+      );
+    }
+
+    const result = await restoreArchivedItems(getPodioHttpClient(), jobId, parsedBody.data.itemIds, {
+      reuploadFiles: parsedBody.data.reuploadFiles,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Failed to restore archived cleanup items:', error);
+
+    if (error instanceof CleanupJobNotFoundError) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: error.message,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
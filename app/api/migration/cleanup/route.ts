@@ -7,10 +7,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createCleanupJob, getCleanupJobStatus } from '@/lib/migration/cleanup/service';
 import { CleanupRequestPayload } from '@/lib/migration/cleanup/types';
+import { hasMatchKey } from '@/lib/migration/items/match-key';
 import { loadPodioConfig } from '@/lib/podio/config';
 import { migrationStateStore } from '@/lib/migration/state-store';
-import { executeCleanup } from '@/lib/migration/cleanup/executor';
-import { getPodioHttpClient } from '@/lib/podio/http/client';
+import { JobQueueError, JobQueueRequestFields, JobScheduleOptions, jobQueue, parseQueueOptions } from '@/lib/migration/job-queue';
 
 export const runtime = 'nodejs';
 
@@ -20,11 +20,10 @@ export const runtime = 'nodejs';
  */
 export async function GET() {
   try {
-    const jobs = await migrationStateStore.listMigrationJobs();
+    const jobs = await migrationStateStore.listMigrationJobs({ jobType: 'cleanup' });
 
-    // Filter to only cleanup jobs and sort by start time (newest first)
+    // Sort by start time (newest first)
     const cleanupJobs = jobs
-      .filter((job) => job.jobType === 'cleanup')
       .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
       .map((job) => ({
         id: job.id,
@@ -97,7 +96,7 @@ export async function POST(request: NextRequest) {
     body.filters = normalizedFilters;
 
     // Validate required fields
-    if (!body.appId || !body.matchField) {
+    if (!body.appId || !hasMatchKey(body.matchField)) {
       return NextResponse.json(
         {
           error: 'Invalid request',
@@ -117,27 +116,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let queueOptions: JobScheduleOptions;
+    try {
+      queueOptions = parseQueueOptions(body as JobQueueRequestFields);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid queue settings',
+            message: error.message,
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     // Create cleanup job
     const { jobId } = await createCleanupJob(body);
 
-    // Start background job execution (non-blocking)
-    const client = getPodioHttpClient();
-
-    executeCleanup(client, jobId, body).catch(async (error) => {
-      console.error('Background cleanup execution failed:', error);
-      // Update job status to failed so polling clients can detect the failure
-      try {
-        await migrationStateStore.updateJobStatus(jobId, 'failed', error.message);
-      } catch (updateError) {
-        console.error('Failed to update job status to failed:', updateError);
-      }
-    });
+    // Queue the job; the queue rebuilds the request from the job metadata
+    const queueStatus = await jobQueue.enqueue(jobId, queueOptions);
 
     // Return job ID immediately
     return NextResponse.json(
       {
         jobId,
-        status: 'Job created and started',
+        queueStatus,
+        status: queueStatus === 'deferred' ? 'Job created and scheduled' : 'Job created and queued',
       },
       { status: 202 } // 202 Accepted
     );
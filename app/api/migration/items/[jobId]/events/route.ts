@@ -0,0 +1,44 @@
+/**
+ * Item Migration Job Events API - GET endpoint
+ * Server-Sent Events stream of a job's progress, item errors, rate-limit
+ * pauses and completion. Opens with a snapshot of the stored status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import {
+  createJobEventStream,
+  JOB_EVENT_STREAM_HEADERS,
+  snapshotJobEvent,
+} from '@/lib/migration/job-events';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: 'Job not found',
+        message: `No migration job found with ID: ${jobId}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const stream = createJobEventStream(
+    jobId,
+    async () => {
+      const current = await migrationStateStore.getMigrationJob(jobId);
+      return snapshotJobEvent(current ?? job);
+    },
+    request.signal
+  );
+
+  return new Response(stream, { headers: JOB_EVENT_STREAM_HEADERS });
+}
@@ -0,0 +1,113 @@
+/**
+ * Approve Orphan Reconciliation API
+ * - POST: Delete or archive the orphaned target items found by the last detection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { logger } from '@/lib/migration/logging';
+import { applyOrphanAction } from '@/lib/migration/items/orphan-reconciler';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+import { loadPodioConfig } from '@/lib/podio/config';
+
+export const runtime = 'nodejs';
+
+/**
+ * targetItemIds limits the action to part of the detected orphans (default: all)
+ */
+const approveRequestSchema = z.object({
+  targetItemIds: z.array(z.number().int().positive()).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const parsedBody = approveRequestSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          message: 'targetItemIds must be an array of item IDs',
+        },
+        { status: 400 }
+      );
+    }
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const reconciliation = (job.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.orphanReconciliation;
+
+    if (reconciliation?.status !== 'waiting_approval') {
+      return NextResponse.json(
+        {
+          error: 'Nothing to approve',
+          message: reconciliation
+            ? `Orphan reconciliation is '${reconciliation.status}', not waiting for approval.`
+            : 'Run orphan detection first.',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Check Podio configuration
+    try {
+      loadPodioConfig();
+    } catch {
+      return NextResponse.json(
+        {
+          error: 'Podio not configured',
+          message: 'Please configure Podio credentials in .env.local',
+        },
+        { status: 503 }
+      );
+    }
+
+    const targetItemIds = parsedBody.data.targetItemIds;
+
+    console.log('📥 Orphan reconciliation - Approved:', {
+      jobId,
+      action: reconciliation.action,
+      approvedItems: targetItemIds?.length ?? reconciliation.orphans.length,
+    });
+
+    applyOrphanAction(jobId, targetItemIds).catch((error) => {
+      logger.error('Orphan reconciliation failed', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    return NextResponse.json(
+      {
+        jobId,
+        status: `Orphan ${reconciliation.action} started`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to approve orphan reconciliation:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
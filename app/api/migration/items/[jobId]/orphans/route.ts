@@ -0,0 +1,143 @@
+/**
+ * Orphan Reconciliation API
+ * - GET: Last reconciliation (target items whose source item was deleted)
+ * - POST: Compare the source app with the job's item ID map
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { logger } from '@/lib/migration/logging';
+import { runOrphanDetection } from '@/lib/migration/items/orphan-reconciler';
+import { DeletionSyncConfig, ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Action defaults to the job's deletionSync setting, else report-only
+ */
+const detectRequestSchema = z.object({
+  action: z.enum(['delete', 'archive', 'report']).optional(),
+  archiveTag: z.string().trim().min(1).max(100).optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: 'Job not found',
+        message: `No migration job found with ID: ${jobId}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const metadata = (job.metadata || {}) as Partial<ItemMigrationJobMetadata>;
+
+  return NextResponse.json(
+    {
+      jobId,
+      deletionSync: metadata.deletionSync ?? null,
+      orphanReconciliation: metadata.orphanReconciliation ?? null,
+    },
+    { status: 200 }
+  );
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const parsedBody = detectRequestSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          message: parsedBody.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const metadata = (job.metadata || {}) as Partial<ItemMigrationJobMetadata>;
+
+    if (metadata.mode !== 'upsert' && metadata.mode !== 'sync') {
+      return NextResponse.json(
+        {
+          error: 'Unsupported mode',
+          message: `Orphan reconciliation needs an upsert or sync job (this job is in '${metadata.mode || 'create'}' mode).`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const reconciliationStatus = metadata.orphanReconciliation?.status;
+    if (job.status === 'in_progress' || reconciliationStatus === 'detecting' || reconciliationStatus === 'applying') {
+      return NextResponse.json(
+        {
+          error: 'Job busy',
+          message: `Job ${jobId} is still running. Wait for it to finish before reconciling.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const config: DeletionSyncConfig = {
+      action: parsedBody.data.action ?? metadata.deletionSync?.action ?? 'report',
+      archiveTag: parsedBody.data.archiveTag ?? metadata.deletionSync?.archiveTag,
+    };
+
+    console.log('📥 Orphan reconciliation - Detection requested:', {
+      jobId,
+      action: config.action,
+      archiveTag: config.archiveTag,
+    });
+
+    runOrphanDetection(jobId, config).catch((error) => {
+      logger.error('Orphan detection failed', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    return NextResponse.json(
+      {
+        jobId,
+        status: 'Orphan detection started',
+        action: config.action,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to start orphan detection:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
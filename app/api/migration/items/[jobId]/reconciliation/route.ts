@@ -0,0 +1,152 @@
+/**
+ * Reconciliation Report API
+ * - GET: Last field-by-field report (`?format=csv` downloads the differing values)
+ * - POST: Compare the source and target apps of a finished job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { logger } from '@/lib/migration/logging';
+import { readReconciliationCsv, runReconciliation } from '@/lib/migration/items/reconciliation';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+import { loadPodioConfig } from '@/lib/podio/config';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const reconciliation = (job.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.reconciliation;
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const csv = reconciliation?.status === 'completed' ? await readReconciliationCsv(jobId) : null;
+
+      if (csv === null) {
+        return NextResponse.json(
+          {
+            error: 'Report not found',
+            message: 'No completed reconciliation report for this job. Run one first.',
+          },
+          { status: 404 }
+        );
+      }
+
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="reconciliation-${jobId}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        jobId,
+        reconciliation: reconciliation ?? null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to load reconciliation report:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const metadata = (job.metadata || {}) as Partial<ItemMigrationJobMetadata>;
+
+    if (job.status === 'in_progress' || job.status === 'planning' || metadata.reconciliation?.status === 'running') {
+      return NextResponse.json(
+        {
+          error: 'Job busy',
+          message: `Job ${jobId} is still running or already being reconciled.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Check Podio configuration
+    try {
+      loadPodioConfig();
+    } catch {
+      return NextResponse.json(
+        {
+          error: 'Podio not configured',
+          message: 'Please configure Podio credentials in .env.local',
+        },
+        { status: 503 }
+      );
+    }
+
+    console.log('📥 Reconciliation report - Requested:', {
+      jobId,
+      sourceAppId: metadata.sourceAppId,
+      targetAppId: metadata.targetAppId,
+    });
+
+    runReconciliation(jobId).catch((error) => {
+      logger.error('Reconciliation report failed', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    return NextResponse.json(
+      {
+        jobId,
+        status: 'Reconciliation started',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to start reconciliation:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
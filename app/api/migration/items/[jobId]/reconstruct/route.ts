@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { migrationStateStore, MigrationJob } from '@/lib/migration/state-store';
 import { getPodioHttpClient } from '@/lib/podio/http/client';
 import { streamItems, extractFieldValue } from '@/lib/podio/resources/items';
+import { matchKeyFields } from '@/lib/migration/items/match-key';
 
 export const runtime = 'nodejs';
 export const maxDuration = 7200; // 2 hours
@@ -32,7 +33,9 @@ export async function POST(
     const metadata = job.metadata as any;
     const sourceAppId = metadata.sourceAppId;
     const targetAppId = metadata.targetAppId;
-    const matchField = metadata.sourceMatchField || metadata.targetMatchField;
+    // The match field must hold the source item ID, so composite keys do not apply
+    const matchKey = matchKeyFields(metadata.sourceMatchField || metadata.targetMatchField);
+    const matchField = matchKey.length === 1 ? matchKey[0].field : undefined;
 
     if (!sourceAppId || !targetAppId) {
       return NextResponse.json(
@@ -43,7 +46,12 @@ export async function POST(
 
     if (!matchField) {
       return NextResponse.json(
-        { error: 'Invalid job', message: 'Job is missing match field for duplicate detection' },
+        {
+          error: 'Invalid job',
+          message: matchKey.length > 1
+            ? 'Job matches on a composite key; reconstruction needs a single match field holding the source item ID'
+            : 'Job is missing match field for duplicate detection',
+        },
         { status: 400 }
       );
     }
@@ -1,11 +1,12 @@
 /**
  * Item Migration Job Resume API - POST endpoint
- * Resumes a paused migration from its last checkpoint
+ * Queues a paused migration to continue where it stopped
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { migrationStateStore } from '@/lib/migration/state-store';
-import { startItemMigrationJob } from '@/lib/migration/items/runner';
+import { jobQueue } from '@/lib/migration/job-queue';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
 
 export const runtime = 'nodejs';
 
@@ -29,32 +30,18 @@ export async function POST(
       );
     }
 
-    // Check if job is in a resumable state
-    if (job.status !== 'paused' && job.status !== 'failed') {
+    // Pausing an item migration leaves it 'cancelled' (see runner), so that resumes too
+    if (!['paused', 'cancelled', 'failed'].includes(job.status)) {
       return NextResponse.json(
         {
           error: 'Cannot resume job',
-          message: `Job is in '${job.status}' state and cannot be resumed. Only 'paused' or 'failed' jobs can be resumed.`,
+          message: `Job is in '${job.status}' state and cannot be resumed. Only 'paused', 'cancelled' or 'failed' jobs can be resumed.`,
         },
         { status: 400 }
       );
     }
 
-    // Get the latest checkpoint
-    const checkpoint = await migrationStateStore.getLatestBatchCheckpoint(jobId);
-
-    if (!checkpoint) {
-      return NextResponse.json(
-        {
-          error: 'No checkpoint found',
-          message: 'Cannot resume migration without a checkpoint. The migration may need to be restarted.',
-        },
-        { status: 400 }
-      );
-    }
-
-    // Extract migration config from job metadata
-    const metadata = job.metadata as any;
+    const metadata = job.metadata as Partial<ItemMigrationJobMetadata> | undefined;
 
     if (!metadata?.sourceAppId || !metadata?.targetAppId) {
       return NextResponse.json(
@@ -66,42 +53,25 @@ export async function POST(
       );
     }
 
-    // Prepare resume config
-    const resumeConfig = {
-      sourceAppId: metadata.sourceAppId,
-      targetAppId: metadata.targetAppId,
-      batchSize: metadata.batchSize || 500,
-      concurrency: metadata.concurrency || 3,
-      operation: metadata.operation || 'create',
-      fieldMapping: metadata.fieldMapping || {},
-      duplicateCheck: metadata.duplicateCheck,
-      resumeToken: jobId, // Use jobId as resume token
-    };
-
-    // Update job status to in_progress
-    await migrationStateStore.updateJobStatus(jobId, 'in_progress');
+    const checkpoint = await migrationStateStore.getLatestBatchCheckpoint(jobId);
 
-    // Start migration in background (non-blocking)
-    startItemMigrationJob(resumeConfig)
-      .then(() => {
-        console.log(`Migration ${jobId} resumed successfully`);
-      })
-      .catch((error) => {
-        console.error(`Migration ${jobId} failed after resume:`, error);
-      });
+    // Queue the job; the resumed run skips source items already in the job's ID map
+    await jobQueue.enqueue(jobId, { reason: 'resume', resume: true });
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Migration resumed successfully',
+        message: 'Migration queued to resume',
         jobId,
-        checkpoint: {
-          batchNumber: checkpoint.batchNumber,
-          offset: checkpoint.offset,
-          itemsProcessed: checkpoint.itemsProcessed,
-        },
+        checkpoint: checkpoint
+          ? {
+              batchNumber: checkpoint.batchNumber,
+              offset: checkpoint.offset,
+              itemsProcessed: checkpoint.itemsProcessed,
+            }
+          : null,
       },
-      { status: 200 }
+      { status: 202 }
     );
   } catch (error) {
     console.error('Failed to resume migration:', error);
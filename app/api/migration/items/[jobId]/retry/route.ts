@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { migrationStateStore, FieldMappingHistoryEntry } from '@/lib/migration/state-store';
-import { runItemMigrationJob } from '@/lib/migration/items/runner';
+import { jobQueue } from '@/lib/migration/job-queue';
 import { failureLogger } from '@/lib/migration/items/failure-logger';
 import { logger } from '@/lib/migration/logging';
 import { validateFieldMappingForRetry } from '@/lib/migration/items/service';
@@ -179,13 +179,13 @@ export async function POST(
       );
     }
 
-    // Implicit lock: check job status to prevent retrying an already in-progress job
+    // Implicit lock: check job status to prevent retrying an already queued or in-progress job
     // This provides distributed safety when the in-memory lock doesn't help
-    if (job.status === 'in_progress') {
+    if (['in_progress', 'planning', 'queued', 'deferred'].includes(job.status)) {
       return releaseAndRespond(
         {
           error: 'Retry in progress',
-          message: `Job ${jobId} is already in progress. Please wait for it to complete before retrying.`,
+          message: `Job ${jobId} is already ${job.status === 'in_progress' ? 'in progress' : job.status}. Please wait for it to complete before retrying.`,
         },
         { status: 409 }
       );
@@ -341,36 +341,22 @@ export async function POST(
       metadata.fieldMapping = fieldMappingToUse!;
     }
 
-    // Atomically update metadata + job status + heartbeat
-    // This avoids partial updates where the mapping history is saved but status isn't (or vice versa)
+    // Save the mapping history before queueing, so the runner sees the updated mapping
     await migrationStateStore.saveMigrationJob({
       ...job,
-      status: 'in_progress',
-      lastHeartbeat: new Date(),
       metadata,
     });
 
-    // Start retry in background (non-blocking)
-    // The runner will pick up the failed items and updated field mapping from the job state
-    runItemMigrationJob(jobId)
-      .then(() => {
-        logger.info('Migration retry completed successfully', { jobId });
-      })
-      .catch((error) => {
-        logger.error('Migration retry failed', {
-          jobId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      })
-      .finally(() => {
-        // Remove from retrying set when done
-        releaseRetryLock(jobId);
-      });
+    // Queue the retry; the runner picks up the failed items and updated field
+    // mapping from the job state. From here the queued status guards against
+    // a second retry, so the in-memory lock can go.
+    await jobQueue.enqueue(jobId, { reason: 'retry' });
+    releaseRetryLock(jobId);
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Retrying failed items',
+        message: 'Retry of failed items queued',
         jobId,
         failedItemsCount: failedCount,
         retryAttempt: retryAttempts,
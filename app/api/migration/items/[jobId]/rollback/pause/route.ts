@@ -0,0 +1,67 @@
+/**
+ * Item Migration Rollback Pause API - POST endpoint
+ * Requests a graceful pause; the rollback stops after its current batch
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pauseMigration } from '@/lib/migration/shutdown-handler';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { getItemRollbackJob } from '@/lib/migration/items/rollback';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+    const rollbackJobId = (job?.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.rollbackJobId;
+    const rollback = rollbackJobId ? await getItemRollbackJob(rollbackJobId) : null;
+
+    if (!rollback) {
+      return NextResponse.json(
+        {
+          error: 'Rollback not found',
+          message: `No rollback found for migration job: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (rollback.status !== 'in_progress') {
+      return NextResponse.json(
+        {
+          error: 'Cannot pause rollback',
+          message: `Rollback is in '${rollback.status}' state and cannot be paused. Only rollbacks in 'in_progress' state can be paused.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    await pauseMigration(rollback.jobId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Rollback paused successfully',
+        jobId,
+        rollbackJobId: rollback.jobId,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to pause rollback:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
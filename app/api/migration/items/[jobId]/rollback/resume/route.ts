@@ -0,0 +1,68 @@
+/**
+ * Item Migration Rollback Resume API - POST endpoint
+ * Resumes a paused or failed rollback; items already rolled back are skipped
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { getItemRollbackJob } from '@/lib/migration/items/rollback';
+import { jobQueue } from '@/lib/migration/job-queue';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+    const rollbackJobId = (job?.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.rollbackJobId;
+    const rollback = rollbackJobId ? await getItemRollbackJob(rollbackJobId) : null;
+
+    if (!rollback) {
+      return NextResponse.json(
+        {
+          error: 'Rollback not found',
+          message: `No rollback found for migration job: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (rollback.dryRun || (rollback.status !== 'paused' && rollback.status !== 'failed')) {
+      return NextResponse.json(
+        {
+          error: 'Cannot resume rollback',
+          message: `Rollback is in '${rollback.status}' state and cannot be resumed. Only 'paused' or 'failed' rollbacks can be resumed.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Queue the rollback; rolled-back items are skipped when it runs again
+    await jobQueue.enqueue(rollback.jobId, { reason: 'resume', resume: true });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Rollback queued to resume',
+        jobId,
+        rollbackJobId: rollback.jobId,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to resume rollback:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
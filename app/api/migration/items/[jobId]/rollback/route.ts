@@ -0,0 +1,160 @@
+/**
+ * Item Migration Rollback API
+ * - GET: Status of the latest rollback of a job
+ * - POST: Undo a job - delete the items it created and restore the values it overwrote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { getItemRollbackJob } from '@/lib/migration/items/rollback';
+import { jobQueue } from '@/lib/migration/job-queue';
+import { ItemMigrationJobMetadata, ItemRollbackJobMetadata } from '@/lib/migration/items/types';
+import { loadPodioConfig } from '@/lib/podio/config';
+
+export const runtime = 'nodejs';
+
+const rollbackRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+  batchSize: z.number().int().min(1).max(500).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: 'Job not found',
+        message: `No migration job found with ID: ${jobId}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const rollbackJobId = (job.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.rollbackJobId;
+  const rollback = rollbackJobId ? await getItemRollbackJob(rollbackJobId) : null;
+
+  return NextResponse.json({ jobId, rollback }, { status: 200 });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const parsedBody = rollbackRequestSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          message: parsedBody.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job || job.jobType === 'item_rollback') {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === 'in_progress' || job.status === 'planning') {
+      return NextResponse.json(
+        {
+          error: 'Job busy',
+          message: `Job ${jobId} is still running. Pause it or wait for it to finish before rolling back.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const metadata = (job.metadata || {}) as Partial<ItemMigrationJobMetadata>;
+    const previous = metadata.rollbackJobId ? await getItemRollbackJob(metadata.rollbackJobId) : null;
+
+    if (previous && (previous.status === 'in_progress' || previous.status === 'paused')) {
+      return NextResponse.json(
+        {
+          error: 'Rollback in progress',
+          message: previous.status === 'paused'
+            ? `Rollback ${previous.jobId} is paused. Resume it instead of starting another one.`
+            : `Rollback ${previous.jobId} is already running.`,
+          rollbackJobId: previous.jobId,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Check Podio configuration
+    try {
+      loadPodioConfig();
+    } catch {
+      return NextResponse.json(
+        {
+          error: 'Podio not configured',
+          message: 'Please configure Podio credentials in .env.local',
+        },
+        { status: 503 }
+      );
+    }
+
+    const rollbackMetadata: ItemRollbackJobMetadata = {
+      jobType: 'item_rollback',
+      migrationJobId: jobId,
+      sourceAppId: Number(metadata.sourceAppId),
+      targetAppId: Number(metadata.targetAppId),
+      dryRun: parsedBody.data.dryRun ?? false,
+      batchSize: parsedBody.data.batchSize ?? 100,
+      concurrency: parsedBody.data.concurrency ?? 3,
+    };
+
+    const rollbackJob = await migrationStateStore.createMigrationJob(
+      String(rollbackMetadata.sourceAppId),
+      String(rollbackMetadata.targetAppId),
+      { ...rollbackMetadata }
+    );
+    await migrationStateStore.updateJobMetadata(jobId, { rollbackJobId: rollbackJob.id });
+
+    console.log('📥 Item migration rollback - Requested:', {
+      jobId,
+      rollbackJobId: rollbackJob.id,
+      dryRun: rollbackMetadata.dryRun,
+    });
+
+    await jobQueue.enqueue(rollbackJob.id);
+
+    return NextResponse.json(
+      {
+        jobId,
+        rollbackJobId: rollbackJob.id,
+        dryRun: rollbackMetadata.dryRun,
+        status: rollbackMetadata.dryRun ? 'Rollback preview queued' : 'Rollback queued',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to start rollback:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
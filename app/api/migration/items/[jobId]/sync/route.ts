@@ -0,0 +1,91 @@
+/**
+ * Item Migration Sync API - POST endpoint
+ * Starts another run of a sync-mode job, mirroring source items edited since
+ * the job's watermark (scheduled runs call this endpoint)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { jobQueue } from '@/lib/migration/job-queue';
+import { logger } from '@/lib/migration/logging';
+import { ItemMigrationJobMetadata } from '@/lib/migration/items/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { jobId } = await params;
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const metadata = (job.metadata || {}) as Partial<ItemMigrationJobMetadata>;
+
+    if (metadata.mode !== 'sync') {
+      return NextResponse.json(
+        {
+          error: 'Not a sync job',
+          message: `Job is in '${metadata.mode || 'create'}' mode. Only jobs created in 'sync' mode can be synced again.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (['in_progress', 'planning', 'queued', 'deferred'].includes(job.status)) {
+      return NextResponse.json(
+        {
+          error: 'Sync in progress',
+          message: `Job ${jobId} is already ${job.status === 'in_progress' || job.status === 'planning' ? 'running' : job.status}. Wait for the current run to finish.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const watermark = metadata.resumption?.lastProcessedTimestamp;
+
+    console.log('📥 Item migration sync - Run requested:', {
+      jobId,
+      watermark: watermark ?? null,
+      previousRuns: metadata.sync?.runs || 0,
+    });
+
+    // Queue the run before returning so a second trigger gets a 409
+    await jobQueue.enqueue(jobId, { reason: 'sync' });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: watermark
+          ? `Syncing items edited since ${watermark}`
+          : 'No watermark yet - syncing all items',
+        jobId,
+        watermark: watermark ?? null,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    logger.error('Failed to start sync run', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Field Mapping Suggestions API - POST endpoint
+ * Ranks target field candidates for each source field by label similarity,
+ * type compatibility and category option overlap
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestFieldMapping } from '@/lib/migration/items/service';
+import { FieldMapping } from '@/lib/migration/items/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Body: { sourceAppId, targetAppId, currentMapping? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sourceAppId, targetAppId, currentMapping } = body as {
+      sourceAppId?: number | string;
+      targetAppId?: number | string;
+      currentMapping?: FieldMapping;
+    };
+
+    if (!sourceAppId || !targetAppId) {
+      return NextResponse.json(
+        { error: 'sourceAppId and targetAppId are required' },
+        { status: 400 }
+      );
+    }
+
+    const suggestions = await suggestFieldMapping(
+      parseInt(String(sourceAppId)),
+      parseInt(String(targetAppId)),
+      currentMapping
+    );
+
+    return NextResponse.json({ suggestions }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to suggest field mapping:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
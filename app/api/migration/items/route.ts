@@ -5,12 +5,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createItemMigrationJob } from '@/lib/migration/items/service';
-import { runItemMigrationJob } from '@/lib/migration/items/runner';
+import { createItemMigrationJob, IncompatibleFieldTypesError } from '@/lib/migration/items/service';
+import { JobQueueError, JobQueueRequestFields, JobScheduleOptions, jobQueue, parseQueueOptions } from '@/lib/migration/job-queue';
 import { ItemMigrationRequestPayload } from '@/lib/migration/items/types';
 import { loadPodioConfig } from '@/lib/podio/config';
 import { migrationStateStore } from '@/lib/migration/state-store';
 import { isValidFieldId } from '@/lib/migration/items/field-mapping';
+import { validateFieldTransforms } from '@/lib/migration/items/field-transforms';
+import { validateContactMapping } from '@/lib/migration/items/contact-resolver';
+import { validateDeletionSync } from '@/lib/migration/items/orphan-reconciler';
 
 export const runtime = 'nodejs';
 
@@ -113,6 +116,12 @@ export async function POST(request: NextRequest) {
       concurrency: body.concurrency,
       maxItems: body.maxItems,
       transferFiles: body.transferFiles,
+      transferComments: body.transferComments,
+      transferTasks: body.transferTasks,
+      includeCompletedTasks: body.includeCompletedTasks,
+      createMissingCategoryOptions: body.createMissingCategoryOptions,
+      contactFallback: body.contactMapping?.fallback,
+      deletionSync: body.deletionSync?.action,
       dryRun: body.dryRun,
     });
 
@@ -150,26 +159,95 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate value transforms (if provided)
+    if (body.fieldTransforms) {
+      const transformErrors = validateFieldTransforms(body.fieldTransforms);
+      if (transformErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid field transforms',
+            message: transformErrors.join('; '),
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate contact mapping (if provided)
+    if (body.contactMapping) {
+      const contactErrors = validateContactMapping(body.contactMapping);
+      if (contactErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid contact mapping',
+            message: contactErrors.join('; '),
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.deletionSync) {
+      const deletionErrors = validateDeletionSync(body.deletionSync);
+      if (body.mode !== 'upsert' && body.mode !== 'sync') {
+        deletionErrors.push('deletionSync requires upsert or sync mode');
+      }
+      if (deletionErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid deletion sync settings',
+            message: deletionErrors.join('; '),
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    let queueOptions: JobScheduleOptions;
+    try {
+      queueOptions = parseQueueOptions(body as JobQueueRequestFields);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid queue settings',
+            message: error.message,
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     // Create migration job
     const { jobId, fieldMapping } = await createItemMigrationJob(body);
 
-    // Start background job execution (non-blocking)
-    runItemMigrationJob(jobId).catch((error) => {
-      console.error('Background job execution failed:', error);
-    });
+    // Queue the job; it starts once a slot is free (and its runAt has passed)
+    const queueStatus = await jobQueue.enqueue(jobId, queueOptions);
 
     // Return job ID and field mapping immediately
     return NextResponse.json(
       {
         jobId,
         fieldMapping,
-        status: 'Job created and started',
+        queueStatus,
+        status: queueStatus === 'deferred' ? 'Job created and scheduled' : 'Job created and queued',
       },
       { status: 202 } // 202 Accepted
     );
   } catch (error) {
     console.error('Failed to create item migration job:', error);
 
+    if (error instanceof IncompatibleFieldTypesError) {
+      return NextResponse.json(
+        {
+          error: 'Incompatible field types',
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         error: 'Internal server error',
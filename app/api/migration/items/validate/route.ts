@@ -6,7 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { itemMigrator } from '@/lib/migration/items/item-migrator';
+import { findIncompatibleFieldPairs } from '@/lib/migration/items/service';
+import { describeIncompatibleFields } from '@/lib/migration/items/type-conversion';
 import { FIELD_ID_PATTERN } from '@/lib/migration/items/field-mapping';
+import { validateFieldTransforms } from '@/lib/migration/items/field-transforms';
+import { validateContactMapping } from '@/lib/migration/items/contact-resolver';
+import { ContactMappingConfig, FieldTransforms } from '@/lib/migration/items/types';
 
 export const runtime = 'nodejs';
 
@@ -23,6 +28,28 @@ const ValidationRequestSchema = z.object({
       (mapping) => Object.keys(mapping).length > 0,
       'Field mapping must contain at least one field'
     ),
+  fieldTransforms: z
+    .record(z.array(z.object({ type: z.string() }).passthrough()))
+    .optional()
+    .superRefine((transforms, ctx) => {
+      if (!transforms) return;
+      for (const message of validateFieldTransforms(transforms as FieldTransforms)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    }),
+  contactMapping: z
+    .object({
+      fallback: z.enum(['drop', 'default_user', 'note']).optional(),
+      defaultProfileId: z.number().int().positive().optional(),
+      noteFieldId: z.string().regex(FIELD_ID_PATTERN, 'Field ID must be a numeric string (max 15 digits)').optional(),
+    })
+    .optional()
+    .superRefine((contactMapping, ctx) => {
+      if (!contactMapping) return;
+      for (const message of validateContactMapping(contactMapping)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    }),
 });
 
 /**
@@ -49,11 +76,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Pairs without a converter are rejected in every mode, so report them as a bad request
+    const incompatible = await findIncompatibleFieldPairs(
+      parsed.data.fieldMapping,
+      parsed.data.sourceAppId,
+      parsed.data.targetAppId
+    );
+    if (incompatible.length > 0) {
+      return NextResponse.json(
+        {
+          valid: false,
+          error: describeIncompatibleFields(incompatible),
+          testedItems: 0,
+          successfulCreates: 0,
+          failedCreates: 0,
+        },
+        { status: 400 }
+      );
+    }
+
     // Run validation
     const result = await itemMigrator.validateFieldMapping({
       sourceAppId: parsed.data.sourceAppId,
       targetAppId: parsed.data.targetAppId,
       fieldMapping: parsed.data.fieldMapping,
+      fieldTransforms: parsed.data.fieldTransforms as FieldTransforms | undefined,
+      contactMapping: parsed.data.contactMapping as ContactMappingConfig | undefined,
       mode: 'create',
       batchSize: 500,
       concurrency: 5,
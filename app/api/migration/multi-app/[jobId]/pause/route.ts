@@ -0,0 +1,62 @@
+/**
+ * Multi-App Migration Job Pause API - POST endpoint
+ * Requests a graceful pause; the app being migrated stops at its next progress update
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pauseMigration } from '@/lib/migration/shutdown-handler';
+import { migrationStateStore } from '@/lib/migration/state-store';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job || job.jobType !== 'multi_app_migration') {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No multi-app migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'in_progress') {
+      return NextResponse.json(
+        {
+          error: 'Cannot pause job',
+          message: `Job is in '${job.status}' state and cannot be paused. Only jobs in 'in_progress' state can be paused.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    await pauseMigration(jobId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Multi-app migration paused successfully',
+        jobId,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to pause multi-app migration:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
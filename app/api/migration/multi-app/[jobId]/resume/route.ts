@@ -0,0 +1,68 @@
+/**
+ * Multi-App Migration Job Resume API - POST endpoint
+ * Resumes a paused or failed job from the first app that has not completed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrationStateStore } from '@/lib/migration/state-store';
+import { jobQueue } from '@/lib/migration/job-queue';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const job = await migrationStateStore.getMigrationJob(jobId);
+
+    if (!job || job.jobType !== 'multi_app_migration') {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: `No multi-app migration job found with ID: ${jobId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'paused' && job.status !== 'failed') {
+      return NextResponse.json(
+        {
+          error: 'Cannot resume job',
+          message: `Job is in '${job.status}' state and cannot be resumed. Only 'paused' or 'failed' jobs can be resumed.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const remainingApps = (job.appProgress || [])
+      .filter((app) => app.status !== 'completed')
+      .map((app) => app.sourceAppId);
+
+    // Queue the job; it restarts at the first app that has not completed
+    await jobQueue.enqueue(jobId, { reason: 'resume', resume: true });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Multi-app migration queued to resume',
+        jobId,
+        remainingApps,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Failed to resume multi-app migration:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
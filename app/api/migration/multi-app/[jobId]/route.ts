@@ -0,0 +1,43 @@
+/**
+ * Multi-App Migration Job Status API - GET endpoint
+ * Returns overall and per-app progress of a multi-app migration job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMultiAppMigrationStatus } from '@/lib/migration/multi-app/service';
+import { MultiAppJobNotFoundError } from '@/lib/migration/multi-app/errors';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const status = await getMultiAppMigrationStatus(jobId);
+
+    return NextResponse.json(status, { status: 200 });
+  } catch (error) {
+    if (error instanceof MultiAppJobNotFoundError) {
+      return NextResponse.json(
+        {
+          error: 'Job not found',
+          message: error.message,
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error('Failed to get multi-app migration status:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Multi-App Migration API
+ * - GET: List multi-app migration jobs
+ * - POST: Create and queue a multi-app migration job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createMultiAppMigrationJob } from '@/lib/migration/multi-app/service';
+import { JobQueueError, JobQueueRequestFields, JobScheduleOptions, jobQueue, parseQueueOptions } from '@/lib/migration/job-queue';
+import { MultiAppValidationError } from '@/lib/migration/multi-app/errors';
+import { MultiAppMigrationRequestPayload } from '@/lib/migration/multi-app/types';
+import { loadPodioConfig } from '@/lib/podio/config';
+import { migrationStateStore } from '@/lib/migration/state-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/migration/multi-app
+ * List multi-app migration jobs (newest first)
+ */
+export async function GET() {
+  try {
+    const jobs = await migrationStateStore.listMigrationJobs({ jobType: 'multi_app_migration' });
+
+    const migrations = jobs
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+      .map((job) => ({
+        id: job.id,
+        status: job.status,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        appProgress: job.appProgress || [],
+        metadata: job.metadata,
+      }));
+
+    return NextResponse.json({ migrations, total: migrations.length }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to list multi-app migrations:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/migration/multi-app
+ * Create a multi-app migration job and queue it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check Podio configuration
+    try {
+      loadPodioConfig();
+    } catch (configError) {
+      return NextResponse.json(
+        {
+          error: 'Podio not configured',
+          message: 'Please configure Podio credentials in .env.local',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = (await request.json()) as MultiAppMigrationRequestPayload;
+
+    console.log('📥 Multi-app migration API - Request received:', {
+      apps: body.apps?.map((app) => ({
+        sourceAppId: app.sourceAppId,
+        targetAppId: app.targetAppId,
+        mode: app.mode,
+      })),
+      batchSize: body.batchSize,
+      concurrency: body.concurrency,
+      stopOnError: body.stopOnError,
+      transferFiles: body.transferFiles,
+      transferComments: body.transferComments,
+      transferTasks: body.transferTasks,
+    });
+
+    let queueOptions: JobScheduleOptions;
+    try {
+      queueOptions = parseQueueOptions(body as JobQueueRequestFields);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid queue settings',
+            message: error.message,
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const { jobId, executionOrder, cyclicApps } = await createMultiAppMigrationJob(body);
+
+    // Queue the job; it starts once a slot is free (and its runAt has passed)
+    const queueStatus = await jobQueue.enqueue(jobId, queueOptions);
+
+    return NextResponse.json(
+      {
+        jobId,
+        executionOrder,
+        cyclicApps,
+        queueStatus,
+        status: queueStatus === 'deferred' ? 'Job created and scheduled' : 'Job created and queued',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof MultiAppValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to create multi-app migration job:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
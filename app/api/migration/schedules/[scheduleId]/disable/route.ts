@@ -0,0 +1,34 @@
+/**
+ * Job Schedule Disable API - POST endpoint
+ * Turns a schedule off; a run that already started keeps going
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ScheduleNotFoundError, setScheduleEnabled } from '@/lib/migration/schedules/service';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    const schedule = await setScheduleEnabled(scheduleId, false);
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return NextResponse.json({ error: 'Schedule not found', message: error.message }, { status: 404 });
+    }
+    console.error('Failed to disable schedule:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
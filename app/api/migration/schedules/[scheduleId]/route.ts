@@ -0,0 +1,79 @@
+/**
+ * Job Schedule API
+ * GET    - Schedule with its run history
+ * PATCH  - Change name, cron, job, sinceLastRun, priority or enabled
+ * DELETE - Remove the schedule (jobs it created are kept)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteSchedule,
+  getSchedule,
+  ScheduleNotFoundError,
+  ScheduleValidationError,
+  updateSchedule,
+} from '@/lib/migration/schedules/service';
+import { JobScheduleInput } from '@/lib/migration/schedules/types';
+
+export const runtime = 'nodejs';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ScheduleNotFoundError) {
+    return NextResponse.json({ error: 'Schedule not found', message: error.message }, { status: 404 });
+  }
+  if (error instanceof ScheduleValidationError) {
+    return NextResponse.json({ error: 'Invalid schedule', message: error.message }, { status: 400 });
+  }
+  console.error(`Failed to ${action} schedule:`, error);
+
+  return NextResponse.json(
+    {
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    const schedule = await getSchedule(scheduleId);
+
+    return NextResponse.json({ schedule: { ...schedule, lastRun: schedule.history[0] ?? null } });
+  } catch (error) {
+    return errorResponse(error, 'get');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    const body = (await request.json()) as Partial<JobScheduleInput>;
+    const schedule = await updateSchedule(scheduleId, body);
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    await deleteSchedule(scheduleId);
+
+    return NextResponse.json({ success: true, scheduleId });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
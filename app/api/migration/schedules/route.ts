@@ -0,0 +1,60 @@
+/**
+ * Job Schedules API
+ * GET  - List recurring job schedules with their recent runs
+ * POST - Create a schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSchedule, listSchedules, ScheduleValidationError } from '@/lib/migration/schedules/service';
+import { JobScheduleInput } from '@/lib/migration/schedules/types';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const schedules = await listSchedules();
+
+    return NextResponse.json({
+      schedules: schedules.map((schedule) => ({
+        ...schedule,
+        lastRun: schedule.history[0] ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to list schedules:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { name, cron, job, enabled?, sinceLastRun?, priority? }
+ * `job` is an item migration or cleanup request body plus `type`, as in a CLI job spec
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as JobScheduleInput;
+    const schedule = await createSchedule(body);
+
+    return NextResponse.json({ success: true, schedule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScheduleValidationError) {
+      return NextResponse.json({ error: 'Invalid schedule', message: error.message }, { status: 400 });
+    }
+    console.error('Failed to create schedule:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
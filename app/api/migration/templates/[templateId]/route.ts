@@ -0,0 +1,81 @@
+/**
+ * Job Template API
+ * GET    - Template with its job spec
+ * PATCH  - Change name, description or spec
+ * DELETE - Remove the template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteTemplate,
+  getTemplate,
+  TemplateNotFoundError,
+  TemplateValidationError,
+  updateTemplate,
+} from '@/lib/migration/templates/service';
+import { JobTemplateInput } from '@/lib/migration/templates/types';
+
+export const runtime = 'nodejs';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof TemplateNotFoundError) {
+    return NextResponse.json({ error: 'Template not found', message: error.message }, { status: 404 });
+  }
+  if (error instanceof TemplateValidationError) {
+    return NextResponse.json({ error: 'Invalid template', message: error.message }, { status: 400 });
+  }
+  console.error(`Failed to ${action} template:`, error);
+
+  return NextResponse.json(
+    {
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    return NextResponse.json({ template: await getTemplate(templateId) });
+  } catch (error) {
+    return errorResponse(error, 'get');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const body = (await request.json()) as Partial<JobTemplateInput>;
+    const template = await updateTemplate(templateId, {
+      name: body.name,
+      description: body.description,
+      spec: body.spec,
+    });
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    await deleteTemplate(templateId);
+
+    return NextResponse.json({ success: true, templateId });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
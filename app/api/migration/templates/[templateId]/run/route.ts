@@ -0,0 +1,64 @@
+/**
+ * Job Template Run API - POST endpoint
+ * Creates a new job from a template and queues it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue, JobQueueError, JobQueueRequestFields, parseQueueOptions } from '@/lib/migration/job-queue';
+import {
+  createJobFromTemplate,
+  TemplateNotFoundError,
+  TemplateValidationError,
+} from '@/lib/migration/templates/service';
+
+export const runtime = 'nodejs';
+
+/**
+ * Body: { overrides?, priority?, runAt? }
+ * `overrides` replaces top-level spec keys for this job only (e.g. `{ "targetAppId": 123 }`)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const body = ((await request.json().catch(() => ({}))) ?? {}) as JobQueueRequestFields & {
+      overrides?: Record<string, unknown>;
+    };
+
+    let queueOptions;
+    try {
+      queueOptions = parseQueueOptions(body);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return NextResponse.json({ error: 'Invalid queue settings', message: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const { jobId, spec } = await createJobFromTemplate(templateId, body.overrides);
+    const queueStatus = await jobQueue.enqueue(jobId, queueOptions);
+
+    return NextResponse.json(
+      { success: true, jobId, jobType: spec.type, queueStatus },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({ error: 'Template not found', message: error.message }, { status: 404 });
+    }
+    if (error instanceof TemplateValidationError) {
+      return NextResponse.json({ error: 'Invalid template', message: error.message }, { status: 400 });
+    }
+    console.error('Failed to run template:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
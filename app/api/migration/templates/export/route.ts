@@ -0,0 +1,37 @@
+/**
+ * Job Templates Export API - GET endpoint
+ * Downloads templates as a JSON file; `?ids=a,b` limits the export
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportTemplates, TemplateNotFoundError } from '@/lib/migration/templates/service';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const ids = request.nextUrl.searchParams.get('ids');
+    const file = await exportTemplates(ids ? ids.split(',').filter(Boolean) : undefined);
+    const fileName = `job-templates-${file.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(file, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({ error: 'Template not found', message: error.message }, { status: 404 });
+    }
+    console.error('Failed to export templates:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Job Templates Import API - POST endpoint
+ * Body: the contents of an exported templates file. Each template is added as
+ * a new one; invalid entries are listed in `errors`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importTemplates, TemplateValidationError } from '@/lib/migration/templates/service';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    let file: unknown;
+    try {
+      file = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid templates file', message: 'File is not valid JSON' }, { status: 400 });
+    }
+
+    const result = await importTemplates(file);
+
+    return NextResponse.json({ success: result.errors.length === 0, ...result });
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return NextResponse.json({ error: 'Invalid templates file', message: error.message }, { status: 400 });
+    }
+    console.error('Failed to import templates:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
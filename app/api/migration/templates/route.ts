@@ -0,0 +1,53 @@
+/**
+ * Job Templates API
+ * GET  - List saved templates
+ * POST - Save a template from a job spec, or from an existing job's configuration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createTemplate, listTemplates, TemplateValidationError } from '@/lib/migration/templates/service';
+import { JobTemplateInput } from '@/lib/migration/templates/types';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const templates = await listTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Failed to list templates:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { name, description?, spec } or { name, description?, fromJobId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as JobTemplateInput;
+    const template = await createTemplate(body);
+
+    return NextResponse.json({ success: true, template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplateValidationError) {
+      return NextResponse.json({ error: 'Invalid template', message: error.message }, { status: 400 });
+    }
+    console.error('Failed to save template:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
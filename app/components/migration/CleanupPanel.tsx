@@ -7,8 +7,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useCleanup } from '@/app/hooks/useCleanup';
-import { DuplicateGroup, CleanupMode, KeepStrategy } from '@/lib/migration/cleanup/types';
+import { DuplicateGroup, CleanupMode, FieldMergeRule, KeepStrategy, SimilarityAlgorithm } from '@/lib/migration/cleanup/types';
+import { MatchKey } from '@/lib/migration/items/types';
 import { AppFieldInfo } from './FieldMappingRow';
+import { MatchKeyEditor, MatchKeyRow, emptyMatchKeyRow, toMatchKey } from './MatchKeyEditor';
 import { DuplicateGroupsPreview } from './DuplicateGroupsPreview';
 
 export interface CleanupPanelProps {
@@ -30,21 +32,43 @@ interface CleanupJobListItem {
   };
   metadata?: {
     appId: number;
-    matchField: string;
+    matchField: MatchKey;
     mode: CleanupMode;
     dryRun?: boolean;
   };
 }
 
+const MERGE_RULE_LABELS: Record<FieldMergeRule, string> = {
+  fill_empty: 'Fill if empty',
+  union: 'Combine all values',
+  prefer_newest: 'Newest edited value',
+  keep: 'Keep as is',
+};
+
+// Field types whose values can be combined (category only when it allows several options)
+const MULTI_VALUE_FIELD_TYPES = ['category', 'app', 'contact', 'phone', 'tel', 'email'];
+const READ_ONLY_FIELD_TYPES = ['calculation', 'created_on', 'created_by', 'created_via'];
+
 export function CleanupPanel({ appId }: CleanupPanelProps) {
-  const [matchField, setMatchField] = useState<string>('');
+  const [matchKeyRows, setMatchKeyRows] = useState<MatchKeyRow[]>(() => [emptyMatchKeyRow(1)]);
   const [mode, setMode] = useState<CleanupMode>('manual');
   const [keepStrategy, setKeepStrategy] = useState<KeepStrategy>('oldest');
+  const [keepRule, setKeepRule] = useState<string>('');
   const [dryRun, setDryRun] = useState<boolean>(true);
   const [batchSize, setBatchSize] = useState<number>(100);
   const [concurrency, setConcurrency] = useState<number>(3);
   const [maxGroups, setMaxGroups] = useState<number | undefined>(undefined);
 
+  // Fuzzy matching state
+  const [fuzzyEnabled, setFuzzyEnabled] = useState(false);
+  const [fuzzyAlgorithm, setFuzzyAlgorithm] = useState<SimilarityAlgorithm>('token_set');
+  const [fuzzyThreshold, setFuzzyThreshold] = useState<number>(0.85);
+
+  // Merge state
+  const [mergeEnabled, setMergeEnabled] = useState(false);
+  const [mergeRules, setMergeRules] = useState<Record<string, FieldMergeRule>>({});
+  const [showMergeRules, setShowMergeRules] = useState(false);
+
   // Source filters state
   const [showSourceFilters, setShowSourceFilters] = useState(false);
   const [createdFrom, setCreatedFrom] = useState<string>('');
@@ -192,15 +216,21 @@ export function CleanupPanel({ appId }: CleanupPanelProps) {
         }
       : undefined;
 
+    const matchField = toMatchKey(matchKeyRows, 0);
+    if (!matchField) return;
+
     await startCleanup({
       matchField,
       mode,
       ...(mode === 'automated' && { keepStrategy }),
+      ...(mode === 'automated' && keepStrategy === 'custom' && { keepRule: keepRule.trim() }),
       dryRun,
       batchSize,
       concurrency,
       maxGroups,
       filters,
+      ...(fuzzyEnabled && { fuzzy: { algorithm: fuzzyAlgorithm, threshold: fuzzyThreshold } }),
+      ...(mergeEnabled && { merge: { rules: mergeRules } }),
     });
   };
 
@@ -244,7 +274,8 @@ export function CleanupPanel({ appId }: CleanupPanelProps) {
   const cleanupsTotalCount = allCleanups.length;
   const cleanupsHasMore = (cleanupsPage + 1) * CLEANUPS_PER_PAGE < cleanupsTotalCount;
 
-  const canStart = !!(appId && matchField);
+  const canStart =
+    !!(appId && toMatchKey(matchKeyRows, 0)) && !(mode === 'automated' && keepStrategy === 'custom' && !keepRule.trim());
   const isRunning = isCreating || isPolling || isExecuting;
 
   // Check if any source filters are active (for badge display)
@@ -418,30 +449,75 @@ export function CleanupPanel({ appId }: CleanupPanelProps) {
       {/* Configuration Section */}
       {!jobId && (
         <div className="space-y-4">
-          {/* Match Field */}
+          {/* Match Key */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Match Field
-              <span className="text-red-500 ml-1">*</span>
-            </label>
-            <select
-              value={matchField}
-              onChange={(e) => setMatchField(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-              disabled={isLoadingFields || !appId}
-            >
-              <option value="">Select a field...</option>
-              {appFields.map((field) => (
-                <option key={field.external_id} value={field.external_id}>
-                  {field.label} ({field.type})
-                </option>
-              ))}
-            </select>
+            <MatchKeyEditor
+              columns={[
+                {
+                  label: <>Match Field<span className="text-red-500 ml-1">*</span></>,
+                  placeholder: 'Select a field...',
+                  fields: isLoadingFields || !appId ? [] : appFields,
+                },
+              ]}
+              rows={matchKeyRows}
+              onChange={setMatchKeyRows}
+            />
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              Items with the same value in this field will be considered duplicates
+              Items with the same value in this field (in all fields, for several) will be considered duplicates
             </p>
           </div>
 
+          {/* Fuzzy Matching */}
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={fuzzyEnabled}
+                onChange={(e) => setFuzzyEnabled(e.target.checked)}
+                className="mr-2"
+                disabled={isRunning}
+              />
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Fuzzy matching (group similar values, not only identical ones)
+              </span>
+            </label>
+            {fuzzyEnabled && (
+              <div className="mt-2 ml-6 grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Similarity</label>
+                  <select
+                    value={fuzzyAlgorithm}
+                    onChange={(e) => setFuzzyAlgorithm(e.target.value as SimilarityAlgorithm)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                    disabled={isRunning}
+                  >
+                    <option value="token_set">Word set - ignores word order and punctuation</option>
+                    <option value="levenshtein">Edit distance - catches typos</option>
+                    <option value="phonetic">Phonetic - names that sound alike</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    Minimum similarity: {Math.round(fuzzyThreshold * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={50}
+                    max={100}
+                    step={1}
+                    value={Math.round(fuzzyThreshold * 100)}
+                    onChange={(e) => setFuzzyThreshold(Number(e.target.value) / 100)}
+                    className="w-full"
+                    disabled={isRunning}
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                  Each group gets a confidence score. Review fuzzy groups before deleting - similar is not always the same record.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Source Filters Section */}
           <div className="border border-gray-200 dark:border-gray-700 rounded-md">
             <button
@@ -618,10 +694,104 @@ export function CleanupPanel({ appId }: CleanupPanelProps) {
               >
                 <option value="oldest">Keep Oldest - Delete newer duplicates</option>
                 <option value="newest">Keep Newest - Delete older duplicates</option>
+                <option value="most_complete">Most Complete - Keep the item with the most filled-in fields</option>
+                <option value="most_active">Most Recently Active - Keep the item with the latest activity</option>
+                <option value="most_comments">Most Comments - Keep the item with the most comments</option>
+                <option value="most_files">Most Files - Keep the item with the most attached files</option>
+                <option value="custom">Custom Rule - Combine criteria with tie-breakers</option>
               </select>
+              {keepStrategy === 'custom' && (
+                <div className="mt-2">
+                  <input
+                    type="text"
+                    value={keepRule}
+                    onChange={(e) => setKeepRule(e.target.value)}
+                    placeholder="status = Active, max(revenue), most_complete, newest"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm"
+                    disabled={isRunning}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Criteria are checked in order until one tells the items apart: oldest, newest, most_complete,
+                    most_active, most_comments, most_files, max(field), min(field) or field = value (field external
+                    IDs). Remaining ties keep the oldest item.
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
+          {/* Merge Duplicates */}
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={mergeEnabled}
+                onChange={(e) => setMergeEnabled(e.target.checked)}
+                className="mr-2"
+                disabled={isRunning}
+              />
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Merge duplicates into the kept item before deleting them
+              </span>
+            </label>
+            <p className="mt-1 ml-6 text-xs text-gray-500 dark:text-gray-400">
+              Empty fields are filled and multi-value fields combined from the duplicates; their tags and files
+              are moved and comments copied. A dry run shows each change.
+            </p>
+            {mergeEnabled && appFields.length > 0 && (
+              <div className="mt-2 ml-6">
+                <button
+                  type="button"
+                  onClick={() => setShowMergeRules(!showMergeRules)}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {showMergeRules ? 'Hide' : 'Edit'} field merge rules
+                  {Object.keys(mergeRules).length > 0 && ` (${Object.keys(mergeRules).length} customized)`}
+                </button>
+                {showMergeRules && (
+                  <div className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+                    {appFields
+                      .filter((field) => field.external_id && !READ_ONLY_FIELD_TYPES.includes(field.type))
+                      .map((field) => {
+                        const externalId = field.external_id!;
+                        const rules = (Object.keys(MERGE_RULE_LABELS) as FieldMergeRule[]).filter(
+                          (rule) => rule !== 'union' || MULTI_VALUE_FIELD_TYPES.includes(field.type)
+                        );
+                        return (
+                          <div key={field.field_id} className="grid grid-cols-2 gap-2 items-center">
+                            <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                              {field.label} <span className="text-xs text-gray-400">({field.type})</span>
+                            </span>
+                            <select
+                              value={mergeRules[externalId] ?? ''}
+                              onChange={(e) => {
+                                const next = { ...mergeRules };
+                                if (e.target.value) {
+                                  next[externalId] = e.target.value as FieldMergeRule;
+                                } else {
+                                  delete next[externalId];
+                                }
+                                setMergeRules(next);
+                              }}
+                              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                              disabled={isRunning}
+                            >
+                              <option value="">Default</option>
+                              {rules.map((rule) => (
+                                <option key={rule} value={rule}>
+                                  {MERGE_RULE_LABELS[rule]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        );
+                      })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Dry Run Toggle */}
           <div>
             <label className="flex items-center">
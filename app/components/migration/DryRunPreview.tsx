@@ -8,6 +8,8 @@ export interface FieldChange {
   currentValue: unknown;
   newValue: unknown;
   willChange: boolean;
+  /** Set when the new value was converted from another field type */
+  conversion?: string;
 }
 
 export interface UpdatePreview {
@@ -25,12 +27,13 @@ export interface CreatePreview {
     fieldExternalId: string;
     fieldLabel?: string;
     value: unknown;
+    conversion?: string;
   }>;
   fieldCount: number;
 }
 
 export interface DryRunPreviewData {
-  mode: 'create' | 'update' | 'upsert';
+  mode: 'create' | 'update' | 'upsert' | 'sync';
   // For CREATE and UPSERT modes (UPSERT creates non-duplicates)
   wouldCreate?: CreatePreview[];
   // For UPDATE and UPSERT modes (UPSERT updates duplicates)
@@ -47,6 +50,12 @@ export interface DryRunPreviewData {
     matchValue?: unknown;
     reason: string;
   }>;
+  // Non-blocking mapping problems (e.g. contacts with no target space member)
+  warnings?: Array<{
+    sourceItemId?: number;
+    fieldExternalId: string;
+    message: string;
+  }>;
   summary: {
     totalSourceItems: number;
     wouldCreateCount?: number;
@@ -54,6 +63,7 @@ export interface DryRunPreviewData {
     wouldFailCount: number;
     wouldSkipCount: number;
     totalFieldChanges?: number;
+    warningCount?: number;
   };
 }
 
@@ -74,8 +84,8 @@ export function DryRunPreview({ preview, onExecute, onReset }: DryRunPreviewProp
   const getInitialTab = (): 'create' | 'update' | 'fail' | 'skip' => {
     if (preview.mode === 'create') return 'create';
     if (preview.mode === 'update') return 'update';
-    // For UPSERT, default to 'create' if there are items to create, else 'update'
-    if (preview.mode === 'upsert') {
+    // For UPSERT/SYNC, default to 'create' if there are items to create, else 'update'
+    if (preview.mode === 'upsert' || preview.mode === 'sync') {
       return (preview.summary.wouldCreateCount ?? 0) > 0 ? 'create' : 'update';
     }
     return 'update';
@@ -183,11 +193,27 @@ export function DryRunPreview({ preview, onExecute, onReset }: DryRunPreviewProp
         )}
       </div>
 
+      {/* Mapping Warnings */}
+      {preview.warnings && preview.warnings.length > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4">
+          <h4 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+            ⚠️ {preview.warnings.length} warning{preview.warnings.length === 1 ? '' : 's'}
+          </h4>
+          <ul className="mt-2 space-y-1 text-xs text-yellow-700 dark:text-yellow-300 max-h-48 overflow-y-auto">
+            {preview.warnings.map((warning, index) => (
+              <li key={`${warning.sourceItemId}-${warning.fieldExternalId}-${index}`}>
+                <span className="font-mono">{warning.sourceItemId ? `Item ${warning.sourceItemId}` : 'All items'}</span> · {warning.fieldExternalId}: {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="border-b border-gray-200 dark:border-gray-700">
         <nav className="-mb-px flex space-x-8">
-          {/* Show CREATE tab for CREATE and UPSERT modes */}
-          {(mode === 'create' || mode === 'upsert') && (
+          {/* Show CREATE tab for CREATE, UPSERT and SYNC modes */}
+          {mode !== 'update' && (
             <button
               onClick={() => setActiveTab('create')}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -199,8 +225,8 @@ export function DryRunPreview({ preview, onExecute, onReset }: DryRunPreviewProp
               Would Create ({summary.wouldCreateCount || 0})
             </button>
           )}
-          {/* Show UPDATE tab for UPDATE and UPSERT modes */}
-          {(mode === 'update' || mode === 'upsert') && (
+          {/* Show UPDATE tab for UPDATE, UPSERT and SYNC modes */}
+          {mode !== 'create' && (
             <button
               onClick={() => setActiveTab('update')}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -293,6 +319,11 @@ export function DryRunPreview({ preview, onExecute, onReset }: DryRunPreviewProp
                               <td className="py-2 pr-4 font-medium">{field.fieldLabel || field.fieldExternalId}</td>
                               <td className="py-2 font-mono text-xs text-green-600 dark:text-green-400">
                                 {formatValue(field.value)}
+                                {field.conversion && (
+                                  <div className="font-sans text-[10px] text-gray-500 dark:text-gray-400">
+                                    Converted ({field.conversion})
+                                  </div>
+                                )}
                               </td>
                             </tr>
                           ))}
@@ -364,6 +395,11 @@ export function DryRunPreview({ preview, onExecute, onReset }: DryRunPreviewProp
                               </td>
                               <td className="py-2 pr-4 font-mono text-xs text-green-600 dark:text-green-400">
                                 {formatValue(change.newValue)}
+                                {change.conversion && (
+                                  <div className="font-sans text-[10px] text-gray-500 dark:text-gray-400">
+                                    Converted ({change.conversion})
+                                  </div>
+                                )}
                               </td>
                               <td className="py-2">
                                 <span className="text-xs bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 px-2 py-0.5 rounded">
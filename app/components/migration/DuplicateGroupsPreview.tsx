@@ -5,7 +5,7 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { DuplicateGroup, DuplicateItem, CleanupMode } from '@/lib/migration/cleanup/types';
 
 export interface DuplicateGroupsPreviewProps {
@@ -17,6 +17,14 @@ export interface DuplicateGroupsPreviewProps {
   isExecuting?: boolean;
 }
 
+type GroupSort = 'detected' | 'confidence_desc' | 'confidence_asc';
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.95) return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+  if (confidence >= 0.85) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+  return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+}
+
 export function DuplicateGroupsPreview({
   groups,
   mode,
@@ -27,6 +35,21 @@ export function DuplicateGroupsPreview({
 }: DuplicateGroupsPreviewProps) {
   const [expandedGroups, setExpandedGroups] = useState<Set<number>>(new Set());
   const [selectedGroups, setSelectedGroups] = useState<Set<number>>(new Set());
+  const [sortBy, setSortBy] = useState<GroupSort>('detected');
+  const [minConfidence, setMinConfidence] = useState(0);
+
+  // Sorting and filtering only apply to fuzzy results; indexes stay those of `groups`
+  const hasFuzzyGroups = groups.some((group) => (group.confidence ?? 1) < 1);
+  const visibleGroups = useMemo(() => {
+    const indexed = groups
+      .map((group, index) => ({ group, index }))
+      .filter(({ group }) => (group.confidence ?? 1) >= minConfidence);
+    if (sortBy !== 'detected') {
+      const direction = sortBy === 'confidence_desc' ? -1 : 1;
+      indexed.sort((a, b) => direction * ((a.group.confidence ?? 1) - (b.group.confidence ?? 1)));
+    }
+    return indexed;
+  }, [groups, sortBy, minConfidence]);
 
   const toggleGroup = (index: number) => {
     const newExpanded = new Set(expandedGroups);
@@ -49,7 +72,15 @@ export function DuplicateGroupsPreview({
   };
 
   const selectAll = () => {
-    setSelectedGroups(new Set(groups.map((_, idx) => idx)));
+    setSelectedGroups(new Set(visibleGroups.map(({ index }) => index)));
+  };
+
+  // Hidden groups are deselected so only what is shown gets approved
+  const changeMinConfidence = (value: number) => {
+    setMinConfidence(value);
+    setSelectedGroups(
+      (selected) => new Set([...selected].filter((idx) => (groups[idx]?.confidence ?? 1) >= value))
+    );
   };
 
   const deselectAll = () => {
@@ -70,6 +101,7 @@ export function DuplicateGroupsPreview({
   };
 
   const totalDuplicates = groups.reduce((sum, g) => sum + g.items.length - 1, 0);
+  const mergePlans = groups.flatMap((group) => (group.mergePlan ? [group.mergePlan] : []));
   const selectedDuplicates = groups
     .filter((_, idx) => selectedGroups.has(idx))
     .reduce((sum, g) => sum + (g.deleteItemIds?.length || g.items.length - 1), 0);
@@ -87,7 +119,15 @@ export function DuplicateGroupsPreview({
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {groups.length} group{groups.length !== 1 ? 's' : ''} with {totalDuplicates} duplicate
             item{totalDuplicates !== 1 ? 's' : ''}
+            {visibleGroups.length !== groups.length && ` (showing ${visibleGroups.length})`}
           </p>
+          {mergePlans.length > 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Merge: {mergePlans.reduce((sum, plan) => sum + plan.fields.length, 0)} field changes,{' '}
+              {mergePlans.reduce((sum, plan) => sum + plan.tags.length, 0)} tags and{' '}
+              {mergePlans.reduce((sum, plan) => sum + plan.fileIds.length, 0)} files moved to kept items
+            </p>
+          )}
         </div>
 
         {mode === 'manual' && !dryRun && (
@@ -108,9 +148,39 @@ export function DuplicateGroupsPreview({
         )}
       </div>
 
+      {/* Confidence Controls (fuzzy matching) */}
+      {hasFuzzyGroups && (
+        <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            Sort
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as GroupSort)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="detected">Largest groups first</option>
+              <option value="confidence_desc">Highest confidence first</option>
+              <option value="confidence_asc">Lowest confidence first</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 flex-1">
+            Min confidence: {Math.round(minConfidence * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={Math.round(minConfidence * 100)}
+              onChange={(e) => changeMinConfidence(Number(e.target.value) / 100)}
+              className="flex-1"
+            />
+          </label>
+        </div>
+      )}
+
       {/* Groups List */}
       <div className="space-y-3 max-h-96 overflow-y-auto">
-        {groups.map((group, groupIdx) => {
+        {visibleGroups.map(({ group, index: groupIdx }) => {
           const isExpanded = expandedGroups.has(groupIdx);
           const isSelected = selectedGroups.has(groupIdx);
           const itemsToDelete = group.deleteItemIds?.length || group.items.length - 1;
@@ -148,6 +218,14 @@ export function DuplicateGroupsPreview({
                   <div className="flex-1">
                     <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
                       Match Value: <span className="font-mono">{group.matchValue}</span>
+                      {group.confidence !== undefined && group.confidence < 1 && (
+                        <span
+                          className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${confidenceClass(group.confidence)}`}
+                          title="Similar values, not identical: the lowest similarity that joined this group"
+                        >
+                          {Math.round(group.confidence * 100)}% match
+                        </span>
+                      )}
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                       {group.items.length} items ({itemsToDelete} duplicate
@@ -175,6 +253,39 @@ export function DuplicateGroupsPreview({
               {/* Group Details (Expanded) */}
               {isExpanded && (
                 <div className="p-3 border-t border-gray-200 dark:border-gray-700">
+                  {group.mergePlan && (
+                    <div className="mb-3 text-xs text-gray-700 dark:text-gray-300 space-y-1">
+                      <div className="font-medium">Merged into the kept item:</div>
+                      {group.mergePlan.fields.length === 0 &&
+                        group.mergePlan.tags.length === 0 &&
+                        group.mergePlan.fileIds.length === 0 && (
+                          <div className="text-gray-500 dark:text-gray-400">No field, tag or file changes</div>
+                        )}
+                      {group.mergePlan.fields.map((change) => (
+                        <div key={change.externalId}>
+                          <span className="font-medium">{change.label}</span>:{' '}
+                          <span className="line-through text-gray-400">{change.before || 'empty'}</span> →{' '}
+                          <span className="text-green-700 dark:text-green-400">{change.after}</span>{' '}
+                          <span className="text-gray-400">
+                            ({change.rule.replace('_', ' ')}, from #{change.sourceItemIds.join(', #')})
+                          </span>
+                        </div>
+                      ))}
+                      {group.mergePlan.tags.length > 0 && (
+                        <div>
+                          <span className="font-medium">Tags added</span>: {group.mergePlan.tags.join(', ')}
+                        </div>
+                      )}
+                      {group.mergePlan.fileIds.length > 0 && (
+                        <div>
+                          <span className="font-medium">Files moved</span>: {group.mergePlan.fileIds.length}
+                        </div>
+                      )}
+                      {group.mergePlan.comments && (
+                        <div className="text-gray-500 dark:text-gray-400">Comments are copied to the kept item</div>
+                      )}
+                    </div>
+                  )}
                   <div className="space-y-2">
                     {group.items.map((item, itemIdx) => {
                       const isKeep = group.keepItemId
@@ -198,6 +309,11 @@ export function DuplicateGroupsPreview({
                             <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
                               {item.title}
                             </div>
+                            {group.confidence !== undefined && group.confidence < 1 && (
+                              <div className="text-xs font-mono text-gray-600 dark:text-gray-300 mt-1">
+                                {item.matchValue}
+                              </div>
+                            )}
                             <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                               Created: {new Date(item.createdOn).toLocaleDateString()}{' '}
                               {new Date(item.createdOn).toLocaleTimeString()}
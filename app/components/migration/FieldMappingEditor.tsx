@@ -1,7 +1,13 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { FieldMapping } from '@/lib/migration/items/types';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  FieldMapping,
+  FieldMappingCandidate,
+  FieldMappingSuggestion,
+  FieldTransform,
+  FieldTransforms,
+} from '@/lib/migration/items/types';
 import { FieldMappingHeader } from './FieldMappingHeader';
 import { FieldMappingRow, AppFieldInfo, FieldMappingEntry } from './FieldMappingRow';
 
@@ -30,12 +36,19 @@ export interface FieldMappingEditorProps {
   targetAppId: number;
   initialMapping?: FieldMapping;
   onMappingChange: (mapping: FieldMapping) => void;
+  /** Value transforms keyed by source field ID */
+  initialTransforms?: FieldTransforms;
+  /** Enables per-field transform editing when provided */
+  onTransformsChange?: (transforms: FieldTransforms) => void;
 }
 
 interface FieldMappingEditorState {
   sourceFields: AppFieldInfo[];
   targetFields: AppFieldInfo[];
   mapping: FieldMapping;
+  transforms: FieldTransforms;
+  /** Ranked target candidates per source field */
+  suggestions: FieldMappingSuggestion[];
   isLoading: boolean;
   error: string | null;
 }
@@ -49,11 +62,15 @@ export function FieldMappingEditor({
   targetAppId,
   initialMapping,
   onMappingChange,
+  initialTransforms,
+  onTransformsChange,
 }: FieldMappingEditorProps) {
   const [state, setState] = useState<FieldMappingEditorState>({
     sourceFields: [],
     targetFields: [],
     mapping: initialMapping || {},
+    transforms: initialTransforms || {},
+    suggestions: [],
     isLoading: true,
     error: null,
   });
@@ -112,6 +129,37 @@ export function FieldMappingEditor({
     loadFields();
   }, [sourceAppId, targetAppId]);
 
+  // Suggestions are ranked once per app pair; rows hide those whose target gets mapped elsewhere
+  const mappingRef = useRef(state.mapping);
+  mappingRef.current = state.mapping;
+
+  useEffect(() => {
+    async function loadSuggestions() {
+      if (!sourceAppId || !targetAppId) {
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/migration/items/field-mapping/suggestions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sourceAppId, targetAppId, currentMapping: mappingRef.current }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to load field mapping suggestions');
+        }
+
+        const { suggestions } = await response.json();
+        setState((s) => ({ ...s, suggestions: suggestions || [] }));
+      } catch (error) {
+        console.error('Failed to load field mapping suggestions:', error);
+      }
+    }
+
+    loadSuggestions();
+  }, [sourceAppId, targetAppId]);
+
   const handleMap = (sourceFieldId: string, targetFieldId: string) => {
     const newMapping = { ...state.mapping, [sourceFieldId]: targetFieldId };
     setState((s) => ({ ...s, mapping: newMapping }));
@@ -123,6 +171,22 @@ export function FieldMappingEditor({
     delete newMapping[sourceFieldId];
     setState((s) => ({ ...s, mapping: newMapping }));
     onMappingChange(newMapping);
+
+    // Transforms belong to the mapping, so they go with it
+    if (state.transforms[sourceFieldId]) {
+      handleTransformsChange(sourceFieldId, []);
+    }
+  };
+
+  const handleTransformsChange = (sourceFieldId: string, steps: FieldTransform[]) => {
+    const newTransforms = { ...state.transforms };
+    if (steps.length > 0) {
+      newTransforms[sourceFieldId] = steps;
+    } else {
+      delete newTransforms[sourceFieldId];
+    }
+    setState((s) => ({ ...s, transforms: newTransforms }));
+    onTransformsChange?.(newTransforms);
   };
 
   const handleResetToAuto = async () => {
@@ -145,6 +209,28 @@ export function FieldMappingEditor({
     }
   };
 
+  // Suggestions still open: source field unmapped and suggested target not used by another mapping
+  const mappedTargets = new Set(Object.values(state.mapping));
+  const openSuggestions = new Map<string, FieldMappingCandidate>();
+  for (const suggestion of state.suggestions) {
+    if (
+      suggestion.suggested &&
+      !state.mapping[suggestion.sourceFieldId] &&
+      !mappedTargets.has(suggestion.suggested.targetFieldId)
+    ) {
+      openSuggestions.set(suggestion.sourceFieldId, suggestion.suggested);
+    }
+  }
+
+  const handleAcceptAllSuggestions = () => {
+    const newMapping = { ...state.mapping };
+    for (const [sourceFieldId, candidate] of openSuggestions) {
+      newMapping[sourceFieldId] = candidate.targetFieldId;
+    }
+    setState((s) => ({ ...s, mapping: newMapping }));
+    onMappingChange(newMapping);
+  };
+
   // Build mapping entries for display
   const mappingEntries: FieldMappingEntry[] = state.sourceFields.map((sf) => {
     const targetFieldId = state.mapping[sf.field_id.toString()];
@@ -194,13 +280,24 @@ export function FieldMappingEditor({
         <div className="text-sm text-gray-600 dark:text-gray-400">
           {mappedCount} of {state.sourceFields.length} fields mapped
         </div>
-        <button
-          onClick={handleResetToAuto}
-          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
-          type="button"
-        >
-          Reset to Auto
-        </button>
+        <div className="flex items-center gap-4">
+          {openSuggestions.size > 0 && (
+            <button
+              onClick={handleAcceptAllSuggestions}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              type="button"
+            >
+              Accept {openSuggestions.size} Suggestion{openSuggestions.size === 1 ? '' : 's'}
+            </button>
+          )}
+          <button
+            onClick={handleResetToAuto}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            type="button"
+          >
+            Reset to Auto
+          </button>
+        </div>
       </div>
 
       {/* Mapping table */}
@@ -213,6 +310,11 @@ export function FieldMappingEditor({
             targetFields={state.targetFields}
             onMap={handleMap}
             onUnmap={handleUnmap}
+            candidates={state.suggestions.find((s) => s.sourceFieldId === entry.sourceFieldId)?.candidates}
+            suggestion={openSuggestions.get(entry.sourceFieldId)}
+            transforms={state.transforms[entry.sourceFieldId]}
+            sourceFields={state.sourceFields}
+            onTransformsChange={onTransformsChange ? handleTransformsChange : undefined}
           />
         ))}
       </div>
@@ -1,7 +1,14 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { isReadOnlyTargetFieldType } from '@/lib/migration/items/field-mapping';
+import {
+  convertibleTargetTypes,
+  describeFieldTypeConversion,
+  isCompatibleFieldType,
+} from '@/lib/migration/items/type-conversion';
+import { FieldMappingCandidate, FieldTransform } from '@/lib/migration/items/types';
+import { FieldTransformEditor } from './FieldTransformEditor';
 
 export interface AppFieldInfo {
   field_id: number;
@@ -26,6 +33,15 @@ export interface FieldMappingRowProps {
   targetFields: AppFieldInfo[];
   onMap: (sourceFieldId: string, targetFieldId: string) => void;
   onUnmap: (sourceFieldId: string) => void;
+  /** Ranked target candidates, listed with their scores at the top of the selector */
+  candidates?: FieldMappingCandidate[];
+  /** Suggested target for an unmapped field, offered with an Accept button */
+  suggestion?: FieldMappingCandidate;
+  /** Value transforms for this mapping (transform editing is hidden without onTransformsChange) */
+  transforms?: FieldTransform[];
+  /** Source app fields, offered as extra inputs for concat transforms */
+  sourceFields?: AppFieldInfo[];
+  onTransformsChange?: (sourceFieldId: string, transforms: FieldTransform[]) => void;
 }
 
 const FIELD_TYPE_ICONS: Record<string, string> = {
@@ -76,29 +92,46 @@ function getTypeMismatchTooltip(sourceType: string, targetType: string | null):
   if (!targetType) return 'Not mapped';
   if (sourceType === targetType) return 'Mapped - Types match';
 
-  // Common safe mappings (note: calculation fields are read-only and excluded)
-  const compatibleMappings = [
-    { from: 'text', to: ['link'] },
-    { from: 'number', to: ['money', 'progress'] },
-    { from: 'date', to: ['duration'] },
-    { from: 'calculation', to: ['text', 'number'] }, // Calculation values can be extracted to writable fields
-  ];
+  const conversion = describeFieldTypeConversion(sourceType, targetType);
+  if (conversion) {
+    return `Values are converted (${conversion})\nCheck the dry-run preview for the converted values`;
+  }
 
-  const isCompatible = compatibleMappings.some(
-    m => m.from === sourceType && m.to.includes(targetType)
-  );
+  return `Incompatible types (${sourceType} → ${targetType})\nThis mapping will be rejected. ${sourceType} fields map to: ${[sourceType, ...convertibleTargetTypes(sourceType)].join(', ')}`;
+}
 
-  if (isCompatible) {
-    return `Type mismatch (${sourceType} → ${targetType})\nThis mapping may work, but verify data compatibility`;
-  }
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
 
-  return `Type mismatch warning (${sourceType} → ${targetType})\nSource and target field types differ. Data may not transfer correctly.`;
+/**
+ * Tooltip with the parts of a suggestion score
+ */
+function getScoreTooltip(candidate: FieldMappingCandidate): string {
+  const parts = [`Label similarity: ${formatPercent(candidate.label)}`, `Type compatibility: ${formatPercent(candidate.type)}`];
+  if (candidate.options !== undefined) {
+    parts.push(`Shared category options: ${formatPercent(candidate.options)}`);
+  }
+  return parts.join('\n');
 }
 
 /**
  * Individual field mapping row component
  */
-export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMappingRowProps) {
+export function FieldMappingRow({
+  entry,
+  targetFields,
+  onMap,
+  onUnmap,
+  candidates = [],
+  suggestion,
+  transforms = [],
+  sourceFields = [],
+  onTransformsChange,
+}: FieldMappingRowProps) {
+  const [showTransforms, setShowTransforms] = useState(false);
+  const canEditTransforms = !!onTransformsChange && !!entry.targetFieldId;
+
   const typeMismatchTooltip = entry.hasTypeMismatch
     ? getTypeMismatchTooltip(entry.sourceType, entry.targetType)
     : entry.targetFieldId
@@ -130,6 +163,10 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
     }
   };
 
+  const targetFieldById = (fieldId: string) =>
+    targetFields.find((field) => field.field_id.toString() === fieldId);
+  const suggestedField = suggestion ? targetFieldById(suggestion.targetFieldId) : undefined;
+
   const isCurrentTargetReadOnly =
     !!entry.targetFieldId &&
     targetFields.some(
@@ -138,6 +175,9 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
         isReadOnlyTargetFieldType(field.type)
     );
 
+  const isIncompatible =
+    !!entry.targetType && !isCurrentTargetReadOnly && !isCompatibleFieldType(entry.sourceType, entry.targetType);
+
   return (
     <div className="grid grid-cols-12 gap-2 p-2 border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800">
       {/* Source field */}
@@ -159,6 +199,10 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
           <span className="text-red-500 cursor-help" title="Read-only field: This field cannot be updated via the API. Please map to a writable field.">
             🚫
           </span>
+        ) : isIncompatible ? (
+          <span className="text-red-500 cursor-help" title={typeMismatchTooltip}>
+            ⛔
+          </span>
         ) : entry.hasTypeMismatch ? (
           <span className="text-yellow-500 cursor-help" title={typeMismatchTooltip}>
             ⚠️
@@ -190,6 +234,18 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
           aria-label={`Map ${entry.sourceLabel} to target field`}
         >
           <option value="">-- Select target field --</option>
+          {candidates.length > 0 && (
+            <optgroup label="Suggested">
+              {candidates.map((candidate) => {
+                const field = targetFieldById(candidate.targetFieldId);
+                return field ? (
+                  <option key={`suggested-${candidate.targetFieldId}`} value={candidate.targetFieldId}>
+                    {field.label} ({field.type}) - {formatPercent(candidate.score)} match
+                  </option>
+                ) : null;
+              })}
+            </optgroup>
+          )}
           <optgroup label="Writable Fields">
             {writableTargetFields.map((tf) => (
               <option key={tf.field_id} value={tf.field_id.toString()}>
@@ -207,6 +263,21 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
               ))}
           </optgroup>
         </select>
+        {!entry.targetFieldId && suggestion && suggestedField && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span className="truncate cursor-help" title={getScoreTooltip(suggestion)}>
+              Suggested: {suggestedField.label} ({formatPercent(suggestion.score)})
+            </span>
+            <button
+              type="button"
+              onClick={() => onMap(entry.sourceFieldId, suggestion.targetFieldId)}
+              className="text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+              aria-label={`Map ${entry.sourceLabel} to suggested field ${suggestedField.label}`}
+            >
+              Accept
+            </button>
+          </div>
+        )}
         {isCurrentTargetReadOnly && (
           <p className="mt-1 text-[10px] text-red-600 dark:text-red-400">
             Target field is read-only and will be skipped during migration.
@@ -215,7 +286,23 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
       </div>
 
       {/* Actions */}
-      <div className="col-span-1 flex items-center justify-end">
+      <div className="col-span-1 flex items-center justify-end gap-1">
+        {canEditTransforms && (
+          <button
+            type="button"
+            onClick={() => setShowTransforms((open) => !open)}
+            className={`p-1 text-xs font-semibold italic rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              transforms.length > 0
+                ? 'text-blue-600 dark:text-blue-400'
+                : 'text-gray-400 hover:text-blue-600 dark:hover:text-blue-400'
+            }`}
+            title={transforms.length > 0 ? `${transforms.length} value transform(s)` : 'Add value transforms'}
+            aria-label={`Edit value transforms for ${entry.sourceLabel}`}
+            aria-expanded={showTransforms}
+          >
+            ƒx{transforms.length > 0 ? ` ${transforms.length}` : ''}
+          </button>
+        )}
         {entry.targetFieldId && (
           <button
             onClick={() => onUnmap(entry.sourceFieldId)}
@@ -228,6 +315,18 @@ export function FieldMappingRow({ entry, targetFields, onMap, onUnmap }: FieldMa
           </button>
         )}
       </div>
+
+      {/* Value transforms */}
+      {canEditTransforms && showTransforms && (
+        <div className="col-span-12 ml-8 p-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded">
+          <FieldTransformEditor
+            sourceFieldId={entry.sourceFieldId}
+            sourceFields={sourceFields}
+            transforms={transforms}
+            onChange={(next) => onTransformsChange?.(entry.sourceFieldId, next)}
+          />
+        </div>
+      )}
     </div>
   );
 }
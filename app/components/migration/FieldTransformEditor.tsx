@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FieldTransform, FieldTransformType } from '@/lib/migration/items/types';
+import { AppFieldInfo } from './FieldMappingRow';
+
+export interface FieldTransformEditorProps {
+  sourceFieldId: string;
+  sourceFields: AppFieldInfo[];
+  transforms: FieldTransform[];
+  onChange: (transforms: FieldTransform[]) => void;
+}
+
+const TRANSFORM_LABELS: Record<FieldTransformType, string> = {
+  trim: 'Trim whitespace',
+  case: 'Change case',
+  regex_replace: 'Regex replace',
+  category_map: 'Rename category options',
+  date_shift: 'Shift date',
+  concat: 'Combine with other fields',
+  default: 'Default when empty',
+  to_number: 'Convert to number',
+  to_text: 'Convert to text',
+};
+
+const inputClass =
+  'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+function createTransform(type: FieldTransformType): FieldTransform {
+  switch (type) {
+    case 'case':
+      return { type, mode: 'lower' };
+    case 'regex_replace':
+      return { type, pattern: '', replacement: '' };
+    case 'category_map':
+      return { type, options: {} };
+    case 'date_shift':
+      return { type, days: 0 };
+    case 'concat':
+      return { type, sourceFields: [], separator: ' ' };
+    case 'default':
+      return { type, value: '' };
+    default:
+      return { type } as FieldTransform;
+  }
+}
+
+function parseCategoryOptions(text: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [from, ...rest] = line.split('=');
+    const to = rest.join('=').trim();
+    if (from.trim() && to) {
+      options[from.trim()] = to;
+    }
+  }
+  return options;
+}
+
+/**
+ * Category option rename list, edited as "Source label = Target label" lines
+ */
+function CategoryMapInput({
+  options,
+  onChange,
+}: {
+  options: Record<string, string>;
+  onChange: (options: Record<string, string>) => void;
+}) {
+  const [text, setText] = useState(() =>
+    Object.entries(options).map(([from, to]) => `${from} = ${to}`).join('\n')
+  );
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseCategoryOptions(e.target.value));
+      }}
+      rows={3}
+      placeholder={'In Progress = Active\nDone = Completed'}
+      className={`${inputClass} w-full font-mono`}
+      aria-label="Category option renames"
+    />
+  );
+}
+
+/**
+ * Editor for the ordered value transforms of a single field mapping
+ */
+export function FieldTransformEditor({
+  sourceFieldId,
+  sourceFields,
+  transforms,
+  onChange,
+}: FieldTransformEditorProps) {
+  const updateStep = (index: number, step: FieldTransform) => {
+    onChange(transforms.map((existing, i) => (i === index ? step : existing)));
+  };
+
+  const removeStep = (index: number) => {
+    onChange(transforms.filter((_, i) => i !== index));
+  };
+
+  const renderStepInputs = (step: FieldTransform, index: number) => {
+    switch (step.type) {
+      case 'case':
+        return (
+          <select
+            value={step.mode}
+            onChange={(e) => updateStep(index, { ...step, mode: e.target.value as 'upper' | 'lower' | 'title' })}
+            className={inputClass}
+            aria-label="Case mode"
+          >
+            <option value="lower">lower case</option>
+            <option value="upper">UPPER CASE</option>
+            <option value="title">Title Case</option>
+          </select>
+        );
+
+      case 'regex_replace': {
+        let regexError: string | null = null;
+        try {
+          new RegExp(step.pattern, step.flags);
+        } catch (error) {
+          regexError = error instanceof Error ? error.message : 'Invalid pattern';
+        }
+
+        return (
+          <div className="flex flex-wrap items-center gap-1">
+            <input
+              value={step.pattern}
+              onChange={(e) => updateStep(index, { ...step, pattern: e.target.value })}
+              placeholder="Pattern"
+              className={`${inputClass} font-mono ${regexError ? 'border-red-400' : ''}`}
+              aria-label="Regex pattern"
+              title={regexError || undefined}
+            />
+            <input
+              value={step.flags ?? 'g'}
+              onChange={(e) => updateStep(index, { ...step, flags: e.target.value })}
+              className={`${inputClass} w-12 font-mono`}
+              aria-label="Regex flags"
+            />
+            <span className="text-xs text-gray-500">→</span>
+            <input
+              value={step.replacement}
+              onChange={(e) => updateStep(index, { ...step, replacement: e.target.value })}
+              placeholder="Replacement"
+              className={`${inputClass} font-mono`}
+              aria-label="Replacement"
+            />
+          </div>
+        );
+      }
+
+      case 'category_map':
+        return (
+          <CategoryMapInput
+            options={step.options}
+            onChange={(options) => updateStep(index, { ...step, options })}
+          />
+        );
+
+      case 'date_shift':
+        return (
+          <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+            {(['days', 'hours', 'minutes'] as const).map((unit) => (
+              <label key={unit} className="flex items-center gap-1">
+                <input
+                  type="number"
+                  value={step[unit] ?? 0}
+                  onChange={(e) => updateStep(index, { ...step, [unit]: Number(e.target.value) || 0 })}
+                  className={`${inputClass} w-16`}
+                />
+                {unit}
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'concat':
+        return (
+          <div className="flex items-start gap-1">
+            <select
+              multiple
+              value={step.sourceFields}
+              onChange={(e) =>
+                updateStep(index, {
+                  ...step,
+                  sourceFields: Array.from(e.target.selectedOptions).map((option) => option.value),
+                })
+              }
+              className={`${inputClass} h-20 flex-1`}
+              aria-label="Fields to combine"
+            >
+              {sourceFields
+                .filter((field) => field.field_id.toString() !== sourceFieldId)
+                .map((field) => (
+                  <option key={field.field_id} value={field.field_id.toString()}>
+                    {field.label}
+                  </option>
+                ))}
+            </select>
+            <input
+              value={step.separator ?? ' '}
+              onChange={(e) => updateStep(index, { ...step, separator: e.target.value })}
+              className={`${inputClass} w-16`}
+              aria-label="Separator"
+              title="Separator"
+            />
+          </div>
+        );
+
+      case 'default':
+        return (
+          <input
+            value={String(step.value)}
+            onChange={(e) => updateStep(index, { ...step, value: e.target.value })}
+            placeholder="Value used when empty"
+            className={inputClass}
+            aria-label="Default value"
+          />
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {transforms.map((step, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <span className="text-xs text-gray-400 w-4 pt-1">{index + 1}.</span>
+          <span className="text-xs font-medium text-gray-700 dark:text-gray-300 w-40 pt-1">
+            {TRANSFORM_LABELS[step.type]}
+          </span>
+          <div className="flex-1">{renderStepInputs(step, index)}</div>
+          <button
+            type="button"
+            onClick={() => removeStep(index)}
+            className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 text-xs p-1"
+            aria-label={`Remove transform ${index + 1}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) {
+            onChange([...transforms, createTransform(e.target.value as FieldTransformType)]);
+          }
+        }}
+        className={inputClass}
+        aria-label="Add transform"
+      >
+        <option value="">+ Add transform</option>
+        {(Object.keys(TRANSFORM_LABELS) as FieldTransformType[]).map((type) => (
+          <option key={type} value={type}>
+            {TRANSFORM_LABELS[type]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
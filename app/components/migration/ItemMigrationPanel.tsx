@@ -5,8 +5,12 @@ import { useItemMigration } from '@/app/hooks/useItemMigration';
 import { ItemMigrationProgress } from './ItemMigrationProgress';
 import { DryRunPreview } from './DryRunPreview';
 import { FieldMappingEditor } from './FieldMappingEditor';
+import { OrphanReconciliationPanel } from './OrphanReconciliationPanel';
+import { ReconciliationPanel } from './ReconciliationPanel';
+import { RollbackPanel } from './RollbackPanel';
 import { AppFieldInfo } from './FieldMappingRow';
-import { FieldMapping, ResumptionConfig } from '@/lib/migration/items/types';
+import { MatchKeyEditor, MatchKeyRow, completeMatchKeyRows, emptyMatchKeyRow, toMatchKey } from './MatchKeyEditor';
+import { ContactMappingConfig, FieldMapping, ItemMigrationMode, MissingCategoryOption, OrphanAction, ResumptionConfig, SyncState } from '@/lib/migration/items/types';
 
 export interface ItemMigrationPanelProps {
   sourceAppId?: number;
@@ -68,15 +72,24 @@ function calculateFieldMappingDiff(original: FieldMapping | null, current: Field
 }
 
 export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPanelProps) {
-  const [mode, setMode] = useState<'create' | 'update' | 'upsert'>('create');
-  const [sourceMatchField, setSourceMatchField] = useState<string>('');
-  const [targetMatchField, setTargetMatchField] = useState<string>('');
+  const [mode, setMode] = useState<ItemMigrationMode>('create');
+  const [matchKeyRows, setMatchKeyRows] = useState<MatchKeyRow[]>(() => [emptyMatchKeyRow(2)]);
   const [duplicateBehavior, setDuplicateBehavior] = useState<'skip' | 'error' | 'update'>('skip');
   const [batchSize, setBatchSize] = useState<number>(500);
   const [concurrency, setConcurrency] = useState<number>(5);
   const [maxItems, setMaxItems] = useState<number | undefined>(undefined);
   const [dryRun, setDryRun] = useState<boolean>(false); // Dry-run mode toggle
   const [transferFiles, setTransferFiles] = useState<boolean>(false); // File transfer toggle
+  const [transferComments, setTransferComments] = useState<boolean>(false); // Comment transfer toggle
+  const [transferTasks, setTransferTasks] = useState<boolean>(false); // Task transfer toggle
+  const [includeCompletedTasks, setIncludeCompletedTasks] = useState<boolean>(false); // Also copy completed tasks
+  const [createMissingCategoryOptions, setCreateMissingCategoryOptions] = useState<boolean>(false); // Add missing category labels to target fields
+  const [matchContacts, setMatchContacts] = useState<boolean>(false); // Re-point contacts to target space members
+  const [contactFallback, setContactFallback] = useState<NonNullable<ContactMappingConfig['fallback']>>('drop');
+  const [contactDefaultProfileId, setContactDefaultProfileId] = useState<string>('');
+  const [contactNoteFieldId, setContactNoteFieldId] = useState<string>('');
+  const [deletionAction, setDeletionAction] = useState<OrphanAction | ''>(''); // '' = ignore source deletions
+  const [archiveTag, setArchiveTag] = useState<string>('');
   const [showFieldMapping, setShowFieldMapping] = useState(false);
   const [showSourceFilters, setShowSourceFilters] = useState(false);
   const [showRetryFieldMapping, setShowRetryFieldMapping] = useState(false);
@@ -110,6 +123,7 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
     successfulCreates: number;
     failedCreates: number;
   } | null>(null);
+  const [missingCategoryOptions, setMissingCategoryOptions] = useState<MissingCategoryOption[]>([]);
 
   const {
     jobId,
@@ -117,13 +131,17 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
     isCreating,
     isPolling,
     isRetrying,
+    isSyncing,
     error,
     fieldMapping,
     fieldMappingOverride,
+    fieldTransformsOverride,
     updateFieldMapping,
+    updateFieldTransforms,
     startMigration,
     loadMigration,
     retryFailedItems,
+    runSync,
     reset,
   } = useItemMigration({ sourceAppId, targetAppId });
 
@@ -239,6 +257,15 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
     // Clear previous validation state
     setValidationError(null);
     setValidationProgress(null);
+    setMissingCategoryOptions([]);
+
+    const contactMapping: ContactMappingConfig | undefined = matchContacts
+      ? {
+          fallback: contactFallback,
+          defaultProfileId: contactFallback === 'default_user' ? Number(contactDefaultProfileId) || undefined : undefined,
+          noteFieldId: contactFallback === 'note' ? contactNoteFieldId || undefined : undefined,
+        }
+      : undefined;
 
     // Only validate for CREATE mode when not in dry-run
     // (validation creates/deletes test items, which violates dry-run contract)
@@ -254,6 +281,8 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             sourceAppId,
             targetAppId,
             fieldMapping: currentMapping,
+            fieldTransforms: fieldTransformsOverride || undefined,
+            contactMapping,
           }),
         });
 
@@ -264,6 +293,7 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
           successfulCreates: validationResult.successfulCreates,
           failedCreates: validationResult.failedCreates,
         });
+        setMissingCategoryOptions(validationResult.missingCategoryOptions || []);
 
         if (!validationResult.valid) {
           setValidationError(validationResult.error);
@@ -300,8 +330,8 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
     // Step 2: Start actual migration (or dry-run)
     await startMigration({
       mode,
-      sourceMatchField: sourceMatchField || undefined,
-      targetMatchField: targetMatchField || undefined,
+      sourceMatchField: toMatchKey(matchKeyRows, 0),
+      targetMatchField: toMatchKey(matchKeyRows, 1),
       duplicateBehavior,
       batchSize,
       concurrency,
@@ -311,14 +341,26 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
       transferFiles: (mode === 'update' || mode === 'upsert') ? transferFiles : undefined, // Only for UPDATE/UPSERT modes
       // If transferring files without custom field mapping, explicitly pass empty mapping to prevent auto-mapping
       fieldMapping: (!isUsingCustomMapping && transferFiles && (mode === 'update' || mode === 'upsert')) ? {} : undefined,
+      transferComments: transferComments || undefined,
+      transferTasks: transferTasks || undefined,
+      includeCompletedTasks: transferTasks && includeCompletedTasks ? true : undefined,
+      createMissingCategoryOptions: createMissingCategoryOptions || undefined,
+      contactMapping,
+      // Deletion propagation only applies to modes that keep an item ID map
+      deletionSync: (mode === 'upsert' || mode === 'sync') && deletionAction
+        ? { action: deletionAction, archiveTag: deletionAction === 'archive' ? archiveTag.trim() || undefined : undefined }
+        : undefined,
       filters, // Source item filters (date ranges and tags)
     });
   };
 
   // Validation logic for match fields
   const requiresBothMatchFields = mode === 'update' || mode === 'upsert';
-  const hasBothMatchFields = !!(sourceMatchField && targetMatchField);
-  const hasEitherMatchField = !!(sourceMatchField || targetMatchField);
+  const filledMatchKeyRows = matchKeyRows.filter((row) => row.fields.some(Boolean));
+  const completeMatchKeyRowList = completeMatchKeyRows(matchKeyRows);
+  const hasBothMatchFields =
+    completeMatchKeyRowList.length > 0 && completeMatchKeyRowList.length === filledMatchKeyRows.length;
+  const hasEitherMatchField = filledMatchKeyRows.length > 0;
 
   // Validation message
   let validationMessage = '';
@@ -329,7 +371,7 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
   }
 
   // Field type validation for match fields
-  const VALID_MATCH_FIELD_TYPES = ['text', 'number', 'calculation'];
+  const VALID_MATCH_FIELD_TYPES = ['text', 'number', 'calculation', 'date'];
 
   const validateMatchFieldTypes = (
     sourceFieldType: string | undefined,
@@ -346,21 +388,21 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
     if (!sourceValid && !targetValid) {
       return {
         valid: false,
-        warning: `Neither field type is supported for matching. Source is '${sourceFieldType}', target is '${targetFieldType}'. Supported types: text, number, calculation.`,
+        warning: `Neither field type is supported for matching. Source is '${sourceFieldType}', target is '${targetFieldType}'. Supported types: ${VALID_MATCH_FIELD_TYPES.join(', ')}.`,
       };
     }
 
     if (!sourceValid) {
       return {
         valid: false,
-        warning: `Source field type '${sourceFieldType}' is not recommended for matching. Supported types: text, number, calculation.`,
+        warning: `Source field type '${sourceFieldType}' is not recommended for matching. Supported types: ${VALID_MATCH_FIELD_TYPES.join(', ')}.`,
       };
     }
 
     if (!targetValid) {
       return {
         valid: false,
-        warning: `Target field type '${targetFieldType}' is not recommended for matching. Supported types: text, number, calculation.`,
+        warning: `Target field type '${targetFieldType}' is not recommended for matching. Supported types: ${VALID_MATCH_FIELD_TYPES.join(', ')}.`,
       };
     }
 
@@ -539,6 +581,8 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
                   targetAppId={targetAppId}
                   initialMapping={currentMapping || undefined}
                   onMappingChange={updateFieldMapping}
+                  initialTransforms={fieldTransformsOverride || undefined}
+                  onTransformsChange={updateFieldTransforms}
                 />
               </div>
             )}
@@ -680,65 +724,39 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             </label>
             <select
               value={mode}
-              onChange={(e) => setMode(e.target.value as 'create' | 'update' | 'upsert')}
+              onChange={(e) => setMode(e.target.value as ItemMigrationMode)}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
               disabled={isCreating}
             >
               <option value="create">Create (new items only)</option>
               <option value="update">Update (existing items only)</option>
               <option value="upsert">Upsert (create or update)</option>
+              <option value="sync">Sync (mirror ongoing source edits)</option>
             </select>
           </div>
 
-          {/* Match Field Selection - Two Separate Dropdowns */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Source Match Field {(mode === 'update' || mode === 'upsert') && <span className="text-red-500">*</span>}
-              </label>
-              <select
-                value={sourceMatchField}
-                onChange={(e) => setSourceMatchField(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                disabled={isCreating || isLoadingFields || sourceFields.length === 0}
-              >
-                <option value="">
-                  {mode === 'create' ? 'None' : 'Select source field...'}
-                </option>
-                {sourceFields.map((field) => (
-                  <option key={field.field_id} value={field.external_id}>
-                    {field.label} ({field.type})
-                  </option>
-                ))}
-              </select>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Field to extract value from
-              </p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Target Match Field {(mode === 'update' || mode === 'upsert') && <span className="text-red-500">*</span>}
-              </label>
-              <select
-                value={targetMatchField}
-                onChange={(e) => setTargetMatchField(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                disabled={isCreating || isLoadingFields || targetFields.length === 0}
-              >
-                <option value="">
-                  {mode === 'create' ? 'None' : 'Select target field...'}
-                </option>
-                {targetFields.map((field) => (
-                  <option key={field.field_id} value={field.external_id}>
-                    {field.label} ({field.type})
-                  </option>
-                ))}
-              </select>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Field to search by
-              </p>
-            </div>
+          {/* Match Key Selection - source/target field pairs, several pairs form a composite key */}
+          <div>
+            <MatchKeyEditor
+              columns={[
+                {
+                  label: <>Source Match Field {(mode === 'update' || mode === 'upsert') && <span className="text-red-500">*</span>}</>,
+                  placeholder: mode === 'create' || mode === 'sync' ? 'None' : 'Select source field...',
+                  fields: isLoadingFields ? [] : sourceFields,
+                },
+                {
+                  label: <>Target Match Field {(mode === 'update' || mode === 'upsert') && <span className="text-red-500">*</span>}</>,
+                  placeholder: mode === 'create' || mode === 'sync' ? 'None' : 'Select target field...',
+                  fields: isLoadingFields ? [] : targetFields,
+                },
+              ]}
+              rows={matchKeyRows}
+              onChange={setMatchKeyRows}
+              disabled={isCreating}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Source field values are looked up in the paired target field
+            </p>
           </div>
 
           {/* Help text for match fields */}
@@ -746,13 +764,17 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             {mode === 'create' && 'Optional: Set both fields to enable duplicate detection'}
             {mode === 'update' && 'Required: Both fields must be set to match items for updating'}
             {mode === 'upsert' && 'Required: Both fields must be set (update if exists, create if not)'}
+            {mode === 'sync' && 'Optional: Set both fields to match items already in the target on the first run. Later runs update the items this job created.'}
           </div>
 
           {/* Field Type Warning */}
-          {sourceMatchField && targetMatchField && (() => {
-            const sourceField = sourceFields.find(f => f.external_id === sourceMatchField);
-            const targetField = targetFields.find(f => f.external_id === targetMatchField);
-            const validation = validateMatchFieldTypes(sourceField?.type, targetField?.type);
+          {completeMatchKeyRowList.length > 0 && (() => {
+            const validation = completeMatchKeyRowList
+              .map((row) => validateMatchFieldTypes(
+                sourceFields.find(f => f.external_id === row.fields[0])?.type,
+                targetFields.find(f => f.external_id === row.fields[1])?.type
+              ))
+              .find((result) => result.warning) ?? { valid: true };
 
             if (validation.warning) {
               return (
@@ -782,7 +804,7 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
           })()}
 
           {/* Duplicate Behavior - only show for CREATE mode with both match fields */}
-          {mode === 'create' && sourceMatchField && targetMatchField && (
+          {mode === 'create' && hasBothMatchFields && (
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 When Duplicate Found
@@ -915,6 +937,183 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             </label>
           </div>
 
+          {/* Comment Transfer */}
+          <div className="bg-purple-50 dark:bg-purple-900/10 border border-purple-200 dark:border-purple-800 rounded-md p-4">
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={transferComments}
+                onChange={(e) => setTransferComments(e.target.checked)}
+                className="mt-0.5 mr-3 h-4 w-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                disabled={isCreating}
+              />
+              <div>
+                <span className="text-sm font-medium text-purple-900 dark:text-purple-100">
+                  💬 Comments
+                </span>
+                <p className="mt-1 text-xs text-purple-700 dark:text-purple-300">
+                  Copy comments from source items to destination items in their original order. Each comment is prefixed with its original author and date. Comments already copied by this job are skipped when it resumes.
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {/* Task Transfer */}
+          <div className="bg-purple-50 dark:bg-purple-900/10 border border-purple-200 dark:border-purple-800 rounded-md p-4">
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={transferTasks}
+                onChange={(e) => setTransferTasks(e.target.checked)}
+                className="mt-0.5 mr-3 h-4 w-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                disabled={isCreating}
+              />
+              <div>
+                <span className="text-sm font-medium text-purple-900 dark:text-purple-100">
+                  ✅ Tasks
+                </span>
+                <p className="mt-1 text-xs text-purple-700 dark:text-purple-300">
+                  Recreate open tasks attached to source items on the destination items, keeping the text, due date, reminder and responsible user.
+                </p>
+              </div>
+            </label>
+            {transferTasks && (
+              <label className="flex items-center mt-3 ml-7 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeCompletedTasks}
+                  onChange={(e) => setIncludeCompletedTasks(e.target.checked)}
+                  className="mr-2 h-4 w-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                  disabled={isCreating}
+                />
+                <span className="text-xs text-purple-800 dark:text-purple-200">
+                  Include completed tasks
+                </span>
+              </label>
+            )}
+          </div>
+
+          {/* Category Options */}
+          <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={createMissingCategoryOptions}
+                onChange={(e) => setCreateMissingCategoryOptions(e.target.checked)}
+                className="mt-0.5 mr-3 h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                disabled={isCreating || dryRun}
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  🏷️ Create missing category options
+                </span>
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  Category values are matched to target options by label. When enabled, labels the target field does not have are added to it before migrating; otherwise those values are left empty.
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {/* Contact Matching */}
+          <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                checked={matchContacts}
+                onChange={(e) => setMatchContacts(e.target.checked)}
+                className="mt-0.5 mr-3 h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                disabled={isCreating}
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  👤 Match contacts to target space members
+                </span>
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  Use when the target space is in another organization. Contacts are matched by email, then by name; unmatched contacts are listed as warnings in dry-run previews.
+                </p>
+              </div>
+            </label>
+            {matchContacts && (
+              <div className="mt-3 ml-7 space-y-2">
+                <select
+                  value={contactFallback}
+                  onChange={(e) => setContactFallback(e.target.value as NonNullable<ContactMappingConfig['fallback']>)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  disabled={isCreating}
+                  aria-label="Unmatched contact fallback"
+                >
+                  <option value="drop">Leave unmatched contacts out</option>
+                  <option value="default_user">Assign a default user</option>
+                  <option value="note">Write unmatched names to a text field</option>
+                </select>
+                {contactFallback === 'default_user' && (
+                  <input
+                    type="number"
+                    value={contactDefaultProfileId}
+                    onChange={(e) => setContactDefaultProfileId(e.target.value)}
+                    placeholder="Target profile ID"
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    disabled={isCreating}
+                  />
+                )}
+                {contactFallback === 'note' && (
+                  <select
+                    value={contactNoteFieldId}
+                    onChange={(e) => setContactNoteFieldId(e.target.value)}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    disabled={isCreating || targetFields.length === 0}
+                    aria-label="Note field"
+                  >
+                    <option value="">-- Select target text field --</option>
+                    {targetFields
+                      .filter((field) => field.type === 'text')
+                      .map((field) => (
+                        <option key={field.field_id} value={field.field_id.toString()}>
+                          {field.label}
+                        </option>
+                      ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Source Deletions (UPSERT/SYNC only) */}
+          {(mode === 'upsert' || mode === 'sync') && (
+            <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+              <label className="block text-sm font-medium text-gray-900 dark:text-gray-100">
+                🗑️ Source deletions
+              </label>
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                After each run, target items whose source item was deleted are detected. Deleting or archiving them waits for your approval.
+              </p>
+              <div className="mt-3 space-y-2">
+                <select
+                  value={deletionAction}
+                  onChange={(e) => setDeletionAction(e.target.value as OrphanAction | '')}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  disabled={isCreating}
+                  aria-label="Source deletion action"
+                >
+                  <option value="">Ignore source deletions</option>
+                  <option value="report">Report orphaned target items</option>
+                  <option value="archive">Tag orphaned target items (archive)</option>
+                  <option value="delete">Delete orphaned target items</option>
+                </select>
+                {deletionAction === 'archive' && (
+                  <input
+                    type="text"
+                    value={archiveTag}
+                    onChange={(e) => setArchiveTag(e.target.value)}
+                    placeholder="Archive tag (default: source-deleted)"
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    disabled={isCreating}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -995,6 +1194,27 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             </div>
           )}
 
+          {/* Category options missing in the target app */}
+          {missingCategoryOptions.length > 0 && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4">
+              <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                ⚠️ {missingCategoryOptions.length} category option{missingCategoryOptions.length === 1 ? '' : 's'} not found in the target app
+              </h3>
+              <ul className="mt-2 text-xs text-yellow-700 dark:text-yellow-300 list-disc list-inside max-h-32 overflow-y-auto">
+                {missingCategoryOptions.map((option) => (
+                  <li key={`${option.targetFieldExternalId}-${option.sourceOptionId}`}>
+                    {option.targetFieldLabel}: {option.label}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">
+                {createMissingCategoryOptions
+                  ? 'These options will be added to the target fields.'
+                  : 'Values using these options will be left empty. Enable "Create missing category options" to add them.'}
+              </p>
+            </div>
+          )}
+
           <button
             onClick={handleStartMigration}
             disabled={!canStart || isValidating}
@@ -1075,9 +1295,20 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
               <ResumeButton jobId={jobId} resumption={jobStatus.resumption} />
             )}
 
-            {/* Retry Failed Items Button - Show when there are failed items (not available for UPDATE mode) */}
+            {/* Sync Now - sync jobs re-run on demand; failed items are picked up by the next run */}
+            {jobId && jobStatus.mode === 'sync' &&
+             (jobStatus.status === 'completed' || jobStatus.status === 'failed' || jobStatus.status === 'cancelled') && (
+              <SyncButton
+                onSync={() => runSync(jobId)}
+                isSyncing={isSyncing}
+                watermark={jobStatus.resumption?.lastProcessedTimestamp}
+                sync={jobStatus.sync}
+              />
+            )}
+
+            {/* Retry Failed Items Button - Show when there are failed items (not available for UPDATE or SYNC mode) */}
             {jobId && jobStatus && actualFailedCount > 0 &&
-             jobStatus.mode !== 'update' &&
+             jobStatus.mode !== 'update' && jobStatus.mode !== 'sync' &&
              (jobStatus.status === 'completed' || jobStatus.status === 'failed' || jobStatus.status === 'paused' || jobStatus.status === 'cancelled') && (
               <div className="flex-1 flex flex-col gap-2">
                 {/* Retry attempts info */}
@@ -1219,6 +1450,24 @@ export function ItemMigrationPanel({ sourceAppId, targetAppId }: ItemMigrationPa
             )}
           </div>
           )}
+
+          {/* Orphan Reconciliation - target items whose source item was deleted */}
+          {!(jobStatus as any).dryRunPreview && (jobStatus.mode === 'upsert' || jobStatus.mode === 'sync') &&
+           jobStatus.status !== 'in_progress' && jobStatus.status !== 'planning' && (
+            <OrphanReconciliationPanel jobId={jobId} reconciliation={jobStatus.orphanReconciliation} />
+          )}
+
+          {/* Reconciliation Report - field-by-field comparison of finished jobs */}
+          {!(jobStatus as any).dryRunPreview &&
+           (jobStatus.status === 'completed' || jobStatus.status === 'failed' || jobStatus.status === 'cancelled') && (
+            <ReconciliationPanel jobId={jobId} report={jobStatus.reconciliation} />
+          )}
+
+          {/* Rollback - undo the items this job created or updated */}
+          {!(jobStatus as any).dryRunPreview &&
+           (jobStatus.status === 'completed' || jobStatus.status === 'failed' || jobStatus.status === 'paused' || jobStatus.status === 'cancelled') && (
+            <RollbackPanel jobId={jobId} />
+          )}
         </div>
       )}
     </div>
@@ -1310,6 +1559,57 @@ function PauseButton({ jobId }: { jobId: string }) {
   );
 }
 
+/**
+ * Sync Button Component
+ */
+function SyncButton({
+  onSync,
+  isSyncing,
+  watermark,
+  sync,
+}: {
+  onSync: () => void;
+  isSyncing: boolean;
+  watermark?: string;
+  sync?: SyncState;
+}) {
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      {/* Watermark and last run */}
+      <div className="text-xs text-gray-600 dark:text-gray-400 px-2">
+        <span className="font-medium">Synced up to:</span>{' '}
+        {watermark ? `${watermark} UTC` : 'not yet synced'}
+        {sync?.lastRunAt && (
+          <span className="ml-2">
+            (run {sync.runs}, {new Date(sync.lastRunAt).toLocaleString()}: {sync.lastRunItems ?? 0} items
+            {sync.lastRunFailed ? `, ${sync.lastRunFailed} failed` : ''})
+          </span>
+        )}
+      </div>
+
+      <button
+        onClick={onSync}
+        disabled={isSyncing}
+        className="w-full py-2 px-4 bg-teal-600 hover:bg-teal-700 disabled:bg-teal-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSyncing ? (
+          <>
+            <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            </svg>
+            Syncing...
+          </>
+        ) : (
+          <>
+            🔁 Sync Now
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
+
 /**
  * Resume Button Component
  */
@@ -138,6 +138,24 @@ export function ItemMigrationProgress({ jobStatus, isActive }: ItemMigrationProg
         </div>
       </div>
 
+      {/* Task Transfer */}
+      {progress.tasks && (
+        <div className="bg-purple-50 dark:bg-purple-900/20 p-2 rounded text-xs text-purple-700 dark:text-purple-300">
+          Tasks: {progress.tasks.copied.toLocaleString()} copied
+          {progress.tasks.skipped > 0 && `, ${progress.tasks.skipped.toLocaleString()} already copied`}
+          {progress.tasks.failed > 0 && `, ${progress.tasks.failed.toLocaleString()} failed`}
+        </div>
+      )}
+
+      {/* Comment Transfer */}
+      {progress.comments && (
+        <div className="bg-purple-50 dark:bg-purple-900/20 p-2 rounded text-xs text-purple-700 dark:text-purple-300">
+          Comments: {progress.comments.copied.toLocaleString()} copied
+          {progress.comments.skipped > 0 && `, ${progress.comments.skipped.toLocaleString()} already copied`}
+          {progress.comments.failed > 0 && `, ${progress.comments.failed.toLocaleString()} failed`}
+        </div>
+      )}
+
       {/* Throughput Metrics */}
       {jobStatus.throughput && (
         <div className="mt-4 space-y-3">
@@ -0,0 +1,173 @@
+'use client';
+
+import React from 'react';
+import { MatchKey, MatchKeyField, MatchNormalization } from '@/lib/migration/items/types';
+import { AppFieldInfo } from './FieldMappingRow';
+
+/**
+ * One field of the key: the selected external_id per column and how values are compared
+ */
+export interface MatchKeyRow {
+  fields: string[];
+  normalize: MatchNormalization;
+}
+
+export interface MatchKeyColumn {
+  label: React.ReactNode;
+  placeholder: string;
+  fields: AppFieldInfo[];
+}
+
+export interface MatchKeyEditorProps {
+  /** One column per app: source and target for migrations, the app itself for cleanup */
+  columns: MatchKeyColumn[];
+  rows: MatchKeyRow[];
+  onChange: (rows: MatchKeyRow[]) => void;
+  disabled?: boolean;
+}
+
+const NORMALIZATION_LABELS: Record<MatchNormalization, string> = {
+  default: 'Exact (ignore case)',
+  text: 'Loose text',
+  digits: 'Digits only',
+  date: 'Date (ignore time)',
+};
+
+const NORMALIZATION_HINTS: Record<MatchNormalization, string> = {
+  default: 'Trimmed and case-insensitive; numbers compare by value',
+  text: 'Also ignores accents, spaces and punctuation',
+  digits: 'Compares digits only, e.g. phone numbers',
+  date: 'Compares the calendar day of the (start) date',
+};
+
+const selectClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+export function emptyMatchKeyRow(columnCount: number): MatchKeyRow {
+  return { fields: Array(columnCount).fill(''), normalize: 'default' };
+}
+
+/**
+ * Rows with a field selected in every column
+ */
+export function completeMatchKeyRows(rows: MatchKeyRow[]): MatchKeyRow[] {
+  return rows.filter((row) => row.fields.every(Boolean));
+}
+
+/**
+ * Build the match key of one column from the complete rows
+ * A single field compared the default way is sent as a plain external_id.
+ */
+export function toMatchKey(rows: MatchKeyRow[], column: number): MatchKey | undefined {
+  const complete = completeMatchKeyRows(rows);
+  if (complete.length === 0) {
+    return undefined;
+  }
+  if (complete.length === 1 && complete[0].normalize === 'default') {
+    return complete[0].fields[column];
+  }
+  return complete.map((row): MatchKeyField => ({ field: row.fields[column], normalize: row.normalize }));
+}
+
+/**
+ * Readable form of a match key, e.g. "first-name + last-name"
+ */
+export function matchKeyLabel(matchKey: MatchKey): string {
+  return typeof matchKey === 'string' ? matchKey : matchKey.map((keyField) => keyField.field).join(' + ');
+}
+
+/**
+ * Editor for single-field and composite match keys
+ */
+export function MatchKeyEditor({ columns, rows, onChange, disabled }: MatchKeyEditorProps) {
+  const gridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr)) 11rem 2rem` };
+
+  const updateField = (index: number, column: number, externalId: string) => {
+    const row = rows[index];
+    const fields = [...row.fields];
+    fields[column] = externalId;
+
+    // Date fields are compared by day unless the user picks otherwise
+    const isDate = columns[column].fields.find((field) => field.external_id === externalId)?.type === 'date';
+    const normalize: MatchNormalization = isDate ? 'date' : row.normalize === 'date' ? 'default' : row.normalize;
+
+    onChange(rows.map((current, i) => (i === index ? { fields, normalize } : current)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 text-sm font-medium text-gray-700 dark:text-gray-300" style={gridStyle}>
+        {columns.map((column, columnIndex) => (
+          <div key={columnIndex}>{column.label}</div>
+        ))}
+        <div>Compare as</div>
+        <div />
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="grid gap-2 items-center" style={gridStyle}>
+          {columns.map((column, columnIndex) => (
+            <select
+              key={columnIndex}
+              value={row.fields[columnIndex] ?? ''}
+              onChange={(e) => updateField(index, columnIndex, e.target.value)}
+              className={selectClass}
+              disabled={disabled || column.fields.length === 0}
+            >
+              <option value="">{column.placeholder}</option>
+              {column.fields.map((field) => (
+                <option key={field.field_id} value={field.external_id}>
+                  {field.label} ({field.type})
+                </option>
+              ))}
+            </select>
+          ))}
+          <select
+            value={row.normalize}
+            onChange={(e) =>
+              onChange(rows.map((current, i) => (i === index ? { ...current, normalize: e.target.value as MatchNormalization } : current)))
+            }
+            className={selectClass}
+            title={NORMALIZATION_HINTS[row.normalize]}
+            disabled={disabled}
+          >
+            {(Object.keys(NORMALIZATION_LABELS) as MatchNormalization[]).map((normalize) => (
+              <option key={normalize} value={normalize} title={NORMALIZATION_HINTS[normalize]}>
+                {NORMALIZATION_LABELS[normalize]}
+              </option>
+            ))}
+          </select>
+          {rows.length > 1 ? (
+            <button
+              type="button"
+              onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Remove field from key"
+              disabled={disabled}
+            >
+              ✕
+            </button>
+          ) : (
+            <div />
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange([...rows, emptyMatchKeyRow(columns.length)])}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          disabled={disabled}
+        >
+          + Add field to key
+        </button>
+        {rows.length > 1 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Items match only when every field matches
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { SelectionColumn } from './SelectionColumn';
 import { FlowClonePanel } from './FlowClonePanel';
 import { ItemMigrationPanel } from './ItemMigrationPanel';
 import { CleanupPanel } from './CleanupPanel';
+import { SchedulesPanel } from './SchedulesPanel';
+import { TemplatesPanel } from './TemplatesPanel';
 import { TabContainer, MigrationTabType } from './TabContainer';
 import { RateLimitBanner } from './RateLimitBanner';
 import { useMigrationContext } from '@/app/contexts/MigrationContext';
@@ -356,6 +358,12 @@ export function MigrationSelectionPanel({ onSelectionChange }: MigrationSelectio
             />
           )}
         </TabContainer>
+
+        {/* Recurring Jobs */}
+        <SchedulesPanel sourceAppId={source.appId} targetAppId={destination.appId} />
+
+        {/* Saved Job Configurations */}
+        <TemplatesPanel />
       </div>
     </div>
   );
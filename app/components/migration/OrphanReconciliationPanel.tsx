@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { OrphanReconciliationState } from '@/lib/migration/items/types';
+
+export interface OrphanReconciliationPanelProps {
+  jobId: string;
+  reconciliation?: OrphanReconciliationState;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Orphan Reconciliation Panel Component
+ * Detects target items whose source item was deleted and applies the job's
+ * delete/archive action to the orphans the user approves
+ */
+export function OrphanReconciliationPanel({ jobId, reconciliation }: OrphanReconciliationPanelProps) {
+  const [state, setState] = useState<OrphanReconciliationState | undefined>(reconciliation);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setState(reconciliation);
+  }, [reconciliation]);
+
+  // Select every orphan by default when a detection is ready for review
+  useEffect(() => {
+    if (state?.status === 'waiting_approval') {
+      setSelected(new Set(state.orphans.map((orphan) => orphan.targetItemId)));
+    }
+  }, [state?.status, state?.orphans]);
+
+  const isRunning = state?.status === 'detecting' || state?.status === 'applying';
+
+  // Poll while detection or the approved action is running
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/migration/items/${jobId}/orphans`);
+        if (response.ok) {
+          const data = await response.json();
+          setState(data.orphanReconciliation ?? undefined);
+        }
+      } catch (err) {
+        console.error('Failed to poll orphan reconciliation:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [jobId, isRunning]);
+
+  const post = async (path: string, body: Record<string, unknown>, nextStatus: OrphanReconciliationState['status']) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/migration/items/${jobId}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      setState((prev) => ({
+        action: prev?.action ?? 'report',
+        archiveTag: prev?.archiveTag,
+        orphans: prev?.orphans ?? [],
+        status: nextStatus,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggle = (targetItemId: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(targetItemId)) {
+        next.delete(targetItemId);
+      } else {
+        next.add(targetItemId);
+      }
+      return next;
+    });
+  };
+
+  const actionLabel = state?.action === 'delete'
+    ? 'Delete'
+    : `Tag "${state?.archiveTag || 'source-deleted'}" on`;
+
+  return (
+    <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          🗑️ Deleted Source Items
+        </span>
+        <button
+          onClick={() => post('orphans', {}, 'detecting')}
+          disabled={isSubmitting || isRunning}
+          className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          type="button"
+        >
+          {state?.status === 'detecting' ? 'Detecting...' : 'Detect Deleted Items'}
+        </button>
+      </div>
+
+      {!state && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          No reconciliation has run for this job yet.
+        </p>
+      )}
+
+      {state?.status === 'applying' && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Applying {state.action} to approved items...
+        </p>
+      )}
+
+      {state?.status === 'failed' && state.error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+          Reconciliation failed: {state.error}
+        </p>
+      )}
+
+      {state?.status === 'completed' && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          {state.result
+            ? `${state.result.deleted} deleted, ${state.result.archived} archived, ${state.result.failed} failed.`
+            : `${state.orphans.length} orphaned target item${state.orphans.length === 1 ? '' : 's'} found.`}
+          {state.completedAt && ` (${new Date(state.completedAt).toLocaleString()})`}
+        </p>
+      )}
+
+      {state?.result && state.result.errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-600 dark:text-red-400 space-y-1">
+          {state.result.errors.map((failure) => (
+            <li key={failure.targetItemId}>
+              Item {failure.targetItemId}: {failure.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Orphan list - selectable while waiting for approval */}
+      {state && state.orphans.length > 0 && state.status !== 'detecting' && (
+        <div className="mt-3 max-h-64 overflow-y-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-gray-300 dark:border-gray-700">
+                {state.status === 'waiting_approval' && <th className="w-8" />}
+                <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">
+                  Source Item
+                </th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">
+                  Target Item
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {state.orphans.map((orphan) => (
+                <tr
+                  key={orphan.targetItemId}
+                  className="border-b border-gray-200 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                >
+                  {state.status === 'waiting_approval' && (
+                    <td className="py-2 px-1">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(orphan.targetItemId)}
+                        onChange={() => toggle(orphan.targetItemId)}
+                        className="h-4 w-4 rounded border-gray-300"
+                        aria-label={`Approve target item ${orphan.targetItemId}`}
+                      />
+                    </td>
+                  )}
+                  <td className="py-2 px-3">
+                    <code className="text-xs font-mono text-gray-500 dark:text-gray-400 line-through">
+                      {orphan.sourceItemId}
+                    </code>
+                  </td>
+                  <td className="py-2 px-3">
+                    <code className="text-xs font-mono bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded text-gray-900 dark:text-gray-100">
+                      {orphan.targetItemId}
+                    </code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {state?.status === 'waiting_approval' && (
+        <button
+          onClick={() => {
+            if (window.confirm(`${actionLabel} ${selected.size} target item(s)?`)) {
+              post('orphans/approve', { targetItemIds: Array.from(selected) }, 'applying');
+            }
+          }}
+          disabled={isSubmitting || selected.size === 0}
+          className="mt-3 w-full py-2 px-4 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+          type="button"
+        >
+          {actionLabel} {selected.size.toLocaleString()} Selected Item{selected.size === 1 ? '' : 's'}
+        </button>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ReconciliationReport } from '@/lib/migration/items/types';
+
+export interface ReconciliationPanelProps {
+  jobId: string;
+  report?: ReconciliationReport;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Reconciliation Panel Component
+ * Runs a field-by-field comparison of the source and target apps and shows
+ * per-field mismatch counts with a CSV download of the differing values
+ */
+export function ReconciliationPanel({ jobId, report: initialReport }: ReconciliationPanelProps) {
+  const [report, setReport] = useState<ReconciliationReport | undefined>(initialReport);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(initialReport);
+  }, [initialReport]);
+
+  const isRunning = report?.status === 'running';
+
+  // Poll while the report is being built
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/migration/items/${jobId}/reconciliation`);
+        if (response.ok) {
+          const data = await response.json();
+          setReport(data.reconciliation ?? undefined);
+        }
+      } catch (err) {
+        console.error('Failed to poll reconciliation report:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [jobId, isRunning]);
+
+  const startReport = async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/migration/items/${jobId}/reconciliation`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Failed to start reconciliation');
+      }
+
+      setReport((prev) => ({
+        ...(prev ?? {
+          pairedBy: 'id_map',
+          sourceItems: 0,
+          targetItems: 0,
+          paired: 0,
+          missingInTarget: 0,
+          unpairedTarget: 0,
+          itemsWithDifferences: 0,
+          fields: [],
+        }),
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        error: undefined,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start reconciliation');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const mismatchedFields = report?.fields.filter((field) => field.mismatched > 0) ?? [];
+
+  return (
+    <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          🔍 Reconciliation Report
+        </span>
+        <div className="flex gap-2">
+          {report?.status === 'completed' && (
+            <a
+              href={`/api/migration/items/${jobId}/reconciliation?format=csv`}
+              className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              download
+            >
+              ⬇️ CSV
+            </a>
+          )}
+          <button
+            onClick={startReport}
+            disabled={isStarting || isRunning}
+            className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            type="button"
+          >
+            {isRunning ? 'Comparing...' : report ? 'Run Again' : 'Compare Source & Target'}
+          </button>
+        </div>
+      </div>
+
+      {!report && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Compares every mapped field of each migrated item with its target item.
+        </p>
+      )}
+
+      {report?.status === 'failed' && report.error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+          Reconciliation failed: {report.error}
+        </p>
+      )}
+
+      {report?.status === 'completed' && (
+        <>
+          <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+            <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+              <div className="text-gray-500 dark:text-gray-400">Paired</div>
+              <div className="font-semibold text-gray-900 dark:text-gray-100">
+                {report.paired.toLocaleString()} / {report.sourceItems.toLocaleString()}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+              <div className="text-gray-500 dark:text-gray-400">With differences</div>
+              <div className="font-semibold text-gray-900 dark:text-gray-100">
+                {report.itemsWithDifferences.toLocaleString()}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+              <div className="text-gray-500 dark:text-gray-400">Missing in target</div>
+              <div className="font-semibold text-gray-900 dark:text-gray-100">
+                {report.missingInTarget.toLocaleString()}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+              <div className="text-gray-500 dark:text-gray-400">Unpaired target items</div>
+              <div className="font-semibold text-gray-900 dark:text-gray-100">
+                {report.unpairedTarget.toLocaleString()}
+              </div>
+            </div>
+          </div>
+
+          {mismatchedFields.length === 0 ? (
+            <p className="mt-3 text-xs text-green-700 dark:text-green-400">
+              ✓ All {report.fields.length} mapped fields match on every paired item.
+            </p>
+          ) : (
+            <table className="mt-3 w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b-2 border-gray-300 dark:border-gray-700">
+                  <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Field</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Mismatched</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mismatchedFields.map((field) => (
+                  <tr key={field.sourceField} className="border-b border-gray-200 dark:border-gray-800">
+                    <td className="py-2 px-3 text-gray-900 dark:text-gray-100">
+                      {field.label}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {field.sourceField} → {field.targetField}
+                      </span>
+                      {field.transformed && (
+                        <span className="ml-2 text-xs text-amber-600 dark:text-amber-400" title="This mapping has value transforms">
+                          transformed
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right text-red-600 dark:text-red-400">
+                      {field.mismatched.toLocaleString()} / {field.compared.toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
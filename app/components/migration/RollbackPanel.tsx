@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ItemRollbackStatusResponse } from '@/lib/migration/items/types';
+
+export interface RollbackPanelProps {
+  jobId: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Rollback Panel Component
+ * Previews and runs the undo of an item migration job: created items are
+ * deleted and overwritten values restored from the job's undo journal
+ */
+export function RollbackPanel({ jobId }: RollbackPanelProps) {
+  const [rollback, setRollback] = useState<ItemRollbackStatusResponse | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRollback = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/migration/items/${jobId}/rollback`);
+      if (response.ok) {
+        const data = await response.json();
+        setRollback(data.rollback ?? null);
+      }
+    } catch (err) {
+      console.error('Failed to fetch rollback status:', err);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchRollback();
+  }, [fetchRollback]);
+
+  const isRunning =
+    rollback?.status === 'queued' || rollback?.status === 'in_progress' || rollback?.status === 'planning';
+
+  // Poll while the rollback is running
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(fetchRollback, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRunning, fetchRollback]);
+
+  const post = async (path: string, body?: Record<string, unknown>) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/migration/items/${jobId}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      await fetchRollback();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canStart = !isRunning && rollback?.status !== 'paused';
+  const canResume = !rollback?.dryRun && (rollback?.status === 'paused' || rollback?.status === 'failed');
+
+  return (
+    <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          ↩️ Rollback
+        </span>
+        <div className="flex gap-2">
+          {canStart && (
+            <>
+              <button
+                onClick={() => post('rollback', { dryRun: true })}
+                disabled={isSubmitting}
+                className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                type="button"
+              >
+                Preview
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm('Delete every item this job created and restore the values it overwrote?')) {
+                    post('rollback', { dryRun: false });
+                  }
+                }}
+                disabled={isSubmitting}
+                className="py-1.5 px-3 text-sm bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+                type="button"
+              >
+                Roll Back Job
+              </button>
+            </>
+          )}
+          {isRunning && !rollback?.dryRun && (
+            <button
+              onClick={() => post('rollback/pause')}
+              disabled={isSubmitting}
+              className="py-1.5 px-3 text-sm bg-yellow-600 hover:bg-yellow-700 disabled:bg-yellow-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+              type="button"
+            >
+              {isSubmitting ? 'Pausing...' : '⏸ Pause'}
+            </button>
+          )}
+          {canResume && (
+            <button
+              onClick={() => post('rollback/resume')}
+              disabled={isSubmitting}
+              className="py-1.5 px-3 text-sm bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+              type="button"
+            >
+              ▶ Resume
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!rollback && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Deletes the items this job created and restores the field values it overwrote. Preview first to see what would change.
+        </p>
+      )}
+
+      {rollback && !rollback.dryRun && rollback.progress && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span className="capitalize">{rollback.status.replace('_', ' ')}</span>
+            <span>
+              {rollback.progress.processed.toLocaleString()} / {rollback.progress.total.toLocaleString()}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-red-600 h-2 rounded-full transition-all"
+              style={{ width: `${rollback.progress.percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {rollback?.result && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          {rollback.result.deleted.toLocaleString()} deleted, {rollback.result.restored.toLocaleString()} restored
+          {rollback.result.failed > 0 && (
+            <span className="text-red-600 dark:text-red-400">, {rollback.result.failed.toLocaleString()} failed</span>
+          )}
+        </p>
+      )}
+
+      {rollback?.result && rollback.result.errors.length > 0 && (
+        <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-red-600 dark:text-red-400 space-y-1">
+          {rollback.result.errors.map((failure, idx) => (
+            <li key={`${failure.targetItemId}-${idx}`}>
+              Item {failure.targetItemId} ({failure.operation}): {failure.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rollback?.dryRun && rollback.status === 'completed' && rollback.preview && (
+        <div className="mt-3 text-xs text-gray-700 dark:text-gray-300 space-y-1">
+          <p>
+            Would delete <strong>{rollback.preview.wouldDelete.toLocaleString()}</strong> created items and restore{' '}
+            <strong>{rollback.preview.wouldRestore.toLocaleString()}</strong> updated items.
+            {rollback.preview.alreadyRolledBack > 0 &&
+              ` ${rollback.preview.alreadyRolledBack.toLocaleString()} items were already rolled back.`}
+          </p>
+          {rollback.preview.restores.length > 0 && (
+            <details>
+              <summary className="cursor-pointer">Values to restore (first {rollback.preview.restores.length})</summary>
+              <ul className="mt-1 space-y-1 font-mono">
+                {rollback.preview.restores.map((restore) => (
+                  <li key={restore.targetItemId}>
+                    {restore.targetItemId}: {JSON.stringify(restore.fields)}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { JobSchedule, ScheduleRun, ScheduleRunOutcome } from '@/lib/migration/schedules/types';
+import { matchKeyLabel } from './MatchKeyEditor';
+
+export interface SchedulesPanelProps {
+  sourceAppId?: number;
+  targetAppId?: number;
+}
+
+const POLL_INTERVAL_MS = 30000;
+
+const OUTCOME_STYLES: Record<ScheduleRunOutcome, string> = {
+  queued: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
+  paused: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  waiting_approval: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  completed: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  failed: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  cancelled: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300',
+  skipped: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400',
+};
+
+/**
+ * Starting point for the job definition, filled from the selected apps
+ */
+function jobTemplate(type: 'item_migration' | 'cleanup', sourceAppId?: number, targetAppId?: number): string {
+  const job =
+    type === 'item_migration'
+      ? {
+          type,
+          sourceAppId: sourceAppId ?? 0,
+          targetAppId: targetAppId ?? 0,
+          mode: 'upsert',
+          sourceMatchField: 'source-field-external-id',
+          targetMatchField: 'target-field-external-id',
+        }
+      : { type, appId: sourceAppId ?? 0, matchField: 'field-external-id', mode: 'automated', keepStrategy: 'oldest' };
+  return JSON.stringify(job, null, 2);
+}
+
+function describeJob(schedule: JobSchedule): string {
+  const { job } = schedule;
+  return job.type === 'item_migration'
+    ? `Item migration ${job.sourceAppId} → ${job.targetAppId}${job.mode ? ` (${job.mode})` : ''}`
+    : `Duplicate cleanup in ${job.appId} on ${matchKeyLabel(job.matchField)}`;
+}
+
+function formatTime(iso?: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function OutcomeBadge({ run }: { run: ScheduleRun }) {
+  return (
+    <span
+      className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full capitalize ${OUTCOME_STYLES[run.outcome]}`}
+      title={run.message}
+    >
+      {run.outcome.replace('_', ' ')}
+    </span>
+  );
+}
+
+/**
+ * Schedules Panel Component
+ * Saved item migration and cleanup jobs that run on a cron schedule, with
+ * their recent runs
+ */
+export function SchedulesPanel({ sourceAppId, targetAppId }: SchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<JobSchedule[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState('0 2 * * *');
+  const [sinceLastRun, setSinceLastRun] = useState(false);
+  const [jobText, setJobText] = useState(() => jobTemplate('item_migration', sourceAppId, targetAppId));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/migration/schedules');
+      if (response.ok) {
+        const data = await response.json();
+        setSchedules(data.schedules ?? []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch schedules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+    const interval = setInterval(fetchSchedules, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchSchedules]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      await fetchSchedules();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isItemJob = jobText.includes('"item_migration"');
+
+  const handleCreate = async () => {
+    let job: unknown;
+    try {
+      job = JSON.parse(jobText);
+    } catch {
+      setError('Job definition is not valid JSON');
+      return;
+    }
+
+    const created = await request('/api/migration/schedules', 'POST', {
+      name,
+      cron,
+      job,
+      sinceLastRun: isItemJob && sinceLastRun,
+    });
+    if (created) {
+      setIsFormOpen(false);
+      setName('');
+    }
+  };
+
+  return (
+    <div className="mt-8 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          🕑 Scheduled Jobs
+        </span>
+        <button
+          onClick={() => setIsFormOpen(!isFormOpen)}
+          className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          type="button"
+        >
+          {isFormOpen ? 'Cancel' : 'New Schedule'}
+        </button>
+      </div>
+
+      {isFormOpen && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nightly sync"
+                className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Cron (minute hour day month weekday, server time)</span>
+              <input
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Job definition (same as a CLI job spec)</span>
+              <span className="flex gap-2 text-xs">
+                <button
+                  onClick={() => setJobText(jobTemplate('item_migration', sourceAppId, targetAppId))}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  type="button"
+                >
+                  Item migration template
+                </button>
+                <button
+                  onClick={() => setJobText(jobTemplate('cleanup', sourceAppId))}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  type="button"
+                >
+                  Cleanup template
+                </button>
+              </span>
+            </div>
+            <textarea
+              value={jobText}
+              onChange={(e) => setJobText(e.target.value)}
+              rows={8}
+              className="mt-1 w-full px-2 py-1.5 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+
+          {isItemJob && (
+            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={sinceLastRun} onChange={(e) => setSinceLastRun(e.target.checked)} />
+              Only items edited since the last successful run
+            </label>
+          )}
+
+          <button
+            onClick={handleCreate}
+            disabled={isSubmitting || !name.trim()}
+            className="py-1.5 px-3 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+            type="button"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Schedule'}
+          </button>
+        </div>
+      )}
+
+      {schedules.length === 0 && !isFormOpen && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Run the same item migration or duplicate cleanup automatically, e.g. every night. Each run creates a new job.
+        </p>
+      )}
+
+      {schedules.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-200 dark:divide-gray-700">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="py-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {schedule.name}
+                    {!schedule.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {describeJob(schedule)} · <span className="font-mono">{schedule.cron}</span>
+                    {schedule.sinceLastRun && ' · edited since last run'}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    Next run: {schedule.enabled ? formatTime(schedule.nextRunAt) : '—'}
+                    {schedule.history[0] && (
+                      <>
+                        {' · Last run: '}
+                        {formatTime(schedule.history[0].startedAt)} <OutcomeBadge run={schedule.history[0]} />
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() =>
+                      request(`/api/migration/schedules/${schedule.id}/${schedule.enabled ? 'disable' : 'enable'}`, 'POST')
+                    }
+                    disabled={isSubmitting}
+                    className="py-1 px-2 text-xs border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                    type="button"
+                  >
+                    {schedule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete schedule "${schedule.name}"? Jobs it created are kept.`)) {
+                        request(`/api/migration/schedules/${schedule.id}`, 'DELETE');
+                      }
+                    }}
+                    disabled={isSubmitting}
+                    className="py-1 px-2 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                    type="button"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {schedule.history.length > 0 && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-gray-600 dark:text-gray-400">
+                    Run history ({schedule.history.length})
+                  </summary>
+                  <table className="mt-1 w-full text-xs text-gray-700 dark:text-gray-300">
+                    <tbody>
+                      {schedule.history.map((run) => (
+                        <tr key={`${run.scheduledFor}-${run.startedAt}`}>
+                          <td className="py-0.5 pr-2">{formatTime(run.startedAt)}</td>
+                          <td className="py-0.5 pr-2"><OutcomeBadge run={run} /></td>
+                          <td className="py-0.5 pr-2 font-mono">{run.jobId ?? ''}</td>
+                          <td className="py-0.5">
+                            {run.summary
+                              ? `${run.summary.successful.toLocaleString()} ok, ${run.summary.failed.toLocaleString()} failed`
+                              : run.message ?? ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { JobSpec } from '@/lib/cli/job-spec';
+import type { JobTemplate } from '@/lib/migration/templates/types';
+import { matchKeyLabel } from './MatchKeyEditor';
+
+function describeSpec(spec: JobSpec): string {
+  switch (spec.type) {
+    case 'item_migration':
+      return `Item migration ${spec.sourceAppId} → ${spec.targetAppId}${spec.mode ? ` (${spec.mode})` : ''}`;
+    case 'cleanup':
+      return `Duplicate cleanup in ${spec.appId} on ${matchKeyLabel(spec.matchField)}`;
+    case 'flow_clone':
+      return `Flow clone ${spec.sourceAppId} → ${spec.targetAppId} (${spec.flows.length} flows)`;
+  }
+}
+
+async function readError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.message || data.details || data.error || 'Request failed';
+}
+
+/**
+ * Templates Panel Component
+ * Saved job configurations: run them again, re-run a past job with the same
+ * (or edited) configuration, and move templates between installs as JSON files
+ */
+export function TemplatesPanel() {
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [sourceJobId, setSourceJobId] = useState('');
+  const [loadedJobId, setLoadedJobId] = useState<string | null>(null);
+  const [specText, setSpecText] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/migration/templates');
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates ?? []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch templates:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  /**
+   * Send a request and refresh the list; returns the response body, or null on failure
+   */
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const data = await response.json();
+      await fetchTemplates();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const parseSpec = (): Record<string, unknown> | null => {
+    try {
+      return JSON.parse(specText);
+    } catch {
+      setError('Job configuration is not valid JSON');
+      return null;
+    }
+  };
+
+  const handleLoadJob = async () => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/jobs/${encodeURIComponent(sourceJobId.trim())}/clone`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+      const data = await response.json();
+      setSpecText(JSON.stringify(data.spec, null, 2));
+      setLoadedJobId(data.jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load job');
+    }
+  };
+
+  const handleRunClone = async () => {
+    const spec = parseSpec();
+    if (!spec || !loadedJobId) return;
+
+    const data = await request(`/api/admin/jobs/${encodeURIComponent(loadedJobId)}/clone`, 'POST', {
+      overrides: spec,
+    });
+    if (data) {
+      setMessage(`Created job ${data.jobId} (${data.queueStatus})`);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const spec = parseSpec();
+    if (!spec) return;
+
+    const data = await request('/api/migration/templates', 'POST', {
+      name,
+      description,
+      spec,
+    });
+    if (data) {
+      setIsFormOpen(false);
+      setName('');
+      setDescription('');
+      setMessage(`Saved template "${data.template.name}"`);
+    }
+  };
+
+  const handleRunTemplate = async (template: JobTemplate) => {
+    const data = await request(`/api/migration/templates/${template.id}/run`, 'POST', {});
+    if (data) {
+      setMessage(`Created job ${data.jobId} from "${template.name}" (${data.queueStatus})`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    let contents: unknown;
+    try {
+      contents = JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} is not valid JSON`);
+      return;
+    }
+
+    const data = await request('/api/migration/templates/import', 'POST', contents);
+    if (data) {
+      const failures = (data.errors as Array<{ index: number; name?: string; message: string }>)
+        .map((entry) => `#${entry.index + 1}${entry.name ? ` "${entry.name}"` : ''}: ${entry.message}`)
+        .join('\n');
+      setMessage(`Imported ${data.imported.length} template(s)`);
+      if (failures) {
+        setError(`Not imported:\n${failures}`);
+      }
+    }
+  };
+
+  const buttonClass =
+    'py-1 px-2 text-xs border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          📋 Job Templates
+        </span>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} disabled={isSubmitting} className={buttonClass} type="button">
+            Import
+          </button>
+          {templates.length > 0 && (
+            <a href="/api/migration/templates/export" className={buttonClass} download>
+              Export all
+            </a>
+          )}
+          <button onClick={() => setIsFormOpen(!isFormOpen)} className={buttonClass} type="button">
+            {isFormOpen ? 'Cancel' : 'From a Job'}
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {isFormOpen && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="flex items-end gap-2">
+            <label className="block flex-1">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Job ID (item migration, cleanup or flow clone)</span>
+              <input
+                value={sourceJobId}
+                onChange={(e) => setSourceJobId(e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </label>
+            <button onClick={handleLoadJob} disabled={!sourceJobId.trim()} className={buttonClass} type="button">
+              Load Configuration
+            </button>
+          </div>
+
+          <textarea
+            value={specText}
+            onChange={(e) => setSpecText(e.target.value)}
+            rows={8}
+            placeholder="Job configuration (same as a CLI job spec)"
+            className="w-full px-2 py-1.5 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          />
+
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Template name"
+              className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleRunClone}
+              disabled={isSubmitting || !loadedJobId || !specText.trim()}
+              className="py-1.5 px-3 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-md font-medium transition-colors disabled:cursor-not-allowed"
+              type="button"
+            >
+              Run as New Job
+            </button>
+            <button
+              onClick={handleSaveTemplate}
+              disabled={isSubmitting || !name.trim() || !specText.trim()}
+              className="py-1.5 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+              type="button"
+            >
+              Save as Template
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates.length === 0 && !isFormOpen && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Save a job&apos;s configuration to run it again later, or to share it as a JSON file.
+        </p>
+      )}
+
+      {templates.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-200 dark:divide-gray-700">
+          {templates.map((template) => (
+            <li key={template.id} className="py-3 text-sm flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{template.name}</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {describeSpec(template.spec)}
+                  {template.description && ` · ${template.description}`}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => handleRunTemplate(template)} disabled={isSubmitting} className={buttonClass} type="button">
+                  Run
+                </button>
+                <a href={`/api/migration/templates/export?ids=${template.id}`} className={buttonClass} download>
+                  Export
+                </a>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete template "${template.name}"?`)) {
+                      request(`/api/migration/templates/${template.id}`, 'DELETE');
+                    }
+                  }}
+                  disabled={isSubmitting}
+                  className="py-1 px-2 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                  type="button"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className="mt-2 text-xs text-green-700 dark:text-green-400">{message}</p>}
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,9 @@ export type MigrationJobStatus =
   | 'cancelled'
   | 'detecting'
   | 'waiting_approval'
-  | 'deleting';
+  | 'deleting'
+  | 'queued'
+  | 'deferred';
 
 export interface ActiveMigrationJob {
   jobId: string;
@@ -1,6 +1,6 @@
 /**
  * React hook for duplicate cleanup management
- * Handles job creation, progress polling, and approval workflow
+ * Handles job creation, progress streaming (polling as fallback), and approval workflow
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -13,6 +13,8 @@ import {
 } from '@/lib/migration/cleanup/types';
 import { useMigrationContext } from '@/app/contexts/MigrationContext';
 import type { MigrationJobStatus } from '@/app/contexts/MigrationContext';
+import type { JobProgressEvent } from '@/lib/migration/job-events';
+import { useJobEventStream } from './useJobEventStream';
 
 // localStorage persistence for cleanup job state
 const CLEANUP_STORAGE_KEY = 'podio-cleanup-active-job';
@@ -234,7 +236,7 @@ export function useCleanup(options: UseCleanupOptions = {}): UseCleanupReturn {
           });
 
           // Start polling if job is still in progress
-          if (['planning', 'detecting', 'deleting'].includes(data.status)) {
+          if (['queued', 'deferred', 'planning', 'detecting', 'deleting'].includes(data.status)) {
             setIsPolling(true);
           }
         } catch (err) {
@@ -467,13 +469,61 @@ export function useCleanup(options: UseCleanupOptions = {}): UseCleanupReturn {
   }, [updateJobProgress, updateJobStatus]);
 
   /**
-   * Start polling when jobId is set
+   * Apply a streamed job event
+   * Progress is merged in place; phase changes and the end of the job
+   * refetch the full status (duplicate groups, errors).
+   */
+  const handleJobEvent = useCallback((event: JobProgressEvent) => {
+    if (!mountedRef.current) return;
+
+    if (event.type === 'progress') {
+      const progress = event.progress;
+      if (!progress) return;
+
+      setJobStatus((prev) =>
+        prev
+          ? {
+              ...prev,
+              progress: {
+                ...prev.progress,
+                totalGroups: progress.total,
+                processedGroups: progress.processed,
+                deletedItems: progress.successful,
+                failedDeletions: progress.failed,
+                percent: progress.percent,
+                lastUpdate: event.timestamp,
+              },
+            }
+          : prev
+      );
+      updateJobProgress('cleanup', {
+        total: jobStatus?.progress.totalItemsToDelete ?? 0,
+        processed: progress.processed,
+        successful: progress.successful,
+        failed: progress.failed,
+        percent: progress.percent
+      });
+      return;
+    }
+
+    pollJobStatus(event.jobId);
+  }, [jobStatus, pollJobStatus, updateJobProgress]);
+
+  const { isConnected: isStreaming } = useJobEventStream(
+    jobId && isPolling ? `/api/migration/cleanup/${jobId}/events` : null,
+    handleJobEvent
+  );
+
+  /**
+   * Poll while the job runs and its event stream is not connected
    */
   useEffect(() => {
     if (jobId && isPolling) {
       // Initial poll
       pollJobStatus(jobId);
 
+      if (isStreaming) return;
+
       // Set up interval
       pollIntervalRef.current = setInterval(() => {
         pollJobStatus(jobId);
@@ -488,7 +538,7 @@ export function useCleanup(options: UseCleanupOptions = {}): UseCleanupReturn {
         abortControllerRef.current?.abort(new DOMException('Polling effect cleanup', 'AbortError'));
       };
     }
-  }, [jobId, isPolling, pollInterval, pollJobStatus]);
+  }, [jobId, isPolling, isStreaming, pollInterval, pollJobStatus]);
 
   /**
    * Stop polling manually
@@ -555,8 +605,10 @@ export function useCleanup(options: UseCleanupOptions = {}): UseCleanupReturn {
         description: `Cleanup job ${existingJobId}`
       });
 
-      // Start polling if job is still in progress
+      // Start polling if job is still queued or in progress
       if (
+        data.status === 'queued' ||
+        data.status === 'deferred' ||
         data.status === 'planning' ||
         data.status === 'detecting' ||
         data.status === 'deleting'
@@ -8,6 +8,8 @@ import {
 } from '@/lib/globiflow/types';
 import { useMigrationContext } from '@/app/contexts/MigrationContext';
 import type { MigrationJobStatus } from '@/app/contexts/MigrationContext';
+import type { JobProgressEvent } from '@/lib/migration/job-events';
+import { useJobEventStream } from './useJobEventStream';
 
 /**
  * Hook for managing flow clone operations
@@ -27,6 +29,8 @@ export function useFlowClone(sourceAppId?: number, targetAppId?: number) {
 
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
   const [jobStatus, setJobStatus] = useState<FlowCloneJobStatusResponse | null>(null);
+  // Job being watched, over its event stream or by polling
+  const [watchedJobId, setWatchedJobId] = useState<string | null>(null);
 
   // Use ref to avoid stale closures
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -179,9 +183,12 @@ export function useFlowClone(sourceAppId?: number, targetAppId?: number) {
   }, [sourceAppId, targetAppId, selectedFlowIds, registerJob]);
 
   /**
-   * Stop polling job status
+   * Stop watching job status
    */
   const stopPollingJobStatus = useCallback(() => {
+    if (mountedRef.current) {
+      setWatchedJobId(null);
+    }
     if (pollingIntervalRef.current) {
       clearInterval(pollingIntervalRef.current);
       pollingIntervalRef.current = null;
@@ -235,8 +242,8 @@ export function useFlowClone(sourceAppId?: number, targetAppId?: number) {
       // Update global context with status
       updateJobStatus('flow_clone', data.data.status as MigrationJobStatus);
 
-      // Stop polling if job is complete or failed
-      if (data.data.status === 'completed' || data.data.status === 'failed') {
+      // Stop polling if job is complete, failed or was cancelled while queued
+      if (data.data.status === 'completed' || data.data.status === 'failed' || data.data.status === 'cancelled') {
         stopPollingJobStatus();
       }
     } catch (error) {
@@ -252,26 +259,73 @@ export function useFlowClone(sourceAppId?: number, targetAppId?: number) {
   }, [stopPollingJobStatus, updateJobProgress, updateJobStatus]);
 
   /**
-   * Start polling job status
+   * Start watching job status
    */
-  const startPollingJobStatus = useCallback(
-    (jobId: string) => {
-      // Clear any existing interval
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
+  const startPollingJobStatus = useCallback((jobId: string) => {
+    setWatchedJobId(jobId);
+  }, []);
+
+  /**
+   * Apply a streamed job event
+   * Progress is merged in place; status changes and the end of the job
+   * refetch the full status (steps, errors).
+   */
+  const handleJobEvent = useCallback((event: JobProgressEvent) => {
+    if (!mountedRef.current) return;
+
+    if (event.type === 'progress') {
+      const progress = event.progress;
+      if (!progress) return;
+
+      setJobStatus((prev) =>
+        prev
+          ? { ...prev, progress: { total: progress.total, completed: progress.successful, failed: progress.failed } }
+          : prev
+      );
+      updateJobProgress('flow_clone', {
+        total: progress.total,
+        processed: progress.processed,
+        successful: progress.successful,
+        failed: progress.failed,
+        percent: progress.percent
+      });
+      return;
+    }
+
+    if (event.type === 'error') return;
 
-      // Poll immediately
-      pollJobStatus(jobId);
+    pollJobStatus(event.jobId);
+  }, [pollJobStatus, updateJobProgress]);
 
-      // Set up polling interval (every 2 seconds)
-      pollingIntervalRef.current = setInterval(() => {
-        pollJobStatus(jobId);
-      }, 2000);
-    },
-    [pollJobStatus]
+  const { isConnected: isStreaming } = useJobEventStream(
+    watchedJobId ? `/api/globiflow/jobs/${watchedJobId}/events` : null,
+    handleJobEvent
   );
 
+  /**
+   * Poll while the job runs and its event stream is not connected
+   */
+  useEffect(() => {
+    if (!watchedJobId) return;
+
+    // Poll immediately
+    pollJobStatus(watchedJobId);
+
+    if (isStreaming) return;
+
+    // Set up polling interval (every 2 seconds)
+    pollingIntervalRef.current = setInterval(() => {
+      pollJobStatus(watchedJobId);
+    }, 2000);
+
+    return () => {
+      if (pollingIntervalRef.current) {
+        clearInterval(pollingIntervalRef.current);
+        pollingIntervalRef.current = null;
+      }
+    };
+  }, [watchedJobId, isStreaming, pollJobStatus]);
+
   /**
    * Clear current job
    */
@@ -1,12 +1,14 @@
 /**
  * React hook for item migration management
- * Handles job creation, progress polling, and error states
+ * Handles job creation, progress streaming (polling as fallback), and error states
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ItemMigrationRequestPayload, ItemMigrationStatusResponse, FieldMapping } from '@/lib/migration/items/types';
+import { ItemMigrationRequestPayload, ItemMigrationStatusResponse, FieldMapping, FieldTransforms } from '@/lib/migration/items/types';
 import { useMigrationContext } from '@/app/contexts/MigrationContext';
 import type { MigrationJobStatus } from '@/app/contexts/MigrationContext';
+import type { JobProgressEvent } from '@/lib/migration/job-events';
+import { useJobEventStream } from './useJobEventStream';
 
 interface UseItemMigrationOptions {
   sourceAppId?: number;
@@ -21,15 +23,19 @@ interface UseItemMigrationReturn {
   isCreating: boolean;
   isPolling: boolean;
   isRetrying: boolean;
+  isSyncing: boolean;
   error: string | null;
   fieldMapping: FieldMapping | null;
   fieldMappingOverride: FieldMapping | null;
+  fieldTransformsOverride: FieldTransforms | null;
 
   // Actions
   startMigration: (options: Omit<ItemMigrationRequestPayload, 'sourceAppId' | 'targetAppId'>) => Promise<void>;
   loadMigration: (jobId: string) => Promise<void>;
   retryFailedItems: (jobId: string, fieldMapping?: FieldMapping) => Promise<boolean>;
+  runSync: (jobId: string) => Promise<boolean>;
   updateFieldMapping: (mapping: FieldMapping) => void;
+  updateFieldTransforms: (transforms: FieldTransforms) => void;
   stopPolling: () => void;
   reset: () => void;
 }
@@ -45,9 +51,11 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
   const [isCreating, setIsCreating] = useState(false);
   const [isPolling, setIsPolling] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldMapping, setFieldMapping] = useState<FieldMapping | null>(null);
   const [fieldMappingOverride, setFieldMappingOverride] = useState<FieldMapping | null>(null);
+  const [fieldTransformsOverride, setFieldTransformsOverride] = useState<FieldTransforms | null>(null);
 
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -71,6 +79,13 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
     setFieldMappingOverride(mapping);
   }, []);
 
+  /**
+   * Update per-field value transforms
+   */
+  const updateFieldTransforms = useCallback((transforms: FieldTransforms) => {
+    setFieldTransformsOverride(transforms);
+  }, []);
+
   /**
    * Start a new migration job
    */
@@ -90,6 +105,7 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
           targetAppId,
           ...migrationOptions,
           fieldMapping: fieldMappingOverride || migrationOptions.fieldMapping,
+          fieldTransforms: fieldTransformsOverride || migrationOptions.fieldTransforms,
         };
 
         // Only include maxItems if it's defined
@@ -135,7 +151,7 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
         }
       }
     },
-    [sourceAppId, targetAppId, fieldMappingOverride, registerJob]
+    [sourceAppId, targetAppId, fieldMappingOverride, fieldTransformsOverride, registerJob]
   );
 
   /**
@@ -223,13 +239,64 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
   }, [updateJobProgress, updateJobStatus]);
 
   /**
-   * Start polling when jobId is set
+   * Apply a streamed job event
+   * Progress is merged in place; anything else refetches the full status,
+   * which also stops tracking once the job has finished.
+   */
+  const handleJobEvent = useCallback((event: JobProgressEvent) => {
+    if (!mountedRef.current) return;
+
+    if (event.type === 'progress') {
+      const progress = event.progress;
+      if (!progress) return;
+
+      setJobStatus((prev) =>
+        prev
+          ? {
+              ...prev,
+              progress: {
+                ...prev.progress,
+                total: progress.total,
+                processed: progress.processed,
+                successful: progress.successful,
+                failed: progress.failed,
+                percent: progress.percent,
+                lastUpdate: event.timestamp,
+              },
+            }
+          : prev
+      );
+      updateJobProgress('item_migration', {
+        total: progress.total,
+        processed: progress.processed,
+        successful: progress.successful,
+        failed: progress.failed,
+        percent: progress.percent,
+      });
+      return;
+    }
+
+    // Individual item failures are already counted in progress events
+    if (event.type === 'error') return;
+
+    pollJobStatus(event.jobId);
+  }, [pollJobStatus, updateJobProgress]);
+
+  const { isConnected: isStreaming } = useJobEventStream(
+    jobId && isPolling ? `/api/migration/items/${jobId}/events` : null,
+    handleJobEvent
+  );
+
+  /**
+   * Poll while the job runs and its event stream is not connected
    */
   useEffect(() => {
     if (jobId && isPolling) {
       // Initial poll
       pollJobStatus(jobId);
 
+      if (isStreaming) return;
+
       // Set up interval
       pollIntervalRef.current = setInterval(() => {
         pollJobStatus(jobId);
@@ -244,7 +311,7 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
         abortControllerRef.current?.abort(new DOMException('Polling effect cleanup', 'AbortError'));
       };
     }
-  }, [jobId, isPolling, pollInterval, pollJobStatus]);
+  }, [jobId, isPolling, isStreaming, pollInterval, pollJobStatus]);
 
   /**
    * Stop polling manually
@@ -304,8 +371,8 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
         description: `Migration job ${existingJobId}`
       });
 
-      // Start polling if job is still in progress or paused
-      if (data.status === 'in_progress' || data.status === 'paused') {
+      // Start polling if job is still queued, in progress or paused
+      if (['queued', 'deferred', 'in_progress', 'paused'].includes(data.status)) {
         setIsPolling(true);
       }
     } catch (err) {
@@ -364,6 +431,44 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
     }
   }, [pollJobStatus]);
 
+  /**
+   * Start another run of a sync-mode job (items edited since its watermark)
+   * Returns true on success, false on failure
+   */
+  const runSync = useCallback(async (syncJobId: string): Promise<boolean> => {
+    setIsSyncing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/migration/items/${syncJobId}/sync`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to start sync');
+      }
+
+      await response.json();
+
+      if (!mountedRef.current) return true;
+
+      setIsPolling(true);
+      await pollJobStatus(syncJobId);
+
+      return true;
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to start sync');
+      }
+      return false;
+    } finally {
+      if (mountedRef.current) {
+        setIsSyncing(false);
+      }
+    }
+  }, [pollJobStatus]);
+
   /**
    * Reset hook state
    */
@@ -374,6 +479,7 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
     setError(null);
     setFieldMapping(null);
     setFieldMappingOverride(null);
+    setFieldTransformsOverride(null);
     setIsCreating(false);
     setIsRetrying(false);
 
@@ -387,13 +493,17 @@ export function useItemMigration(options: UseItemMigrationOptions = {}): UseItem
     isCreating,
     isPolling,
     isRetrying,
+    isSyncing,
     error,
     fieldMapping,
     fieldMappingOverride,
+    fieldTransformsOverride,
     updateFieldMapping,
+    updateFieldTransforms,
     startMigration,
     loadMigration,
     retryFailedItems,
+    runSync,
     stopPolling,
     reset,
   };
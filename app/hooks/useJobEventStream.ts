@@ -0,0 +1,82 @@
+/**
+ * React hook for a job's Server-Sent Events stream
+ * Reports whether the stream is connected so callers can fall back to
+ * polling while it is not.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { JobProgressEvent } from '@/lib/migration/job-events';
+
+/** Delay before reconnecting after the stream dropped (polling covers the gap) */
+const RECONNECT_DELAY_MS = 15_000;
+
+interface UseJobEventStreamReturn {
+  /** True while events arrive over the stream */
+  isConnected: boolean;
+}
+
+/**
+ * Subscribe to a job event stream
+ * @param url - Events endpoint, or null to stay disconnected
+ * @param onEvent - Called for every event; may change between renders
+ */
+export function useJobEventStream(
+  url: string | null,
+  onEvent: (event: JobProgressEvent) => void
+): UseJobEventStreamReturn {
+  const [isConnected, setIsConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!url || typeof EventSource === 'undefined') {
+      setIsConnected(false);
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        if (!disposed) setIsConnected(true);
+      };
+
+      source.onmessage = (message) => {
+        try {
+          onEventRef.current(JSON.parse(message.data) as JobProgressEvent);
+        } catch (err) {
+          console.warn('Ignoring malformed job event:', err);
+        }
+      };
+
+      // The server also ends the stream once the job stops; either way, fall
+      // back to polling and try the stream again later
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (disposed) return;
+
+        setIsConnected(false);
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      source?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      setIsConnected(false);
+    };
+  }, [url]);
+
+  return { isConnected };
+}
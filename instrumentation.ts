@@ -15,8 +15,24 @@ export async function register() {
     // Register process signal handlers for graceful shutdown
     registerShutdownHandlers();
 
+    // Open the job store up front (with the SQLite backend this runs the
+    // one-time import of existing job files)
+    const { migrationStateStore } = await import('./lib/migration/state-store');
+    await migrationStateStore.initialize();
+
+    // Re-enqueue jobs interrupted by the last shutdown and start the job queue
+    const { runStartupRecovery } = await import('./lib/migration/startup-recovery');
+    await runStartupRecovery();
+
+    // Create jobs from recurring schedules as they come due
+    const { jobScheduler } = await import('./lib/migration/schedules/scheduler');
+    jobScheduler.start();
+
     console.log('✅ Migration system initialized');
     console.log('   - Shutdown handlers registered (SIGTERM, SIGINT, SIGUSR2)');
     console.log('   - Graceful pause/resume enabled');
+    console.log('   - Job state store ready');
+    console.log('   - Job queue started');
+    console.log('   - Job schedules active');
   }
 }
@@ -299,6 +299,22 @@ export const getItemCountOutputSchema = z.object({
  */
 export const duplicateBehaviorSchema = z.enum(['skip', 'error', 'update']);
 
+/**
+ * Match key: one field external_id, or several fields that must all match
+ */
+export const matchKeySchema = z.union([
+  z.string(),
+  z.array(
+    z.object({
+      field: z.string().describe('Field external_id'),
+      normalize: z
+        .enum(['default', 'text', 'digits', 'date'])
+        .optional()
+        .describe('text ignores accents/spaces/punctuation, digits keeps digits only, date ignores the time'),
+    })
+  ),
+]);
+
 /**
  * Migrate items input
  */
@@ -307,8 +323,8 @@ export const migrateItemsInputSchema = z.object({
   targetAppId: z.number().describe('Target app ID'),
   fieldMapping: z.record(z.string()).describe('Field mapping (source external_id -> target external_id)'),
   mode: migrationModeSchema.default('create').describe('Migration mode'),
-  sourceMatchField: z.string().optional().describe('Source field external_id to extract value from for matching'),
-  targetMatchField: z.string().optional().describe('Target field external_id to search by for matching'),
+  sourceMatchField: matchKeySchema.optional().describe('Source field external_id (or list of fields forming a composite key) to extract values from for matching'),
+  targetMatchField: matchKeySchema.optional().describe('Target field external_id (or list of fields, paired with the source fields by position) to search by for matching'),
   duplicateBehavior: duplicateBehaviorSchema.default('skip').describe('How to handle duplicates when match fields are set (skip/error/update)'),
   batchSize: z.number().min(100).max(1000).default(500).describe('Batch size for processing'),
   concurrency: z.number().min(1).max(10).default(5).describe('Concurrent API requests'),
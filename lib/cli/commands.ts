@@ -0,0 +1,468 @@
+/**
+ * Headless CLI commands
+ *
+ * Jobs run in the CLI process itself through the same runners the API routes
+ * start in the background, and are stored in the same MigrationStateStore, so
+ * the UI and the CLI can inspect each other's jobs.
+ */
+
+import { migrationStateStore, MigrationJob, MigrationJobType, MigrationProgress } from '../migration/state-store';
+import type { RunItemMigrationOptions } from '../migration/items/runner';
+import { createItemMigrationJob } from '../migration/items/service';
+import { runItemRollback } from '../migration/items/rollback';
+import { failureLogger } from '../migration/items/failure-logger';
+import { cleanupRequestFromMetadata, createCleanupJob } from '../migration/cleanup/service';
+import { executeCleanup, requestCleanupPause } from '../migration/cleanup/executor';
+import { CleanupJobMetadata } from '../migration/cleanup/types';
+import { createFlowCloneJob } from '../globiflow/service';
+import { executeFlowCloneJob } from '../globiflow/clone-runner';
+import { requestMigrationPause } from '../migration/shutdown-handler';
+import { isJobActive } from '../migration/job-lifecycle';
+import { subscribeToJobEvents } from '../migration/job-events';
+import { getPodioHttpClient } from '../podio/http/client';
+import { JobSpec, specPayload } from './job-spec';
+import { clearPauseRequestFile, hasPauseRequest, writePauseRequest } from './pause-requests';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  /** Job completed without failed items (or the command succeeded) */
+  success: 0,
+  /** Job failed, or the command could not do its work */
+  failed: 1,
+  /** Bad arguments, invalid spec, unknown job, or a job in the wrong state */
+  usage: 2,
+  /** Job completed but some items failed */
+  completedWithFailures: 3,
+  /** Job stopped before finishing: paused, cancelled or waiting for approval */
+  stopped: 4,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export interface CommandOptions {
+  /** Print events and the final summary as JSON lines instead of text */
+  json?: boolean;
+}
+
+/** How often the supervisor checks for pause requests and persisted progress */
+const SUPERVISOR_INTERVAL_MS = 2000;
+/** Minimum gap between two printed progress lines */
+const PROGRESS_PRINT_INTERVAL_MS = 1000;
+/** How long `pause` waits for the job to stop */
+const PAUSE_TIMEOUT_MS = 60_000;
+
+const RUNNING_STATUSES = ['planning', 'in_progress', 'detecting', 'deleting'];
+
+type ProgressCounts = Pick<MigrationProgress, 'total' | 'processed' | 'successful' | 'failed' | 'percent'>;
+
+/**
+ * The item runners load the item migrator, whose module-level instance needs
+ * Podio credentials; import them only when a job actually runs so `status`
+ * and `pause` work without credentials
+ */
+async function runItemMigration(jobId: string, runOptions?: RunItemMigrationOptions): Promise<void> {
+  const { runItemMigrationJob } = await import('../migration/items/runner');
+  await runItemMigrationJob(jobId, runOptions);
+}
+
+async function runMultiAppMigration(jobId: string): Promise<void> {
+  const { runMultiAppMigrationJob } = await import('../migration/multi-app/runner');
+  await runMultiAppMigrationJob(jobId);
+}
+
+/**
+ * Exit code for a job's current state
+ */
+export function exitCodeForJob(job: Pick<MigrationJob, 'status' | 'progress'>): ExitCode {
+  switch (job.status) {
+    case 'completed':
+      return (job.progress?.failed ?? 0) > 0 ? EXIT_CODES.completedWithFailures : EXIT_CODES.success;
+    case 'failed':
+      return EXIT_CODES.failed;
+    case 'paused':
+    case 'cancelled':
+    case 'waiting_approval':
+      return EXIT_CODES.stopped;
+    default:
+      return EXIT_CODES.success;
+  }
+}
+
+function jobTypeOf(job: MigrationJob): MigrationJobType | undefined {
+  return job.jobType ?? (job.metadata?.jobType as MigrationJobType | undefined);
+}
+
+function formatProgress(progress: ProgressCounts): string {
+  return (
+    `${progress.processed.toLocaleString()}/${progress.total.toLocaleString()} (${progress.percent}%)` +
+    ` - ${progress.successful.toLocaleString()} succeeded, ${progress.failed.toLocaleString()} failed`
+  );
+}
+
+/**
+ * Write command output to stdout. The entry script sends console logging to
+ * stderr so library diagnostics never mix with (JSON) output.
+ */
+function writeOutput(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function printLine(options: CommandOptions, text: string, json: Record<string, unknown>): void {
+  writeOutput(options.json ? JSON.stringify(json) : text);
+}
+
+function summarizeJob(job: MigrationJob): Record<string, unknown> {
+  return {
+    jobId: job.id,
+    jobType: jobTypeOf(job) ?? null,
+    status: job.status,
+    startedAt: new Date(job.startedAt).toISOString(),
+    completedAt: job.completedAt ? new Date(job.completedAt).toISOString() : null,
+    progress: job.progress
+      ? {
+          total: job.progress.total,
+          processed: job.progress.processed,
+          successful: job.progress.successful,
+          failed: job.progress.failed,
+          percent: job.progress.percent,
+        }
+      : null,
+    errors: job.errors.length,
+    lastError: job.errors.length > 0 ? job.errors[job.errors.length - 1].message : null,
+  };
+}
+
+function printJobSummary(job: MigrationJob, options: CommandOptions): void {
+  if (options.json) {
+    writeOutput(JSON.stringify({ type: 'summary', ...summarizeJob(job) }));
+    return;
+  }
+
+  writeOutput(`Job ${job.id} (${jobTypeOf(job) ?? 'unknown type'})`);
+  writeOutput(`  Status:    ${job.status}`);
+  writeOutput(`  Started:   ${new Date(job.startedAt).toISOString()}`);
+  if (job.completedAt) {
+    writeOutput(`  Finished:  ${new Date(job.completedAt).toISOString()}`);
+  }
+  if (job.progress) {
+    writeOutput(`  Progress:  ${formatProgress(job.progress)}`);
+  }
+  if (job.errors.length > 0) {
+    writeOutput(`  Errors:    ${job.errors.length} (latest: ${job.errors[job.errors.length - 1].message})`);
+  }
+}
+
+/**
+ * Ask a job running in this process to pause after its current batch
+ */
+function requestInProcessPause(jobType: MigrationJobType | undefined, jobId: string): void {
+  if (jobType === 'cleanup') {
+    requestCleanupPause(jobId);
+  } else {
+    requestMigrationPause(jobId);
+  }
+}
+
+/**
+ * Run a job in this process until it stops, printing live progress
+ *
+ * Progress comes from the job event stream where the runner publishes one,
+ * and from the persisted progress otherwise. Pause requests arrive from Ctrl+C
+ * or from `podio-migrate pause` in another shell.
+ */
+async function superviseJob(
+  jobId: string,
+  jobType: MigrationJobType | undefined,
+  execute: () => Promise<unknown>,
+  options: CommandOptions
+): Promise<ExitCode> {
+  let lastPrinted = 0;
+  let lastPrintedProcessed = -1;
+  let pauseRequested = false;
+
+  const printProgress = (progress: ProgressCounts | undefined) => {
+    if (!progress) return;
+    const now = Date.now();
+    if (now - lastPrinted < PROGRESS_PRINT_INTERVAL_MS || progress.processed === lastPrintedProcessed) {
+      return;
+    }
+    lastPrinted = now;
+    lastPrintedProcessed = progress.processed;
+
+    const { total, processed, successful, failed, percent } = progress;
+    printLine(options, `  ${formatProgress(progress)}`, {
+      type: 'progress',
+      jobId,
+      progress: { total, processed, successful, failed, percent },
+    });
+  };
+
+  const requestPause = (reason: string) => {
+    if (pauseRequested) return;
+    pauseRequested = true;
+    requestInProcessPause(jobType, jobId);
+    printLine(options, `⏸  ${reason} - pausing after the current batch`, { type: 'pause_requested', jobId, reason });
+  };
+
+  const unsubscribe = subscribeToJobEvents(jobId, (event) => {
+    switch (event.type) {
+      case 'progress':
+        printProgress(event.progress);
+        break;
+      case 'rate_limit_paused':
+        printLine(
+          options,
+          `⏳ Rate limit reached - waiting until ${event.rateLimit?.resumeAt ?? 'the quota resets'}`,
+          { ...event }
+        );
+        break;
+      case 'rate_limit_resumed':
+        printLine(
+          options,
+          `▶  Resumed after rate limit pause (${Math.round((event.rateLimit?.pauseDurationMs ?? 0) / 1000)}s)`,
+          { ...event }
+        );
+        break;
+      case 'status':
+        printLine(options, `→  ${event.status}`, { ...event });
+        break;
+      case 'error':
+        if (options.json) {
+          writeOutput(JSON.stringify(event));
+        }
+        break;
+    }
+  });
+
+  // Job types without live events report through the state store
+  const supervisor = setInterval(() => {
+    void (async () => {
+      if (await hasPauseRequest(jobId)) {
+        requestPause('Pause requested from another process');
+      }
+      const job = await migrationStateStore.getMigrationJob(jobId);
+      if (job?.progress) {
+        printProgress(job.progress);
+      }
+    })().catch(() => undefined);
+  }, SUPERVISOR_INTERVAL_MS);
+
+  let interrupts = 0;
+  const onInterrupt = () => {
+    interrupts++;
+    if (interrupts > 1) {
+      console.error('Interrupted again - exiting without waiting for the job to pause');
+      process.exit(130);
+    }
+    requestPause('Interrupted (Ctrl+C again to quit immediately)');
+  };
+  process.on('SIGINT', onInterrupt);
+  process.on('SIGTERM', onInterrupt);
+
+  try {
+    await execute();
+  } catch (error) {
+    // Runners record the failure on the job before rethrowing
+    if (!options.json) {
+      console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } finally {
+    clearInterval(supervisor);
+    unsubscribe();
+    process.off('SIGINT', onInterrupt);
+    process.off('SIGTERM', onInterrupt);
+    await clearPauseRequestFile(jobId);
+  }
+
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    console.error(`Job ${jobId} disappeared from the state store`);
+    return EXIT_CODES.failed;
+  }
+
+  printJobSummary(job, options);
+  return exitCodeForJob(job);
+}
+
+/**
+ * `run <spec>`: create a job from a spec and run it to completion
+ */
+export async function runSpecCommand(spec: JobSpec, options: CommandOptions): Promise<ExitCode> {
+  switch (spec.type) {
+    case 'item_migration': {
+      const { jobId } = await createItemMigrationJob(specPayload(spec));
+      printLine(options, `Started item migration job ${jobId}`, { type: 'started', jobId, jobType: spec.type });
+      return superviseJob(jobId, 'item_migration', () => runItemMigration(jobId), options);
+    }
+    case 'cleanup': {
+      const payload = specPayload(spec);
+      const { jobId } = await createCleanupJob(payload);
+      printLine(options, `Started cleanup job ${jobId}`, { type: 'started', jobId, jobType: spec.type });
+      return superviseJob(jobId, 'cleanup', () => executeCleanup(getPodioHttpClient(), jobId, payload), options);
+    }
+    case 'flow_clone': {
+      const job = await createFlowCloneJob(specPayload(spec));
+      printLine(options, `Started flow clone job ${job.id}`, { type: 'started', jobId: job.id, jobType: spec.type });
+      return superviseJob(job.id, 'flow_clone', () => executeFlowCloneJob(job.id), options);
+    }
+  }
+}
+
+/**
+ * `status <jobId>`: print a job's state; exits with the code a run would have
+ */
+export async function statusCommand(jobId: string, options: CommandOptions): Promise<ExitCode> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    console.error(`No migration job found with ID: ${jobId}`);
+    return EXIT_CODES.usage;
+  }
+
+  printJobSummary(job, options);
+  return exitCodeForJob(job);
+}
+
+/**
+ * `pause <jobId>`: ask the CLI process running a job to pause it, and wait
+ */
+export async function pauseCommand(jobId: string, options: CommandOptions): Promise<ExitCode> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    console.error(`No migration job found with ID: ${jobId}`);
+    return EXIT_CODES.usage;
+  }
+
+  if (!RUNNING_STATUSES.includes(job.status)) {
+    console.error(`Job is in '${job.status}' state and cannot be paused.`);
+    return EXIT_CODES.usage;
+  }
+
+  if (jobTypeOf(job) === 'flow_clone') {
+    console.error('Flow clone jobs cannot be paused.');
+    return EXIT_CODES.usage;
+  }
+
+  // Nothing is running it any more (e.g. the process was killed): just mark it paused
+  if (job.status === 'in_progress' && !(await isJobActive(jobId))) {
+    await migrationStateStore.updateJobStatus(jobId, 'paused');
+    printLine(options, `Job ${jobId} was not running (no recent heartbeat); marked as paused`, {
+      type: 'paused',
+      jobId,
+      stale: true,
+    });
+    return EXIT_CODES.success;
+  }
+
+  await writePauseRequest(jobId);
+  printLine(options, `Pause requested for job ${jobId}; waiting for it to stop...`, { type: 'pause_requested', jobId });
+
+  const deadline = Date.now() + PAUSE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, SUPERVISOR_INTERVAL_MS));
+
+    const current = await migrationStateStore.getMigrationJob(jobId);
+    if (current && !RUNNING_STATUSES.includes(current.status)) {
+      printJobSummary(current, options);
+      return EXIT_CODES.success;
+    }
+  }
+
+  await clearPauseRequestFile(jobId);
+  console.error(
+    `Job ${jobId} did not stop within ${PAUSE_TIMEOUT_MS / 1000}s. ` +
+    'Only jobs started from the CLI watch for CLI pause requests; pause UI-started jobs from the UI.'
+  );
+  return EXIT_CODES.failed;
+}
+
+/**
+ * `resume <jobId>`: continue a paused, cancelled or failed job in this process
+ */
+export async function resumeCommand(jobId: string, options: CommandOptions): Promise<ExitCode> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    console.error(`No migration job found with ID: ${jobId}`);
+    return EXIT_CODES.usage;
+  }
+
+  const jobType = jobTypeOf(job);
+  const resumable = jobType === 'item_migration' ? ['paused', 'cancelled', 'failed'] : ['paused', 'failed'];
+  if (!resumable.includes(job.status)) {
+    console.error(`Job is in '${job.status}' state and cannot be resumed. Resumable states: ${resumable.join(', ')}.`);
+    return EXIT_CODES.usage;
+  }
+
+  await clearPauseRequestFile(jobId);
+
+  let execute: () => Promise<unknown>;
+  switch (jobType) {
+    case 'item_migration':
+      execute = () => runItemMigration(jobId, { resume: true });
+      break;
+    case 'multi_app_migration':
+      execute = () => runMultiAppMigration(jobId);
+      break;
+    case 'item_rollback':
+      if (job.metadata?.dryRun) {
+        console.error('Rollback previews cannot be resumed; start a new rollback instead.');
+        return EXIT_CODES.usage;
+      }
+      execute = () => runItemRollback(jobId);
+      break;
+    case 'cleanup': {
+      const request = cleanupRequestFromMetadata(job.metadata as unknown as CleanupJobMetadata);
+      execute = () => executeCleanup(getPodioHttpClient(), jobId, request);
+      break;
+    }
+    default:
+      console.error(`Jobs of type '${jobType ?? 'unknown'}' cannot be resumed from the CLI.`);
+      return EXIT_CODES.usage;
+  }
+
+  printLine(options, `Resuming ${jobType} job ${jobId}`, { type: 'resumed', jobId, jobType });
+  return superviseJob(jobId, jobType, execute, options);
+}
+
+/**
+ * `retry <jobId>`: re-run only the failed items of an item migration
+ */
+export async function retryCommand(jobId: string, options: CommandOptions): Promise<ExitCode> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job || jobTypeOf(job) !== 'item_migration') {
+    console.error(`No item migration job found with ID: ${jobId}`);
+    return EXIT_CODES.usage;
+  }
+
+  if (RUNNING_STATUSES.includes(job.status)) {
+    console.error(`Job ${jobId} is still running. Wait for it to finish before retrying.`);
+    return EXIT_CODES.usage;
+  }
+
+  const failedCount = job.progress?.failed || (await failureLogger.getFailedCount(jobId)) || 0;
+  if (failedCount === 0) {
+    console.error('This migration has no failed items to retry.');
+    return EXIT_CODES.usage;
+  }
+
+  const retryAttempts = ((job.metadata?.retryAttempts as number | undefined) || 0) + 1;
+  await migrationStateStore.saveMigrationJob({
+    ...job,
+    status: 'in_progress',
+    lastHeartbeat: new Date(),
+    metadata: {
+      ...job.metadata,
+      retryAttempts,
+      lastRetryTimestamp: new Date().toISOString(),
+    },
+  });
+
+  printLine(options, `Retrying ${failedCount.toLocaleString()} failed items of job ${jobId} (attempt ${retryAttempts})`, {
+    type: 'retry',
+    jobId,
+    failedItems: failedCount,
+    retryAttempt: retryAttempts,
+  });
+  return superviseJob(jobId, 'item_migration', () => runItemMigration(jobId), options);
+}
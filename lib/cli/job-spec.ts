@@ -0,0 +1,238 @@
+/**
+ * Job spec files for the headless CLI
+ *
+ * A spec describes one job in JSON or YAML. `type` selects the job kind; the
+ * other keys are the same as the request body of the matching API route, so
+ * a payload captured from the UI can be saved as a spec unchanged.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ItemMigrationRequestPayload } from '../migration/items/types';
+import { CleanupRequestPayload } from '../migration/cleanup/types';
+import { FlowCloneRequest } from '../globiflow/types';
+import { isValidFieldId } from '../migration/items/field-mapping';
+import { validateFieldTransforms } from '../migration/items/field-transforms';
+import { validateContactMapping } from '../migration/items/contact-resolver';
+import { validateDeletionSync } from '../migration/items/orphan-reconciler';
+import { matchKeyFields } from '../migration/items/match-key';
+
+export type ItemMigrationSpec = { type: 'item_migration' } & ItemMigrationRequestPayload;
+export type CleanupSpec = { type: 'cleanup' } & CleanupRequestPayload;
+export type FlowCloneSpec = { type: 'flow_clone' } & FlowCloneRequest;
+
+export type JobSpec = ItemMigrationSpec | CleanupSpec | FlowCloneSpec;
+
+/**
+ * Error thrown when a spec file cannot be read or is invalid
+ */
+export class JobSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobSpecError';
+  }
+}
+
+const appId = z.number().int().positive();
+const batchSettings = {
+  batchSize: z.number().int().min(1).max(1000).optional(),
+  concurrency: z.number().int().min(1).max(20).optional(),
+};
+const filters = z
+  .object({
+    createdFrom: z.string().optional(),
+    createdTo: z.string().optional(),
+    lastEditFrom: z.string().optional(),
+    lastEditTo: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .optional();
+const matchKey = z.union([
+  z.string().min(1),
+  z
+    .array(
+      z
+        .object({
+          field: z.string().min(1),
+          normalize: z.enum(['default', 'text', 'digits', 'date']).optional(),
+        })
+        .strict()
+    )
+    .min(1),
+]);
+
+// Only the keys the CLI depends on are checked here; nested settings are
+// checked by the same validators the API routes use
+const itemMigrationSchema = z
+  .object({
+    type: z.literal('item_migration'),
+    sourceAppId: appId,
+    targetAppId: appId,
+    mode: z.enum(['create', 'update', 'upsert', 'sync']).optional(),
+    sourceMatchField: matchKey.optional(),
+    targetMatchField: matchKey.optional(),
+    duplicateBehavior: z.enum(['skip', 'error', 'update']).optional(),
+    fieldMapping: z.record(z.string(), z.string()).optional(),
+    filters,
+    maxItems: z.number().int().positive().optional(),
+    dryRun: z.boolean().optional(),
+    stopOnError: z.boolean().optional(),
+    ...batchSettings,
+  })
+  .passthrough();
+
+const cleanupSchema = z
+  .object({
+    type: z.literal('cleanup'),
+    appId,
+    matchField: matchKey,
+    mode: z.enum(['manual', 'automated']),
+    keepStrategy: z
+      .enum(['oldest', 'newest', 'most_complete', 'most_active', 'most_comments', 'most_files', 'custom', 'manual'])
+      .optional(),
+    keepRule: z.string().min(1).optional(),
+    dryRun: z.boolean().optional(),
+    maxGroups: z.number().int().positive().optional(),
+    filters,
+    fuzzy: z
+      .object({
+        algorithm: z.enum(['token_set', 'levenshtein', 'phonetic']).optional(),
+        threshold: z.number().gt(0).max(1).optional(),
+        maxBlockSize: z.number().int().min(2).optional(),
+      })
+      .strict()
+      .optional(),
+    merge: z
+      .object({
+        rules: z.record(z.string(), z.enum(['fill_empty', 'union', 'prefer_newest', 'keep'])).optional(),
+        tags: z.boolean().optional(),
+        files: z.boolean().optional(),
+        comments: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    ...batchSettings,
+  })
+  .strict();
+
+const flowCloneSchema = z
+  .object({
+    type: z.literal('flow_clone'),
+    sourceAppId: appId,
+    targetAppId: appId,
+    flows: z
+      .array(
+        z.object({
+          flowId: z.string().min(1),
+          newName: z.string().min(1).optional(),
+        })
+      )
+      .min(1),
+    continueOnError: z.boolean().optional(),
+  })
+  .strict();
+
+const jobSpecSchema = z.discriminatedUnion('type', [itemMigrationSchema, cleanupSchema, flowCloneSchema]);
+
+/**
+ * Check the nested item migration settings the schema passes through
+ */
+function validateItemMigrationSpec(spec: ItemMigrationSpec): string[] {
+  const errors: string[] = [];
+
+  for (const [sourceId, targetId] of Object.entries(spec.fieldMapping ?? {})) {
+    if (!isValidFieldId(sourceId) || !isValidFieldId(targetId)) {
+      errors.push(`fieldMapping: "${sourceId}" -> "${targetId}" must map numeric field IDs`);
+    }
+  }
+  if (
+    spec.sourceMatchField &&
+    spec.targetMatchField &&
+    matchKeyFields(spec.sourceMatchField).length !== matchKeyFields(spec.targetMatchField).length
+  ) {
+    errors.push('sourceMatchField and targetMatchField must have the same number of fields');
+  }
+  if (spec.fieldTransforms) {
+    errors.push(...validateFieldTransforms(spec.fieldTransforms).map((error) => `fieldTransforms: ${error}`));
+  }
+  if (spec.contactMapping) {
+    errors.push(...validateContactMapping(spec.contactMapping).map((error) => `contactMapping: ${error}`));
+  }
+  if (spec.deletionSync) {
+    errors.push(...validateDeletionSync(spec.deletionSync).map((error) => `deletionSync: ${error}`));
+    if (spec.mode !== 'upsert' && spec.mode !== 'sync') {
+      errors.push('deletionSync: requires upsert or sync mode');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a job spec
+ * @param text - File contents
+ * @param fileName - Used to pick the format (`.yaml`/`.yml` is YAML, anything else JSON) and in error messages
+ */
+export function parseJobSpec(text: string, fileName: string): JobSpec {
+  const isYaml = /\.ya?ml$/i.test(fileName);
+
+  let raw: unknown;
+  try {
+    raw = isYaml ? yaml.load(text) : JSON.parse(text);
+  } catch (error) {
+    throw new JobSpecError(
+      `${fileName}: not valid ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return validateJobSpec(raw, fileName);
+}
+
+/**
+ * Validate an already parsed job spec (e.g. one sent as JSON to an API route)
+ * @param label - Prefix for the error message
+ */
+export function validateJobSpec(raw: unknown, label: string): JobSpec {
+  const parsed = jobSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new JobSpecError(`${label}: invalid job spec:\n${issues.join('\n')}`);
+  }
+
+  const spec = parsed.data as JobSpec;
+  if (spec.type === 'item_migration') {
+    const errors = validateItemMigrationSpec(spec);
+    if (errors.length > 0) {
+      throw new JobSpecError(`${label}: invalid job spec:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * Read and validate a job spec file
+ */
+export async function loadJobSpec(filePath: string): Promise<JobSpec> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new JobSpecError(
+      `Cannot read job spec ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return parseJobSpec(text, path.basename(filePath));
+}
+
+/**
+ * Strip `type` from a spec, leaving the API payload
+ */
+export function specPayload<T extends JobSpec>(spec: T): Omit<T, 'type'> {
+  const payload: Partial<T> = { ...spec };
+  delete payload.type;
+  return payload as Omit<T, 'type'>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Cross-process pause requests for CLI-run jobs
+ *
+ * Pause requests from the UI live in the server's memory, which a separate
+ * `podio-migrate pause` process cannot reach. Instead it drops a marker file
+ * that the process running the job polls. A marker rather than a job metadata
+ * field, because the running process rewrites the job file constantly and
+ * would overwrite the flag.
+ * The marker directory can be overridden via MIGRATION_CLI_PAUSE_DIR.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const PAUSE_ROOT_CONFIG = process.env.MIGRATION_CLI_PAUSE_DIR || 'data/cli-pause-requests';
+const DEFAULT_PAUSE_ROOT = path.resolve(process.cwd(), PAUSE_ROOT_CONFIG);
+
+function getMarkerPath(jobId: string, baseDir: string): string {
+  return path.join(baseDir, `${jobId}.pause`);
+}
+
+/**
+ * Ask the process running a job to pause it
+ */
+export async function writePauseRequest(jobId: string, baseDir: string = DEFAULT_PAUSE_ROOT): Promise<void> {
+  await fs.mkdir(baseDir, { recursive: true });
+  await fs.writeFile(getMarkerPath(jobId, baseDir), new Date().toISOString(), 'utf-8');
+}
+
+/**
+ * Check whether a pause was requested for a job
+ */
+export async function hasPauseRequest(jobId: string, baseDir: string = DEFAULT_PAUSE_ROOT): Promise<boolean> {
+  try {
+    await fs.access(getMarkerPath(jobId, baseDir));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove a job's pause request (once the job stopped, or before it runs again)
+ */
+export async function clearPauseRequestFile(jobId: string, baseDir: string = DEFAULT_PAUSE_ROOT): Promise<void> {
+  await fs.rm(getMarkerPath(jobId, baseDir), { force: true });
+}
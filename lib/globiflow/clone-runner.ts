@@ -1,13 +1,32 @@
 /**
  * GlobiFlow Clone Job Runner
- * Orchestrates the execution of flow clone jobs
+ * Orchestrates the execution of flow clone jobs and publishes their status,
+ * progress and completion to the job event bus
  */
 
-import { migrationStateStore } from '@/lib/migration/state-store';
+import { MigrationStep, migrationStateStore } from '@/lib/migration/state-store';
 import { logger } from '@/lib/migration/logging';
+import { JobProgressEvent, publishJobEvent } from '@/lib/migration/job-events';
 import { executeFlowCloneStep, getFlowCloneJobStatus } from './service';
 import { FlowCloneJob } from './types';
 
+/**
+ * Progress of a flow clone job, counted in steps (one per flow)
+ */
+export function flowCloneProgress(steps: Pick<MigrationStep, 'status'>[]): NonNullable<JobProgressEvent['progress']> {
+  const successful = steps.filter((step) => step.status === 'completed').length;
+  const failed = steps.filter((step) => step.status === 'failed').length;
+  const processed = successful + failed;
+
+  return {
+    total: steps.length,
+    processed,
+    successful,
+    failed,
+    percent: steps.length > 0 ? Math.round((processed / steps.length) * 100) : 0,
+  };
+}
+
 /**
  * Execute a flow clone job
  * Processes all steps in the job sequentially
@@ -26,12 +45,15 @@ export async function executeFlowCloneJob(jobId: string): Promise<void> {
 
     // Update job status to in_progress
     await migrationStateStore.updateJobStatus(jobId, 'in_progress');
+    publishJobEvent(jobId, { type: 'status', status: 'in_progress' });
 
     const { sourceAppId, targetAppId, continueOnError } = job;
+    // Step statuses as the job goes, for progress events
+    const steps = job.steps.map((step) => ({ status: step.status }));
     let hasErrors = false;
 
     // Execute each step
-    for (const step of job.steps) {
+    for (const [index, step] of job.steps.entries()) {
       if (step.status !== 'pending') {
         logger.debug('Skipping step (already processed)', {
           jobId,
@@ -62,8 +84,16 @@ export async function executeFlowCloneJob(jobId: string): Promise<void> {
           jobId,
           stepId: step.id,
         });
+        steps[index].status = 'completed';
+        publishJobEvent(jobId, { type: 'progress', progress: flowCloneProgress(steps) });
       } catch (error) {
         hasErrors = true;
+        steps[index].status = 'failed';
+        publishJobEvent(jobId, {
+          type: 'error',
+          error: { itemId: step.sourceId, message: error instanceof Error ? error.message : String(error) },
+        });
+        publishJobEvent(jobId, { type: 'progress', progress: flowCloneProgress(steps) });
         logger.error('Flow clone step failed', {
           jobId,
           stepId: step.id,
@@ -74,6 +104,7 @@ export async function executeFlowCloneJob(jobId: string): Promise<void> {
         if (!continueOnError) {
           logger.warn('Stopping job execution due to error', { jobId });
           await migrationStateStore.updateJobStatus(jobId, 'failed', new Date());
+          publishJobEvent(jobId, { type: 'failed', status: 'failed', progress: flowCloneProgress(steps) });
           return;
         }
 
@@ -85,6 +116,7 @@ export async function executeFlowCloneJob(jobId: string): Promise<void> {
     // Update final job status
     const finalStatus = hasErrors ? 'failed' : 'completed';
     await migrationStateStore.updateJobStatus(jobId, finalStatus, new Date());
+    publishJobEvent(jobId, { type: finalStatus, status: finalStatus, progress: flowCloneProgress(steps) });
 
     logger.info('Flow clone job execution completed', {
       jobId,
@@ -92,6 +124,11 @@ export async function executeFlowCloneJob(jobId: string): Promise<void> {
     });
   } catch (error) {
     logger.error('Flow clone job execution failed', { jobId, error });
+    publishJobEvent(jobId, {
+      type: 'failed',
+      status: 'failed',
+      error: { message: error instanceof Error ? error.message : 'Unknown error' },
+    });
 
     // Update job status to failed
     try {
@@ -91,7 +91,7 @@ export interface FlowCloneJobResponse {
  */
 export interface FlowCloneJobStatusResponse {
   jobId: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'detecting' | 'waiting_approval' | 'deleting';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'detecting' | 'waiting_approval' | 'deleting' | 'queued' | 'deferred';
   progress: {
     total: number;
     completed: number;
@@ -0,0 +1,201 @@
+/**
+ * Cleanup Archive - Snapshots of items taken before cleanup deletes them
+ *
+ * Podio deletions cannot be undone, so the cleanup executor archives every
+ * item of a delete batch first: its field values, tags, metadata and the
+ * content of its files. Items are appended to a JSONL file per job and file
+ * content is stored next to it, so archived items can be recreated later.
+ * The base directory can be overridden via MIGRATION_CLEANUP_ARCHIVE_DIR.
+ */
+
+import { createReadStream, promises as fs } from 'node:fs';
+import readline from 'node:readline';
+import path from 'node:path';
+import { PodioItem, PodioItemField } from '../../podio/resources/items';
+import { logger } from '../logging';
+
+const ARCHIVE_ROOT_CONFIG = process.env.MIGRATION_CLEANUP_ARCHIVE_DIR || 'data/cleanup-archives';
+const DEFAULT_ARCHIVE_ROOT = path.resolve(process.cwd(), ARCHIVE_ROOT_CONFIG);
+
+const ARCHIVE_FILE = 'items.jsonl';
+const FILES_DIR = 'files';
+
+/**
+ * A file attached to an archived item
+ */
+export interface ArchivedFile {
+  fileId: number;
+  name: string;
+  mimetype?: string;
+  size?: number;
+  description?: string;
+  /** Whether the file content was saved to the archive */
+  stored: boolean;
+}
+
+/**
+ * Snapshot of an item deleted by a cleanup job
+ */
+export interface ArchivedItem {
+  itemId: number;
+  appId: number;
+  appItemId: number;
+  title?: string;
+  externalId?: string;
+  link?: string;
+  createdOn: string;
+  createdBy: { user_id: number; name: string };
+  lastEventOn?: string;
+  tags: string[];
+  fields: PodioItemField[];
+  files: ArchivedFile[];
+  /** Item kept by the duplicate group the item was deleted from */
+  keepItemId?: number;
+  matchValue?: string;
+  archivedAt: string;
+}
+
+/**
+ * Build the archive snapshot of an item
+ * `files` lists the item's files with whether their content was saved.
+ */
+export function snapshotItem(
+  item: PodioItem,
+  files: ArchivedFile[],
+  group?: { keepItemId?: number; matchValue?: string }
+): ArchivedItem {
+  return {
+    itemId: item.item_id,
+    appId: item.app.app_id,
+    appItemId: item.app_item_id,
+    title: (item as { title?: string }).title,
+    externalId: item.external_id,
+    link: item.link,
+    createdOn: item.created_on,
+    createdBy: item.created_by,
+    lastEventOn: item.last_event_on,
+    tags: item.tags ?? [],
+    fields: item.fields ?? [],
+    files,
+    ...(group?.keepItemId && { keepItemId: group.keepItemId }),
+    ...(group?.matchValue && { matchValue: group.matchValue }),
+    archivedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Durable per-job archive of deleted items
+ */
+export class CleanupArchiveStore {
+  private basePath: string;
+  private writeQueue = new Map<string, Promise<void>>();
+
+  constructor(basePath = DEFAULT_ARCHIVE_ROOT) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  private getJobPath(jobId: string, ...segments: string[]): string {
+    return path.join(this.basePath, jobId, ...segments);
+  }
+
+  private async enqueueWrite(jobId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueue.get(jobId) ?? Promise.resolve();
+    const next = previous.catch((error) => {
+      logger.error('Previous cleanup archive write failed - continuing', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }).then(task);
+
+    this.writeQueue.set(jobId, next);
+
+    try {
+      await next;
+    } finally {
+      if (this.writeQueue.get(jobId) === next) {
+        this.writeQueue.delete(jobId);
+      }
+    }
+  }
+
+  /**
+   * Append item snapshots to the job's archive
+   */
+  async archiveItems(jobId: string, items: ArchivedItem[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await this.enqueueWrite(jobId, async () => {
+      await fs.mkdir(this.getJobPath(jobId), { recursive: true });
+      const jsonLines = items.map((item) => JSON.stringify(item)).join('\n') + '\n';
+      await fs.appendFile(this.getJobPath(jobId, ARCHIVE_FILE), jsonLines, {
+        encoding: 'utf8',
+        flag: 'a',
+        mode: 0o640,
+      });
+    });
+
+    logger.debug('Archived items before deletion', { jobId, count: items.length });
+  }
+
+  /**
+   * Save the content of an archived item's file
+   */
+  async saveFile(jobId: string, fileId: number, content: Buffer): Promise<void> {
+    await fs.mkdir(this.getJobPath(jobId, FILES_DIR), { recursive: true });
+    await fs.writeFile(this.getJobPath(jobId, FILES_DIR, String(fileId)), content, { mode: 0o640 });
+  }
+
+  /**
+   * Read the saved content of an archived file
+   */
+  async readFile(jobId: string, fileId: number): Promise<Buffer> {
+    return fs.readFile(this.getJobPath(jobId, FILES_DIR, String(fileId)));
+  }
+
+  /**
+   * All items archived by a job, in archive order
+   * An item archived again (e.g. by a resumed job) is returned with its latest snapshot.
+   */
+  async getArchivedItems(jobId: string): Promise<ArchivedItem[]> {
+    const items = new Map<number, ArchivedItem>();
+
+    try {
+      const rl = readline.createInterface({
+        input: createReadStream(this.getJobPath(jobId, ARCHIVE_FILE), { encoding: 'utf8' }),
+        crlfDelay: Infinity,
+      });
+
+      try {
+        for await (const line of rl) {
+          const trimmed = line.trim();
+          if (!trimmed) {
+            continue;
+          }
+
+          try {
+            const item = JSON.parse(trimmed) as ArchivedItem;
+            items.set(item.itemId, item);
+          } catch (parseError) {
+            logger.warn('Failed to parse cleanup archive line', {
+              jobId,
+              error: parseError instanceof Error ? parseError.message : String(parseError),
+            });
+          }
+        }
+      } finally {
+        rl.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return [...items.values()];
+  }
+}
+
+export const cleanupArchiveStore = new CleanupArchiveStore();
@@ -5,9 +5,12 @@
 
 import { EventEmitter } from 'events';
 import { PodioHttpClient } from '../../podio/http/client';
-import { bulkDeleteItems } from '../../podio/resources/items';
+import { bulkDeleteItems, fetchItemsByIds } from '../../podio/resources/items';
+import { PodioFile, downloadFile } from '../../podio/resources/files';
+import { AppField } from '../../podio/types';
 import { logger } from '../logging';
 import { migrationStateStore } from '../state-store';
+import { publishJobEvent } from '../job-events';
 import {
   CleanupRequestPayload,
   CleanupResult,
@@ -15,24 +18,36 @@ import {
   DuplicateGroup,
   CleanupMode,
   KeepStrategy,
+  FuzzyMatchOptions,
+  GroupMergePlan,
+  MergeOptions,
 } from './types';
-import { ItemMigrationFilters } from '../items/types';
+import { ItemMigrationFilters, MatchKey } from '../items/types';
+import { getAppStructureCache } from '../items/app-structure-cache';
+import { itemIdMapStore } from '../items/item-id-map';
 import { detectDuplicateGroups, applyKeepStrategy } from './service';
+import { applyGroupMerge, planGroupMerge, summarizeMergePlans } from './merge';
+import { keepCriteria, keepCriteriaFields } from './keep-strategy';
+import { repointIncomingReferences } from './reference-repoint';
+import { ArchivedFile, cleanupArchiveStore, snapshotItem } from './archive';
 
 /**
  * Cleanup executor configuration
  */
 export interface CleanupExecutorConfig {
   appId: number;
-  matchField: string;
+  matchField: MatchKey;
   mode: CleanupMode;
-  keepStrategy: 'oldest' | 'newest'; // Normalized - 'manual' is handled at request level
+  keepStrategy: Exclude<KeepStrategy, 'manual'>; // Normalized - 'manual' is handled at request level
+  keepRule?: string; // Criteria of the 'custom' strategy
   batchSize: number;
   concurrency: number;
   dryRun: boolean;
   maxGroups?: number;
   approvedGroups?: DuplicateGroup[];
   filters?: ItemMigrationFilters;
+  fuzzy?: FuzzyMatchOptions;
+  merge?: MergeOptions;
 }
 
 /**
@@ -54,8 +69,12 @@ export interface CleanupExecutorEvents {
     failedDeletions: number;
     percent: number;
   }) => void;
+  /** Emitted when manual mode stops to let the user approve detected groups (before `complete`) */
+  waitingApproval: (groups: DuplicateGroup[]) => void;
   /** Emitted when all processing is complete */
   complete: (result: CleanupResult | CleanupDryRunPreview) => void;
+  /** Emitted when execution stops on a pause request */
+  paused: () => void;
   /** Emitted when processing encounters a fatal error */
   error: (error: Error) => void;
 }
@@ -124,6 +143,8 @@ export class CleanupExecutor extends EventEmitter {
           jobId: this.jobId,
           onPauseCheck: () => this.pauseRequested,
           filters: this.config.filters,
+          fuzzy: this.config.fuzzy,
+          keepFields: keepCriteriaFields(keepCriteria(this.config.keepStrategy, this.config.keepRule)),
         }
       );
 
@@ -145,7 +166,7 @@ export class CleanupExecutor extends EventEmitter {
           groupsToProcess = this.config.approvedGroups.map(group => {
             if (!group.deleteItemIds || group.deleteItemIds.length === 0) {
               // Apply default strategy if user didn't select specific items
-              const processedGroups = applyKeepStrategy([group], this.config.keepStrategy);
+              const processedGroups = applyKeepStrategy([group], this.config.keepStrategy, this.config.keepRule);
               return processedGroups[0];
             }
             return group;
@@ -157,9 +178,18 @@ export class CleanupExecutor extends EventEmitter {
             groupCount: limitedGroups.length,
           });
 
+          // Merge dry runs show what merging each group into the item the keep strategy picks would change
+          let reviewGroups = limitedGroups;
+          let merge: CleanupDryRunPreview['merge'];
+          if (this.config.dryRun && this.config.merge) {
+            const appFields = await this.getMergeFields();
+            reviewGroups = await this.planMerges(applyKeepStrategy(limitedGroups, this.config.keepStrategy, this.config.keepRule), appFields);
+            merge = summarizeMergePlans(reviewGroups, appFields, this.config.merge);
+          }
+
           // Calculate summary statistics from detected groups
-          const totalDuplicateItems = limitedGroups.reduce((sum, g) => sum + g.items.length, 0);
-          const totalUniqueItems = limitedGroups.length;
+          const totalDuplicateItems = reviewGroups.reduce((sum, g) => sum + g.items.length, 0);
+          const totalUniqueItems = reviewGroups.length;
 
           await migrationStateStore.updateJobStatus(this.jobId, 'waiting_approval' as any);
 
@@ -168,29 +198,31 @@ export class CleanupExecutor extends EventEmitter {
           if (job) {
             job.metadata = {
               ...job.metadata,
-              duplicateGroups: limitedGroups,
+              duplicateGroups: reviewGroups,
             };
             await migrationStateStore.saveMigrationJob(job);
           }
 
           const preview: CleanupDryRunPreview = {
-            totalGroups: limitedGroups.length,
+            totalGroups: reviewGroups.length,
             totalItemsToDelete: 0,
-            duplicateGroups: limitedGroups,
+            duplicateGroups: reviewGroups,
             summary: {
               totalSourceItems: totalDuplicateItems,
               uniqueItems: totalUniqueItems,
               duplicateItems: totalDuplicateItems - totalUniqueItems,
-              groupsWithDuplicates: limitedGroups.length,
+              groupsWithDuplicates: reviewGroups.length,
             },
+            ...(merge && { merge }),
           };
 
+          this.emit('waitingApproval', reviewGroups);
           this.emit('complete', preview);
           return preview;
         }
       } else {
         // Automated mode: apply keep strategy
-        groupsToProcess = applyKeepStrategy(limitedGroups, this.config.keepStrategy);
+        groupsToProcess = applyKeepStrategy(limitedGroups, this.config.keepStrategy, this.config.keepRule);
       }
 
       // Calculate total items to delete
@@ -207,6 +239,20 @@ export class CleanupExecutor extends EventEmitter {
 
       // If dry run, return preview
       if (this.config.dryRun) {
+        let merge: CleanupDryRunPreview['merge'];
+        if (this.config.merge) {
+          const appFields = await this.getMergeFields();
+          groupsToProcess = await this.planMerges(groupsToProcess, appFields);
+          merge = summarizeMergePlans(groupsToProcess, appFields, this.config.merge);
+
+          // Keep the planned groups so the preview can show them
+          const job = await migrationStateStore.getMigrationJob(this.jobId);
+          if (job) {
+            job.metadata = { ...job.metadata, duplicateGroups: groupsToProcess };
+            await migrationStateStore.saveMigrationJob(job);
+          }
+        }
+
         // Calculate summary statistics from processed groups
         const totalDuplicateItems = groupsToProcess.reduce((sum, g) => sum + g.items.length, 0);
         const totalUniqueItems = groupsToProcess.length;
@@ -221,6 +267,7 @@ export class CleanupExecutor extends EventEmitter {
             duplicateItems: totalItemsToDelete,
             groupsWithDuplicates: groupsToProcess.length,
           },
+          ...(merge && { merge }),
         };
 
         await migrationStateStore.updateJobStatus(this.jobId, 'completed');
@@ -232,7 +279,25 @@ export class CleanupExecutor extends EventEmitter {
       await migrationStateStore.updateJobStatus(this.jobId, 'deleting' as any);
       this.emit('deleteStart', totalItemsToDelete);
 
-      const result = await this.deleteDuplicates(groupsToProcess);
+      let mergeErrors: CleanupResult['errors'] = [];
+      let mergedGroups: number | undefined;
+      if (this.config.merge) {
+        const merged = await this.mergeGroups(groupsToProcess);
+        groupsToProcess = merged.groups;
+        mergeErrors = merged.errors;
+        mergedGroups = merged.groups.length;
+      }
+
+      const references = await this.repointReferences(groupsToProcess);
+      groupsToProcess = references.groups;
+
+      const deletion = await this.deleteDuplicates(groupsToProcess);
+      const result: CleanupResult = {
+        ...deletion,
+        ...(mergedGroups !== undefined && { mergedGroups }),
+        repointedReferences: references.repointedReferences,
+        errors: [...mergeErrors, ...references.errors, ...deletion.errors],
+      };
 
       // Update final status
       await migrationStateStore.updateJobStatus(this.jobId, 'completed');
@@ -250,6 +315,7 @@ export class CleanupExecutor extends EventEmitter {
         });
 
         await migrationStateStore.updateJobStatus(this.jobId, 'paused');
+        this.emit('paused');
 
         // Don't emit error for pause requests - this is expected behavior
         return {
@@ -273,14 +339,200 @@ export class CleanupExecutor extends EventEmitter {
   }
 
 
+  /**
+   * Writable fields of the app, for merge planning
+   */
+  private async getMergeFields(): Promise<AppField[]> {
+    const app = await getAppStructureCache().getAppStructure(this.config.appId);
+    return (app.fields ?? []).filter((field) => field.status !== 'deleted');
+  }
+
+  /**
+   * Plan the merge of a group from the current state of its items
+   */
+  private async planMerge(group: DuplicateGroup, appFields: AppField[]): Promise<GroupMergePlan | undefined> {
+    if (!group.keepItemId || !group.deleteItemIds?.length) {
+      return undefined;
+    }
+
+    const items = await fetchItemsByIds(this.client, [group.keepItemId, ...group.deleteItemIds]);
+    const keep = items.find((item) => item.item_id === group.keepItemId);
+    if (!keep) {
+      throw new Error(`Kept item ${group.keepItemId} could not be loaded`);
+    }
+
+    return planGroupMerge(
+      keep,
+      items.filter((item) => item.item_id !== group.keepItemId),
+      appFields,
+      this.config.merge
+    );
+  }
+
+  /**
+   * Attach merge plans to groups for the dry-run preview
+   */
+  private async planMerges(groups: DuplicateGroup[], appFields: AppField[]): Promise<DuplicateGroup[]> {
+    const planned: DuplicateGroup[] = [];
+    for (const group of groups) {
+      this.checkPause();
+      planned.push({ ...group, mergePlan: await this.planMerge(group, appFields) });
+    }
+    return planned;
+  }
+
+  /**
+   * Merge each group into its kept item
+   * Groups whose merge fails are dropped, so their duplicates are not deleted.
+   */
+  private async mergeGroups(
+    groups: DuplicateGroup[]
+  ): Promise<{ groups: DuplicateGroup[]; errors: CleanupResult['errors'] }> {
+    const appFields = await this.getMergeFields();
+    // Comments copied before a failure, pause or earlier run are not posted again
+    const commentJournal = { jobId: this.jobId, copiedCommentIds: await itemIdMapStore.getCopiedCommentIds(this.jobId) };
+    const merged: DuplicateGroup[] = [];
+    const errors: CleanupResult['errors'] = [];
+
+    for (const group of groups) {
+      this.checkPause();
+
+      try {
+        const plan = await this.planMerge(group, appFields);
+        if (plan) {
+          await applyGroupMerge(this.client, plan, commentJournal);
+        }
+        merged.push(group);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('Merge failed - keeping duplicates of group', {
+          jobId: this.jobId,
+          keepItemId: group.keepItemId,
+          deleteItemIds: group.deleteItemIds,
+          error: message,
+        });
+        errors.push({
+          itemId: group.keepItemId,
+          message: `Merge failed, duplicates not deleted: ${message}`,
+        });
+      }
+    }
+
+    logger.info('Merged duplicate groups', {
+      jobId: this.jobId,
+      merged: merged.length,
+      failed: errors.length,
+    });
+
+    return { groups: merged, errors };
+  }
+
+  /**
+   * Move links to the duplicates onto the kept items
+   * Duplicates whose links could not all be moved are left out of the deletion.
+   */
+  private async repointReferences(groups: DuplicateGroup[]): Promise<{
+    groups: DuplicateGroup[];
+    repointedReferences: NonNullable<CleanupResult['repointedReferences']>;
+    errors: CleanupResult['errors'];
+  }> {
+    const outcome = await repointIncomingReferences(this.client, this.config.appId, groups, {
+      onPauseCheck: () => this.checkPause(),
+    });
+
+    const repointedReferences = groups
+      .filter((group) => group.keepItemId && outcome.repointed.has(group.keepItemId))
+      .map((group) => ({
+        keepItemId: group.keepItemId!,
+        matchValue: group.matchValue,
+        count: outcome.repointed.get(group.keepItemId!)!,
+      }));
+
+    for (const entry of repointedReferences) {
+      logger.info('Re-pointed references to kept item', { jobId: this.jobId, ...entry });
+    }
+
+    if (outcome.blockedItemIds.size === 0) {
+      return { groups, repointedReferences, errors: outcome.errors };
+    }
+
+    logger.warn('Keeping duplicates that are still referenced', {
+      jobId: this.jobId,
+      itemIds: [...outcome.blockedItemIds],
+    });
+
+    return {
+      groups: groups.map((group) => ({
+        ...group,
+        deleteItemIds: group.deleteItemIds?.filter((itemId) => !outcome.blockedItemIds.has(itemId)),
+      })),
+      repointedReferences,
+      errors: [
+        ...outcome.errors,
+        ...[...outcome.blockedItemIds].map((itemId) => ({
+          itemId,
+          message: 'Not deleted: items still reference it',
+        })),
+      ],
+    };
+  }
+
+  /**
+   * Archive a batch of items before it is deleted
+   * File content is saved too; a file that cannot be downloaded is archived without it.
+   * @returns IDs of the items archived; items that could not be loaded are left out
+   */
+  private async archiveBatch(batch: number[], groupOf: Map<number, DuplicateGroup>): Promise<Set<number>> {
+    const items = await fetchItemsByIds(this.client, batch);
+    const snapshots = [];
+
+    for (const item of items) {
+      const files: ArchivedFile[] = [];
+      for (const file of (item.files ?? []) as Array<Partial<PodioFile> & { file_id: number }>) {
+        let stored = false;
+        try {
+          await cleanupArchiveStore.saveFile(this.jobId, file.file_id, await downloadFile(this.client, file.file_id));
+          stored = true;
+        } catch (error) {
+          logger.warn('Archiving item without file content', {
+            jobId: this.jobId,
+            itemId: item.item_id,
+            fileId: file.file_id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        files.push({
+          fileId: file.file_id,
+          name: file.name ?? `file-${file.file_id}`,
+          mimetype: file.mimetype,
+          size: file.size,
+          description: file.description,
+          stored,
+        });
+      }
+
+      snapshots.push(snapshotItem(item, files, groupOf.get(item.item_id)));
+    }
+
+    await cleanupArchiveStore.archiveItems(this.jobId, snapshots);
+    return new Set(snapshots.map((snapshot) => snapshot.itemId));
+  }
+
   /**
    * Delete duplicate items
+   * Each batch is archived first, and items that could not be archived are not deleted.
    */
   private async deleteDuplicates(groups: DuplicateGroup[]): Promise<CleanupResult> {
     const errors: Array<{ itemId?: number; message: string; code?: string }> = [];
     let deletedItems = 0;
     let failedDeletions = 0;
     let processedGroups = 0;
+    let archivedItems = 0;
+
+    const groupOf = new Map<number, DuplicateGroup>();
+    for (const group of groups) {
+      group.deleteItemIds?.forEach((itemId) => groupOf.set(itemId, group));
+    }
 
     // Collect all item IDs to delete
     const allItemsToDelete: number[] = [];
@@ -308,7 +560,14 @@ export class CleanupExecutor extends EventEmitter {
           progress: `${i + batch.length}/${totalItemsToDelete}`,
         });
 
-        const result = await bulkDeleteItems(this.client, batch, {
+        const archived = await this.archiveBatch(batch, groupOf);
+        archivedItems += archived.size;
+        for (const itemId of batch.filter((id) => !archived.has(id))) {
+          failedDeletions++;
+          errors.push({ itemId, message: 'Not deleted: item could not be archived' });
+        }
+
+        const result = await bulkDeleteItems(this.client, batch.filter((id) => archived.has(id)), {
           concurrency: this.config.concurrency,
           stopOnError: false,
         });
@@ -372,6 +631,7 @@ export class CleanupExecutor extends EventEmitter {
       totalGroups: groups.length,
       totalItemsDeleted: deletedItems,
       failedDeletions,
+      archivedItems,
       errors,
     };
   }
@@ -427,20 +687,23 @@ export async function executeCleanup(
   request: CleanupRequestPayload
 ): Promise<CleanupResult | CleanupDryRunPreview> {
   // Normalize keepStrategy: 'manual' is only for manual mode, use 'oldest' as default
-  const normalizedKeepStrategy: 'oldest' | 'newest' =
-    request.keepStrategy === 'newest' ? 'newest' : 'oldest';
+  const normalizedKeepStrategy: Exclude<KeepStrategy, 'manual'> =
+    request.keepStrategy && request.keepStrategy !== 'manual' ? request.keepStrategy : 'oldest';
 
   const executor = new CleanupExecutor(client, jobId, {
     appId: request.appId,
     matchField: request.matchField,
     mode: request.mode,
     keepStrategy: normalizedKeepStrategy,
+    keepRule: request.keepRule,
     batchSize: request.batchSize || 100,
     concurrency: request.concurrency || 3,
     dryRun: request.dryRun || false,
     maxGroups: request.maxGroups,
     approvedGroups: request.approvedGroups,
     filters: request.filters,
+    fuzzy: request.fuzzy,
+    merge: request.merge,
   });
 
   // Register executor for pause support
@@ -459,6 +722,42 @@ export async function executeCleanup(
       });
     });
 
+    // Forward events to the job's SSE stream
+    let waitingApproval = false;
+    executor.on('detectStart', () => {
+      publishJobEvent(jobId, { type: 'status', status: 'detecting' });
+    });
+    executor.on('deleteStart', () => {
+      publishJobEvent(jobId, { type: 'status', status: 'deleting' });
+    });
+    executor.on('progress', (stats) => {
+      publishJobEvent(jobId, {
+        type: 'progress',
+        progress: {
+          total: stats.totalGroups,
+          processed: stats.processedGroups,
+          successful: stats.deletedItems,
+          failed: stats.failedDeletions,
+          percent: stats.percent,
+        },
+      });
+    });
+    executor.on('waitingApproval', () => {
+      waitingApproval = true;
+      publishJobEvent(jobId, { type: 'waiting_approval', status: 'waiting_approval' });
+    });
+    executor.on('complete', () => {
+      if (!waitingApproval) {
+        publishJobEvent(jobId, { type: 'completed', status: 'completed' });
+      }
+    });
+    executor.on('paused', () => {
+      publishJobEvent(jobId, { type: 'paused', status: 'paused' });
+    });
+    executor.on('error', (error: Error) => {
+      publishJobEvent(jobId, { type: 'failed', status: 'failed', error: { message: error.message } });
+    });
+
     return await executor.execute();
   } finally {
     // Always unregister executor when done
@@ -0,0 +1,283 @@
+/**
+ * Fuzzy duplicate matching
+ *
+ * Exact detection only groups items whose normalized match keys are identical,
+ * so "Acme Inc." and "ACME, Inc" or a mistyped email never share a group. This
+ * module scores pairs of match values with a similarity algorithm and links the
+ * pairs that reach a threshold into clusters.
+ *
+ * Comparing every pair is quadratic, so values are put into blocks first: only
+ * values sharing a block key (the first or last letters of a word, or a word's
+ * phonetic code) are compared, and blocks above `maxBlockSize` are skipped.
+ */
+
+import { FuzzyMatchOptions, SimilarityAlgorithm } from './types';
+
+export const SIMILARITY_ALGORITHMS: readonly SimilarityAlgorithm[] = ['token_set', 'levenshtein', 'phonetic'];
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.85;
+export const DEFAULT_MAX_BLOCK_SIZE = 500;
+
+/** Letters of a word used for its prefix and suffix block keys */
+const BLOCK_AFFIX_LENGTH = 3;
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * Split a value into lowercase words without accents or punctuation
+ */
+export function tokenize(value: string): string[] {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Number of single-character edits that turn one string into the other
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit distance similarity of two strings (0-1)
+ */
+export function levenshteinRatio(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshteinDistance(a, b) / length;
+}
+
+/**
+ * Word set similarity of two token lists (0-1)
+ * Repeated words are dropped and the words both sides share are placed first,
+ * so word order and duplicates do not count but missing and mistyped words do.
+ */
+export function tokenSetRatio(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter((token) => setB.has(token)).sort();
+  const onlyA = [...setA].filter((token) => !setB.has(token)).sort();
+  const onlyB = [...setB].filter((token) => !setA.has(token)).sort();
+
+  return levenshteinRatio([...shared, ...onlyA].join(' '), [...shared, ...onlyB].join(' '));
+}
+
+/**
+ * American Soundex code of a word, e.g. "Robert" and "Rupert" are both "R163"
+ * Words without Latin letters (numbers, other scripts) are returned unchanged.
+ */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) {
+    return word;
+  }
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== previous) {
+      code += digit;
+      if (code.length === 4) break;
+    }
+    // h and w do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') {
+      previous = digit;
+    }
+  }
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Words of a value as the algorithm compares them
+ */
+function prepareTokens(value: string, algorithm: SimilarityAlgorithm): string[] {
+  const tokens = tokenize(value);
+  return algorithm === 'phonetic' ? tokens.map(soundex) : tokens;
+}
+
+function compareTokens(a: string[], b: string[], algorithm: SimilarityAlgorithm): number {
+  if (algorithm === 'levenshtein') {
+    return levenshteinRatio(a.join(' '), b.join(' '));
+  }
+  return tokenSetRatio(a, b);
+}
+
+/**
+ * Similarity of two values (0-1) with the given algorithm
+ */
+export function similarity(a: string, b: string, algorithm: SimilarityAlgorithm = 'token_set'): number {
+  return compareTokens(prepareTokens(a, algorithm), prepareTokens(b, algorithm), algorithm);
+}
+
+/**
+ * Validate fuzzy matching settings
+ * @returns one message per problem; empty when the settings are valid
+ */
+export function validateFuzzyMatchOptions(options: FuzzyMatchOptions): string[] {
+  const errors: string[] = [];
+
+  if (options.algorithm !== undefined && !SIMILARITY_ALGORITHMS.includes(options.algorithm)) {
+    errors.push(`Unknown similarity algorithm "${options.algorithm}". Valid algorithms: ${SIMILARITY_ALGORITHMS.join(', ')}`);
+  }
+  if (
+    options.threshold !== undefined &&
+    (typeof options.threshold !== 'number' || !(options.threshold > 0 && options.threshold <= 1))
+  ) {
+    errors.push('Fuzzy threshold must be a number greater than 0 and at most 1');
+  }
+  if (
+    options.maxBlockSize !== undefined &&
+    (!Number.isInteger(options.maxBlockSize) || options.maxBlockSize < 2)
+  ) {
+    errors.push('maxBlockSize must be an integer of at least 2');
+  }
+
+  return errors;
+}
+
+/**
+ * Values linked by similarity
+ */
+export interface FuzzyCluster {
+  /** Indexes of the values in the cluster, ascending */
+  members: number[];
+  /** Weakest similarity that linked a value into the cluster */
+  confidence: number;
+}
+
+export interface FuzzyClusterResult {
+  /** Clusters of at least two values */
+  clusters: FuzzyCluster[];
+  /** Pairs scored; an unlinked pair that shares several blocks is scored in each */
+  comparisons: number;
+  /** Blocks not compared because they had more than `maxBlockSize` values */
+  skippedBlocks: number;
+}
+
+/**
+ * Cluster similar values
+ *
+ * Each value is one string per match key field. Two values are linked when
+ * every field reaches the threshold; clusters are the connected values, so a
+ * cluster can hold values that are only similar through a third one.
+ */
+export function findFuzzyClusters(values: string[][], options: FuzzyMatchOptions = {}): FuzzyClusterResult {
+  const algorithm = options.algorithm ?? 'token_set';
+  const threshold = options.threshold ?? DEFAULT_FUZZY_THRESHOLD;
+  const maxBlockSize = options.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE;
+
+  const prepared = values.map((fields) => fields.map((field) => prepareTokens(field, algorithm)));
+
+  // Block keys are per field, so a shared word in different fields does not make a candidate
+  const blocks = new Map<string, number[]>();
+  prepared.forEach((fields, index) => {
+    const keys = new Set<string>();
+    fields.forEach((tokens, field) => {
+      for (const token of tokens) {
+        if (algorithm === 'phonetic') {
+          keys.add(`${field}:${token}`);
+        } else {
+          keys.add(`${field}<${token.slice(0, BLOCK_AFFIX_LENGTH)}`);
+          keys.add(`${field}>${token.slice(-BLOCK_AFFIX_LENGTH)}`);
+        }
+      }
+    });
+    for (const key of keys) {
+      const block = blocks.get(key);
+      if (block) {
+        block.push(index);
+      } else {
+        blocks.set(key, [index]);
+      }
+    }
+  });
+
+  // Union-find over value indexes, tracking the weakest link of each cluster
+  const parent = values.map((_, index) => index);
+  const confidence = values.map(() => 1);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  let comparisons = 0;
+  let skippedBlocks = 0;
+
+  for (const block of blocks.values()) {
+    if (block.length < 2) continue;
+    if (block.length > maxBlockSize) {
+      skippedBlocks++;
+      continue;
+    }
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i];
+        const b = block[j];
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA === rootB) continue;
+        comparisons++;
+
+        let score = 1;
+        for (let field = 0; field < prepared[a].length && score >= threshold; field++) {
+          score = Math.min(score, compareTokens(prepared[a][field], prepared[b][field], algorithm));
+        }
+        if (score < threshold) continue;
+
+        parent[rootB] = rootA;
+        confidence[rootA] = Math.min(confidence[rootA], confidence[rootB], score);
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  values.forEach((_, index) => {
+    const root = find(index);
+    const cluster = members.get(root);
+    if (cluster) {
+      cluster.push(index);
+    } else {
+      members.set(root, [index]);
+    }
+  });
+
+  const clusters: FuzzyCluster[] = [];
+  for (const [root, indexes] of members) {
+    if (indexes.length > 1) {
+      clusters.push({ members: indexes, confidence: confidence[root] });
+    }
+  }
+
+  return { clusters, comparisons, skippedBlocks };
+}
@@ -0,0 +1,230 @@
+/**
+ * Keep strategies
+ *
+ * Every duplicate group keeps one item. A strategy ranks the items of a group
+ * by one or more criteria; the first criterion that tells two items apart
+ * decides, and items that tie on all of them fall back to the oldest.
+ *
+ * A custom keep rule lists criteria separated by commas, e.g.
+ * `status = Active, max(revenue), most_complete, newest`:
+ * - oldest, newest, most_complete, most_active, most_comments, most_files
+ * - max(field) / min(field): highest or lowest value of a numeric field
+ * - field = value: items whose field holds the value (a category option's text) first
+ */
+
+import { PodioItem, PodioItemField, extractFieldValue } from '../../podio/resources/items';
+import { AppField } from '../../podio/types';
+import { DuplicateItem, KeepStrategy } from './types';
+
+/** Strategies that rank items by a single criterion */
+const SIMPLE_STRATEGIES = ['oldest', 'newest', 'most_complete', 'most_active', 'most_comments', 'most_files'] as const;
+
+export const KEEP_STRATEGIES: readonly KeepStrategy[] = [...SIMPLE_STRATEGIES, 'custom', 'manual'];
+
+/** Field types `max()` and `min()` can compare */
+const NUMERIC_FIELD_TYPES = ['number', 'money', 'progress', 'duration', 'calculation'];
+
+/**
+ * One ranking criterion of a keep strategy
+ */
+export type KeepCriterion =
+  | { type: (typeof SIMPLE_STRATEGIES)[number] }
+  | { type: 'max' | 'min'; field: string }
+  | { type: 'equals'; field: string; value: string };
+
+/**
+ * Value of a field kept on a duplicate item for keep rules
+ * Category fields keep their option texts, numeric fields their number.
+ */
+export type KeepFieldValue = string | number | string[];
+
+/**
+ * Parse a custom keep rule
+ * @returns the criteria in order and one message per problem
+ */
+export function parseKeepRule(rule: string): { criteria: KeepCriterion[]; errors: string[] } {
+  const criteria: KeepCriterion[] = [];
+  const errors: string[] = [];
+
+  const parts = rule.split(',').map((part) => part.trim());
+  if (parts.every((part) => part === '')) {
+    return { criteria, errors: ['Keep rule is empty'] };
+  }
+
+  for (const part of parts) {
+    if (!part) continue;
+
+    const extreme = part.match(/^(max|min)\s*\(\s*([^()\s]+)\s*\)$/i);
+    const equals = part.match(/^([^=\s]+)\s*=\s*(.+)$/);
+
+    if ((SIMPLE_STRATEGIES as readonly string[]).includes(part.toLowerCase())) {
+      criteria.push({ type: part.toLowerCase() as (typeof SIMPLE_STRATEGIES)[number] });
+    } else if (extreme) {
+      criteria.push({ type: extreme[1].toLowerCase() as 'max' | 'min', field: extreme[2] });
+    } else if (equals) {
+      criteria.push({ type: 'equals', field: equals[1], value: equals[2].trim() });
+    } else {
+      errors.push(
+        `Unknown keep criterion "${part}". Use ${SIMPLE_STRATEGIES.join(', ')}, max(field), min(field) or field = value`
+      );
+    }
+  }
+
+  return { criteria, errors };
+}
+
+/**
+ * Criteria of a keep strategy
+ * Throws when a custom rule is missing or invalid; validate it with `validateKeepStrategy` first.
+ */
+export function keepCriteria(strategy: Exclude<KeepStrategy, 'manual'>, keepRule?: string): KeepCriterion[] {
+  if (strategy !== 'custom') {
+    return [{ type: strategy }];
+  }
+
+  const { criteria, errors } = parseKeepRule(keepRule ?? '');
+  if (errors.length > 0) {
+    throw new Error(`Invalid keep rule: ${errors.join('; ')}`);
+  }
+  return criteria;
+}
+
+/**
+ * Fields whose values the criteria compare
+ */
+export function keepCriteriaFields(criteria: KeepCriterion[]): string[] {
+  return [...new Set(criteria.flatMap((criterion) => ('field' in criterion ? [criterion.field] : [])))];
+}
+
+/**
+ * Validate a keep strategy and its rule against the fields of the app
+ * @returns one message per problem; empty when the settings are valid
+ */
+export function validateKeepStrategy(strategy: string, keepRule: string | undefined, appFields: AppField[]): string[] {
+  if (!KEEP_STRATEGIES.includes(strategy as KeepStrategy)) {
+    return [`Unknown keep strategy "${strategy}". Valid strategies: ${KEEP_STRATEGIES.join(', ')}`];
+  }
+  if (strategy !== 'custom') {
+    return [];
+  }
+  if (!keepRule?.trim()) {
+    return ['The custom keep strategy requires a keepRule'];
+  }
+
+  const { criteria, errors } = parseKeepRule(keepRule);
+  for (const criterion of criteria) {
+    if (!('field' in criterion)) continue;
+
+    const field = appFields.find((f) => f.external_id === criterion.field);
+    if (!field) {
+      errors.push(`Keep rule references unknown field "${criterion.field}"`);
+    } else if (criterion.type !== 'equals' && !NUMERIC_FIELD_TYPES.includes(field.type)) {
+      errors.push(`${criterion.type}(${criterion.field}) needs a numeric field, but "${criterion.field}" is a ${field.type} field`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Value of an item field in the form keep rules compare
+ */
+function toKeepFieldValue(field: PodioItemField): KeepFieldValue | undefined {
+  if (!field.values?.length) {
+    return undefined;
+  }
+
+  if (field.type === 'category') {
+    return field.values.map((entry) => String((entry.value as { text?: string }).text ?? ''));
+  }
+
+  const value = extractFieldValue(field);
+  if (NUMERIC_FIELD_TYPES.includes(field.type)) {
+    const number = Number(typeof value === 'object' && value !== null ? (value as { value?: unknown }).value : value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Values of the given fields of an item, for keep rules
+ */
+export function keepFieldValues(item: PodioItem, fields: string[]): Record<string, KeepFieldValue> {
+  const values: Record<string, KeepFieldValue> = {};
+  for (const externalId of fields) {
+    const field = item.fields?.find((f) => f.external_id === externalId);
+    const value = field && toKeepFieldValue(field);
+    if (value !== undefined) {
+      values[externalId] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Number of fields of an item that hold a value
+ */
+export function countFilledFields(item: PodioItem): number {
+  return (item.fields ?? []).filter((field) =>
+    field.values?.some((entry) => {
+      const value = entry.value ?? entry.start;
+      return value !== undefined && value !== null && String(value).trim() !== '';
+    })
+  ).length;
+}
+
+function timestamp(value: string | undefined): number | undefined {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Score of an item for a criterion; higher is better, undefined ranks last
+ */
+function score(item: DuplicateItem, criterion: KeepCriterion): number | undefined {
+  switch (criterion.type) {
+    case 'oldest': {
+      const created = timestamp(item.createdOn);
+      return created === undefined ? undefined : -created;
+    }
+    case 'newest':
+      return timestamp(item.createdOn);
+    case 'most_complete':
+      return item.filledFields ?? 0;
+    case 'most_active':
+      return timestamp(item.lastEditOn);
+    case 'most_comments':
+      return item.commentCount ?? 0;
+    case 'most_files':
+      return item.fileCount ?? 0;
+    case 'max':
+    case 'min': {
+      const value = item.fieldValues?.[criterion.field];
+      if (typeof value !== 'number') return undefined;
+      return criterion.type === 'max' ? value : -value;
+    }
+    case 'equals': {
+      const value = item.fieldValues?.[criterion.field];
+      const expected = criterion.value.toLowerCase();
+      const values = Array.isArray(value) ? value : value === undefined ? [] : [String(value)];
+      return values.some((entry) => entry.trim().toLowerCase() === expected) ? 1 : 0;
+    }
+  }
+}
+
+/**
+ * Pick the item a group keeps
+ * Items are expected oldest first, so the earliest item wins ties on every criterion.
+ */
+export function selectKeepItem(items: DuplicateItem[], criteria: KeepCriterion[]): DuplicateItem {
+  return items.reduce((best, item) => {
+    for (const criterion of criteria) {
+      const a = score(item, criterion);
+      const b = score(best, criterion);
+      if (a === b) continue;
+      if (b === undefined || (a !== undefined && a > b)) return item;
+      return best;
+    }
+    return best;
+  });
+}
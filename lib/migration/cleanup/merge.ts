@@ -0,0 +1,338 @@
+/**
+ * Duplicate merging
+ *
+ * Deleting duplicates loses whatever was stored only on them. In merge mode the
+ * item each group keeps first takes over the duplicates' data: empty fields are
+ * filled, multi-value fields get the values of all items, tags and files are
+ * moved and comments copied, and only then are the duplicates deleted.
+ *
+ * Planning is pure so dry runs can show exactly what a merge would change.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import {
+  PodioItem,
+  PodioItemField,
+  addItemTags,
+  attachFileToItem,
+  extractFieldValue,
+  updateItem,
+} from '../../podio/resources/items';
+import { AppField } from '../../podio/types';
+import { logger } from '../logging';
+import { normalizeMatchValue } from '../items/match-key';
+import { transferItemComments } from '../items/comment-transfer';
+import { ItemIdMapStore, itemIdMapStore } from '../items/item-id-map';
+import { CleanupDryRunPreview, DuplicateGroup, FieldMergeChange, FieldMergeRule, GroupMergePlan, MergeOptions } from './types';
+
+export const FIELD_MERGE_RULES: readonly FieldMergeRule[] = ['fill_empty', 'union', 'prefer_newest', 'keep'];
+
+/** Field types whose values cannot be written */
+const READ_ONLY_FIELD_TYPES = ['calculation', 'created_on', 'created_by', 'created_via'];
+
+/** Field types that always hold a list of values */
+const LIST_FIELD_TYPES = ['app', 'contact', 'phone', 'tel', 'email'];
+
+/**
+ * One value of a multi-value field
+ */
+interface ValueEntry {
+  /** Value in the format `updateItem` takes */
+  write: unknown;
+  /** Identity used to drop repeated values */
+  key: string;
+  label: string;
+}
+
+/**
+ * Whether a field can hold the combined values of several items
+ */
+export function canUnionField(field: Pick<AppField, 'type' | 'config'>): boolean {
+  return (
+    LIST_FIELD_TYPES.includes(field.type) ||
+    (field.type === 'category' && field.config?.settings?.multiple === true)
+  );
+}
+
+/**
+ * Rule used for a field without a configured rule
+ * Multi-value fields are combined, other writable fields filled when empty.
+ */
+export function defaultMergeRule(field: Pick<AppField, 'type' | 'config'>): FieldMergeRule {
+  if (READ_ONLY_FIELD_TYPES.includes(field.type) || field.type === 'image') {
+    return 'keep';
+  }
+  return canUnionField(field) ? 'union' : 'fill_empty';
+}
+
+/**
+ * Rule applied to every field of the app
+ */
+export function resolveMergeRules(
+  appFields: AppField[],
+  rules: Record<string, FieldMergeRule> = {}
+): Record<string, FieldMergeRule> {
+  return Object.fromEntries(
+    appFields.map((field) => [
+      field.external_id,
+      READ_ONLY_FIELD_TYPES.includes(field.type) ? 'keep' : rules[field.external_id] ?? defaultMergeRule(field),
+    ])
+  );
+}
+
+/**
+ * Validate merge settings against the fields of the app
+ * @returns one message per problem; empty when the settings are valid
+ */
+export function validateMergeOptions(options: MergeOptions, appFields: AppField[]): string[] {
+  const errors: string[] = [];
+
+  for (const [externalId, rule] of Object.entries(options.rules ?? {})) {
+    const field = appFields.find((f) => f.external_id === externalId);
+    if (!field) {
+      errors.push(`Merge rule for unknown field "${externalId}"`);
+    } else if (!FIELD_MERGE_RULES.includes(rule)) {
+      errors.push(`Unknown merge rule "${rule}" for "${externalId}". Valid rules: ${FIELD_MERGE_RULES.join(', ')}`);
+    } else if (rule !== 'keep' && READ_ONLY_FIELD_TYPES.includes(field.type)) {
+      errors.push(`"${externalId}" is a ${field.type} field and cannot be written; use "keep"`);
+    } else if (rule === 'union' && !canUnionField(field)) {
+      errors.push(`"${externalId}" holds a single value and cannot use "union"`);
+    }
+  }
+
+  return errors;
+}
+
+function findField(item: PodioItem, externalId: string): PodioItemField | undefined {
+  return item.fields?.find((field) => field.external_id === externalId);
+}
+
+function hasValue(field: PodioItemField | undefined): field is PodioItemField {
+  return !!field && !!field.values?.length && normalizeMatchValue(extractFieldValue(field)) !== '';
+}
+
+function listEntries(field: PodioItemField): ValueEntry[] {
+  return (field.values ?? []).map((entry): ValueEntry => {
+    switch (field.type) {
+      case 'category': {
+        const option = entry.value as { id: number; text?: string };
+        return { write: option.id, key: String(option.id), label: option.text ?? String(option.id) };
+      }
+      case 'app': {
+        const ref = entry.value as { item_id: number; title?: string };
+        return { write: ref.item_id, key: String(ref.item_id), label: ref.title ?? `Item ${ref.item_id}` };
+      }
+      case 'contact': {
+        const contact = entry.value as { profile_id?: number; user_id?: number; name?: string };
+        const id = contact.profile_id || contact.user_id;
+        return { write: id, key: String(id), label: contact.name ?? String(id) };
+      }
+      default: {
+        // Phone and email: keep the value type (work, mobile, ...) of each entry
+        const text = typeof entry.value === 'string' ? entry.value : String(entry.value ?? '');
+        const type = (entry.type as string | undefined) || (field.type === 'email' ? 'work' : 'mobile');
+        return { write: { type, value: text }, key: text.trim().toLowerCase(), label: text };
+      }
+    }
+  });
+}
+
+/**
+ * Readable value of a field for merge previews
+ */
+function describeField(field: PodioItemField | undefined): string {
+  if (!hasValue(field)) {
+    return '';
+  }
+  if (field.type === 'category' || LIST_FIELD_TYPES.includes(field.type)) {
+    return listEntries(field).map((entry) => entry.label).join(', ');
+  }
+
+  const [first] = field.values;
+  switch (field.type) {
+    case 'date':
+      return first.end && first.end !== first.start ? `${first.start} to ${first.end}` : String(first.start ?? '');
+    case 'money':
+      return `${first.value} ${first.currency ?? ''}`.trim();
+    default: {
+      const value = extractFieldValue(field);
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      // Rich text fields hold HTML
+      return text.replace(/<[^>]+>/g, '').trim();
+    }
+  }
+}
+
+function editedOn(item: PodioItem): string {
+  return item.last_event_on || item.created_on;
+}
+
+/**
+ * Plan the merge of duplicates into the item a group keeps
+ *
+ * `fill_empty` takes the value of the oldest duplicate that has one, and
+ * `union` on a single-value field behaves like `fill_empty`. Fields whose new
+ * value equals the current one are left out of the plan.
+ */
+export function planGroupMerge(
+  keep: PodioItem,
+  duplicates: PodioItem[],
+  appFields: AppField[],
+  options: MergeOptions = {}
+): GroupMergePlan {
+  const rules = resolveMergeRules(appFields, options.rules);
+  const oldestFirst = [...duplicates].sort((a, b) => (a.created_on < b.created_on ? -1 : a.created_on > b.created_on ? 1 : 0));
+  const newestFirst = [keep, ...duplicates].sort((a, b) => (editedOn(a) > editedOn(b) ? -1 : editedOn(a) < editedOn(b) ? 1 : 0));
+  const fields: FieldMergeChange[] = [];
+
+  for (const appField of appFields) {
+    const externalId = appField.external_id;
+    const rule = rules[externalId];
+    if (rule === 'keep') continue;
+
+    const current = findField(keep, externalId);
+    const change = { externalId, label: appField.label || appField.config?.label || externalId, rule };
+
+    if (rule === 'union' && canUnionField(appField)) {
+      const entries = hasValue(current) ? listEntries(current) : [];
+      const seen = new Set(entries.map((entry) => entry.key));
+      const sourceItemIds: number[] = [];
+
+      for (const duplicate of oldestFirst) {
+        const field = findField(duplicate, externalId);
+        if (!hasValue(field)) continue;
+
+        const added = listEntries(field).filter((entry) => !seen.has(entry.key));
+        added.forEach((entry) => {
+          seen.add(entry.key);
+          entries.push(entry);
+        });
+        if (added.length > 0) sourceItemIds.push(duplicate.item_id);
+      }
+
+      if (sourceItemIds.length > 0) {
+        fields.push({
+          ...change,
+          sourceItemIds,
+          before: describeField(current),
+          after: entries.map((entry) => entry.label).join(', '),
+          value: entries.map((entry) => entry.write),
+        });
+      }
+      continue;
+    }
+
+    const candidates = rule === 'prefer_newest' ? newestFirst : [keep, ...oldestFirst];
+    const source = candidates.find((item) => hasValue(findField(item, externalId)));
+    if (!source || source.item_id === keep.item_id) continue;
+
+    const sourceField = findField(source, externalId)!;
+    if (
+      hasValue(current) &&
+      normalizeMatchValue(extractFieldValue(current)) === normalizeMatchValue(extractFieldValue(sourceField))
+    ) {
+      continue;
+    }
+
+    fields.push({
+      ...change,
+      sourceItemIds: [source.item_id],
+      before: describeField(current),
+      after: describeField(sourceField),
+      value: extractFieldValue(sourceField),
+    });
+  }
+
+  const keptTags = new Set(keep.tags ?? []);
+  const tags =
+    options.tags === false
+      ? []
+      : [...new Set(duplicates.flatMap((duplicate) => duplicate.tags ?? []))].filter((tag) => !keptTags.has(tag));
+
+  return {
+    keepItemId: keep.item_id,
+    mergedItemIds: duplicates.map((duplicate) => duplicate.item_id),
+    fields,
+    tags,
+    fileIds: options.files === false ? [] : duplicates.flatMap((duplicate) => duplicate.files?.map((file) => file.file_id) ?? []),
+    comments: options.comments !== false,
+  };
+}
+
+/**
+ * Totals of the merge plans of a dry run
+ */
+export function summarizeMergePlans(
+  groups: DuplicateGroup[],
+  appFields: AppField[],
+  options: MergeOptions
+): NonNullable<CleanupDryRunPreview['merge']> {
+  const plans = groups.flatMap((group) => (group.mergePlan ? [group.mergePlan] : []));
+  return {
+    rules: resolveMergeRules(appFields, options.rules),
+    fieldChanges: plans.reduce((sum, plan) => sum + plan.fields.length, 0),
+    tagsAdded: plans.reduce((sum, plan) => sum + plan.tags.length, 0),
+    filesMoved: plans.reduce((sum, plan) => sum + plan.fileIds.length, 0),
+  };
+}
+
+/**
+ * Comments a cleanup job already copied to kept items
+ * Copied comments are journaled in the job's comment map, so a merge that is
+ * applied again (after a failure, a pause or a re-run) skips them.
+ */
+export interface MergeCommentJournal {
+  jobId: string;
+  /** Source comment IDs already copied (updated in place) */
+  copiedCommentIds: Set<number>;
+  store?: ItemIdMapStore;
+}
+
+/**
+ * Apply a merge plan to the kept item
+ * Throws on the first failure; the caller must not delete the duplicates then.
+ */
+export async function applyGroupMerge(
+  client: PodioHttpClient,
+  plan: GroupMergePlan,
+  commentJournal: MergeCommentJournal
+): Promise<void> {
+  const { keepItemId } = plan;
+
+  if (plan.fields.length > 0) {
+    await updateItem(
+      client,
+      keepItemId,
+      Object.fromEntries(plan.fields.map((change) => [change.externalId, change.value])),
+      { hook: false, silent: true }
+    );
+  }
+
+  if (plan.tags.length > 0) {
+    await addItemTags(client, keepItemId, plan.tags);
+  }
+
+  // Attaching a file to another item moves it there
+  for (const fileId of plan.fileIds) {
+    await attachFileToItem(client, keepItemId, fileId);
+  }
+
+  if (plan.comments) {
+    const store = commentJournal.store ?? itemIdMapStore;
+    for (const itemId of plan.mergedItemIds) {
+      const outcome = await transferItemComments(client, itemId, keepItemId, commentJournal.copiedCommentIds);
+      await store.recordCommentMappings(commentJournal.jobId, outcome.entries);
+      if (outcome.error) {
+        throw new Error(`Comments of item ${itemId} could not be copied: ${outcome.error}`);
+      }
+    }
+  }
+
+  logger.info('Merged duplicates into kept item', {
+    keepItemId,
+    mergedItemIds: plan.mergedItemIds,
+    fields: plan.fields.map((change) => change.externalId),
+    tags: plan.tags.length,
+    files: plan.fileIds.length,
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * Re-pointing incoming relationships
+ *
+ * Items can link to a duplicate through `app` fields, in other apps or in the
+ * cleaned app itself. Podio drops those links when the duplicate is deleted, so
+ * before deletion every link to a duplicate is rewritten to the item its group
+ * keeps. Only apps in the cleaned app's space are searched for links.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import { PodioItem, extractFieldValue, filterItems, updateItem } from '../../podio/resources/items';
+import { getApplications } from '../../podio/resources/applications';
+import { logger } from '../logging';
+import { getAppStructureCache } from '../items/app-structure-cache';
+import { extractReferencedAppIds } from '../multi-app/dependency-graph';
+import { DuplicateGroup } from './types';
+
+/** Duplicate IDs per filter request */
+const FILTER_BATCH_SIZE = 100;
+
+/** Items per filter page */
+const FILTER_PAGE_SIZE = 500;
+
+/**
+ * An `app` field that can link to items of the cleaned app
+ */
+export interface ReferencingField {
+  appId: number;
+  fieldId: number;
+  externalId: string;
+  label: string;
+}
+
+/**
+ * Outcome of re-pointing the links to a set of duplicate groups
+ */
+export interface ReferenceRepointResult {
+  /** Links moved to each kept item, by kept item ID */
+  repointed: Map<number, number>;
+  /** Duplicates still linked from items that could not be updated */
+  blockedItemIds: Set<number>;
+  errors: Array<{ itemId?: number; message: string }>;
+}
+
+/**
+ * Find the `app` fields in the app's space that reference the app
+ * Apps whose structure cannot be loaded are skipped.
+ */
+export async function findReferencingFields(appId: number): Promise<ReferencingField[]> {
+  const cache = getAppStructureCache();
+  const app = await cache.getAppStructure(appId);
+  const spaceApps = await getApplications(app.space_id);
+  const fields: ReferencingField[] = [];
+
+  for (const spaceApp of spaceApps) {
+    if (spaceApp.status === 'deleted') continue;
+
+    let structure = app;
+    if (spaceApp.app_id !== appId) {
+      try {
+        structure = await cache.getAppStructure(spaceApp.app_id);
+      } catch (error) {
+        // Items of apps we cannot read cannot be updated either
+        logger.warn('Skipping app without access while looking for references', {
+          appId: spaceApp.app_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+    }
+
+    for (const field of structure.fields ?? []) {
+      if (field.type !== 'app' || field.status === 'deleted') continue;
+
+      const referencedAppIds = extractReferencedAppIds(field.config.settings?.referenced_apps ?? field.config.referenced_apps);
+      if (referencedAppIds.includes(appId)) {
+        fields.push({
+          appId: spaceApp.app_id,
+          fieldId: field.field_id,
+          externalId: field.external_id,
+          label: field.label || field.config.label || field.external_id,
+        });
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Map each duplicate a group deletes to the item the group keeps
+ */
+export function buildReplacements(groups: DuplicateGroup[]): Map<number, number> {
+  const replacements = new Map<number, number>();
+  for (const group of groups) {
+    if (!group.keepItemId) continue;
+    for (const itemId of group.deleteItemIds ?? []) {
+      replacements.set(itemId, group.keepItemId);
+    }
+  }
+  return replacements;
+}
+
+/**
+ * Rewrite the item IDs of an `app` field value
+ *
+ * Duplicates are replaced by their kept item and repeated links dropped. A kept
+ * item linking to its own duplicate would end up linking to itself, so that
+ * link is removed instead.
+ *
+ * @returns the new value and the duplicates that were replaced, or undefined when no ID changes
+ */
+export function repointReferenceIds(
+  itemIds: number[],
+  replacements: Map<number, number>,
+  ownItemId?: number
+): { itemIds: number[]; replaced: number[] } | undefined {
+  const replaced = itemIds.filter((itemId) => replacements.has(itemId));
+  if (replaced.length === 0) {
+    return undefined;
+  }
+
+  const repointed = itemIds
+    .map((itemId) => replacements.get(itemId) ?? itemId)
+    .filter((itemId) => itemId !== ownItemId);
+
+  return { itemIds: [...new Set(repointed)], replaced };
+}
+
+/**
+ * Items of a field's app that link to any of the duplicates
+ * An item linking to duplicates of several batches is returned once.
+ */
+async function findReferencingItems(
+  client: PodioHttpClient,
+  field: ReferencingField,
+  duplicateIds: number[]
+): Promise<PodioItem[]> {
+  const items = new Map<number, PodioItem>();
+
+  for (let i = 0; i < duplicateIds.length; i += FILTER_BATCH_SIZE) {
+    const batch = duplicateIds.slice(i, i + FILTER_BATCH_SIZE);
+    let offset = 0;
+    let filtered = 0;
+
+    do {
+      const response = await filterItems(client, field.appId, {
+        filters: { [field.fieldId]: batch },
+        limit: FILTER_PAGE_SIZE,
+        offset,
+      });
+      response.items.forEach((item) => items.set(item.item_id, item));
+      filtered = response.filtered;
+      offset += FILTER_PAGE_SIZE;
+      if (response.items.length === 0) break;
+    } while (offset < filtered);
+  }
+
+  return [...items.values()];
+}
+
+/**
+ * Re-point every link to the groups' duplicates to the kept items
+ *
+ * All referencing items are collected before the first update, since updated
+ * items drop out of the filter results and would shift the pages. Each item is
+ * updated once with all its changed fields, without hooks or notifications.
+ */
+export async function repointIncomingReferences(
+  client: PodioHttpClient,
+  appId: number,
+  groups: DuplicateGroup[],
+  options: { onPauseCheck?: () => void } = {}
+): Promise<ReferenceRepointResult> {
+  const result: ReferenceRepointResult = { repointed: new Map(), blockedItemIds: new Set(), errors: [] };
+  const replacements = buildReplacements(groups);
+  if (replacements.size === 0) {
+    return result;
+  }
+
+  const fields = await findReferencingFields(appId);
+  const duplicateIds = [...replacements.keys()];
+  const updates = new Map<number, { fields: Record<string, number[]>; replaced: number[] }>();
+
+  for (const field of fields) {
+    options.onPauseCheck?.();
+
+    for (const item of await findReferencingItems(client, field, duplicateIds)) {
+      // Links held by duplicates disappear with them
+      if (field.appId === appId && replacements.has(item.item_id)) continue;
+
+      const itemField = item.fields?.find((f) => f.field_id === field.fieldId);
+      const current = itemField?.values?.length ? (extractFieldValue(itemField) as number[]) : [];
+      const change = repointReferenceIds(current, replacements, field.appId === appId ? item.item_id : undefined);
+      if (!change) continue;
+
+      const update = updates.get(item.item_id) ?? { fields: {}, replaced: [] };
+      update.fields[field.externalId] = change.itemIds;
+      update.replaced.push(...change.replaced);
+      updates.set(item.item_id, update);
+    }
+  }
+
+  for (const [itemId, update] of updates) {
+    options.onPauseCheck?.();
+
+    try {
+      await updateItem(client, itemId, update.fields, { hook: false, silent: true });
+      for (const duplicateId of update.replaced) {
+        const keepItemId = replacements.get(duplicateId)!;
+        result.repointed.set(keepItemId, (result.repointed.get(keepItemId) ?? 0) + 1);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      update.replaced.forEach((duplicateId) => result.blockedItemIds.add(duplicateId));
+      result.errors.push({
+        itemId,
+        message: `References to items ${update.replaced.join(', ')} could not be re-pointed: ${message}`,
+      });
+    }
+  }
+
+  logger.info('Re-pointed references to duplicates', {
+    appId,
+    referencingFields: fields.map((field) => `${field.appId}:${field.externalId}`),
+    updatedItems: updates.size - result.errors.length,
+    references: [...result.repointed.values()].reduce((sum, count) => sum + count, 0),
+    failedItems: result.errors.length,
+  });
+
+  return result;
+}
@@ -0,0 +1,229 @@
+/**
+ * Restore of items deleted by cleanup jobs
+ *
+ * Recreates selected items from the job's archive (see archive.ts) with their
+ * field values and tags, and optionally uploads their archived files again.
+ * Podio assigns new item IDs, so each restored item is recorded in the job's
+ * `restoredItems` and cannot be restored a second time. Items are claimed in
+ * `restoringItems` with an atomic job update before they are created, so two
+ * concurrent requests cannot both recreate the same item.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import { CreateItemRequest, createItem, extractFieldValue } from '../../podio/resources/items';
+import { attachFileToItem, uploadFile } from '../../podio/resources/files';
+import { logger } from '../logging';
+import { migrationStateStore } from '../state-store';
+import { ArchivedItem, cleanupArchiveStore } from './archive';
+import { CleanupJobNotFoundError } from './errors';
+import { repointReferenceIds } from './reference-repoint';
+import { CleanupRestoreResult, RestoreClaim, RestoredCleanupItem } from './types';
+
+/** Field types whose values cannot be written through the item API */
+const NON_RESTORABLE_FIELD_TYPES = ['image', 'file', 'calculation', 'created_on', 'created_by', 'created_via'];
+
+/** How long a restore claim blocks other requests; creating one item takes seconds */
+const RESTORE_CLAIM_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Build the create request that recreates an archived item
+ *
+ * Links to items the job deleted are pointed at the item their group kept,
+ * since the deleted items no longer exist.
+ *
+ * @param replacements - deleted item ID -> kept item ID
+ */
+export function buildRestoreRequest(
+  item: ArchivedItem,
+  replacements: Map<number, number> = new Map()
+): CreateItemRequest {
+  const fields: Record<string, unknown> = {};
+
+  for (const field of item.fields) {
+    if (NON_RESTORABLE_FIELD_TYPES.includes(field.type) || !field.values?.length) {
+      continue;
+    }
+
+    const value = extractFieldValue(field);
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    fields[field.external_id] =
+      field.type === 'app' ? repointReferenceIds(value as number[], replacements)?.itemIds ?? value : value;
+  }
+
+  return {
+    fields,
+    ...(item.externalId && { external_id: item.externalId }),
+    ...(item.tags.length > 0 && { tags: item.tags }),
+  };
+}
+
+/**
+ * Upload the archived files of an item to its restored copy
+ * @returns the number of files attached and one message per file that could not be
+ */
+async function restoreFiles(
+  client: PodioHttpClient,
+  jobId: string,
+  item: ArchivedItem,
+  restoredItemId: number
+): Promise<{ restored: number; errors: string[] }> {
+  let restored = 0;
+  const errors: string[] = [];
+
+  for (const file of item.files) {
+    if (!file.stored) {
+      errors.push(`File "${file.name}" was not archived and cannot be uploaded`);
+      continue;
+    }
+
+    try {
+      const content = await cleanupArchiveStore.readFile(jobId, file.fileId);
+      const uploaded = await uploadFile(client, file.name, content, { description: file.description });
+      await attachFileToItem(client, restoredItemId, uploaded.file_id);
+      restored++;
+    } catch (error) {
+      errors.push(`File "${file.name}" could not be uploaded: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { restored, errors };
+}
+
+/**
+ * Claim an archived item for restore in the job metadata
+ * Called inside an atomic job update, so the check sees every earlier claim.
+ *
+ * @returns Why the item cannot be restored, or null when the claim was added
+ */
+export function claimRestore(metadata: Record<string, unknown>, itemId: number, now = new Date()): string | null {
+  const restored = ((metadata.restoredItems as RestoredCleanupItem[] | undefined) ?? []).find(
+    (entry) => entry.itemId === itemId
+  );
+  if (restored) {
+    return `Item was already restored as item ${restored.restoredItemId}`;
+  }
+
+  const claims = ((metadata.restoringItems as RestoreClaim[] | undefined) ?? []).filter(
+    (claim) => now.getTime() - new Date(claim.claimedAt).getTime() < RESTORE_CLAIM_TTL_MS
+  );
+  if (claims.some((claim) => claim.itemId === itemId)) {
+    return 'Item is being restored by another request';
+  }
+
+  metadata.restoringItems = [...claims, { itemId, claimedAt: now.toISOString() }];
+  return null;
+}
+
+/**
+ * Drop the claim on an item and, once created, record it as restored
+ */
+async function settleRestore(jobId: string, itemId: number, entry?: RestoredCleanupItem): Promise<void> {
+  await migrationStateStore.mutateJobMetadata(jobId, (metadata) => {
+    metadata.restoringItems = ((metadata.restoringItems as RestoreClaim[] | undefined) ?? []).filter(
+      (claim) => claim.itemId !== itemId
+    );
+    if (entry) {
+      metadata.restoredItems = [...((metadata.restoredItems as RestoredCleanupItem[] | undefined) ?? []), entry];
+    }
+  });
+}
+
+/**
+ * Update the file count of a restored item
+ */
+async function recordRestoredFiles(jobId: string, itemId: number, filesRestored: number): Promise<void> {
+  await migrationStateStore.mutateJobMetadata(jobId, (metadata) => {
+    metadata.restoredItems = ((metadata.restoredItems as RestoredCleanupItem[] | undefined) ?? []).map((entry) =>
+      entry.itemId === itemId ? { ...entry, filesRestored } : entry
+    );
+  });
+}
+
+/**
+ * Recreate archived items of a cleanup job
+ *
+ * Items that are not in the archive or were already restored are reported as
+ * errors; a file that cannot be uploaded does not undo its item's restore.
+ */
+export async function restoreArchivedItems(
+  client: PodioHttpClient,
+  jobId: string,
+  itemIds: number[],
+  options: { reuploadFiles?: boolean } = {}
+): Promise<CleanupRestoreResult> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job || job.jobType !== 'cleanup') {
+    throw new CleanupJobNotFoundError(jobId);
+  }
+
+  const archived = await cleanupArchiveStore.getArchivedItems(jobId);
+  const archivedById = new Map(archived.map((item) => [item.itemId, item]));
+  const replacements = new Map(
+    archived.flatMap((item) => (item.keepItemId ? [[item.itemId, item.keepItemId] as [number, number]] : []))
+  );
+
+  const result: CleanupRestoreResult = { jobId, restored: [], errors: [] };
+
+  for (const itemId of new Set(itemIds)) {
+    const item = archivedById.get(itemId);
+    if (!item) {
+      result.errors.push({ itemId, message: 'Item is not in the archive of this job' });
+      continue;
+    }
+
+    const claimError = await migrationStateStore.mutateJobMetadata(jobId, (metadata) => claimRestore(metadata, itemId));
+    if (claimError) {
+      result.errors.push({ itemId, message: claimError });
+      continue;
+    }
+
+    let restoredItemId: number;
+    try {
+      const created = await createItem(client, item.appId, buildRestoreRequest(item, replacements), {
+        hook: false,
+        silent: true,
+      });
+      restoredItemId = created.item_id;
+    } catch (error) {
+      await settleRestore(jobId, itemId);
+      result.errors.push({
+        itemId,
+        message: `Restore failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+
+    // Recorded before the files are uploaded, so the item is never created twice
+    const entry: RestoredCleanupItem = {
+      itemId,
+      restoredItemId,
+      filesRestored: 0,
+      restoredAt: new Date().toISOString(),
+    };
+    await settleRestore(jobId, itemId, entry);
+
+    if (options.reuploadFiles) {
+      const files = await restoreFiles(client, jobId, item, restoredItemId);
+      files.errors.forEach((message) => result.errors.push({ itemId, message }));
+      if (files.restored > 0) {
+        entry.filesRestored = files.restored;
+        await recordRestoredFiles(jobId, itemId, files.restored);
+      }
+    }
+
+    result.restored.push(entry);
+  }
+
+  logger.info('Restored archived cleanup items', {
+    jobId,
+    requested: itemIds.length,
+    restored: result.restored.length,
+    errors: result.errors.length,
+    reuploadFiles: !!options.reuploadFiles,
+  });
+
+  return result;
+}
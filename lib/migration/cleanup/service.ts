@@ -4,16 +4,19 @@
  */
 
 import { migrationStateStore } from '../state-store';
-import { CleanupRequestPayload, CleanupStatusResponse, CleanupResult, DuplicateGroup, DuplicateItem, CleanupMode, KeepStrategy, JobStatus, CleanupProgressExtended } from './types';
+import { CleanupJobMetadata, CleanupRequestPayload, CleanupStatusResponse, CleanupResult, DuplicateGroup, DuplicateItem, CleanupMode, KeepStrategy, JobStatus, CleanupProgressExtended, FuzzyMatchOptions, RestoredCleanupItem } from './types';
 import { getAppStructureDetailed } from '../../podio/migration';
 import { logger } from '../logging';
-import { normalizeForMatch } from '../items/prefetch-cache';
 import { CleanupJobNotFoundError, CleanupValidationError } from './errors';
 import { PodioHttpClient } from '../../podio/http/client';
 import { VALID_MATCH_FIELD_TYPES, INVALID_MATCH_FIELD_TYPES, isInvalidMatchFieldType } from '../items/field-mapping';
-import { ItemMigrationFilters } from '../items/types';
+import { ItemMigrationFilters, MatchKey } from '../items/types';
 import { convertFilters, validateFilters } from '../items/filter-converter';
-import { extractFieldValue, type PodioItemField } from '../../podio/resources/items';
+import { describeMatchKey, extractMatchKey, formatMatchKey, MATCH_NORMALIZATIONS, matchKeyFields, normalizeMatchComponent } from '../items/match-key';
+import { findFuzzyClusters, validateFuzzyMatchOptions } from './fuzzy-match';
+import { validateMergeOptions } from './merge';
+import { countFilledFields, keepCriteria, keepFieldValues, selectKeepItem, validateKeepStrategy } from './keep-strategy';
+import { getAppStructureCache } from '../items/app-structure-cache';
 
 /**
  * Validate that a field type is suitable for matching
@@ -47,13 +50,24 @@ export async function createCleanupJob(
     matchField: request.matchField,
     mode: request.mode,
     keepStrategy: request.keepStrategy || 'oldest',
+    keepRule: request.keepRule,
     dryRun: request.dryRun,
     hasFilters: !!request.filters,
     filters: request.filters,
+    fuzzy: request.fuzzy,
+    merge: request.merge,
   });
 
+  if (request.fuzzy) {
+    const fuzzyErrors = validateFuzzyMatchOptions(request.fuzzy);
+    if (fuzzyErrors.length > 0) {
+      throw new CleanupValidationError(`Invalid fuzzy matching settings: ${fuzzyErrors.join('; ')}`);
+    }
+  }
+
   // Validate match field type (required)
-  if (!request.matchField) {
+  const keyFields = matchKeyFields(request.matchField);
+  if (keyFields.length === 0) {
     throw new CleanupValidationError('matchField is required for cleanup jobs');
   }
 
@@ -62,21 +76,55 @@ export async function createCleanupJob(
   });
 
   const app = await getAppStructureDetailed(request.appId);
-  const matchField = app.fields?.find(f => f.external_id === request.matchField);
+  const validatedFields: Array<{ external_id: string; label?: string; type: string; normalize?: string }> = [];
 
-  if (!matchField) {
-    throw new CleanupValidationError(
-      `Match field not found: "${request.matchField}" does not exist in app ${request.appId}`
-    );
-  }
+  for (const keyField of keyFields) {
+    if (keyField.normalize && !MATCH_NORMALIZATIONS.includes(keyField.normalize)) {
+      throw new CleanupValidationError(
+        `Invalid match normalization "${keyField.normalize}" for "${keyField.field}". ` +
+        `Valid normalizations: ${MATCH_NORMALIZATIONS.join(', ')}`
+      );
+    }
+
+    const matchField = app.fields?.find(f => f.external_id === keyField.field);
+
+    if (!matchField) {
+      throw new CleanupValidationError(
+        `Match field not found: "${keyField.field}" does not exist in app ${request.appId}`
+      );
+    }
 
-  // Validate field type is suitable for matching
-  validateMatchFieldType(matchField.type, matchField.label || 'unknown');
+    // Validate field type is suitable for matching
+    validateMatchFieldType(matchField.type, matchField.label || 'unknown');
+
+    validatedFields.push({
+      external_id: matchField.external_id,
+      label: matchField.label,
+      type: matchField.type,
+      normalize: keyField.normalize,
+    });
+  }
 
   logger.info('Match field validation passed', {
-    matchField: { external_id: matchField.external_id, label: matchField.label, type: matchField.type },
+    matchField: validatedFields,
   });
 
+  if (request.keepStrategy) {
+    const { fields = [] } = await getAppStructureCache().getAppStructure(request.appId);
+    const keepErrors = validateKeepStrategy(request.keepStrategy, request.keepRule, fields);
+    if (keepErrors.length > 0) {
+      throw new CleanupValidationError(`Invalid keep strategy: ${keepErrors.join('; ')}`);
+    }
+  }
+
+  if (request.merge) {
+    const { fields = [] } = await getAppStructureCache().getAppStructure(request.appId);
+    const mergeErrors = validateMergeOptions(request.merge, fields);
+    if (mergeErrors.length > 0) {
+      throw new CleanupValidationError(`Invalid merge settings: ${mergeErrors.join('; ')}`);
+    }
+  }
+
   // Create cleanup job in state store (include filters for reproducibility)
   const job = await migrationStateStore.createMigrationJob(
     String(request.appId), // Using appId as spaceId
@@ -87,10 +135,14 @@ export async function createCleanupJob(
       matchField: request.matchField,
       mode: request.mode,
       keepStrategy: request.keepStrategy || 'oldest',
+      ...(request.keepStrategy === 'custom' && { keepRule: request.keepRule }),
       dryRun: request.dryRun ?? true,
       batchSize: request.batchSize || 100,
       concurrency: request.concurrency || 3,
+      ...(request.maxGroups && { maxGroups: request.maxGroups }),
       ...(request.filters && { filters: request.filters }),
+      ...(request.fuzzy && { fuzzy: request.fuzzy }),
+      ...(request.merge && { merge: request.merge }),
     }
   );
 
@@ -102,6 +154,27 @@ export async function createCleanupJob(
   return { jobId: job.id };
 }
 
+/**
+ * Rebuild the request of a cleanup job from its metadata
+ * Used to start queued cleanup jobs and to resume paused ones
+ */
+export function cleanupRequestFromMetadata(metadata: CleanupJobMetadata): CleanupRequestPayload {
+  return {
+    appId: metadata.appId,
+    matchField: metadata.matchField,
+    mode: metadata.mode,
+    keepStrategy: metadata.keepStrategy,
+    keepRule: metadata.keepRule,
+    dryRun: metadata.dryRun,
+    maxGroups: metadata.maxGroups,
+    batchSize: metadata.batchSize,
+    concurrency: metadata.concurrency,
+    filters: metadata.filters,
+    fuzzy: metadata.fuzzy,
+    merge: metadata.merge,
+  };
+}
+
 /**
  * Get cleanup job status
  */
@@ -121,6 +194,7 @@ export async function getCleanupJobStatus(jobId: string): Promise<CleanupStatusR
   const mode = metadata.mode as CleanupMode || 'manual';
   const keepStrategy = metadata.keepStrategy as KeepStrategy || 'oldest';
   const duplicateGroups = metadata.duplicateGroups as DuplicateGroup[] | undefined;
+  const restoredItems = metadata.restoredItems as RestoredCleanupItem[] | undefined;
 
   const progress = job.progress as CleanupProgressExtended | undefined;
 
@@ -139,6 +213,7 @@ export async function getCleanupJobStatus(jobId: string): Promise<CleanupStatusR
       lastUpdate: progress?.lastUpdate?.toISOString() || new Date().toISOString(),
     },
     duplicateGroups,
+    ...(restoredItems?.length && { restoredItems }),
     errors: job.errors?.map(err => ({
       itemId: (err as any).itemId ? Number((err as any).itemId) : undefined,
       message: err.message,
@@ -210,38 +285,48 @@ function formatMatchValue(value: unknown, fieldType: string): string {
 
 /**
  * Detect duplicate groups in an app using efficient streaming with consistent normalization
- * Groups items by match field value and returns groups with duplicates
+ * Groups items by match key value (all fields of a composite key) and returns groups with duplicates
+ * With `fuzzy` set, groups whose values are similar are merged as well (see fuzzy-match.ts).
+ * `keepFields` are the fields a custom keep rule compares; their values are kept on each item.
  */
 export async function detectDuplicateGroups(
   client: PodioHttpClient,
   appId: number,
-  matchField: string,
+  matchKey: MatchKey,
   options?: {
     jobId?: string;
     onPauseCheck?: () => boolean;
     filters?: ItemMigrationFilters;
+    fuzzy?: FuzzyMatchOptions;
+    keepFields?: string[];
   }
 ): Promise<DuplicateGroup[]> {
   const hasFilters = options?.filters && Object.keys(options.filters).length > 0;
+  const matchField = describeMatchKey(matchKey);
   logger.info('Detecting duplicate groups with streaming', {
     appId,
     matchField,
     jobId: options?.jobId,
     hasFilters,
     filters: hasFilters ? options.filters : undefined,
+    fuzzy: options?.fuzzy,
   });
 
   const startTime = Date.now();
   let itemsProcessed = 0;
   let itemsSkipped = 0;
 
-  // Get field type for formatting
+  // Get field types for formatting
   const app = await getAppStructureDetailed(appId);
-  const matchFieldDef = app.fields?.find((f) => f.external_id === matchField);
-  const fieldType = matchFieldDef?.type || 'text';
+  const keyFields = matchKeyFields(matchKey);
+  const fieldTypes = keyFields.map(
+    ({ field }) => app.fields?.find((f) => f.external_id === field)?.type || 'text'
+  );
 
   // Group items by normalized match value
   const groups = new Map<string, DuplicateItem[]>();
+  // Text compared by fuzzy matching, one entry per field, for the first item of each group
+  const fuzzyValues = new Map<string, string[]>();
   const { streamItems } = await import('../../podio/resources/items');
 
   // Debug tracking
@@ -278,26 +363,19 @@ export async function detectDuplicateGroups(
     for (const item of batch) {
       itemsProcessed++;
 
-      // Extract match field value
-      const fieldValue = item.fields?.find((f: any) => f.external_id === matchField);
-      if (!fieldValue) {
+      // Extract the match key using the utility for proper handling of all 15+ Podio field types
+      // This handles: text, number, date, category, app, contact, money, location, duration,
+      // question, phone, email, calculation, and other field types correctly
+      const { value: raw, key: normalizedValue, parts, missingFields } = extractMatchKey(item, matchKey);
+      if (missingFields.length > 0) {
         itemsSkipped++;
         emptyFieldCount.noField++;
         continue;
       }
 
-      // Extract the actual value using the utility for proper handling of all 15+ Podio field types
-      // This handles: text, number, date, category, app, contact, money, location, duration,
-      // question, phone, email, calculation, and other field types correctly
-      const raw = extractFieldValue(fieldValue as PodioItemField);
-
       // For display/debugging purposes, keep a user-friendly representation
       const matchValue = raw;
 
-      // Normalize the match value using consistent logic
-      // normalizeForMatch handles arrays, objects, dates, and converts to comparable strings
-      const normalizedValue = normalizeForMatch(matchValue);
-
       // Debug: Capture first 10 samples for logging
       if (debugSamples.length < 10) {
         debugSamples.push({
@@ -318,6 +396,17 @@ export async function detectDuplicateGroups(
       // Add to group
       if (!groups.has(normalizedValue)) {
         groups.set(normalizedValue, []);
+
+        if (options?.fuzzy) {
+          // Digits and dates are compared in their normalized form, everything else as displayed
+          const rawValues = keyFields.length === 1 ? [raw] : (raw as unknown[]);
+          fuzzyValues.set(normalizedValue, keyFields.map(({ normalize }, index) => {
+            const effective = normalize ?? (fieldTypes[index] === 'date' ? 'date' : 'default');
+            return effective === 'digits' || effective === 'date'
+              ? normalizeMatchComponent(rawValues[index], effective)
+              : parts[index];
+          }));
+        }
       }
 
       const duplicateItem: DuplicateItem = {
@@ -325,8 +414,13 @@ export async function detectDuplicateGroups(
         title: (item as any).title || `Item ${item.item_id}`,
         createdOn: item.created_on,
         lastEditOn: (item as any).last_event_on || item.created_on,
-        matchValue: formatMatchValue(raw, fieldType),
-        fieldValues: {}, // Can add preview fields here if needed
+        matchValue: fieldTypes.length === 1
+          ? formatMatchValue(raw, fieldTypes[0])
+          : (raw as unknown[]).map((value, index) => formatMatchValue(value, fieldTypes[index])).join(' + '),
+        fieldValues: keepFieldValues(item, options?.keepFields ?? []),
+        filledFields: countFilledFields(item),
+        commentCount: item.comment_count ?? 0,
+        fileCount: item.file_count ?? item.files?.length ?? 0,
       };
 
       groups.get(normalizedValue)!.push(duplicateItem);
@@ -368,24 +462,22 @@ export async function detectDuplicateGroups(
   logger.info('Normalization impact', normalizationStats);
 
   // Filter to only groups with duplicates (more than 1 item)
-  const duplicateGroups: DuplicateGroup[] = [];
-  for (const [matchValue, groupItems] of groups) {
-    if (groupItems.length > 1) {
-      // Sort by creation date (oldest first), with fallback for invalid dates
-      groupItems.sort((a, b) => {
-        const ta = new Date(a.createdOn).getTime();
-        const tb = new Date(b.createdOn).getTime();
-        if (Number.isNaN(ta) && Number.isNaN(tb)) return a.itemId - b.itemId;
-        if (Number.isNaN(ta)) return 1;
-        if (Number.isNaN(tb)) return -1;
-        return ta - tb;
-      });
-
-      duplicateGroups.push({
-        matchValue,
-        items: groupItems,
-      });
-    }
+  const duplicateGroups: DuplicateGroup[] = options?.fuzzy
+    ? mergeSimilarGroups(groups, fuzzyValues, options.fuzzy)
+    : [...groups]
+        .filter(([, groupItems]) => groupItems.length > 1)
+        .map(([matchValue, groupItems]) => ({ matchValue: formatMatchKey(matchValue), items: groupItems, confidence: 1 }));
+
+  for (const group of duplicateGroups) {
+    // Sort by creation date (oldest first), with fallback for invalid dates
+    group.items.sort((a, b) => {
+      const ta = new Date(a.createdOn).getTime();
+      const tb = new Date(b.createdOn).getTime();
+      if (Number.isNaN(ta) && Number.isNaN(tb)) return a.itemId - b.itemId;
+      if (Number.isNaN(ta)) return 1;
+      if (Number.isNaN(tb)) return -1;
+      return ta - tb;
+    });
   }
 
   // Log top duplicate groups for debugging
@@ -413,24 +505,75 @@ export async function detectDuplicateGroups(
   return duplicateGroups;
 }
 
+/**
+ * Merge exact match groups whose values are similar
+ * Exact groups that are not similar to any other keep confidence 1.
+ */
+function mergeSimilarGroups(
+  groups: Map<string, DuplicateItem[]>,
+  fuzzyValues: Map<string, string[]>,
+  fuzzy: FuzzyMatchOptions
+): DuplicateGroup[] {
+  const keys = [...groups.keys()];
+  const { clusters, comparisons, skippedBlocks } = findFuzzyClusters(
+    keys.map((key) => fuzzyValues.get(key) ?? []),
+    fuzzy
+  );
+
+  logger.info('Fuzzy matching complete', {
+    algorithm: fuzzy.algorithm ?? 'token_set',
+    threshold: fuzzy.threshold,
+    distinctValues: keys.length,
+    clusters: clusters.length,
+    comparisons,
+    skippedBlocks,
+  });
+  if (skippedBlocks > 0) {
+    logger.warn('Fuzzy matching skipped oversized candidate blocks; raise maxBlockSize to compare them', {
+      skippedBlocks,
+      maxBlockSize: fuzzy.maxBlockSize,
+    });
+  }
+
+  const clustered = new Set<number>();
+  const merged: DuplicateGroup[] = clusters.map(({ members, confidence }) => {
+    members.forEach((index) => clustered.add(index));
+    // Label the group with its most common value
+    const [representative] = [...members].sort((a, b) => groups.get(keys[b])!.length - groups.get(keys[a])!.length);
+    return {
+      matchValue: formatMatchKey(keys[representative]),
+      items: members.flatMap((index) => groups.get(keys[index])!),
+      confidence,
+    };
+  });
+
+  keys.forEach((key, index) => {
+    const groupItems = groups.get(key)!;
+    if (!clustered.has(index) && groupItems.length > 1) {
+      merged.push({ matchValue: formatMatchKey(key), items: groupItems, confidence: 1 });
+    }
+  });
+
+  return merged;
+}
+
 /**
  * Apply keep strategy to duplicate groups
- * Determines which item to keep and which to delete
+ * Determines which item to keep and which to delete (see keep-strategy.ts)
  */
 export function applyKeepStrategy(
   groups: DuplicateGroup[],
-  strategy: 'oldest' | 'newest'
+  strategy: Exclude<KeepStrategy, 'manual'>,
+  keepRule?: string
 ): DuplicateGroup[] {
-  return groups.map(group => {
-    const items = [...group.items];
+  const criteria = keepCriteria(strategy, keepRule);
 
+  return groups.map(group => {
     // Items are already sorted by creation date (oldest first) in detectDuplicateGroups
-    // For 'oldest', keep first; for 'newest', keep last
-    const keepIndex = strategy === 'oldest' ? 0 : items.length - 1;
-    const keepItemId = items[keepIndex].itemId;
+    const keepItemId = selectKeepItem(group.items, criteria).itemId;
 
-    const deleteItemIds = items
-      .filter((_, idx) => idx !== keepIndex)
+    const deleteItemIds = group.items
+      .filter(item => item.itemId !== keepItemId)
       .map(item => item.itemId);
 
     return {
@@ -3,7 +3,7 @@
  * Defines data models for duplicate cleanup jobs, detection, and deletion
  */
 
-import { ItemMigrationFilters } from '../items/types';
+import { ItemMigrationFilters, MatchKey } from '../items/types';
 import { MigrationProgress } from '../state-store';
 
 /**
@@ -13,8 +13,84 @@ export type CleanupMode = 'manual' | 'automated';
 
 /**
  * Strategy for selecting which duplicate to keep
+ * - oldest / newest: first or last created item
+ * - most_complete: most fields with a value
+ * - most_active: most recent activity (edits, comments)
+ * - most_comments / most_files: most comments or attached files
+ * - custom: criteria of the `keepRule` with tie-breakers (see keep-strategy.ts)
+ * - manual: the user picks the item of each group
  */
-export type KeepStrategy = 'oldest' | 'newest' | 'manual';
+export type KeepStrategy =
+  | 'oldest'
+  | 'newest'
+  | 'most_complete'
+  | 'most_active'
+  | 'most_comments'
+  | 'most_files'
+  | 'custom'
+  | 'manual';
+
+/**
+ * Similarity algorithm for fuzzy duplicate detection
+ * - token_set: shared words, ignoring order, case and punctuation ("Acme Inc." ~ "ACME, Inc")
+ * - levenshtein: edit distance of the whole value, for typos ("jon@acme.com" ~ "john@acme.com")
+ * - phonetic: words that sound alike (Soundex), for misspelled names ("Smith" ~ "Smyth")
+ */
+export type SimilarityAlgorithm = 'token_set' | 'levenshtein' | 'phonetic';
+
+/**
+ * Fuzzy duplicate detection settings
+ * Items are grouped when every field of the match key is at least `threshold` similar.
+ */
+export interface FuzzyMatchOptions {
+  algorithm?: SimilarityAlgorithm; // Default: 'token_set'
+  threshold?: number; // Minimum similarity between 0 and 1 (default: 0.85)
+  maxBlockSize?: number; // Candidate blocks with more values are not compared (default: 500)
+}
+
+/**
+ * How a field of the kept item is merged with the values of its duplicates
+ * - fill_empty: keep the value; fill it from the oldest duplicate that has one when empty
+ * - union: combine the values of all items (multi-value fields: categories, relationships, contacts, phones, emails)
+ * - prefer_newest: take the value of the most recently edited item that has one
+ * - keep: never change the kept item's value
+ */
+export type FieldMergeRule = 'fill_empty' | 'union' | 'prefer_newest' | 'keep';
+
+/**
+ * Merge settings: copy data from the duplicates onto the kept item before deleting them
+ */
+export interface MergeOptions {
+  rules?: Record<string, FieldMergeRule>; // Per-field rule by external_id; other fields use their type's default
+  tags?: boolean; // Add the duplicates' tags to the kept item (default: true)
+  files?: boolean; // Move the duplicates' files to the kept item (default: true)
+  comments?: boolean; // Copy the duplicates' comments to the kept item (default: true)
+}
+
+/**
+ * A field value the merge changes on the kept item
+ */
+export interface FieldMergeChange {
+  externalId: string;
+  label: string;
+  rule: FieldMergeRule;
+  sourceItemIds: number[]; // Duplicates the new values come from
+  before: string; // Readable values before and after the merge
+  after: string;
+  value: unknown; // Value written to the kept item
+}
+
+/**
+ * What merging a duplicate group changes on its kept item
+ */
+export interface GroupMergePlan {
+  keepItemId: number;
+  mergedItemIds: number[];
+  fields: FieldMergeChange[];
+  tags: string[]; // Tags added to the kept item
+  fileIds: number[]; // Files moved to the kept item
+  comments: boolean; // Whether comments are copied
+}
 
 /**
  * A single item in a duplicate group
@@ -25,15 +101,20 @@ export interface DuplicateItem {
   createdOn: string;
   lastEditOn: string;
   matchValue: string; // The value that caused it to be identified as a duplicate
-  fieldValues?: Record<string, any>; // Preview of key fields
+  fieldValues?: Record<string, any>; // Values of the fields the keep rule compares
+  filledFields?: number; // Fields with a value
+  commentCount?: number;
+  fileCount?: number;
 }
 
 /**
  * A group of duplicate items
  */
 export interface DuplicateGroup {
-  matchValue: string; // The value they all share
+  matchValue: string; // The value they all share (the most common one for fuzzy groups)
   items: DuplicateItem[];
+  confidence?: number; // 0-1: 1 for exact matches, the weakest similarity that joined a fuzzy group
+  mergePlan?: GroupMergePlan; // Set in merge dry runs
   keepItemId?: number; // Which item to keep (null if not yet selected)
   deleteItemIds?: number[]; // Which items to delete
   approved?: boolean; // Whether user approved this group for deletion
@@ -44,15 +125,18 @@ export interface DuplicateGroup {
  */
 export interface CleanupRequestPayload {
   appId: number; // The app to clean up (source and target are the same)
-  matchField: string; // Field external_id to match on
+  matchField: MatchKey; // Field external_id (or composite key) to match on
   mode: CleanupMode; // 'manual' or 'automated'
-  keepStrategy?: KeepStrategy; // 'oldest', 'newest', or 'manual' (default: 'oldest')
+  keepStrategy?: KeepStrategy; // Default: 'oldest'
+  keepRule?: string; // Criteria of the 'custom' strategy, e.g. "status = Active, max(revenue), newest"
   dryRun?: boolean; // Preview mode without actual deletions
   maxGroups?: number; // Maximum number of duplicate groups to process (for testing)
   batchSize?: number; // Items to delete per batch (default: 100)
   concurrency?: number; // Parallel deletion batches (default: 3)
   approvedGroups?: DuplicateGroup[]; // For manual mode: user-approved groups to delete
   filters?: ItemMigrationFilters; // Optional source item filters (date ranges, tags)
+  fuzzy?: FuzzyMatchOptions; // Group similar values instead of identical ones
+  merge?: MergeOptions; // Merge duplicates into the kept item before deleting them
 }
 
 /**
@@ -60,13 +144,50 @@ export interface CleanupRequestPayload {
  */
 export interface CleanupJobMetadata {
   appId: number;
-  matchField: string;
+  matchField: MatchKey;
   mode: CleanupMode;
   keepStrategy: KeepStrategy;
+  keepRule?: string;
   dryRun?: boolean;
+  maxGroups?: number;
   batchSize: number;
   concurrency: number;
   filters?: ItemMigrationFilters;
+  fuzzy?: FuzzyMatchOptions;
+  merge?: MergeOptions;
+  restoredItems?: RestoredCleanupItem[]; // Archived items recreated by the restore route
+  restoringItems?: RestoreClaim[]; // Archived items a restore request is recreating right now
+}
+
+/**
+ * An archived item a restore request is recreating
+ * Claims expire, so a request that died mid-restore does not block the item for good.
+ */
+export interface RestoreClaim {
+  itemId: number;
+  claimedAt: string;
+}
+
+/**
+ * An archived item recreated after cleanup deleted it
+ */
+export interface RestoredCleanupItem {
+  itemId: number; // The deleted item
+  restoredItemId: number; // The item created in its place
+  filesRestored: number;
+  restoredAt: string;
+}
+
+/**
+ * Restore result
+ */
+export interface CleanupRestoreResult {
+  jobId: string;
+  restored: RestoredCleanupItem[];
+  errors: Array<{
+    itemId: number;
+    message: string;
+  }>;
 }
 
 /**
@@ -88,7 +209,9 @@ export type JobStatus =
   | 'completed'
   | 'failed'
   | 'paused'
-  | 'cancelled';
+  | 'cancelled'
+  | 'queued'
+  | 'deferred';
 
 /**
  * Cleanup job
@@ -97,7 +220,7 @@ export interface CleanupJob {
   id: string;
   jobType: 'cleanup';
   appId: number;
-  matchField: string;
+  matchField: MatchKey;
   mode: CleanupMode;
   keepStrategy: KeepStrategy;
   status: JobStatus;
@@ -139,6 +262,7 @@ export interface CleanupStatusResponse {
     lastUpdate: string;
   };
   duplicateGroups?: DuplicateGroup[]; // For manual mode or dry-run
+  restoredItems?: RestoredCleanupItem[];
   throughput?: {
     itemsPerSecond: number;
     batchesPerMinute: number;
@@ -163,6 +287,13 @@ export interface CleanupResult {
   totalGroups: number;
   totalItemsDeleted: number;
   failedDeletions: number;
+  mergedGroups?: number; // Groups merged into their kept item (merge mode)
+  archivedItems?: number; // Items archived before deletion
+  repointedReferences?: Array<{
+    keepItemId: number;
+    matchValue: string;
+    count: number; // Links to the group's duplicates moved to the kept item
+  }>;
   errors: Array<{
     itemId?: number;
     message: string;
@@ -183,4 +314,10 @@ export interface CleanupDryRunPreview {
     duplicateItems: number;
     groupsWithDuplicates: number;
   };
+  merge?: {
+    rules: Record<string, FieldMergeRule>; // Rule applied to each field
+    fieldChanges: number;
+    tagsAdded: number;
+    filesMoved: number;
+  };
 }
@@ -303,9 +303,9 @@ export class ItemBatchProcessor extends EventEmitter {
         result.successful += batchResult.successCount;
         result.failed += batchResult.failureCount;
 
-        // Emit item-level events
-        batchResult.successful.forEach((item, idx) => {
-          this.emit('itemSuccess', start + idx, item);
+        // Emit item-level events (successful is in completion order, so use the request index)
+        batchResult.successful.forEach((item) => {
+          this.emit('itemSuccess', start + item.index, item);
         });
 
         batchResult.failed.forEach((failure) => {
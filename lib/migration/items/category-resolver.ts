@@ -0,0 +1,262 @@
+/**
+ * Category option resolver
+ *
+ * `extractFieldValue` returns category option IDs, which only line up between
+ * apps that were cloned from each other. The resolver matches source options to
+ * target options by label (trimmed, case-insensitive) using the cached app
+ * structures, reports labels the target field lacks and can add them to the
+ * target field before items are written.
+ */
+
+import { updateApplicationField } from '../../podio/resources/applications';
+import { PodioItem } from '../../podio/resources/items';
+import { AppField } from '../../podio/types';
+import { logger as migrationLogger } from '../logging';
+import { getAppStructureCache } from './app-structure-cache';
+import { MissingCategoryOption } from './types';
+
+/**
+ * Category option as stored in a category field's settings
+ */
+export interface CategoryOption {
+  id: number;
+  text: string;
+  status?: string;
+  color?: string;
+}
+
+/**
+ * Source option ID -> target option ID, per target field external_id
+ */
+export type CategoryOptionMap = Map<string, Map<number, number>>;
+
+/**
+ * Result of resolving category options for a field mapping
+ */
+export interface CategoryOptionResolution {
+  optionMap: CategoryOptionMap;
+  missing: MissingCategoryOption[];
+  /** Labels added to target fields (only when createMissing was requested) */
+  created: MissingCategoryOption[];
+}
+
+/**
+ * Read the options of a category field (deleted options included)
+ */
+export function getCategoryOptions(field: Pick<AppField, 'config'>): CategoryOption[] {
+  const options = field.config.settings?.options;
+  return Array.isArray(options) ? (options as CategoryOption[]) : [];
+}
+
+/**
+ * Find the active option of a category field with the given label
+ */
+export function findCategoryOptionByLabel(
+  options: CategoryOption[],
+  label: string
+): CategoryOption | undefined {
+  const key = normalizeLabel(label);
+  return options.find((option) => option.status !== 'deleted' && normalizeLabel(option.text) === key);
+}
+
+/**
+ * Match the options of every mapped category field pair by label
+ *
+ * @param sourceFields - Source app fields
+ * @param targetFields - Target app fields
+ * @param fieldMapping - Source external_id -> target external_id
+ */
+export function buildCategoryOptionMap(
+  sourceFields: AppField[],
+  targetFields: AppField[],
+  fieldMapping: Record<string, string>
+): { optionMap: CategoryOptionMap; missing: MissingCategoryOption[] } {
+  const optionMap: CategoryOptionMap = new Map();
+  const missing: MissingCategoryOption[] = [];
+
+  for (const [sourceExternalId, targetExternalId] of Object.entries(fieldMapping)) {
+    const sourceField = sourceFields.find((field) => field.external_id === sourceExternalId);
+    const targetField = targetFields.find((field) => field.external_id === targetExternalId);
+    if (sourceField?.type !== 'category' || targetField?.type !== 'category') {
+      continue;
+    }
+
+    const targetOptions = getCategoryOptions(targetField);
+    const fieldOptions = new Map<number, number>();
+
+    for (const sourceOption of getCategoryOptions(sourceField)) {
+      const match = findCategoryOptionByLabel(targetOptions, sourceOption.text);
+      if (match) {
+        fieldOptions.set(sourceOption.id, match.id);
+      } else if (sourceOption.status !== 'deleted') {
+        missing.push({
+          sourceFieldExternalId: sourceExternalId,
+          targetFieldExternalId: targetExternalId,
+          targetFieldLabel: targetField.label,
+          sourceOptionId: sourceOption.id,
+          label: sourceOption.text,
+        });
+      }
+    }
+
+    optionMap.set(targetExternalId, fieldOptions);
+  }
+
+  return { optionMap, missing };
+}
+
+/**
+ * Resolve category options for a field mapping through the app structure cache
+ *
+ * @param sourceAppId - Source app ID
+ * @param targetAppId - Target app ID
+ * @param fieldMapping - Source external_id -> target external_id
+ * @param options.createMissing - Add missing labels to the target fields (default: false)
+ */
+export async function resolveCategoryOptions(
+  sourceAppId: number,
+  targetAppId: number,
+  fieldMapping: Record<string, string>,
+  options: { createMissing?: boolean } = {}
+): Promise<CategoryOptionResolution> {
+  const cache = getAppStructureCache();
+  const [sourceApp, targetApp] = await Promise.all([
+    cache.getAppStructure(sourceAppId),
+    cache.getAppStructure(targetAppId),
+  ]);
+
+  const resolution = buildCategoryOptionMap(sourceApp.fields || [], targetApp.fields || [], fieldMapping);
+
+  if (resolution.missing.length > 0) {
+    migrationLogger.warn('Category options missing in target app', {
+      sourceAppId,
+      targetAppId,
+      missing: resolution.missing.map((option) => `${option.targetFieldLabel}: ${option.label}`),
+      createMissing: !!options.createMissing,
+    });
+  }
+
+  if (!options.createMissing || resolution.missing.length === 0) {
+    return { ...resolution, created: [] };
+  }
+
+  await createMissingCategoryOptions(targetAppId, targetApp.fields || [], resolution.missing);
+
+  // Re-read the target so the new options resolve to their assigned IDs
+  const refreshedTarget = await cache.refreshAppStructure(targetAppId);
+  const refreshed = buildCategoryOptionMap(sourceApp.fields || [], refreshedTarget.fields || [], fieldMapping);
+
+  return {
+    optionMap: refreshed.optionMap,
+    missing: refreshed.missing,
+    created: resolution.missing.filter(
+      (option) => !refreshed.missing.some(
+        (still) =>
+          still.targetFieldExternalId === option.targetFieldExternalId &&
+          still.sourceOptionId === option.sourceOptionId
+      )
+    ),
+  };
+}
+
+/**
+ * Rewrite category values of a mapped item from source to target option IDs
+ *
+ * Values without a matching target option are dropped; fields left empty are
+ * removed from the payload.
+ */
+export function remapCategoryFields(
+  sourceItem: PodioItem,
+  mappedFields: Record<string, unknown>,
+  fieldMapping: Record<string, string>,
+  optionMap: CategoryOptionMap
+): Record<string, unknown> {
+  const fields = { ...mappedFields };
+
+  for (const sourceField of sourceItem.fields) {
+    if (sourceField.type !== 'category') {
+      continue;
+    }
+
+    const targetExternalId = fieldMapping[sourceField.external_id];
+    const fieldOptions = targetExternalId ? optionMap.get(targetExternalId) : undefined;
+    const value = targetExternalId ? fields[targetExternalId] : undefined;
+    if (!fieldOptions || !Array.isArray(value)) {
+      continue;
+    }
+
+    const targetIds = value
+      .map((sourceOptionId) => fieldOptions.get(sourceOptionId as number))
+      .filter((id): id is number => id !== undefined);
+
+    if (targetIds.length > 0) {
+      fields[targetExternalId] = targetIds;
+    } else {
+      delete fields[targetExternalId];
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Append missing labels to their target category fields
+ * PUT /app/{app_id}/field/{field_id} with the full option list
+ */
+async function createMissingCategoryOptions(
+  targetAppId: number,
+  targetFields: AppField[],
+  missing: MissingCategoryOption[]
+): Promise<void> {
+  const labelsByField = new Map<string, string[]>();
+  for (const option of missing) {
+    const labels = labelsByField.get(option.targetFieldExternalId) || [];
+    if (!labels.some((label) => normalizeLabel(label) === normalizeLabel(option.label))) {
+      labels.push(option.label.trim());
+    }
+    labelsByField.set(option.targetFieldExternalId, labels);
+  }
+
+  for (const [externalId, labels] of labelsByField) {
+    const field = targetFields.find((f) => f.external_id === externalId);
+    if (!field) {
+      continue;
+    }
+
+    try {
+      await updateApplicationField(targetAppId, field.field_id, {
+        config: {
+          label: field.config.label || field.label,
+          description: field.config.description,
+          required: field.config.required,
+          unique: field.config.unique,
+          settings: {
+            ...field.config.settings,
+            options: [
+              ...getCategoryOptions(field),
+              ...labels.map((text) => ({ text, status: 'active' })),
+            ],
+          },
+        },
+      });
+
+      migrationLogger.info('Added category options to target field', {
+        targetAppId,
+        fieldId: field.field_id,
+        labels,
+      });
+    } catch (error) {
+      // Values for these labels are dropped, as if creation was not requested
+      migrationLogger.error('Failed to add category options to target field', {
+        targetAppId,
+        fieldId: field.field_id,
+        labels,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase();
+}
@@ -0,0 +1,118 @@
+/**
+ * Comment transfer - recreates source item comments on migrated target items
+ *
+ * Podio does not allow posting comments as another user or with a past
+ * timestamp, so each copied comment is prefixed with its original author and
+ * date. Comments are posted oldest first and the copy stops at the first
+ * failure, keeping the target thread in order when a resumed job retries it.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import {
+  PodioComment,
+  getItemComments,
+  createItemComment,
+} from '../../podio/resources/comments';
+import { CommentTransferCounts } from '../state-store';
+import { logger as migrationLogger } from '../logging';
+import { CommentMapEntry } from './item-id-map';
+
+/**
+ * Outcome of copying the comments of a single item
+ */
+export interface ItemCommentTransfer extends CommentTransferCounts {
+  /** Source -> target comment pairs to journal */
+  entries: CommentMapEntry[];
+  /** Error that stopped the copy, if any */
+  error?: string;
+}
+
+/**
+ * Build the text of a copied comment, noting the original author and timestamp
+ */
+export function formatMigratedComment(comment: PodioComment): string {
+  const author = comment.created_by?.name || 'Unknown user';
+  return `[Originally posted by ${author} on ${comment.created_on} UTC]\n\n${comment.value}`;
+}
+
+/**
+ * Sort comments oldest first (Podio timestamps are "YYYY-MM-DD HH:MM:SS" in UTC)
+ */
+function sortByCreation(comments: PodioComment[]): PodioComment[] {
+  return [...comments].sort((a, b) =>
+    a.created_on === b.created_on
+      ? a.comment_id - b.comment_id
+      : a.created_on < b.created_on ? -1 : 1
+  );
+}
+
+/**
+ * Copy the comments of a source item to its target item
+ *
+ * @param client - Podio HTTP client
+ * @param sourceItemId - Item to read comments from
+ * @param targetItemId - Item to post comments on
+ * @param copiedCommentIds - Source comment IDs already copied (updated in place)
+ */
+export async function transferItemComments(
+  client: PodioHttpClient,
+  sourceItemId: number,
+  targetItemId: number,
+  copiedCommentIds: Set<number>
+): Promise<ItemCommentTransfer> {
+  const outcome: ItemCommentTransfer = { copied: 0, skipped: 0, failed: 0, entries: [] };
+
+  let comments: PodioComment[] = [];
+  try {
+    comments = sortByCreation(await getItemComments(client, sourceItemId));
+  } catch (error) {
+    // The comment count is unknown, so the item counts as one failure
+    outcome.error = error instanceof Error ? error.message : String(error);
+    outcome.failed++;
+  }
+
+  for (let i = 0; i < comments.length; i++) {
+    const comment = comments[i];
+
+    if (copiedCommentIds.has(comment.comment_id)) {
+      outcome.skipped++;
+      continue;
+    }
+
+    try {
+      const created = await createItemComment(
+        client,
+        targetItemId,
+        formatMigratedComment(comment),
+        { hook: false, silent: true }
+      );
+
+      copiedCommentIds.add(comment.comment_id);
+      outcome.copied++;
+      outcome.entries.push({
+        sourceCommentId: comment.comment_id,
+        targetCommentId: created.comment_id,
+        sourceItemId,
+        targetItemId,
+        recordedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      // Later comments are not posted so the thread stays in order on retry
+      outcome.error = error instanceof Error ? error.message : String(error);
+      outcome.failed += comments.length - i;
+      break;
+    }
+  }
+
+  if (outcome.error) {
+    migrationLogger.warn('Comment transfer incomplete for item', {
+      sourceItemId,
+      targetItemId,
+      copied: outcome.copied,
+      failed: outcome.failed,
+      error: outcome.error,
+    });
+  }
+
+  return outcome;
+}
@@ -0,0 +1,324 @@
+/**
+ * Contact resolver for `contact` fields
+ *
+ * Source contact values are profile IDs, which do not exist when the target
+ * space lives in another organization. These helpers re-point each contact to
+ * a member of the target space - the same profile when it is a member, else by
+ * email, else by a name that only one member has - and apply the configured
+ * fallback to contacts that cannot be matched.
+ */
+
+import { getSpaceMembers, PodioSpaceMember } from '../../podio/resources/spaces';
+import { PodioItem } from '../../podio/resources/items';
+import { logger as migrationLogger } from '../logging';
+import { getAppStructureCache } from './app-structure-cache';
+import { ContactMappingConfig } from './types';
+
+const MEMBER_PAGE_SIZE = 500;
+
+/**
+ * Contact as it appears on a source item
+ */
+export interface SourceContact {
+  profileId?: number;
+  name?: string;
+  emails: string[];
+}
+
+/**
+ * Lookup tables for the members of a space
+ */
+export interface ContactDirectory {
+  profileIds: Set<number>;
+  byEmail: Map<string, number>;
+  /** Normalized name -> profile ID, or null when several members share the name */
+  byName: Map<string, number | null>;
+  /** Profile ID -> known email addresses */
+  emailsByProfileId: Map<number, string[]>;
+}
+
+/**
+ * A source contact with no matching member in the target space
+ */
+export interface UnmatchedContact {
+  sourceItemId: number;
+  sourceFieldExternalId: string;
+  targetFieldExternalId: string;
+  name: string;
+  email?: string;
+  fallback: 'dropped' | 'default_user' | 'note';
+}
+
+/**
+ * Everything needed to remap contact fields for one source/target app pair
+ */
+export interface ContactResolution {
+  config: ContactMappingConfig;
+  targetDirectory: ContactDirectory;
+  sourceDirectory: ContactDirectory;
+  /** Target external_ids of mapped contact fields */
+  contactTargetFields: Set<string>;
+  /** Target external_id receiving unmatched contact names (fallback 'note') */
+  noteFieldExternalId?: string;
+}
+
+/**
+ * Validate contact mapping settings before they are saved with a job
+ * Returns a list of human-readable problems (empty when valid)
+ */
+export function validateContactMapping(config: ContactMappingConfig): string[] {
+  const errors: string[] = [];
+  const fallback = config.fallback ?? 'drop';
+
+  if (!['drop', 'default_user', 'note'].includes(fallback)) {
+    errors.push(`Unknown contact fallback "${fallback}" (expected drop, default_user or note)`);
+  }
+  if (fallback === 'default_user' && !(Number.isInteger(config.defaultProfileId) && config.defaultProfileId! > 0)) {
+    errors.push('Contact fallback "default_user" requires a defaultProfileId');
+  }
+  if (fallback === 'note' && !(typeof config.noteFieldId === 'string' && /^\d+$/.test(config.noteFieldId))) {
+    errors.push('Contact fallback "note" requires a numeric noteFieldId (target text field)');
+  }
+
+  return errors;
+}
+
+/**
+ * Build lookup tables from space members
+ */
+export function buildContactDirectory(members: PodioSpaceMember[]): ContactDirectory {
+  const directory: ContactDirectory = {
+    profileIds: new Set(),
+    byEmail: new Map(),
+    byName: new Map(),
+    emailsByProfileId: new Map(),
+  };
+
+  for (const member of members) {
+    const profileId = member.profile?.profile_id;
+    if (!profileId) {
+      continue;
+    }
+
+    directory.profileIds.add(profileId);
+
+    const emails = [...(member.profile.mail || []), ...(member.user?.mail ? [member.user.mail] : [])]
+      .map(normalizeEmail)
+      .filter((email) => email !== '');
+    directory.emailsByProfileId.set(profileId, Array.from(new Set(emails)));
+    for (const email of emails) {
+      directory.byEmail.set(email, profileId);
+    }
+
+    const name = normalizeName(member.profile.name || '');
+    if (name) {
+      directory.byName.set(name, directory.byName.has(name) ? null : profileId);
+    }
+  }
+
+  return directory;
+}
+
+/**
+ * Find the target profile for a source contact
+ */
+export function matchContact(contact: SourceContact, directory: ContactDirectory): number | undefined {
+  if (contact.profileId && directory.profileIds.has(contact.profileId)) {
+    return contact.profileId;
+  }
+
+  for (const email of contact.emails) {
+    const profileId = directory.byEmail.get(normalizeEmail(email));
+    if (profileId) {
+      return profileId;
+    }
+  }
+
+  const byName = contact.name ? directory.byName.get(normalizeName(contact.name)) : undefined;
+  return byName ?? undefined;
+}
+
+/**
+ * Load space members for both apps and prepare contact remapping
+ *
+ * @param sourceAppId - Source app ID
+ * @param targetAppId - Target app ID
+ * @param fieldMapping - Source external_id -> target external_id
+ * @param config - Contact mapping settings saved with the job
+ * @returns Resolution, or null when no contact fields are mapped
+ */
+export async function loadContactResolution(
+  sourceAppId: number,
+  targetAppId: number,
+  fieldMapping: Record<string, string>,
+  config: ContactMappingConfig
+): Promise<ContactResolution | null> {
+  const cache = getAppStructureCache();
+  const [sourceApp, targetApp] = await Promise.all([
+    cache.getAppStructure(sourceAppId),
+    cache.getAppStructure(targetAppId),
+  ]);
+
+  const contactTargetFields = new Set<string>();
+  for (const [sourceExternalId, targetExternalId] of Object.entries(fieldMapping)) {
+    const sourceField = sourceApp.fields?.find((field) => field.external_id === sourceExternalId);
+    const targetField = targetApp.fields?.find((field) => field.external_id === targetExternalId);
+    if (sourceField?.type === 'contact' && targetField?.type === 'contact') {
+      contactTargetFields.add(targetExternalId);
+    }
+  }
+
+  if (contactTargetFields.size === 0) {
+    return null;
+  }
+
+  const [sourceMembers, targetMembers] = await Promise.all([
+    fetchAllSpaceMembers(sourceApp.space_id),
+    fetchAllSpaceMembers(targetApp.space_id),
+  ]);
+
+  const noteField = config.noteFieldId
+    ? targetApp.fields?.find((field) => field.field_id.toString() === config.noteFieldId)
+    : undefined;
+
+  migrationLogger.info('Contact resolution loaded', {
+    sourceAppId,
+    targetAppId,
+    sourceMembers: sourceMembers.length,
+    targetMembers: targetMembers.length,
+    contactFields: contactTargetFields.size,
+    fallback: config.fallback || 'drop',
+  });
+
+  return {
+    config,
+    targetDirectory: buildContactDirectory(targetMembers),
+    sourceDirectory: buildContactDirectory(sourceMembers),
+    contactTargetFields,
+    noteFieldExternalId: noteField?.external_id,
+  };
+}
+
+/**
+ * Rewrite contact values of a mapped item to target space members
+ *
+ * Fields left without contacts are removed from the payload. Unmatched
+ * contacts are returned so callers can warn about them.
+ */
+export function remapContactFields(
+  sourceItem: PodioItem,
+  mappedFields: Record<string, unknown>,
+  fieldMapping: Record<string, string>,
+  resolution: ContactResolution
+): { fields: Record<string, unknown>; unmatched: UnmatchedContact[] } {
+  const fields = { ...mappedFields };
+  const unmatched: UnmatchedContact[] = [];
+  const notes: string[] = [];
+  const { config } = resolution;
+  const fallback = config.fallback || 'drop';
+
+  for (const sourceField of sourceItem.fields) {
+    const targetExternalId = fieldMapping[sourceField.external_id];
+    if (
+      sourceField.type !== 'contact' ||
+      !targetExternalId ||
+      !resolution.contactTargetFields.has(targetExternalId) ||
+      !(targetExternalId in fields)
+    ) {
+      continue;
+    }
+
+    const targetIds: number[] = [];
+    const unmatchedNames: string[] = [];
+
+    for (const fieldValue of sourceField.values || []) {
+      const contact = toSourceContact(fieldValue.value, resolution.sourceDirectory);
+      const targetProfileId = matchContact(contact, resolution.targetDirectory);
+
+      if (targetProfileId) {
+        targetIds.push(targetProfileId);
+        continue;
+      }
+
+      const name = contact.name || (contact.profileId ? `Profile ${contact.profileId}` : 'Unknown contact');
+      const email = contact.emails[0];
+
+      if (fallback === 'default_user' && config.defaultProfileId) {
+        targetIds.push(config.defaultProfileId);
+      } else if (fallback === 'note' && resolution.noteFieldExternalId) {
+        unmatchedNames.push(email ? `${name} (${email})` : name);
+      }
+
+      unmatched.push({
+        sourceItemId: sourceItem.item_id,
+        sourceFieldExternalId: sourceField.external_id,
+        targetFieldExternalId: targetExternalId,
+        name,
+        email,
+        fallback:
+          fallback === 'default_user' && config.defaultProfileId
+            ? 'default_user'
+            : fallback === 'note' && resolution.noteFieldExternalId
+              ? 'note'
+              : 'dropped',
+      });
+    }
+
+    const uniqueIds = Array.from(new Set(targetIds));
+    if (uniqueIds.length > 0) {
+      fields[targetExternalId] = uniqueIds;
+    } else {
+      delete fields[targetExternalId];
+    }
+
+    if (unmatchedNames.length > 0) {
+      notes.push(`${sourceField.label}: ${unmatchedNames.join(', ')}`);
+    }
+  }
+
+  if (notes.length > 0 && resolution.noteFieldExternalId) {
+    const existing = fields[resolution.noteFieldExternalId];
+    const note = notes.join('\n');
+    fields[resolution.noteFieldExternalId] =
+      typeof existing === 'string' && existing.trim() !== '' ? `${existing}\n\n${note}` : note;
+  }
+
+  return { fields, unmatched };
+}
+
+/**
+ * Read a raw contact field value, filling in emails known from the source space
+ */
+function toSourceContact(value: unknown, sourceDirectory: ContactDirectory): SourceContact {
+  const contact = (value || {}) as { profile_id?: number; name?: string; mail?: string[] };
+  const emails = [
+    ...(contact.mail || []),
+    ...(contact.profile_id ? sourceDirectory.emailsByProfileId.get(contact.profile_id) || [] : []),
+  ];
+
+  return {
+    profileId: contact.profile_id,
+    name: contact.name,
+    emails: Array.from(new Set(emails.map(normalizeEmail).filter((email) => email !== ''))),
+  };
+}
+
+async function fetchAllSpaceMembers(spaceId: number): Promise<PodioSpaceMember[]> {
+  const members: PodioSpaceMember[] = [];
+
+  for (let offset = 0; ; offset += MEMBER_PAGE_SIZE) {
+    const page = await getSpaceMembers(spaceId, { limit: MEMBER_PAGE_SIZE, offset });
+    members.push(...page);
+    if (page.length < MEMBER_PAGE_SIZE) {
+      return members;
+    }
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
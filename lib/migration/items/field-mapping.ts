@@ -27,6 +27,7 @@ export const VALID_MATCH_FIELD_TYPES = [
   'money',       // Money fields - monetary values (just the number)
   'location',    // Location fields - address text
   'question',    // Question fields - yes/no boolean
+  'date',        // Date fields - start date (time ignored unless normalized with 'default')
 ] as const;
 
 /**
@@ -37,7 +38,6 @@ export const INVALID_MATCH_FIELD_TYPES = [
   'app',         // App relationship fields - item IDs (meaningless across apps)
   'category',    // Category fields - internal category IDs (not portable)
   'contact',     // Contact fields - profile/user IDs (not portable)
-  'date',        // Date fields - complex objects {start, end}
   'image',       // Image fields - file IDs
   'file',        // File fields - file IDs
   'embed',       // Embed fields - URLs/embeds
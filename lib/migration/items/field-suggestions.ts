@@ -0,0 +1,190 @@
+/**
+ * Field mapping suggestions
+ *
+ * `buildDefaultFieldMapping` only pairs fields whose external_id or label match
+ * exactly, which leaves most fields unmapped when the target app was rebuilt by
+ * hand. This module scores every source/target field pair on label similarity,
+ * type compatibility and (for category fields) shared option labels, so the
+ * editor can offer ranked candidates per source field.
+ */
+
+import { AppField } from '../../podio/types';
+import { getCategoryOptions } from './category-resolver';
+import { fieldTypeCompatibility } from './type-conversion';
+import { FieldMapping, FieldMappingCandidate, FieldMappingSuggestion, FieldMatchScore } from './types';
+
+export type SuggestionField = Pick<AppField, 'field_id' | 'type' | 'external_id' | 'label'> &
+  Partial<Pick<AppField, 'config'>>;
+
+export interface FieldSuggestionOptions {
+  /** Candidates listed per source field (default: 3) */
+  maxCandidates?: number;
+  /** Lowest score listed as a candidate (default: 0.3) */
+  minCandidateScore?: number;
+  /** Lowest score offered as the suggestion for a field (default: 0.55) */
+  minSuggestionScore?: number;
+  /** Mapping already in place; its source fields get no suggestion and its targets are not suggested again */
+  currentMapping?: FieldMapping;
+}
+
+const DEFAULT_MAX_CANDIDATES = 3;
+const DEFAULT_MIN_CANDIDATE_SCORE = 0.3;
+const DEFAULT_MIN_SUGGESTION_SCORE = 0.55;
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient of character bigrams, so typos and reordered words still score
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) {
+    return a === b ? 1 : 0;
+  }
+
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  let shared = 0;
+  for (const [gram, count] of aGrams) {
+    shared += Math.min(count, bGrams.get(gram) ?? 0);
+  }
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * Fuzzy similarity of two labels (0-1)
+ * Case, accents and punctuation are ignored: "E-mail Address" and "email address" score 1.
+ */
+export function labelSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right || left.replace(/ /g, '') === right.replace(/ /g, '')) {
+    return 1;
+  }
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const sharedWords = [...leftWords].filter((word) => rightWords.has(word)).length;
+  const wordOverlap = sharedWords / Math.max(leftWords.size, rightWords.size);
+
+  return Math.max(wordOverlap, diceCoefficient(left.replace(/ /g, ''), right.replace(/ /g, '')));
+}
+
+/**
+ * Share of active option labels two category fields have in common (Jaccard index)
+ * @returns undefined unless both fields are category fields with options
+ */
+export function categoryOptionOverlap(source: SuggestionField, target: SuggestionField): number | undefined {
+  if (source.type !== 'category' || target.type !== 'category' || !source.config || !target.config) {
+    return undefined;
+  }
+
+  const labels = (field: SuggestionField) =>
+    new Set(
+      getCategoryOptions(field as Pick<AppField, 'config'>)
+        .filter((option) => option.status !== 'deleted')
+        .map((option) => normalizeText(option.text))
+    );
+  const sourceLabels = labels(source);
+  const targetLabels = labels(target);
+  if (sourceLabels.size === 0 || targetLabels.size === 0) {
+    return undefined;
+  }
+
+  const shared = [...sourceLabels].filter((label) => targetLabels.has(label)).length;
+  return shared / (sourceLabels.size + targetLabels.size - shared);
+}
+
+/**
+ * Score a source/target field pair (0-1)
+ * Type compatibility comes from the conversion matrix; read-only targets and
+ * pairs without a converter score 0.
+ */
+export function scoreFieldPair(source: SuggestionField, target: SuggestionField): FieldMatchScore {
+  const type = fieldTypeCompatibility(source.type, target.type);
+  const label = Math.max(
+    labelSimilarity(source.label, target.label),
+    source.external_id && target.external_id ? labelSimilarity(source.external_id, target.external_id) : 0
+  );
+  const options = categoryOptionOverlap(source, target);
+
+  if (type === 0) {
+    return { score: 0, label, type };
+  }
+
+  const score =
+    options === undefined ? 0.7 * label + 0.3 * type : 0.55 * label + 0.2 * type + 0.25 * options;
+
+  return { score: Math.round(score * 100) / 100, label, type, ...(options !== undefined && { options }) };
+}
+
+/**
+ * Rank target candidates for every source field
+ *
+ * Each source field lists its best candidates. `suggested` is picked so that no
+ * two source fields are suggested the same target: the highest scoring pairs
+ * across all fields are assigned first.
+ */
+export function suggestFieldMappings(
+  sourceFields: SuggestionField[],
+  targetFields: SuggestionField[],
+  options: FieldSuggestionOptions = {}
+): FieldMappingSuggestion[] {
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  const minCandidateScore = options.minCandidateScore ?? DEFAULT_MIN_CANDIDATE_SCORE;
+  const minSuggestionScore = options.minSuggestionScore ?? DEFAULT_MIN_SUGGESTION_SCORE;
+  const currentMapping = options.currentMapping ?? {};
+
+  const scored = sourceFields.map((source) => ({
+    sourceFieldId: source.field_id.toString(),
+    candidates: targetFields
+      .map((target): FieldMappingCandidate => ({
+        targetFieldId: target.field_id.toString(),
+        ...scoreFieldPair(source, target),
+      }))
+      .filter((candidate) => candidate.score >= minCandidateScore)
+      .sort((a, b) => b.score - a.score),
+  }));
+
+  const usedTargets = new Set(Object.values(currentMapping));
+  const suggested = new Map<string, FieldMappingCandidate>();
+  const pairs = scored
+    .filter(({ sourceFieldId }) => !currentMapping[sourceFieldId])
+    .flatMap(({ sourceFieldId, candidates }) =>
+      candidates
+        .filter((candidate) => candidate.score >= minSuggestionScore)
+        .map((candidate) => ({ sourceFieldId, candidate }))
+    )
+    .sort((a, b) => b.candidate.score - a.candidate.score);
+
+  for (const { sourceFieldId, candidate } of pairs) {
+    if (!suggested.has(sourceFieldId) && !usedTargets.has(candidate.targetFieldId)) {
+      suggested.set(sourceFieldId, candidate);
+      usedTargets.add(candidate.targetFieldId);
+    }
+  }
+
+  return scored.map(({ sourceFieldId, candidates }) => ({
+    sourceFieldId,
+    candidates: candidates.slice(0, maxCandidates),
+    suggested: suggested.get(sourceFieldId),
+  }));
+}
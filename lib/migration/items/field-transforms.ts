@@ -0,0 +1,356 @@
+/**
+ * Field value transforms
+ *
+ * Applies the declarative per-mapping transforms saved with a job to the
+ * values produced by `mapItemFields`. Transforms read the raw source field
+ * (category fields are handled as option labels), run in order, and the result
+ * is coerced to the target field type (labels resolve to target category
+ * options, lists become text for text fields, text becomes a number for
+ * number fields).
+ */
+
+import { PodioItem, PodioItemField, extractFieldValue } from '../../podio/resources/items';
+import { AppField } from '../../podio/types';
+import { FieldTransform, FieldTransforms } from './types';
+import { findCategoryOptionByLabel, getCategoryOptions } from './category-resolver';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Validate transforms before they are saved with a job
+ * Returns a list of human-readable problems (empty when valid)
+ */
+export function validateFieldTransforms(transforms: FieldTransforms): string[] {
+  const errors: string[] = [];
+
+  for (const [sourceFieldId, steps] of Object.entries(transforms)) {
+    if (!Array.isArray(steps)) {
+      errors.push(`Transforms for field ${sourceFieldId} must be a list`);
+      continue;
+    }
+
+    steps.forEach((step, index) => {
+      const where = `Field ${sourceFieldId}, transform ${index + 1}`;
+
+      switch (step?.type) {
+        case 'trim':
+        case 'to_number':
+        case 'to_text':
+          break;
+        case 'case':
+          if (!['upper', 'lower', 'title'].includes(step.mode)) {
+            errors.push(`${where}: case mode must be upper, lower or title`);
+          }
+          break;
+        case 'regex_replace':
+          try {
+            new RegExp(step.pattern, step.flags);
+          } catch (error) {
+            errors.push(`${where}: invalid regex - ${error instanceof Error ? error.message : String(error)}`);
+          }
+          if (typeof step.replacement !== 'string') {
+            errors.push(`${where}: replacement must be a string`);
+          }
+          break;
+        case 'category_map':
+          if (!step.options || typeof step.options !== 'object') {
+            errors.push(`${where}: category map requires options`);
+          }
+          break;
+        case 'date_shift':
+          for (const amount of [step.days, step.hours, step.minutes]) {
+            if (amount !== undefined && !Number.isFinite(amount)) {
+              errors.push(`${where}: date shift amounts must be numbers`);
+              break;
+            }
+          }
+          break;
+        case 'concat':
+          if (!Array.isArray(step.sourceFields) || step.sourceFields.length === 0) {
+            errors.push(`${where}: concat requires at least one additional source field`);
+          }
+          break;
+        case 'default':
+          if (typeof step.value !== 'string' && typeof step.value !== 'number') {
+            errors.push(`${where}: default value must be text or a number`);
+          }
+          break;
+        default:
+          errors.push(`${where}: unknown transform type "${(step as { type?: string })?.type}"`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Apply transforms to mapped item fields
+ *
+ * @param sourceItem - Source item being migrated
+ * @param mappedFields - Output of mapItemFields (target external_id -> value)
+ * @param fieldMapping - Source external_id -> target external_id
+ * @param transforms - Transforms keyed by source external_id
+ * @param targetFields - Target app fields, used to coerce values to the target type
+ * @returns New mapped fields; fields whose transformed value is empty are left out
+ */
+export function applyFieldTransforms(
+  sourceItem: PodioItem,
+  mappedFields: Record<string, unknown>,
+  fieldMapping: Record<string, string>,
+  transforms: FieldTransforms,
+  targetFields: AppField[] = []
+): Record<string, unknown> {
+  const result = { ...mappedFields };
+
+  for (const [sourceExternalId, steps] of Object.entries(transforms)) {
+    const targetExternalId = fieldMapping[sourceExternalId];
+    if (!targetExternalId || !steps || steps.length === 0) {
+      continue;
+    }
+
+    let value = readSourceValue(sourceItem, sourceExternalId);
+    for (const step of steps) {
+      value = applyTransform(step, value, sourceItem);
+    }
+
+    const targetField = targetFields.find((field) => field.external_id === targetExternalId);
+    value = coerceToTargetType(value, targetField);
+
+    if (isEmptyValue(value)) {
+      delete result[targetExternalId];
+    } else {
+      result[targetExternalId] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply a single transform to a value
+ */
+export function applyTransform(
+  step: FieldTransform,
+  value: unknown,
+  sourceItem?: PodioItem
+): unknown {
+  switch (step.type) {
+    case 'trim':
+      return mapStrings(value, (text) => text.trim());
+
+    case 'case':
+      return mapStrings(value, (text) => changeCase(text, step.mode));
+
+    case 'regex_replace': {
+      const pattern = new RegExp(step.pattern, step.flags ?? 'g');
+      return mapStrings(value, (text) => text.replace(pattern, step.replacement));
+    }
+
+    case 'category_map': {
+      const lookup = new Map(
+        Object.entries(step.options).map(([from, to]) => [from.trim().toLowerCase(), to])
+      );
+      return mapStrings(value, (label) => lookup.get(label.trim().toLowerCase()) ?? label);
+    }
+
+    case 'date_shift': {
+      const shiftMs =
+        ((step.days ?? 0) * 24 * 60 + (step.hours ?? 0) * 60 + (step.minutes ?? 0)) * 60 * 1000;
+      return shiftDateValue(value, shiftMs);
+    }
+
+    case 'concat': {
+      const parts = [value, ...step.sourceFields.map((externalId) =>
+        sourceItem ? readSourceValue(sourceItem, externalId) : null
+      )];
+      return parts
+        .map(toText)
+        .filter((part) => part !== '')
+        .join(step.separator ?? ' ');
+    }
+
+    case 'default':
+      return isEmptyValue(value) ? step.value : value;
+
+    case 'to_number':
+      return toNumber(value);
+
+    case 'to_text':
+      return toText(value);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read the value of a source field in transform-friendly form
+ * Category values are returned as option labels so they can be renamed and
+ * matched against the target field's options.
+ */
+function readSourceValue(sourceItem: PodioItem, externalId: string): unknown {
+  const field = sourceItem.fields.find((f) => f.external_id === externalId);
+  if (!field || !field.values || field.values.length === 0) {
+    return null;
+  }
+
+  if (field.type === 'category') {
+    return field.values
+      .map((v) => (v.value as { text?: string } | null)?.text)
+      .filter((text): text is string => typeof text === 'string');
+  }
+
+  return extractFieldValue(field as PodioItemField);
+}
+
+/**
+ * Coerce a transformed value to what the target field type accepts
+ */
+function coerceToTargetType(value: unknown, targetField: AppField | undefined): unknown {
+  if (!targetField || isEmptyValue(value)) {
+    return value;
+  }
+
+  switch (targetField.type) {
+    case 'category': {
+      const options = getCategoryOptions(targetField);
+      const values = Array.isArray(value) ? value : [value];
+      return values
+        .map((entry) =>
+          typeof entry === 'number' ? entry : findCategoryOptionByLabel(options, toText(entry))?.id
+        )
+        .filter((id): id is number => typeof id === 'number');
+    }
+
+    case 'text':
+      return typeof value === 'string' ? value : toText(value);
+
+    case 'number':
+      return typeof value === 'number' ? value : toNumber(value);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Apply a string function to every string in a value
+ * Handles plain strings, lists and `{ type, value }` entries (email/phone)
+ */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => mapStrings(entry, fn));
+  }
+  if (value && typeof value === 'object' && typeof (value as { value?: unknown }).value === 'string') {
+    return { ...value, value: fn((value as { value: string }).value) };
+  }
+  return value;
+}
+
+function changeCase(text: string, mode: 'upper' | 'lower' | 'title'): string {
+  switch (mode) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'lower':
+      return text.toLowerCase();
+    case 'title':
+      return text.toLowerCase().replace(/(^|[\s-])(\S)/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+  }
+}
+
+/**
+ * Shift Podio date values ("YYYY-MM-DD" or "YYYY-MM-DD HH:MM:SS", UTC)
+ */
+function shiftDateValue(value: unknown, shiftMs: number): unknown {
+  if (shiftMs === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return shiftDateString(value, shiftMs);
+  }
+  if (value && typeof value === 'object' && 'start' in value) {
+    const range = value as { start?: string | null; end?: string | null };
+    return {
+      ...range,
+      start: range.start ? shiftDateString(range.start, shiftMs) : range.start,
+      end: range.end ? shiftDateString(range.end, shiftMs) : range.end,
+    };
+  }
+  return value;
+}
+
+function shiftDateString(text: string, shiftMs: number): string {
+  const dateOnly = DATE_ONLY_PATTERN.test(text);
+  if (!dateOnly && !DATE_TIME_PATTERN.test(text)) {
+    return text;
+  }
+
+  const parsed = new Date(`${dateOnly ? `${text}T00:00:00` : text.replace(' ', 'T')}Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    return text;
+  }
+
+  const iso = new Date(parsed.getTime() + shiftMs).toISOString();
+  return dateOnly ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+/**
+ * Render any field value as text
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).filter((part) => part !== '').join(', ');
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if ('start' in record) {
+      return toText(record.start);
+    }
+    if ('value' in record) {
+      return toText(record.value);
+    }
+  }
+  return '';
+}
+
+/**
+ * Parse a number from text, ignoring thousands separators and currency symbols
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const text = toText(Array.isArray(value) ? value[0] : value)
+    .replace(/,/g, '')
+    .replace(/[^0-9.eE+-]/g, '');
+  if (text === '') {
+    return null;
+  }
+
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
@@ -0,0 +1,472 @@
+/**
+ * Item ID Map Store - Durable sourceItemId -> targetItemId records per job
+ *
+ * Every item created (or matched for update) by a migration is appended to
+ * an append-only JSONL file, so relationship (`app`) fields in later jobs can
+ * be rewritten to point at the migrated items instead of the originals.
+ * References that cannot be resolved yet are kept as pending links and
+ * applied by the link-fixup pass once their targets exist. Copied comments
+ * and tasks are journaled the same way so a resumed job does not post them twice,
+ * as are target items deleted or archived because their source item was deleted.
+ * The undo journal records every target item a job created, and the values
+ * it overwrote on updated items, so the job can be rolled back.
+ * The base directory can be overridden via MIGRATION_ID_MAP_DIR.
+ */
+
+import { createReadStream, promises as fs } from 'node:fs';
+import readline from 'node:readline';
+import path from 'node:path';
+import { logger } from '../logging';
+
+const ID_MAP_ROOT_CONFIG = process.env.MIGRATION_ID_MAP_DIR || 'data/item-id-maps';
+const DEFAULT_ID_MAP_ROOT = path.resolve(process.cwd(), ID_MAP_ROOT_CONFIG);
+
+const ID_MAP_FILE = 'id-map.jsonl';
+const PENDING_LINKS_FILE = 'pending-links.jsonl';
+const COMMENT_MAP_FILE = 'comment-map.jsonl';
+const TASK_MAP_FILE = 'task-map.jsonl';
+const ORPHAN_MAP_FILE = 'orphan-map.jsonl';
+const UNDO_JOURNAL_FILE = 'undo-journal.jsonl';
+const ROLLBACK_LOG_FILE = 'rollback-log.jsonl';
+
+/**
+ * A single source -> target item pairing
+ */
+export interface ItemIdMapEntry {
+  sourceItemId: number;
+  targetItemId: number;
+  sourceAppId: number;
+  targetAppId: number;
+  recordedAt: string;
+}
+
+/**
+ * A relationship field value that could not be fully resolved when the item was written
+ */
+export interface PendingLinkEntry {
+  /** Source item that owns the relationship field */
+  sourceItemId: number;
+  /** Target field external_id to write the resolved references to */
+  targetFieldExternalId: string;
+  /** All source item IDs referenced by the field (resolved and unresolved) */
+  sourceReferenceIds: number[];
+  recordedAt: string;
+}
+
+/**
+ * A source comment that has been recreated on a target item
+ */
+export interface CommentMapEntry {
+  sourceCommentId: number;
+  targetCommentId: number;
+  sourceItemId: number;
+  targetItemId: number;
+  recordedAt: string;
+}
+
+/**
+ * A source task that has been recreated on a target item
+ */
+export interface TaskMapEntry {
+  sourceTaskId: number;
+  targetTaskId: number;
+  sourceItemId: number;
+  targetItemId: number;
+  recordedAt: string;
+}
+
+/**
+ * A target item handled after its source item was deleted
+ */
+export interface OrphanResolutionEntry {
+  sourceItemId: number;
+  targetItemId: number;
+  action: 'deleted' | 'archived';
+  recordedAt: string;
+}
+
+/**
+ * Undo record for a target item written by a job
+ * - created: the item did not exist before the job
+ * - updated: previousFields holds the overwritten values (target external_id -> value, null when empty)
+ */
+export interface UndoJournalEntry {
+  operation: 'created' | 'updated';
+  targetItemId: number;
+  sourceItemId?: number;
+  previousFields?: Record<string, unknown>;
+  recordedAt: string;
+}
+
+/**
+ * A target item whose undo record was applied by a rollback
+ */
+export interface RollbackLogEntry {
+  targetItemId: number;
+  action: 'deleted' | 'restored';
+  recordedAt: string;
+}
+
+/**
+ * Durable store for item ID maps and pending relationship links
+ */
+export class ItemIdMapStore {
+  private basePath: string;
+  private writeQueue = new Map<string, Promise<void>>();
+
+  constructor(basePath = DEFAULT_ID_MAP_ROOT) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  private getFilePath(jobId: string, fileName: string): string {
+    return path.join(this.basePath, jobId, fileName);
+  }
+
+  private async enqueueWrite(jobId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueue.get(jobId) ?? Promise.resolve();
+    const next = previous.catch((error) => {
+      logger.error('Previous item ID map write failed - continuing', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }).then(task);
+
+    this.writeQueue.set(jobId, next);
+
+    try {
+      await next;
+    } finally {
+      if (this.writeQueue.get(jobId) === next) {
+        this.writeQueue.delete(jobId);
+      }
+    }
+  }
+
+  private async appendLines(jobId: string, fileName: string, entries: unknown[]): Promise<void> {
+    await this.enqueueWrite(jobId, async () => {
+      await fs.mkdir(path.join(this.basePath, jobId), { recursive: true });
+      const jsonLines = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+      await fs.appendFile(this.getFilePath(jobId, fileName), jsonLines, {
+        encoding: 'utf8',
+        flag: 'a',
+        mode: 0o640,
+      });
+    });
+  }
+
+  private async readLines<T>(jobId: string, fileName: string, onEntry: (entry: T) => void): Promise<void> {
+    const filePath = this.getFilePath(jobId, fileName);
+
+    try {
+      const rl = readline.createInterface({
+        input: createReadStream(filePath, { encoding: 'utf8' }),
+        crlfDelay: Infinity,
+      });
+
+      try {
+        for await (const line of rl) {
+          const trimmed = line.trim();
+          if (!trimmed) {
+            continue;
+          }
+
+          try {
+            onEntry(JSON.parse(trimmed) as T);
+          } catch (parseError) {
+            logger.warn('Failed to parse item ID map line', {
+              jobId,
+              fileName,
+              error: parseError instanceof Error ? parseError.message : String(parseError),
+            });
+          }
+        }
+      } finally {
+        rl.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Append source -> target pairs for a job
+   */
+  async recordMappings(jobId: string, entries: ItemIdMapEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.appendLines(jobId, ID_MAP_FILE, entries);
+      logger.debug('Recorded item ID mappings', { jobId, count: entries.length });
+    } catch (error) {
+      logger.error('Failed to record item ID mappings', {
+        jobId,
+        count: entries.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load the target item IDs a rollback of the job deleted
+   * Podio never reuses item IDs, so these can be dropped from the ID map
+   * regardless of when the rollback ran.
+   */
+  private async getDeletedTargetIds(jobId: string): Promise<Set<number>> {
+    const deleted = new Set<number>();
+    await this.readLines<RollbackLogEntry>(jobId, ROLLBACK_LOG_FILE, (entry) => {
+      if (entry.action === 'deleted') {
+        deleted.add(entry.targetItemId);
+      }
+    });
+    return deleted;
+  }
+
+  /**
+   * Load the ID map recorded by a single job
+   * Targets deleted by a rollback are left out, so their sources count as not migrated.
+   */
+  async getMappings(jobId: string): Promise<Map<number, number>> {
+    const map = new Map<number, number>();
+    const deleted = await this.getDeletedTargetIds(jobId);
+    await this.readLines<ItemIdMapEntry>(jobId, ID_MAP_FILE, (entry) => {
+      if (!deleted.has(entry.targetItemId)) {
+        map.set(entry.sourceItemId, entry.targetItemId);
+      }
+    });
+    return map;
+  }
+
+  /**
+   * Load the combined ID map of every job on disk
+   * Podio item IDs are globally unique, so one map covers all apps.
+   * Jobs are read oldest first so the most recent mapping for an item wins;
+   * targets deleted by a rollback are left out.
+   */
+  async loadAllMappings(): Promise<Map<number, number>> {
+    const map = new Map<number, number>();
+
+    for (const jobId of await this.listJobIds()) {
+      const deleted = await this.getDeletedTargetIds(jobId);
+      await this.readLines<ItemIdMapEntry>(jobId, ID_MAP_FILE, (entry) => {
+        if (!deleted.has(entry.targetItemId)) {
+          map.set(entry.sourceItemId, entry.targetItemId);
+        }
+      });
+    }
+
+    logger.debug('Loaded combined item ID map', { entries: map.size });
+    return map;
+  }
+
+  /**
+   * Append copied comment pairs for a job
+   */
+  async recordCommentMappings(jobId: string, entries: CommentMapEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, COMMENT_MAP_FILE, entries);
+    logger.debug('Recorded copied comments', { jobId, count: entries.length });
+  }
+
+  /**
+   * Load the IDs of source comments already copied by a job
+   */
+  async getCopiedCommentIds(jobId: string): Promise<Set<number>> {
+    const copied = new Set<number>();
+    await this.readLines<CommentMapEntry>(jobId, COMMENT_MAP_FILE, (entry) => {
+      copied.add(entry.sourceCommentId);
+    });
+    return copied;
+  }
+
+  /**
+   * Append copied task pairs for a job
+   */
+  async recordTaskMappings(jobId: string, entries: TaskMapEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, TASK_MAP_FILE, entries);
+    logger.debug('Recorded copied tasks', { jobId, count: entries.length });
+  }
+
+  /**
+   * Load the IDs of source tasks already copied by a job
+   */
+  async getCopiedTaskIds(jobId: string): Promise<Set<number>> {
+    const copied = new Set<number>();
+    await this.readLines<TaskMapEntry>(jobId, TASK_MAP_FILE, (entry) => {
+      copied.add(entry.sourceTaskId);
+    });
+    return copied;
+  }
+
+  /**
+   * Append target items deleted or archived by orphan reconciliation
+   */
+  async recordOrphanResolutions(jobId: string, entries: OrphanResolutionEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, ORPHAN_MAP_FILE, entries);
+    logger.debug('Recorded resolved orphans', { jobId, count: entries.length });
+  }
+
+  /**
+   * Load the source item IDs whose orphaned target items were already handled
+   */
+  async getResolvedOrphanIds(jobId: string): Promise<Set<number>> {
+    const resolved = new Set<number>();
+    await this.readLines<OrphanResolutionEntry>(jobId, ORPHAN_MAP_FILE, (entry) => {
+      resolved.add(entry.sourceItemId);
+    });
+    return resolved;
+  }
+
+  /**
+   * Append undo records for target items a job created or is about to update
+   */
+  async recordUndoEntries(jobId: string, entries: UndoJournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, UNDO_JOURNAL_FILE, entries);
+    logger.debug('Recorded undo journal entries', { jobId, count: entries.length });
+  }
+
+  /**
+   * Read the undo journal of a job, oldest first
+   */
+  async getUndoEntries(jobId: string): Promise<UndoJournalEntry[]> {
+    const entries: UndoJournalEntry[] = [];
+    await this.readLines<UndoJournalEntry>(jobId, UNDO_JOURNAL_FILE, (entry) => {
+      entries.push(entry);
+    });
+    return entries;
+  }
+
+  /**
+   * Append target items handled by a rollback of the job
+   */
+  async recordRolledBackItems(jobId: string, entries: RollbackLogEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, ROLLBACK_LOG_FILE, entries);
+    logger.debug('Recorded rolled back items', { jobId, count: entries.length });
+  }
+
+  /**
+   * Load the target item IDs a rollback of the job already deleted or restored
+   */
+  async getRolledBackItemIds(jobId: string): Promise<Set<number>> {
+    const rolledBack = new Set<number>();
+    await this.readLines<RollbackLogEntry>(jobId, ROLLBACK_LOG_FILE, (entry) => {
+      rolledBack.add(entry.targetItemId);
+    });
+    return rolledBack;
+  }
+
+  /**
+   * Append unresolved relationship links for a job
+   */
+  async recordPendingLinks(jobId: string, entries: PendingLinkEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.appendLines(jobId, PENDING_LINKS_FILE, entries);
+    logger.debug('Recorded pending relationship links', { jobId, count: entries.length });
+  }
+
+  /**
+   * Read all pending relationship links for a job
+   */
+  async getPendingLinks(jobId: string): Promise<PendingLinkEntry[]> {
+    const entries: PendingLinkEntry[] = [];
+    await this.readLines<PendingLinkEntry>(jobId, PENDING_LINKS_FILE, (entry) => {
+      entries.push(entry);
+    });
+    return entries;
+  }
+
+  /**
+   * Replace the pending links for a job with the ones still unresolved
+   */
+  async replacePendingLinks(jobId: string, entries: PendingLinkEntry[]): Promise<void> {
+    await this.enqueueWrite(jobId, async () => {
+      const filePath = this.getFilePath(jobId, PENDING_LINKS_FILE);
+
+      if (entries.length === 0) {
+        await fs.rm(filePath, { force: true });
+        return;
+      }
+
+      const tempPath = `${filePath}.tmp`;
+      const jsonLines = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+      await fs.writeFile(tempPath, jsonLines, { encoding: 'utf8', mode: 0o640 });
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  /**
+   * List job IDs that still have pending relationship links
+   */
+  async listJobsWithPendingLinks(): Promise<string[]> {
+    const jobIds: string[] = [];
+
+    for (const jobId of await this.listJobIds()) {
+      try {
+        await fs.access(this.getFilePath(jobId, PENDING_LINKS_FILE));
+        jobIds.push(jobId);
+      } catch {
+        // No pending links for this job
+      }
+    }
+
+    return jobIds;
+  }
+
+  /**
+   * List job directories, oldest first
+   */
+  private async listJobIds(): Promise<string[]> {
+    let dirents;
+    try {
+      dirents = await fs.readdir(this.basePath, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const jobs = await Promise.all(
+      dirents
+        .filter(dirent => dirent.isDirectory())
+        .map(async (dirent) => {
+          const stats = await fs.stat(path.join(this.basePath, dirent.name));
+          return { jobId: dirent.name, createdAt: stats.birthtimeMs || stats.ctimeMs };
+        })
+    );
+
+    return jobs
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(job => job.jobId);
+  }
+}
+
+// Export singleton instance
+export const itemIdMapStore = new ItemIdMapStore();
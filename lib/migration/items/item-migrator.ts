@@ -20,9 +20,27 @@ import {
   deleteItem,
 } from '../../podio/resources/items';
 import { ItemBatchProcessor, BatchProcessorConfig } from './batch-processor';
-import { migrationStateStore, MigrationJob, ErrorCategory, FailedItemDetail } from '../state-store';
+import {
+  migrationStateStore,
+  MigrationJob,
+  ErrorCategory,
+  FailedItemDetail,
+  TaskTransferCounts,
+  CommentTransferCounts,
+} from '../state-store';
 import { logger as migrationLogger, logMigrationEvent, logDuplicateDetection } from '../logging';
-import { convertFieldMappingToExternalIds } from './service';
+import { convertFieldMappingToExternalIds, convertFieldTransformsToExternalIds } from './service';
+import { applyFieldTransforms } from './field-transforms';
+import {
+  convertFieldTypes,
+  describeFieldTypeConversion,
+  describeIncompatibleFields,
+  FieldConversionPlan,
+  planFieldConversions,
+} from './type-conversion';
+import { ContactMappingConfig, FieldTransforms, MatchKey, MissingCategoryOption } from './types';
+import { describeMatchKey, extractMatchKey, hasMatchKey } from './match-key';
+import { AppField } from '../../podio/types';
 import {
   PrefetchCache,
   normalizeForMatch,
@@ -36,11 +54,25 @@ import { getMigrationLogger, removeMigrationLogger, MigrationFileLogger } from '
 import { UpdateStatsTracker } from './update-stats-tracker';
 import { maskPII } from '../utils/pii-masking';
 import { failureLogger } from './failure-logger';
+import { itemIdMapStore, ItemIdMapEntry, PendingLinkEntry, UndoJournalEntry } from './item-id-map';
+import { journalUpdateSnapshots } from './rollback';
+import {
+  remapRelationshipFields,
+  resolvePendingLinks,
+  LinkFixupResult,
+  UnresolvedRelationship,
+} from './relationship-remapper';
+import { transferItemComments } from './comment-transfer';
+import { transferItemTasks } from './task-transfer';
+import { resolveCategoryOptions, remapCategoryFields } from './category-resolver';
+import { loadContactResolution, remapContactFields, UnmatchedContact } from './contact-resolver';
+import { isEditedSince, advanceSyncWatermark } from './sync-watermark';
+import { publishJobEvent } from '../job-events';
 
 /**
  * Migration mode
  */
-export type MigrationMode = 'create' | 'update' | 'upsert';
+export type MigrationMode = 'create' | 'update' | 'upsert' | 'sync';
 
 /**
  * Duplicate behavior
@@ -51,18 +83,22 @@ export type DuplicateBehavior = 'skip' | 'error' | 'update';
  * Migration configuration
  */
 export interface MigrationConfig {
+  /** Owning job ID used to key durable per-job records (item ID map, pending links). Defaults to the internal migration ID */
+  jobId?: string;
   /** Source app ID */
   sourceAppId: number;
   /** Target app ID */
   targetAppId: number;
   /** Field mapping (source field_id -> target field_id) - will be converted to external_id by ItemMigrator */
   fieldMapping: Record<string, string>;
+  /** Per-mapping value transforms keyed by source field_id - converted to external_id like fieldMapping */
+  fieldTransforms?: FieldTransforms;
   /** Migration mode */
   mode: MigrationMode;
-  /** Source field external_id to extract value from for matching */
-  sourceMatchField?: string;
-  /** Target field external_id to search by for matching */
-  targetMatchField?: string;
+  /** Source field external_id (or composite key) to extract values from for matching */
+  sourceMatchField?: MatchKey;
+  /** Target field external_id (or composite key, paired with the source key by position) to search by for matching */
+  targetMatchField?: MatchKey;
   /** How to handle duplicates when match fields are set (skip/error/update) */
   duplicateBehavior?: DuplicateBehavior;
   /** Batch size for streaming (default: 500) */
@@ -83,8 +119,31 @@ export interface MigrationConfig {
   dryRun?: boolean;
   /** Whether to transfer files from source to destination (UPDATE/UPSERT modes only, default: false) */
   transferFiles?: boolean;
+  /** Whether to copy source item comments to the migrated items (default: false) */
+  transferComments?: boolean;
+  /** Whether to recreate tasks attached to source items on the migrated items (default: false) */
+  transferTasks?: boolean;
+  /** Also copy completed tasks when transferTasks is enabled (default: false - open tasks only) */
+  includeCompletedTasks?: boolean;
+  /** Re-point contact values to members of the target space (contacts are copied as-is when omitted) */
+  contactMapping?: ContactMappingConfig;
+  /** Add category options missing on target fields (matched by label) instead of dropping those values (default: false) */
+  createMissingCategoryOptions?: boolean;
+  /** Skip source items already recorded in this job's item ID map (makes re-runs of a partially migrated app idempotent) */
+  skipMigratedItems?: boolean;
+  /** Sync mode: latest source `last_event_on` mirrored by earlier runs; items not edited after it are skipped */
+  syncWatermark?: string;
   /** Progress callback */
-  onProgress?: (progress: { total: number; processed: number; successful: number; failed: number }) => void | Promise<void>;
+  onProgress?: (progress: {
+    total: number;
+    processed: number;
+    successful: number;
+    failed: number;
+    /** Task transfer counts so far (only when transferTasks=true) */
+    tasks?: TaskTransferCounts;
+    /** Comment transfer counts so far (only when transferComments=true) */
+    comments?: CommentTransferCounts;
+  }) => void | Promise<void>;
   /** Rate limit pause callback - called when migration pauses due to rate limits */
   onRateLimitPause?: (info: { remaining: number; limit: number; resumeAt: Date; pauseStartTime: Date }) => void | Promise<void>;
   /** Rate limit resume callback - called when migration resumes after rate limit pause */
@@ -141,10 +200,43 @@ export interface MigrationResult {
   duplicatesUpdated?: number;
   /** Dry-run preview (only present when dryRun=true) */
   dryRunPreview?: DryRunPreview;
+  /** Relationship link-fixup summary (only present when app fields were remapped) */
+  linkFixup?: LinkFixupResult;
+  /** Comment transfer summary (only present when transferComments=true) */
+  commentTransfer?: CommentTransferCounts;
+  /** Task transfer summary (only present when transferTasks=true) */
+  taskTransfer?: TaskTransferCounts;
+  /** Category options matched by label that the target lacks or that were added (only present when any) */
+  categoryOptions?: {
+    missing: MissingCategoryOption[];
+    created: MissingCategoryOption[];
+  };
+  /** Watermark for the next sync run (sync mode only, never set by dry runs) */
+  syncWatermark?: string;
 }
 
 const DRY_RUN_STUB_CREATED_ON = new Date(0).toISOString();
 
+function describeUnmatchedContact(contact: UnmatchedContact): string {
+  const who = contact.email ? `${contact.name} (${contact.email})` : contact.name;
+  switch (contact.fallback) {
+    case 'default_user':
+      return `No target space member matches ${who} - the default user will be assigned`;
+    case 'note':
+      return `No target space member matches ${who} - the contact will be noted in a text field`;
+    default:
+      return `No target space member matches ${who} - the contact will be left out`;
+  }
+}
+
+/**
+ * Conversion note for a dry-run preview field, e.g. "date → text: formatted date"
+ */
+function describeConversion(plan: FieldConversionPlan | undefined, targetExternalId: string): string | undefined {
+  const conversion = plan?.conversions.get(targetExternalId);
+  return conversion ? describeFieldTypeConversion(conversion.sourceType, conversion.targetType) : undefined;
+}
+
 function createDryRunTargetStub(itemId: number, targetAppId: number): PodioItem {
   return {
     item_id: itemId,
@@ -180,6 +272,8 @@ export interface FieldChange {
   newValue: unknown;
   /** Whether values are different */
   willChange: boolean;
+  /** Set when the new value was converted from another field type, e.g. "date → text: formatted date" */
+  conversion?: string;
 }
 
 /**
@@ -208,12 +302,14 @@ export interface CreatePreview {
     fieldExternalId: string;
     fieldLabel?: string;
     value: unknown;
+    /** Set when the value was converted from another field type */
+    conversion?: string;
   }>;
   fieldCount: number;
 }
 
 export interface DryRunPreview {
-  mode: 'create' | 'update' | 'upsert';
+  mode: MigrationMode;
   /** Items that would be created (CREATE mode) */
   wouldCreate?: CreatePreview[];
   /** Items that would be successfully updated (UPDATE/UPSERT modes) */
@@ -231,6 +327,13 @@ export interface DryRunPreview {
     matchValue?: unknown;
     reason: string;
   }>;
+  /** Non-blocking problems found while mapping items (e.g. contacts with no target member) */
+  warnings?: Array<{
+    /** Unset for problems that affect every item (e.g. a skipped field) */
+    sourceItemId?: number;
+    fieldExternalId: string;
+    message: string;
+  }>;
   /** Summary statistics */
   summary: {
     totalSourceItems: number;
@@ -239,6 +342,7 @@ export interface DryRunPreview {
     wouldFailCount: number;
     wouldSkipCount: number;
     totalFieldChanges?: number;
+    warningCount?: number;
   };
 }
 
@@ -379,6 +483,8 @@ export class ItemMigrator {
     successfulCreates: number;
     failedCreates: number;
     testItemIds: number[];
+    /** Source category options with no matching label on the target field (their values are dropped) */
+    missingCategoryOptions?: MissingCategoryOption[];
   }> {
     migrationLogger.info('Starting field mapping validation', {
       sourceAppId: config.sourceAppId,
@@ -386,7 +492,25 @@ export class ItemMigrator {
       hasFilters: !!config.filters,
     });
 
-    // Step 1: Fetch first 3 items from source app (with same filters as migration)
+    // Step 1: Reject field pairs whose types cannot be converted, before anything is written
+    const externalIdFieldMapping = await convertFieldMappingToExternalIds(
+      config.fieldMapping,
+      config.sourceAppId,
+      config.targetAppId
+    );
+    const fieldConversions = await this.loadFieldConversions(config, externalIdFieldMapping);
+    if (fieldConversions.incompatible.length > 0) {
+      return {
+        valid: false,
+        error: describeIncompatibleFields(fieldConversions.incompatible),
+        testedItems: 0,
+        successfulCreates: 0,
+        failedCreates: 0,
+        testItemIds: [],
+      };
+    }
+
+    // Step 2: Fetch first 3 items from source app (with same filters as migration)
     const testSourceItems = await this.fetchFirstNItems(
       config.sourceAppId,
       3,
@@ -408,12 +532,19 @@ export class ItemMigrator {
     const errors: string[] = [];
     let successCount = 0;
 
-    // Step 2: Convert field mapping to external IDs
-    const externalIdFieldMapping = await convertFieldMappingToExternalIds(
-      config.fieldMapping,
+    const relationshipIdMap = await this.loadRelationshipIdMap(config.sourceAppId, externalIdFieldMapping);
+    const fieldTransforms = await this.loadFieldTransforms(config);
+
+    // Options are only reported here; creating them is left to the migration run
+    const categoryOptions = await resolveCategoryOptions(
       config.sourceAppId,
-      config.targetAppId
+      config.targetAppId,
+      externalIdFieldMapping
     );
+    const missingCategoryOptions = categoryOptions.missing.length > 0 ? categoryOptions.missing : undefined;
+    const contactResolution = config.contactMapping
+      ? await loadContactResolution(config.sourceAppId, config.targetAppId, externalIdFieldMapping, config.contactMapping)
+      : null;
 
     // Step 3: Try to create each test item
     for (const [index, sourceItem] of testSourceItems.entries()) {
@@ -422,8 +553,43 @@ export class ItemMigrator {
           sourceItemId: sourceItem.item_id,
         });
 
-        // Map fields
-        const mappedFields = mapItemFields(sourceItem, externalIdFieldMapping);
+        // Map fields (unmapped relationship references are left out of test items)
+        let mappedFields = remapCategoryFields(
+          sourceItem,
+          convertFieldTypes(
+            sourceItem,
+            mapItemFields(sourceItem, externalIdFieldMapping),
+            externalIdFieldMapping,
+            fieldConversions
+          ),
+          externalIdFieldMapping,
+          categoryOptions.optionMap
+        );
+        if (contactResolution) {
+          mappedFields = remapContactFields(
+            sourceItem,
+            mappedFields,
+            externalIdFieldMapping,
+            contactResolution
+          ).fields;
+        }
+        if (fieldTransforms) {
+          mappedFields = applyFieldTransforms(
+            sourceItem,
+            mappedFields,
+            externalIdFieldMapping,
+            fieldTransforms.transforms,
+            fieldTransforms.targetFields
+          );
+        }
+        if (relationshipIdMap) {
+          mappedFields = remapRelationshipFields(
+            sourceItem,
+            mappedFields,
+            externalIdFieldMapping,
+            relationshipIdMap
+          ).fields;
+        }
 
         // Attempt create
         const response = await createItem(
@@ -483,6 +649,7 @@ export class ItemMigrator {
             successfulCreates: successCount,
             failedCreates: errors.length,
             testItemIds,
+            missingCategoryOptions,
           };
         }
       }
@@ -499,6 +666,7 @@ export class ItemMigrator {
         successfulCreates: successCount,
         failedCreates: errors.length,
         testItemIds: [],
+        missingCategoryOptions,
       };
     }
 
@@ -508,6 +676,7 @@ export class ItemMigrator {
       successfulCreates: successCount,
       failedCreates: 0,
       testItemIds: [],
+      missingCategoryOptions,
     };
   }
 
@@ -538,7 +707,8 @@ export class ItemMigrator {
     targetItem: PodioItem,
     mappedFields: Record<string, unknown>,
     externalIdFieldMapping: Record<string, string>,
-    matchValue: unknown
+    matchValue: unknown,
+    fieldConversions?: FieldConversionPlan
   ): Promise<UpdatePreview> {
     const changes: FieldChange[] = [];
 
@@ -565,6 +735,7 @@ export class ItemMigrator {
         currentValue,
         newValue,
         willChange,
+        conversion: describeConversion(fieldConversions, targetExternalId),
       });
     }
 
@@ -611,13 +782,10 @@ export class ItemMigrator {
     sourceItem: PodioItem,
     mappedFields: Record<string, unknown>,
     matchValue: unknown | null,
-    targetAppId: number
+    targetAppId: number,
+    fieldConversions?: FieldConversionPlan
   ): Promise<CreatePreview> {
-    const fields: Array<{
-      fieldExternalId: string;
-      fieldLabel?: string;
-      value: unknown;
-    }> = [];
+    const fields: CreatePreview['fields'] = [];
 
     // Get target app structure for field labels
     const appStructureCache = getAppStructureCache();
@@ -633,6 +801,7 @@ export class ItemMigrator {
         fieldExternalId: targetExternalId,
         fieldLabel,
         value,
+        conversion: describeConversion(fieldConversions, targetExternalId),
       });
     }
 
@@ -706,7 +875,7 @@ export class ItemMigrator {
     let fileLogger: MigrationFileLogger | null = null;
     let updateStatsTracker: UpdateStatsTracker | null = null;
 
-    if (config.mode === 'update' || config.mode === 'upsert') {
+    if (config.mode === 'update' || config.mode === 'upsert' || config.mode === 'sync') {
       migrationLogger.info('Initializing UPDATE mode file logger', {
         migrationId: migrationJob.id,
         mode: config.mode,
@@ -756,6 +925,259 @@ export class ItemMigrator {
         ? await this.getCheckpointOffset(config.resumeToken)
         : 0;
 
+      // Relationship (app) fields are rewritten through the item ID map.
+      // References that are not mapped yet are deferred to the link-fixup pass.
+      const idMapJobId = config.jobId || migrationJob.id;
+      const relationshipIdMap = await this.loadRelationshipIdMap(config.sourceAppId, externalIdFieldMapping);
+      const unresolvedLinks = new Map<number, UnresolvedRelationship[]>();
+
+      const alreadyMigrated = config.skipMigratedItems
+        ? await itemIdMapStore.getMappings(idMapJobId)
+        : null;
+      let alreadyMigratedCount = 0;
+      const isAlreadyMigrated = (sourceItem: PodioItem): boolean => {
+        if (!alreadyMigrated?.has(sourceItem.item_id)) {
+          return false;
+        }
+        alreadyMigratedCount++;
+        return true;
+      };
+
+      // Sync mode updates items mirrored by earlier runs through the ID map
+      // and skips items not edited since the last run's watermark
+      const syncTargets = config.mode === 'sync'
+        ? await itemIdMapStore.getMappings(idMapJobId)
+        : null;
+      const syncEventTimes = new Map<number, string>();
+      let unchangedCount = 0;
+
+      // Category option IDs are matched by label; dry runs never add options to the target
+      const categoryOptions = await resolveCategoryOptions(
+        config.sourceAppId,
+        config.targetAppId,
+        externalIdFieldMapping,
+        { createMissing: config.createMissingCategoryOptions && !config.dryRun }
+      );
+      if (categoryOptions.missing.length > 0 || categoryOptions.created.length > 0) {
+        result.categoryOptions = {
+          missing: categoryOptions.missing,
+          created: categoryOptions.created,
+        };
+      }
+
+      // Contacts are re-pointed to target space members; unmatched ones surface as dry-run warnings
+      const contactResolution = config.contactMapping
+        ? await loadContactResolution(config.sourceAppId, config.targetAppId, externalIdFieldMapping, config.contactMapping)
+        : null;
+      const mappingWarnings: NonNullable<DryRunPreview['warnings']> = [];
+
+      // Value transforms run on mapped fields for real writes and dry-run previews alike
+      const fieldTransforms = await this.loadFieldTransforms(config);
+
+      // Cross-type pairs are converted; pairs without a converter are left out.
+      // Job creation rejects them, so this only happens when an app changed since.
+      const fieldConversions = await this.loadFieldConversions(config, externalIdFieldMapping);
+      if (fieldConversions.incompatible.length > 0) {
+        migrationLogger.warn('Skipping mapped fields with incompatible types', {
+          migrationId: migrationJob.id,
+          reason: describeIncompatibleFields(fieldConversions.incompatible),
+        });
+        if (config.dryRun) {
+          for (const pair of fieldConversions.incompatible) {
+            mappingWarnings.push({
+              fieldExternalId: pair.targetExternalId,
+              message: `${describeIncompatibleFields([pair])}; the field is skipped`,
+            });
+          }
+        }
+      }
+
+      const mapSourceItem = (sourceItem: PodioItem): Record<string, unknown> => {
+        let mappedFields = remapCategoryFields(
+          sourceItem,
+          convertFieldTypes(
+            sourceItem,
+            mapItemFields(sourceItem, externalIdFieldMapping),
+            externalIdFieldMapping,
+            fieldConversions
+          ),
+          externalIdFieldMapping,
+          categoryOptions.optionMap
+        );
+        if (contactResolution) {
+          const contacts = remapContactFields(sourceItem, mappedFields, externalIdFieldMapping, contactResolution);
+          mappedFields = contacts.fields;
+          if (contacts.unmatched.length > 0) {
+            if (config.dryRun) {
+              for (const contact of contacts.unmatched) {
+                mappingWarnings.push({
+                  sourceItemId: contact.sourceItemId,
+                  fieldExternalId: contact.targetFieldExternalId,
+                  message: describeUnmatchedContact(contact),
+                });
+              }
+            } else {
+              migrationLogger.warn('Contacts without a target space member', {
+                sourceItemId: sourceItem.item_id,
+                contacts: contacts.unmatched.map((contact) => `${contact.name} (${contact.fallback})`),
+              });
+            }
+          }
+        }
+        if (fieldTransforms) {
+          mappedFields = applyFieldTransforms(
+            sourceItem,
+            mappedFields,
+            externalIdFieldMapping,
+            fieldTransforms.transforms,
+            fieldTransforms.targetFields
+          );
+        }
+        if (!relationshipIdMap) {
+          return mappedFields;
+        }
+
+        const remapped = remapRelationshipFields(
+          sourceItem,
+          mappedFields,
+          externalIdFieldMapping,
+          relationshipIdMap
+        );
+        if (remapped.unresolved.length > 0) {
+          unresolvedLinks.set(sourceItem.item_id, remapped.unresolved);
+        }
+        return remapped.fields;
+      };
+
+      // Source -> target pairs are buffered and flushed to the ID map after each batch
+      const pendingIdMappings: ItemIdMapEntry[] = [];
+      const queueIdMapping = (sourceItemId: number, targetItemId: number) => {
+        relationshipIdMap?.set(sourceItemId, targetItemId);
+        pendingIdMappings.push({
+          sourceItemId,
+          targetItemId,
+          sourceAppId: config.sourceAppId,
+          targetAppId: config.targetAppId,
+          recordedAt: new Date().toISOString(),
+        });
+      };
+      const flushIdMappings = async () => {
+        if (pendingIdMappings.length === 0) {
+          return;
+        }
+        try {
+          await itemIdMapStore.recordMappings(idMapJobId, pendingIdMappings.splice(0));
+        } catch (error) {
+          migrationLogger.error('Failed to persist item ID mappings - relationships to these items will not resolve', {
+            migrationId: migrationJob.id,
+            idMapJobId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      };
+
+      // Created items are journaled per batch so the job can be rolled back
+      const pendingUndoEntries: UndoJournalEntry[] = [];
+      const flushUndoEntries = async () => {
+        if (pendingUndoEntries.length === 0) {
+          return;
+        }
+        try {
+          await itemIdMapStore.recordUndoEntries(idMapJobId, pendingUndoEntries.splice(0));
+        } catch (error) {
+          migrationLogger.error('Failed to persist undo journal - rollback will miss these items', {
+            migrationId: migrationJob.id,
+            idMapJobId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      };
+
+      // Comments and tasks are copied once each batch has been written; copies
+      // already journaled for this job are skipped so a resumed run does not repeat them
+      const copiedCommentIds = config.transferComments && !config.dryRun
+        ? await itemIdMapStore.getCopiedCommentIds(idMapJobId)
+        : null;
+      const copiedTaskIds = config.transferTasks && !config.dryRun
+        ? await itemIdMapStore.getCopiedTaskIds(idMapJobId)
+        : null;
+      const commentTransfer: CommentTransferCounts = { copied: 0, skipped: 0, failed: 0 };
+      const taskTransfer: TaskTransferCounts = { copied: 0, skipped: 0, failed: 0 };
+      const pendingActivityTransfers: Array<{ sourceItemId: number; targetItemId: number }> = [];
+      const queueActivityTransfer = (sourceItemId: number, targetItemId: number) => {
+        if (copiedCommentIds || copiedTaskIds) {
+          pendingActivityTransfers.push({ sourceItemId, targetItemId });
+        }
+      };
+      const flushActivityTransfers = async () => {
+        if (pendingActivityTransfers.length === 0) {
+          return;
+        }
+
+        const transfers = pendingActivityTransfers.splice(0);
+        const transferConcurrency = Math.max(1, config.concurrency || 5);
+
+        for (let i = 0; i < transfers.length; i += transferConcurrency) {
+          const chunk = transfers.slice(i, i + transferConcurrency);
+
+          if (copiedCommentIds) {
+            const outcomes = await Promise.all(
+              chunk.map(({ sourceItemId, targetItemId }) =>
+                transferItemComments(this.client, sourceItemId, targetItemId, copiedCommentIds)
+              )
+            );
+
+            for (const outcome of outcomes) {
+              commentTransfer.copied += outcome.copied;
+              commentTransfer.skipped += outcome.skipped;
+              commentTransfer.failed += outcome.failed;
+            }
+
+            try {
+              await itemIdMapStore.recordCommentMappings(
+                idMapJobId,
+                outcomes.flatMap(outcome => outcome.entries)
+              );
+            } catch (error) {
+              migrationLogger.error('Failed to journal copied comments - a resumed run may post them again', {
+                migrationId: migrationJob.id,
+                idMapJobId,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          }
+
+          if (copiedTaskIds) {
+            const outcomes = await Promise.all(
+              chunk.map(({ sourceItemId, targetItemId }) =>
+                transferItemTasks(this.client, sourceItemId, targetItemId, copiedTaskIds, {
+                  includeCompleted: config.includeCompletedTasks,
+                })
+              )
+            );
+
+            for (const outcome of outcomes) {
+              taskTransfer.copied += outcome.copied;
+              taskTransfer.skipped += outcome.skipped;
+              taskTransfer.failed += outcome.failed;
+            }
+
+            try {
+              await itemIdMapStore.recordTaskMappings(
+                idMapJobId,
+                outcomes.flatMap(outcome => outcome.entries)
+              );
+            } catch (error) {
+              migrationLogger.error('Failed to journal copied tasks - a resumed run may create them again', {
+                migrationId: migrationJob.id,
+                idMapJobId,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          }
+        }
+      };
+
       // Create batch processor (pass logger and stats tracker for UPDATE mode)
       const processor = new ItemBatchProcessor(
         this.client,
@@ -771,6 +1193,9 @@ export class ItemMigrator {
         updateStatsTracker || undefined
       );
 
+      // Live events for the job's SSE stream, keyed like the ID map
+      const eventJobId = config.jobId || migrationJob.id;
+
       // Set up progress tracking
       processor.on('progress', async (stats) => {
         migrationLogger.info('Migration progress', {
@@ -782,6 +1207,17 @@ export class ItemMigrator {
         result.successful = stats.successful;
         result.failed = stats.failed;
 
+        publishJobEvent(eventJobId, {
+          type: 'progress',
+          progress: {
+            total: stats.total || 0,
+            processed: stats.processed,
+            successful: stats.successful,
+            failed: stats.failed,
+            percent: stats.percent,
+          },
+        });
+
         // Call onProgress callback if provided
         if (config.onProgress) {
           await config.onProgress({
@@ -789,6 +1225,8 @@ export class ItemMigrator {
             processed: stats.processed,
             successful: stats.successful,
             failed: stats.failed,
+            tasks: copiedTaskIds ? { ...taskTransfer } : undefined,
+            comments: copiedCommentIds ? { ...commentTransfer } : undefined,
           });
         }
       });
@@ -799,6 +1237,8 @@ export class ItemMigrator {
           index,
           error,
         });
+
+        publishJobEvent(eventJobId, { type: 'error', error: { message: error } });
       });
 
       // Track rate limit pause timing
@@ -813,6 +1253,15 @@ export class ItemMigrator {
           ...payload,
         });
 
+        publishJobEvent(eventJobId, {
+          type: 'rate_limit_paused',
+          rateLimit: {
+            remaining: payload.remaining,
+            limit: payload.limit,
+            resumeAt: payload.resumeAt.toISOString(),
+          },
+        });
+
         if (config.onRateLimitPause) {
           try {
             await config.onRateLimitPause({
@@ -840,6 +1289,8 @@ export class ItemMigrator {
           pauseDurationMs,
         });
 
+        publishJobEvent(eventJobId, { type: 'rate_limit_resumed', rateLimit: { pauseDurationMs } });
+
         if (config.onRateLimitResume) {
           try {
             await config.onRateLimitResume({ pauseDurationMs });
@@ -852,9 +1303,11 @@ export class ItemMigrator {
         }
       });
 
-      // Get match field info if provided
-      const sourceMatchField = config.sourceMatchField;
-      const targetMatchField = config.targetMatchField;
+      // Get match key info if provided
+      const sourceMatchKey = hasMatchKey(config.sourceMatchField) ? config.sourceMatchField : undefined;
+      const targetMatchKey = hasMatchKey(config.targetMatchField) ? config.targetMatchField : undefined;
+      const sourceMatchField = describeMatchKey(sourceMatchKey);
+      const targetMatchField = describeMatchKey(targetMatchKey);
       const duplicateBehavior = config.duplicateBehavior || 'skip';
 
       // LOG: Configuration received
@@ -872,6 +1325,7 @@ export class ItemMigrator {
 
       // Prepare collections for different operations
       const itemsToCreate: CreateItemRequest[] = [];
+      const createSourceItemIds: number[] = []; // Aligned with itemsToCreate
       const itemsToUpdate: Array<{ itemId: number; fields: Record<string, unknown>; sourceItemId?: number }> = [];
 
       // Dry-run mode: track additional info for preview
@@ -914,7 +1368,7 @@ export class ItemMigrator {
       // Initialize pre-fetch cache if duplicate checking is enabled
       // BUT skip it in retry mode (we don't need duplicate detection for retries)
       let prefetchCache: PrefetchCache | null = null;
-      if (!isRetry && sourceMatchField && targetMatchField) {
+      if (!isRetry && sourceMatchKey && targetMatchKey) {
         prefetchCache = new PrefetchCache();
         migrationLogger.info('Starting pre-fetch of target items', {
           targetAppId: config.targetAppId,
@@ -926,7 +1380,7 @@ export class ItemMigrator {
           const prefetchStats: PrefetchRunStats = await prefetchCache.prefetchTargetItems(
             this.client,
             config.targetAppId,
-            targetMatchField,
+            targetMatchKey,
             fileLogger || undefined,  // Pass logger for UPDATE mode logging
             config.prefetchTimeoutMs,
             config.prefetchHealthCheckIntervalMs
@@ -1057,7 +1511,11 @@ export class ItemMigrator {
               break;
             }
 
-            const mappedFields = mapItemFields(sourceItem, externalIdFieldMapping);
+            if (isAlreadyMigrated(sourceItem)) {
+              continue;
+            }
+
+            const mappedFields = mapSourceItem(sourceItem);
 
             // For retry mode, simply recreate the items without duplicate detection
             // (items failed for transient reasons like rate limits, not duplicates)
@@ -1065,6 +1523,7 @@ export class ItemMigrator {
               fields: mappedFields,
               external_id: `migrated-${sourceItem.item_id}`,
             });
+            createSourceItemIds.push(sourceItem.item_id);
           }
 
           // Stop processing retry batches if we've reached the limit
@@ -1110,14 +1569,47 @@ export class ItemMigrator {
               break;
             }
 
-            const mappedFields = mapItemFields(sourceItem, externalIdFieldMapping);
+            if (isAlreadyMigrated(sourceItem)) {
+              continue;
+            }
+
+            if (syncTargets) {
+              if (!isEditedSince(sourceItem, config.syncWatermark)) {
+                unchangedCount++;
+                continue;
+              }
+              if (sourceItem.last_event_on) {
+                syncEventTimes.set(sourceItem.item_id, sourceItem.last_event_on);
+              }
+            }
+
+            const mappedFields = mapSourceItem(sourceItem);
+
+            // SYNC mode: items mirrored by an earlier run are updated in place
+            const syncTargetItemId = syncTargets?.get(sourceItem.item_id);
+            if (syncTargetItemId) {
+              itemsToUpdate.push({
+                itemId: syncTargetItemId,
+                fields: mappedFields,
+                sourceItemId: sourceItem.item_id,
+              });
+              if (config.dryRun) {
+                dryRunUpdateInfo.push({
+                  sourceItem,
+                  targetItemId: syncTargetItemId,
+                  matchValue: null,
+                  fields: mappedFields,
+                });
+              }
+              continue;
+            }
 
             // Handle different migration modes
-            // UPSERT mode is treated like CREATE with effective duplicate behavior = 'update'
-            if (config.mode === 'create' || config.mode === 'upsert') {
-              // Determine effective duplicate behavior (UPSERT always updates duplicates)
+            // UPSERT and new SYNC items are treated like CREATE with effective duplicate behavior = 'update'
+            if (config.mode === 'create' || config.mode === 'upsert' || config.mode === 'sync') {
+              // Determine effective duplicate behavior (UPSERT/SYNC always update duplicates)
               const effectiveDuplicateBehavior: DuplicateBehavior =
-                config.mode === 'upsert' ? 'update' : (duplicateBehavior || 'skip');
+                config.mode === 'create' ? (duplicateBehavior || 'skip') : 'update';
 
               // LOG: Check duplicate condition
               migrationLogger.debug('Checking duplicate condition', {
@@ -1131,22 +1623,20 @@ export class ItemMigrator {
               });
 
               // CREATE/UPSERT mode: optionally check for duplicates
-              if (sourceMatchField && targetMatchField) {
-                // Extract match field value from source item
-                const sourceField = sourceItem.fields.find(
-                  (f) => f.external_id === sourceMatchField
-                );
+              if (sourceMatchKey && targetMatchKey) {
+                // Extract match key values from source item
+                const sourceMatch = extractMatchKey(sourceItem, sourceMatchKey);
 
                 migrationLogger.debug('Duplicate check - extracting source field', {
                   sourceItemId: sourceItem.item_id,
                   sourceMatchField,
-                  sourceFieldFound: !!sourceField,
-                  sourceFieldType: sourceField?.type,
+                  sourceFieldFound: sourceMatch.missingFields.length === 0,
+                  missingFields: sourceMatch.missingFields,
                 });
 
-                if (sourceField) {
-                  const matchValue = extractFieldValue(sourceField);
-                  const normalizedMatchValue = normalizeForMatch(matchValue);
+                if (sourceMatch.missingFields.length === 0) {
+                  const matchValue = sourceMatch.value;
+                  const normalizedMatchValue = sourceMatch.key;
                   const maskedMatchValue = maskPII(matchValue);
                   const maskedNormalizedMatchValue = maskPII(normalizedMatchValue);
 
@@ -1163,7 +1653,7 @@ export class ItemMigrator {
 
                   // Use pre-fetch cache for instant O(1) duplicate lookup (NO API call)
                   // Use getExistingItemId() for memory efficiency (avoids storing full PodioItems)
-                  const existingItemId = prefetchCache?.getExistingItemId(matchValue) || null;
+                  const existingItemId = prefetchCache?.getExistingItemIdByKey(normalizedMatchValue, matchValue) || null;
 
                   const traceId = `${migrationJob.id}:${sourceItem.item_id}:${Date.now()}`;
 
@@ -1194,6 +1684,11 @@ export class ItemMigrator {
 
                     if (effectiveDuplicateBehavior === 'skip') {
                       skippedCount++;
+
+                      // The existing target item stands in for the source item in relationships
+                      if (!config.dryRun) {
+                        queueIdMapping(sourceItem.item_id, existingItemId);
+                      }
                       logDuplicateDetection(
                         migrationJob.id,
                         traceId,
@@ -1214,7 +1709,7 @@ export class ItemMigrator {
                           sourceItemId: sourceItem.item_id,
                           targetItemId: existingItemId,
                           matchValue,
-                          reason: `Duplicate found for ${sourceMatchField}=${matchValue} - would be skipped`,
+                          reason: `Duplicate found for ${sourceMatchField}=${sourceMatch.label} - would be skipped`,
                         });
                       }
                       continue;
@@ -1224,12 +1719,12 @@ export class ItemMigrator {
                         dryRunFailedMatches.push({
                           sourceItemId: sourceItem.item_id,
                           matchValue,
-                          reason: `Duplicate found for ${sourceMatchField}=${matchValue} - would fail with error`,
+                          reason: `Duplicate found for ${sourceMatchField}=${sourceMatch.label} - would fail with error`,
                         });
                         continue;
                       } else {
                         throw new Error(
-                          `Duplicate item found for ${sourceMatchField}=${maskedMatchValue} (source: ${sourceItem.item_id}, target: ${existingItemId})`
+                          `Duplicate item found for ${sourceMatchField}=${maskPII(sourceMatch.label)} (source: ${sourceItem.item_id}, target: ${existingItemId})`
                         );
                       }
                     } else if (effectiveDuplicateBehavior === 'update') {
@@ -1298,6 +1793,7 @@ export class ItemMigrator {
                   migrationLogger.warn('Duplicate check - source match field not found, skipping item', {
                     sourceItemId: sourceItem.item_id,
                     sourceMatchField,
+                    missingFields: sourceMatch.missingFields,
                     availableFields: sourceItem.fields.map(f => f.external_id),
                   });
 
@@ -1307,7 +1803,7 @@ export class ItemMigrator {
                       sourceItemId: sourceItem.item_id,
                       targetItemId: null,
                       matchValue: null,
-                      reason: `Source match field '${sourceMatchField}' not found in item - would be skipped`,
+                      reason: `Source match field '${sourceMatch.missingFields.join("', '")}' not found in item - would be skipped`,
                     });
                   }
 
@@ -1321,17 +1817,16 @@ export class ItemMigrator {
                 fields: mappedFields,
                 external_id: `migrated-${sourceItem.item_id}`,
               });
+              createSourceItemIds.push(sourceItem.item_id);
 
               // Dry-run mode: capture create info
               if (config.dryRun) {
                 // Extract match value if match fields are set
                 let capturedMatchValue: unknown | null = null;
-                if (sourceMatchField) {
-                  const sourceField = sourceItem.fields.find(
-                    (f) => f.external_id === sourceMatchField
-                  );
-                  if (sourceField) {
-                    capturedMatchValue = extractFieldValue(sourceField);
+                if (sourceMatchKey) {
+                  const sourceMatch = extractMatchKey(sourceItem, sourceMatchKey);
+                  if (sourceMatch.missingFields.length === 0) {
+                    capturedMatchValue = sourceMatch.value;
                   }
                 }
 
@@ -1343,17 +1838,15 @@ export class ItemMigrator {
               }
             } else if (config.mode === 'update') {
               // UPDATE mode: find item by match field and update
-              if (!sourceMatchField || !targetMatchField) {
+              if (!sourceMatchKey || !targetMatchKey) {
                 throw new Error('UPDATE mode requires both sourceMatchField and targetMatchField to be set');
               }
 
-              const sourceField = sourceItem.fields.find(
-                (f) => f.external_id === sourceMatchField
-              );
+              const sourceMatch = extractMatchKey(sourceItem, sourceMatchKey);
 
-              if (sourceField) {
-                const matchValue = extractFieldValue(sourceField);
-                const normalizedKey = normalizeForMatch(matchValue);
+              if (sourceMatch.missingFields.length === 0) {
+                const matchValue = sourceMatch.value;
+                const normalizedKey = sourceMatch.key;
 
                 // Log match lookup attempt (fire-and-forget for performance)
                 if (fileLogger) {
@@ -1367,7 +1860,7 @@ export class ItemMigrator {
 
                 // Use pre-fetch cache for instant lookup (NO API call)
                 // Use getExistingItemId() for memory efficiency (avoids storing full PodioItems)
-                const existingItemId = prefetchCache?.getExistingItemId(matchValue) || null;
+                const existingItemId = prefetchCache?.getExistingItemIdByKey(normalizedKey, matchValue) || null;
 
                 if (existingItemId) {
                   // Match found - cache hit (log fire-and-forget for performance)
@@ -1444,7 +1937,7 @@ export class ItemMigrator {
                   // Track failed match
                   const failedMatch = {
                     sourceItemId: sourceItem.item_id,
-                    error: `No matching item found for ${sourceMatchField}=${matchValue}`,
+                    error: `No matching item found for ${sourceMatchField}=${sourceMatch.label}`,
                     index: result.failedItems.length,
                   };
                   result.failedItems.push(failedMatch);
@@ -1454,7 +1947,7 @@ export class ItemMigrator {
                     const failedItemDetail = {
                       sourceItemId: sourceItem.item_id,
                       targetItemId: undefined,
-                      error: `No matching item found for ${sourceMatchField}=${matchValue}`,
+                      error: `No matching item found for ${sourceMatchField}=${sourceMatch.label}`,
                       errorCategory: 'validation' as const,
                       attemptCount: 1,
                       firstAttemptAt: new Date(),
@@ -1472,7 +1965,7 @@ export class ItemMigrator {
                     dryRunFailedMatches.push({
                       sourceItemId: sourceItem.item_id,
                       matchValue,
-                      reason: `No matching item found for ${sourceMatchField}=${matchValue}`,
+                      reason: `No matching item found for ${sourceMatchField}=${sourceMatch.label}`,
                     });
                   }
                 }
@@ -1481,6 +1974,7 @@ export class ItemMigrator {
                 migrationLogger.warn('UPDATE mode - source match field not found, skipping item', {
                   sourceItemId: sourceItem.item_id,
                   sourceMatchField,
+                  missingFields: sourceMatch.missingFields,
                   availableFields: sourceItem.fields.map(f => f.external_id),
                 });
 
@@ -1489,6 +1983,7 @@ export class ItemMigrator {
                   void fileLogger.logMatch('WARN', 'update_source_field_missing', {
                     sourceItemId: sourceItem.item_id,
                     expectedField: sourceMatchField,
+                    missingFields: sourceMatch.missingFields,
                     availableFields: sourceItem.fields.map(f => f.external_id),
                   });
 
@@ -1496,6 +1991,7 @@ export class ItemMigrator {
                   void fileLogger.logFailure('update_source_field_missing', {
                     sourceItemId: sourceItem.item_id,
                     expectedField: sourceMatchField,
+                    missingFields: sourceMatch.missingFields,
                     availableFields: sourceItem.fields.map(f => f.external_id),
                     reason: 'Source match field not found in source item',
                     suggestion: 'Check that source app has the expected match field',
@@ -1509,7 +2005,7 @@ export class ItemMigrator {
 
                 const failedMatch = {
                   sourceItemId: sourceItem.item_id,
-                  error: `Source match field '${sourceMatchField}' not found in item`,
+                  error: `Source match field '${sourceMatch.missingFields.join("', '")}' not found in item`,
                   index: result.failedItems.length,
                 };
                 result.failedItems.push(failedMatch);
@@ -1519,7 +2015,7 @@ export class ItemMigrator {
                   const failedItemDetail = {
                     sourceItemId: sourceItem.item_id,
                     targetItemId: undefined,
-                    error: `Source match field '${sourceMatchField}' not found in item`,
+                    error: `Source match field '${sourceMatch.missingFields.join("', '")}' not found in item`,
                     errorCategory: 'validation' as const,
                     attemptCount: 1,
                     firstAttemptAt: new Date(),
@@ -1537,7 +2033,7 @@ export class ItemMigrator {
                   dryRunFailedMatches.push({
                     sourceItemId: sourceItem.item_id,
                     matchValue: null,
-                    reason: `Source match field '${sourceMatchField}' not found in item`,
+                    reason: `Source match field '${sourceMatch.missingFields.join("', '")}' not found in item`,
                   });
                 }
               }
@@ -1579,11 +2075,13 @@ export class ItemMigrator {
         itemsToUpdate: itemsToUpdate.length,
         duplicatesSkipped: skippedCount,
         duplicatesUpdated: updatedDuplicatesCount,
+        alreadyMigrated: alreadyMigratedCount,
+        unchangedSinceWatermark: unchangedCount,
         cacheStats: prefetchCache?.getCacheStats() || null,
       });
 
       // Provide total items for stats in UPDATE/UPSERT non-dry-run flows
-      if (updateStatsTracker && (config.mode === 'update' || config.mode === 'upsert') && !config.dryRun) {
+      if (updateStatsTracker && (config.mode === 'update' || config.mode === 'upsert' || config.mode === 'sync') && !config.dryRun) {
         updateStatsTracker.setTotalItems(itemsToUpdate.length);
       }
 
@@ -1603,10 +2101,70 @@ export class ItemMigrator {
         });
       }
 
+      // Record source -> target pairs as items are written
+      let activeOperation: 'create' | 'update' | null = null;
+      let idMapWrites: Promise<void> = Promise.resolve();
+
+      processor.on('itemSuccess', (index: number, item: unknown) => {
+        if (activeOperation === 'create') {
+          const sourceItemId = createSourceItemIds[index];
+          const targetItemId = (item as { item_id?: number }).item_id;
+          if (typeof targetItemId === 'number') {
+            pendingUndoEntries.push({
+              operation: 'created',
+              targetItemId,
+              sourceItemId,
+              recordedAt: new Date().toISOString(),
+            });
+          }
+          if (sourceItemId !== undefined && typeof targetItemId === 'number') {
+            queueIdMapping(sourceItemId, targetItemId);
+            queueActivityTransfer(sourceItemId, targetItemId);
+          }
+        } else if (activeOperation === 'update') {
+          const update = itemsToUpdate[index];
+          if (update?.sourceItemId !== undefined) {
+            queueIdMapping(update.sourceItemId, update.itemId);
+            queueActivityTransfer(update.sourceItemId, update.itemId);
+          }
+        }
+      });
+
+      processor.on('batchComplete', () => {
+        idMapWrites = idMapWrites.then(flushIdMappings).then(flushUndoEntries).then(flushActivityTransfers);
+      });
+
+      // Persist deferred relationship links before writing, so an interrupted
+      // run can still be fixed up later. Skipped duplicates are not rewritten.
+      if (unresolvedLinks.size > 0 && !config.dryRun) {
+        const queuedSourceItemIds = new Set<number>([
+          ...createSourceItemIds,
+          ...itemsToUpdate.map(update => update.sourceItemId ?? 0),
+        ]);
+        const recordedAt = new Date().toISOString();
+        const pendingLinks: PendingLinkEntry[] = [];
+
+        for (const [sourceItemId, links] of unresolvedLinks) {
+          if (!queuedSourceItemIds.has(sourceItemId)) {
+            continue;
+          }
+          for (const link of links) {
+            pendingLinks.push({ sourceItemId, ...link, recordedAt });
+          }
+        }
+
+        await itemIdMapStore.recordPendingLinks(idMapJobId, pendingLinks);
+        migrationLogger.info('Deferred unresolved relationship links to link-fixup pass', {
+          migrationId: migrationJob.id,
+          idMapJobId,
+          pendingLinks: pendingLinks.length,
+        });
+      }
+
       // Process updates first (if any)
-      // NOTE: Only UPDATE and UPSERT modes should update items. CREATE mode should never update.
+      // NOTE: Only UPDATE, UPSERT and SYNC modes should update items. CREATE mode should never update.
       let updateResult;
-      if (itemsToUpdate.length > 0 && (config.mode === 'update' || config.mode === 'upsert')) {
+      if (itemsToUpdate.length > 0 && config.mode !== 'create') {
         // DRY-RUN MODE: Generate preview instead of executing updates (applies to all modes)
         if (config.dryRun) {
           migrationLogger.info('Dry-run mode: Generating update preview', {
@@ -1631,7 +2189,8 @@ export class ItemMigrator {
               targetItem,
               updateInfo.fields,
               externalIdFieldMapping,
-              updateInfo.matchValue
+              updateInfo.matchValue,
+              fieldConversions
             );
 
             // Skip items with no changes
@@ -1680,6 +2239,9 @@ export class ItemMigrator {
             count: itemsToUpdate.length,
           });
 
+          await journalUpdateSnapshots(this.client, idMapJobId, itemsToUpdate);
+
+          activeOperation = 'update';
           try {
             updateResult = await processor.processUpdate(itemsToUpdate);
             // Note: result.successful/failed/processed already updated by progress event handler
@@ -1710,9 +2272,9 @@ export class ItemMigrator {
       }
 
       // Process creates (if any)
-      // NOTE: Only CREATE and UPSERT modes should create items. UPDATE mode should never create.
+      // NOTE: Only CREATE, UPSERT and SYNC modes should create items. UPDATE mode should never create.
       let createResult;
-      if (itemsToCreate.length > 0 && (config.mode === 'create' || config.mode === 'upsert')) {
+      if (itemsToCreate.length > 0 && config.mode !== 'update') {
         // DRY-RUN MODE: Generate preview instead of executing creates (applies to all modes)
         if (config.dryRun) {
           migrationLogger.info('Dry-run mode: Generating create preview', {
@@ -1727,14 +2289,15 @@ export class ItemMigrator {
               createInfo.sourceItem,
               createInfo.fields,
               createInfo.matchValue,
-              config.targetAppId
+              config.targetAppId,
+              fieldConversions
             );
             createPreviews.push(preview);
           }
 
           // Build dry-run preview result for CREATE mode
           // For UPSERT mode, merge with existing update preview if present
-          if (config.mode === 'upsert' && result.dryRunPreview) {
+          if ((config.mode === 'upsert' || config.mode === 'sync') && result.dryRunPreview) {
             // Merge create preview into existing update preview
             const existingPreview = result.dryRunPreview;
             result.dryRunPreview = {
@@ -1771,7 +2334,7 @@ export class ItemMigrator {
 
           // In dry-run mode, mark everything as successful (no actual execution)
           // For UPSERT, include both creates and updates in success count
-          if (config.mode === 'upsert' && result.dryRunPreview) {
+          if ((config.mode === 'upsert' || config.mode === 'sync') && result.dryRunPreview) {
             result.successful = createPreviews.length + (result.dryRunPreview.summary.wouldUpdateCount || 0);
             result.processed = result.dryRunPreview.summary.totalSourceItems;
 
@@ -1798,6 +2361,7 @@ export class ItemMigrator {
             count: itemsToCreate.length,
           });
 
+          activeOperation = 'create';
           try {
             createResult = await processor.processCreate(itemsToCreate);
             // Note: result.successful/failed/processed already updated by progress event handler
@@ -1827,6 +2391,45 @@ export class ItemMigrator {
         }
       }
 
+      activeOperation = null;
+
+      if (result.dryRunPreview && mappingWarnings.length > 0) {
+        result.dryRunPreview.warnings = mappingWarnings;
+        result.dryRunPreview.summary.warningCount = mappingWarnings.length;
+      }
+
+      // Flush the ID map, then resolve deferred links for this and earlier jobs
+      if (!config.dryRun) {
+        await idMapWrites;
+        await flushIdMappings();
+        await flushUndoEntries();
+        await flushActivityTransfers();
+
+        if (copiedCommentIds) {
+          result.commentTransfer = commentTransfer;
+          migrationLogger.info('Comment transfer complete', {
+            migrationId: migrationJob.id,
+            ...commentTransfer,
+          });
+        }
+
+        if (copiedTaskIds) {
+          result.taskTransfer = taskTransfer;
+          migrationLogger.info('Task transfer complete', {
+            migrationId: migrationJob.id,
+            ...taskTransfer,
+          });
+        }
+
+        const linkFixup = await this.runLinkFixup(idMapJobId, {
+          idMap: relationshipIdMap ?? undefined,
+          concurrency: config.concurrency,
+        });
+        if (linkFixup.resolved + linkFixup.pending + linkFixup.failed > 0) {
+          result.linkFixup = linkFixup;
+        }
+      }
+
       // Consolidate failed items and save to state with error classification
       if (updateResult) {
         const failedDetails: FailedItemDetail[] = [];
@@ -1911,6 +2514,25 @@ export class ItemMigrator {
         });
       }
 
+      // Unstreamed items may be older than the ones seen, so a run cut short
+      // by maxItems keeps the previous watermark
+      if (syncTargets && !config.dryRun) {
+        result.syncWatermark = maxItemsReached
+          ? config.syncWatermark
+          : advanceSyncWatermark(
+              config.syncWatermark,
+              syncEventTimes,
+              result.failedItems.map(item => item.sourceItemId)
+            );
+        migrationLogger.info('Sync watermark computed', {
+          previous: config.syncWatermark,
+          next: result.syncWatermark,
+          changedItems: syncEventTimes.size,
+          unchangedItems: unchangedCount,
+          failedItems: result.failedItems.length,
+        });
+      }
+
       result.completed = true;
 
       // Log final UPDATE mode statistics
@@ -1919,7 +2541,7 @@ export class ItemMigrator {
       }
 
       // Log final completion for UPDATE mode
-      if (fileLogger && (config.mode === 'update' || config.mode === 'upsert')) {
+      if (fileLogger && config.mode !== 'create') {
         await fileLogger.logMigration('INFO', 'update_mode_migration_completed', {
           migrationId: migrationJob.id,
           mode: config.mode,
@@ -1978,6 +2600,109 @@ export class ItemMigrator {
     return result;
   }
 
+  /**
+   * Run the link-fixup pass for a job and for any other jobs still holding pending links
+   * Items migrated by this job may be the missing targets of earlier jobs' references.
+   */
+  async runLinkFixup(
+    jobId: string,
+    options: { idMap?: ReadonlyMap<number, number>; concurrency?: number } = {}
+  ): Promise<LinkFixupResult> {
+    const total: LinkFixupResult = { resolved: 0, pending: 0, failed: 0 };
+    const jobIds = new Set([jobId, ...(await itemIdMapStore.listJobsWithPendingLinks())]);
+    const idMap = options.idMap ?? await itemIdMapStore.loadAllMappings();
+
+    for (const pendingJobId of jobIds) {
+      try {
+        const fixup = await resolvePendingLinks(this.client, pendingJobId, {
+          idMap,
+          concurrency: options.concurrency,
+        });
+        total.resolved += fixup.resolved;
+        total.pending += fixup.pending;
+        total.failed += fixup.failed;
+      } catch (error) {
+        migrationLogger.error('Link-fixup pass failed for job', {
+          jobId: pendingJobId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Convert the configured value transforms to external IDs and load the
+   * target fields they are coerced against. Returns null when there are none
+   */
+  private async loadFieldTransforms(
+    config: MigrationConfig
+  ): Promise<{ transforms: FieldTransforms; targetFields: AppField[] } | null> {
+    if (!config.fieldTransforms || Object.keys(config.fieldTransforms).length === 0) {
+      return null;
+    }
+
+    const transforms = await convertFieldTransformsToExternalIds(config.fieldTransforms, config.sourceAppId);
+    const targetApp = await getAppStructureCache().getAppStructure(config.targetAppId);
+
+    migrationLogger.info('Loaded field value transforms', {
+      sourceAppId: config.sourceAppId,
+      transformedFields: Object.keys(transforms).length,
+    });
+
+    return { transforms, targetFields: targetApp.fields || [] };
+  }
+
+  /**
+   * Find the type converters for the mapped field pairs
+   */
+  private async loadFieldConversions(
+    config: MigrationConfig,
+    externalIdFieldMapping: Record<string, string>
+  ): Promise<FieldConversionPlan> {
+    const cache = getAppStructureCache();
+    const [sourceApp, targetApp] = await Promise.all([
+      cache.getAppStructure(config.sourceAppId),
+      cache.getAppStructure(config.targetAppId),
+    ]);
+
+    const plan = planFieldConversions(sourceApp.fields || [], targetApp.fields || [], externalIdFieldMapping);
+    if (plan.conversions.size > 0) {
+      migrationLogger.info('Converting mapped fields to their target types', {
+        sourceAppId: config.sourceAppId,
+        targetAppId: config.targetAppId,
+        conversions: [...plan.conversions.values()].map((c) => `${c.sourceType} → ${c.targetType}`),
+      });
+    }
+    return plan;
+  }
+
+  /**
+   * Load the item ID map when the mapping includes `app` relationship fields
+   * Returns null when there is nothing to remap
+   */
+  private async loadRelationshipIdMap(
+    sourceAppId: number,
+    externalIdFieldMapping: Record<string, string>
+  ): Promise<Map<number, number> | null> {
+    const sourceApp = await getAppStructureCache().getAppStructure(sourceAppId);
+    const hasRelationshipFields = (sourceApp.fields || []).some(
+      (field) => field.type === 'app' && !!externalIdFieldMapping[field.external_id]
+    );
+
+    if (!hasRelationshipFields) {
+      return null;
+    }
+
+    const idMap = await itemIdMapStore.loadAllMappings();
+    migrationLogger.info('Loaded item ID map for relationship remapping', {
+      sourceAppId,
+      mappedItems: idMap.size,
+    });
+    return idMap;
+  }
+
   /**
    * Resume a migration from checkpoint
    */
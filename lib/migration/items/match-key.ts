@@ -0,0 +1,238 @@
+/**
+ * Match keys for duplicate detection
+ *
+ * A match key is a single field external_id or a list of fields that must all
+ * match, each compared with its own normalization. Apps that only identify a
+ * record by a combination of fields (first name + last name + date of birth)
+ * key their items by all of them.
+ *
+ * The normalized key of a single-field key with default normalization is the
+ * value `normalizeMatchValue` produces, so existing single-field jobs keep
+ * matching exactly as before.
+ */
+
+import { PodioItem, PodioItemField, extractFieldValue } from '../../podio/resources/items';
+import { MatchKey, MatchKeyField, MatchNormalization } from './types';
+
+export const MATCH_NORMALIZATIONS: readonly MatchNormalization[] = ['default', 'text', 'digits', 'date'];
+
+/** Joins the normalized parts of a composite key; never appears in field values */
+const KEY_SEPARATOR = '\u001f';
+
+/**
+ * Normalize a value for consistent matching
+ * Handles strings, numbers, arrays, and objects
+ *
+ * Returns empty string for "empty" values: null, undefined, ""
+ * Note: 0 and false are VALID values and will be matched
+ * Caller should skip empty values (don't match empty to empty)
+ */
+export function normalizeMatchValue(value: unknown): string {
+  // Only treat null, undefined, and empty string as empty
+  // 0 and false are VALID values that should be matched
+  if (
+    value === null ||
+    value === undefined ||
+    value === ''
+  ) {
+    return '';
+  }
+
+  // Handle false explicitly (normalize to "false" string)
+  if (value === false) {
+    return 'false';
+  }
+
+  // Handle zero explicitly (normalize to "0" string)
+  if (value === 0) {
+    return '0';
+  }
+
+  // Handle arrays (multi-value fields)
+  if (Array.isArray(value)) {
+    // Sort array elements for consistent comparison
+    const normalized = value
+      .map(v => normalizeMatchValue(v))
+      .filter(v => v !== '') // Filter out empty values
+      .sort()
+      .join(',');
+
+    // If all values were empty, return empty string
+    return normalized || '';
+  }
+
+  // Handle objects (extract meaningful identifiers)
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    // Try common ID fields
+    if ('item_id' in obj) return String(obj.item_id);
+    if ('profile_id' in obj) return String(obj.profile_id);
+    if ('user_id' in obj) return String(obj.user_id);
+
+    // Handle nested value property (common in Podio fields)
+    if ('value' in obj) return normalizeMatchValue(obj.value);
+
+    // Fallback to JSON representation
+    return JSON.stringify(obj);
+  }
+
+  // Numbers: preserve numeric semantics without changing magnitude
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  // Handle string numbers - parse and normalize without rounding
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+
+    if (trimmed !== '') {
+      const numericValue = Number(trimmed);
+      if (Number.isFinite(numericValue)) {
+        // Keep canonical numeric form (e.g., "678.90" -> "678.9")
+        return String(numericValue);
+      }
+    }
+
+    // Not a number - normalize as text (lowercase, trim edges only)
+    return trimmed.toLowerCase();
+  }
+
+  // Handle primitives (boolean already handled above)
+  return String(value).trim().toLowerCase();
+}
+
+/**
+ * Flatten a field value to its text parts
+ * Arrays contribute every entry, `{ value }` wrappers their value and dates their start.
+ */
+function valueParts(value: unknown): string[] {
+  if (value === null || value === undefined || value === '') {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(valueParts);
+  }
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if ('start' in obj) return valueParts(obj.start);
+    if ('value' in obj) return valueParts(obj.value);
+    return [];
+  }
+  return [String(value)];
+}
+
+function normalizeParts(value: unknown, normalizePart: (part: string) => string): string {
+  return valueParts(value).map(normalizePart).filter(Boolean).sort().join(',');
+}
+
+/**
+ * Normalize one match key field value
+ * @returns empty string when the value is empty after normalization
+ */
+export function normalizeMatchComponent(value: unknown, normalize: MatchNormalization = 'default'): string {
+  switch (normalize) {
+    case 'text':
+      return normalizeParts(value, (part) =>
+        part
+          .normalize('NFKD')
+          .replace(/[\u0300-\u036f]/g, '')
+          .toLowerCase()
+          .replace(/[^\p{L}\p{N}]+/gu, '')
+      );
+    case 'digits':
+      return normalizeParts(value, (part) => part.replace(/\D/g, ''));
+    case 'date':
+      return normalizeParts(value, (part) => /^\d{4}-\d{2}-\d{2}/.exec(part.trim())?.[0] ?? '');
+    default:
+      return normalizeMatchValue(value);
+  }
+}
+
+/**
+ * Fields of a match key; empty when no key is set
+ */
+export function matchKeyFields(matchKey: MatchKey | null | undefined): MatchKeyField[] {
+  if (!matchKey) {
+    return [];
+  }
+  if (typeof matchKey === 'string') {
+    return [{ field: matchKey }];
+  }
+  return matchKey.filter((keyField) => !!keyField.field);
+}
+
+/**
+ * Whether a match key has at least one field
+ */
+export function hasMatchKey(matchKey: MatchKey | null | undefined): matchKey is MatchKey {
+  return matchKeyFields(matchKey).length > 0;
+}
+
+/**
+ * Readable form of a match key for logs and messages, e.g. "first-name + last-name + birthday (date)"
+ */
+export function describeMatchKey(matchKey: MatchKey | null | undefined): string {
+  return matchKeyFields(matchKey)
+    .map(({ field, normalize }) => (normalize && normalize !== 'default' ? `${field} (${normalize})` : field))
+    .join(' + ');
+}
+
+/**
+ * Readable form of a normalized key, e.g. "ann + lee + 1990-04-01"
+ */
+export function formatMatchKey(key: string): string {
+  return key.split(KEY_SEPARATOR).join(' + ');
+}
+
+/**
+ * Match key value of an item
+ */
+export interface ExtractedMatchKey {
+  /** Raw field value for a single-field key, one raw value per field for a composite key */
+  value: unknown;
+  /** Lookup key; empty when any field of the key is empty (empties never match) */
+  key: string;
+  /** Readable value of each field, e.g. ["Ann", "Lee", "1990-04-01"] */
+  parts: string[];
+  /** Readable values, e.g. "Ann + Lee + 1990-04-01" */
+  label: string;
+  /** Key fields the item has no value for */
+  missingFields: string[];
+}
+
+/**
+ * Extract and normalize the match key of an item
+ * Fields without a normalization use 'default', which compares dates by their
+ * full start and end; the calendar-day 'date' normalization is opt-in.
+ */
+export function extractMatchKey(item: Pick<PodioItem, 'fields'>, matchKey: MatchKey): ExtractedMatchKey {
+  const keyFields = matchKeyFields(matchKey);
+  const values: unknown[] = [];
+  const keys: string[] = [];
+  const missingFields: string[] = [];
+
+  for (const { field, normalize } of keyFields) {
+    const itemField: PodioItemField | undefined = item.fields?.find((f) => f.external_id === field);
+    if (!itemField) {
+      missingFields.push(field);
+      values.push(null);
+      keys.push('');
+      continue;
+    }
+
+    const value = extractFieldValue(itemField);
+    values.push(value);
+    keys.push(normalizeMatchComponent(value, normalize ?? 'default'));
+  }
+
+  const parts = values.map((value) => valueParts(value).map((part) => part.trim()).join(', '));
+
+  return {
+    value: keyFields.length === 1 ? values[0] : values,
+    key: keys.length > 0 && keys.every(Boolean) ? keys.join(KEY_SEPARATOR) : '',
+    parts,
+    label: parts.join(' + '),
+    missingFields,
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Orphan reconciliation for upsert/sync jobs
+ *
+ * Deleting a source item after it was migrated leaves its target copy behind.
+ * Reconciliation lists every source item ID, compares them with the job's item
+ * ID map and reports the target items whose source is gone. Deleting or
+ * archiving them waits for approval, like duplicate cleanup's
+ * `waiting_approval` step; handled items are journaled so they are not
+ * reported again.
+ */
+
+import { getPodioHttpClient, PodioHttpClient } from '../../podio/http/client';
+import { streamItems, bulkDeleteItems, addItemTags } from '../../podio/resources/items';
+import { logger as migrationLogger } from '../logging';
+import { migrationStateStore } from '../state-store';
+import { itemIdMapStore, OrphanResolutionEntry } from './item-id-map';
+import {
+  DeletionSyncConfig,
+  ItemMigrationJobMetadata,
+  OrphanedItem,
+  OrphanReconciliationState,
+} from './types';
+
+export const DEFAULT_ARCHIVE_TAG = 'source-deleted';
+
+const SOURCE_ID_BATCH_SIZE = 500;
+const ACTION_BATCH_SIZE = 100;
+const ACTION_CONCURRENCY = 3;
+
+/**
+ * Validate deletion propagation settings before they are saved with a job
+ * Returns a list of human-readable problems (empty when valid)
+ */
+export function validateDeletionSync(config: DeletionSyncConfig): string[] {
+  const errors: string[] = [];
+
+  if (!['delete', 'archive', 'report'].includes(config.action)) {
+    errors.push(`Unknown deletion action "${config.action}" (expected delete, archive or report)`);
+  }
+  if (config.archiveTag !== undefined && config.archiveTag.trim() === '') {
+    errors.push('archiveTag cannot be empty');
+  }
+
+  return errors;
+}
+
+/**
+ * Find mapped target items whose source item no longer exists
+ *
+ * @param mappings - Source item ID -> target item ID (the job's item ID map)
+ * @param sourceItemIds - Every item ID currently in the source app
+ * @param resolved - Source item IDs whose target was already deleted or archived
+ */
+export function findOrphanedItems(
+  mappings: Map<number, number>,
+  sourceItemIds: Set<number>,
+  resolved: Set<number> = new Set()
+): OrphanedItem[] {
+  const orphans: OrphanedItem[] = [];
+
+  for (const [sourceItemId, targetItemId] of mappings) {
+    if (!sourceItemIds.has(sourceItemId) && !resolved.has(sourceItemId)) {
+      orphans.push({ sourceItemId, targetItemId });
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Compare the source app with a job's item ID map
+ * The whole source app is listed, ignoring the job's filters: items outside
+ * the filters still exist and must not be reported as deleted.
+ */
+export async function detectOrphanedItems(
+  jobId: string,
+  sourceAppId: number,
+  client: PodioHttpClient = getPodioHttpClient()
+): Promise<OrphanedItem[]> {
+  const [mappings, resolved] = await Promise.all([
+    itemIdMapStore.getMappings(jobId),
+    itemIdMapStore.getResolvedOrphanIds(jobId),
+  ]);
+
+  if (mappings.size === 0) {
+    return [];
+  }
+
+  const sourceItemIds = new Set<number>();
+  for await (const batch of streamItems(client, sourceAppId, { batchSize: SOURCE_ID_BATCH_SIZE })) {
+    for (const item of batch) {
+      sourceItemIds.add(item.item_id);
+    }
+  }
+
+  const orphans = findOrphanedItems(mappings, sourceItemIds, resolved);
+
+  migrationLogger.info('Orphan detection complete', {
+    jobId,
+    sourceAppId,
+    mappedItems: mappings.size,
+    sourceItems: sourceItemIds.size,
+    alreadyResolved: resolved.size,
+    orphans: orphans.length,
+  });
+
+  return orphans;
+}
+
+/**
+ * Detect orphans for a job and store the result for review
+ * Delete/archive results wait for approval; report-only results complete right away.
+ */
+export async function runOrphanDetection(
+  jobId: string,
+  config: DeletionSyncConfig
+): Promise<OrphanReconciliationState> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+
+  const metadata = job.metadata as unknown as ItemMigrationJobMetadata;
+  const base: OrphanReconciliationState = {
+    status: 'detecting',
+    action: config.action,
+    archiveTag: config.action === 'archive' ? config.archiveTag?.trim() || DEFAULT_ARCHIVE_TAG : undefined,
+    orphans: [],
+  };
+
+  await migrationStateStore.updateJobMetadata(jobId, { orphanReconciliation: base });
+
+  try {
+    const orphans = await detectOrphanedItems(jobId, Number(metadata.sourceAppId));
+    const needsApproval = config.action !== 'report' && orphans.length > 0;
+    const state: OrphanReconciliationState = {
+      ...base,
+      status: needsApproval ? 'waiting_approval' : 'completed',
+      orphans,
+      detectedAt: new Date().toISOString(),
+      completedAt: needsApproval ? undefined : new Date().toISOString(),
+    };
+
+    await migrationStateStore.updateJobMetadata(jobId, { orphanReconciliation: state });
+    return state;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    migrationLogger.error('Orphan detection failed', { jobId, error: message });
+
+    const state: OrphanReconciliationState = { ...base, status: 'failed', error: message };
+    await migrationStateStore.updateJobMetadata(jobId, { orphanReconciliation: state });
+    return state;
+  }
+}
+
+/**
+ * Delete or archive approved orphans
+ *
+ * @param jobId - Job whose reconciliation is waiting for approval
+ * @param approvedTargetItemIds - Subset of orphaned target items to act on (default: all)
+ */
+export async function applyOrphanAction(
+  jobId: string,
+  approvedTargetItemIds?: number[],
+  client: PodioHttpClient = getPodioHttpClient()
+): Promise<OrphanReconciliationState> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  const current = (job?.metadata as Partial<ItemMigrationJobMetadata> | undefined)?.orphanReconciliation;
+  if (!current || current.status !== 'waiting_approval') {
+    throw new Error(`Job ${jobId} has no orphan reconciliation waiting for approval`);
+  }
+
+  const approved = approvedTargetItemIds ? new Set(approvedTargetItemIds) : null;
+  const orphans = current.orphans.filter((orphan) => !approved || approved.has(orphan.targetItemId));
+
+  await migrationStateStore.updateJobMetadata(jobId, {
+    orphanReconciliation: { ...current, status: 'applying' },
+  });
+
+  const result: NonNullable<OrphanReconciliationState['result']> = {
+    deleted: 0,
+    archived: 0,
+    failed: 0,
+    errors: [],
+  };
+  const resolutions: OrphanResolutionEntry[] = [];
+  const sourceIdByTarget = new Map(orphans.map((orphan) => [orphan.targetItemId, orphan.sourceItemId]));
+
+  try {
+    for (let i = 0; i < orphans.length; i += ACTION_BATCH_SIZE) {
+      const targetItemIds = orphans.slice(i, i + ACTION_BATCH_SIZE).map((orphan) => orphan.targetItemId);
+      const recordedAt = new Date().toISOString();
+
+      if (current.action === 'delete') {
+        const batchResult = await bulkDeleteItems(client, targetItemIds, {
+          concurrency: ACTION_CONCURRENCY,
+          stopOnError: false,
+        });
+
+        result.deleted += batchResult.successCount;
+        result.failed += batchResult.failureCount;
+        for (const failure of batchResult.failed) {
+          result.errors.push({ targetItemId: failure.itemId, message: failure.error });
+        }
+        for (const targetItemId of batchResult.successful) {
+          resolutions.push({
+            sourceItemId: sourceIdByTarget.get(targetItemId)!,
+            targetItemId,
+            action: 'deleted',
+            recordedAt,
+          });
+        }
+      } else if (current.action === 'archive') {
+        const tag = current.archiveTag || DEFAULT_ARCHIVE_TAG;
+        for (const targetItemId of targetItemIds) {
+          try {
+            await addItemTags(client, targetItemId, [tag]);
+            result.archived++;
+            resolutions.push({
+              sourceItemId: sourceIdByTarget.get(targetItemId)!,
+              targetItemId,
+              action: 'archived',
+              recordedAt,
+            });
+          } catch (error) {
+            result.failed++;
+            result.errors.push({
+              targetItemId,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+
+      await itemIdMapStore.recordOrphanResolutions(jobId, resolutions.splice(0));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    migrationLogger.error('Orphan reconciliation failed', { jobId, action: current.action, error: message });
+
+    const state: OrphanReconciliationState = { ...current, status: 'failed', result, error: message };
+    await migrationStateStore.updateJobMetadata(jobId, { orphanReconciliation: state });
+    return state;
+  }
+
+  const handled = new Set(
+    orphans
+      .map((orphan) => orphan.targetItemId)
+      .filter((targetItemId) => !result.errors.some((error) => error.targetItemId === targetItemId))
+  );
+  const state: OrphanReconciliationState = {
+    ...current,
+    status: 'completed',
+    // Orphans left out of the approval, or that failed, stay listed for the next review
+    orphans: current.orphans.filter((orphan) => !handled.has(orphan.targetItemId)),
+    completedAt: new Date().toISOString(),
+    result,
+  };
+
+  await migrationStateStore.updateJobMetadata(jobId, { orphanReconciliation: state });
+
+  migrationLogger.info('Orphan reconciliation applied', {
+    jobId,
+    action: current.action,
+    approved: orphans.length,
+    ...result,
+    errors: result.errors.length,
+  });
+
+  return state;
+}
@@ -7,14 +7,17 @@
  * - O(1) duplicate lookups (in-memory)
  * - Handles normalized matching (case-insensitive, trimmed)
  * - Supports multi-value fields (arrays)
+ * - Supports composite match keys (several fields that must all match)
  */
 
 import { PodioHttpClient } from '../../podio/http/client';
-import { PodioItem, streamItems, extractFieldValue } from '../../podio/resources/items';
+import { PodioItem, streamItems } from '../../podio/resources/items';
 import { logger as migrationLogger } from '../logging';
 import { MigrationFileLogger } from '../file-logger';
 import { maskPII } from '../utils/pii-masking';
 import { forceGC } from '../memory-monitor';
+import { describeMatchKey, extractMatchKey, normalizeMatchValue } from './match-key';
+import { MatchKey } from './types';
 
 /**
  * Summary statistics returned when a prefetch run completes.
@@ -68,97 +71,14 @@ export class PrefetchHealthCheckError extends Error {
 }
 
 /**
- * Normalize a value for consistent matching
- * Handles strings, numbers, arrays, and objects
- *
- * Returns empty string for "empty" values: null, undefined, ""
- * Note: 0 and false are VALID values and will be matched
- * Caller should skip empty values (don't match empty to empty)
- */
-function normalizeValue(value: unknown): string {
-  // Only treat null, undefined, and empty string as empty
-  // 0 and false are VALID values that should be matched
-  if (
-    value === null ||
-    value === undefined ||
-    value === ''
-  ) {
-    return '';
-  }
-
-  // Handle false explicitly (normalize to "false" string)
-  if (value === false) {
-    return 'false';
-  }
-
-  // Handle zero explicitly (normalize to "0" string)
-  if (value === 0) {
-    return '0';
-  }
-
-  // Handle arrays (multi-value fields)
-  if (Array.isArray(value)) {
-    // Sort array elements for consistent comparison
-    const normalized = value
-      .map(v => normalizeValue(v))
-      .filter(v => v !== '') // Filter out empty values
-      .sort()
-      .join(',');
-
-    // If all values were empty, return empty string
-    return normalized || '';
-  }
-
-  // Handle objects (extract meaningful identifiers)
-  if (typeof value === 'object') {
-    const obj = value as Record<string, unknown>;
-
-    // Try common ID fields
-    if ('item_id' in obj) return String(obj.item_id);
-    if ('profile_id' in obj) return String(obj.profile_id);
-    if ('user_id' in obj) return String(obj.user_id);
-
-    // Handle nested value property (common in Podio fields)
-    if ('value' in obj) return normalizeValue(obj.value);
-
-    // Fallback to JSON representation
-    return JSON.stringify(obj);
-  }
-
-  // Numbers: preserve numeric semantics without changing magnitude
-  if (typeof value === 'number') {
-    return String(value);
-  }
-
-  // Handle string numbers - parse and normalize without rounding
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-
-    if (trimmed !== '') {
-      const numericValue = Number(trimmed);
-      if (Number.isFinite(numericValue)) {
-        // Keep canonical numeric form (e.g., "678.90" -> "678.9")
-        return String(numericValue);
-      }
-    }
-
-    // Not a number - normalize as text (lowercase, trim edges only)
-    return trimmed.toLowerCase();
-  }
-
-  // Handle primitives (boolean already handled above)
-  return String(value).trim().toLowerCase();
-}
-
-/**
- * Exported wrapper for normalizeValue
+ * Exported wrapper for normalizeMatchValue
  * Use this in tests and logs to access normalization logic
  *
  * @param value - Value to normalize
  * @returns Normalized string for matching
  */
 export function normalizeForMatch(value: unknown): string {
-  return normalizeValue(value);
+  return normalizeMatchValue(value);
 }
 
 /**
@@ -257,7 +177,7 @@ export class PrefetchCache {
    *
    * @param client - Podio HTTP client
    * @param appId - Target app ID
-   * @param matchField - Field external_id to use for matching (e.g., 'email', 'title')
+   * @param matchKey - Field external_id to use for matching (e.g., 'email', 'title'), or a composite key
    * @param logger - Optional file logger for detailed logging
    * @param timeoutMs - Optional timeout in milliseconds (default: 4 hours)
    * @param healthCheckIntervalMs - Optional interval for health checks (default: 5 minutes)
@@ -266,12 +186,13 @@ export class PrefetchCache {
   async prefetchTargetItems(
     client: PodioHttpClient,
     appId: number,
-    matchField: string,
+    matchKey: MatchKey,
     logger?: MigrationFileLogger,
     timeoutMs: number = 14400000, // Default: 4 hours (14400000ms)
     healthCheckIntervalMs: number = 300000 // Default: 5 minutes
   ): Promise<PrefetchRunStats> {
     const startTime = Date.now();
+    const matchField = describeMatchKey(matchKey);
     this.matchField = matchField;
     this.appId = appId;
     let itemCount = 0;
@@ -370,14 +291,10 @@ export class PrefetchCache {
           for (const item of batch) {
             itemCount++;
 
-            // Find the match field in the item
-            const field = item.fields.find(f => f.external_id === matchField);
-
-            if (field && field.values && field.values.length > 0) {
-              // Extract and normalize the match value
-              const matchValue = extractFieldValue(field);
-              const normalizedKey = normalizeValue(matchValue);
+            // Extract and normalize the match key of the item
+            const { value: matchValue, key: normalizedKey, missingFields } = extractMatchKey(item, matchKey);
 
+            if (missingFields.length === 0) {
               // Skip empty values when building cache
               if (normalizedKey && normalizedKey !== '') {
                 // Store SLIM cache entry - only item_id and match value
@@ -422,6 +339,7 @@ export class PrefetchCache {
                   itemId: item.item_id,
                   reason: 'match_field_not_found',
                   matchField,
+                  missingFields,
                   availableFields: item.fields.map(f => f.external_id),
                 });
               }
@@ -599,7 +517,7 @@ export class PrefetchCache {
    * @returns True if item exists, false otherwise
    */
   isDuplicate(matchValue: unknown): boolean {
-    const normalizedKey = normalizeValue(matchValue);
+    const normalizedKey = normalizeMatchValue(matchValue);
     const maskedMatchValue = maskPII(matchValue);
     const maskedNormalizedKey = maskPII(normalizedKey);
 
@@ -662,7 +580,18 @@ export class PrefetchCache {
    * @returns Existing item ID or null
    */
   getExistingItemId(matchValue: unknown): number | null {
-    const normalizedKey = normalizeValue(matchValue);
+    return this.getExistingItemIdByKey(normalizeMatchValue(matchValue), matchValue);
+  }
+
+  /**
+   * Get the existing item ID for an already normalized match key
+   * Used with `extractMatchKey`, which also covers composite keys.
+   *
+   * @param normalizedKey - Key from `extractMatchKey`
+   * @param matchValue - Raw value, for logging only
+   * @returns Existing item ID or null
+   */
+  getExistingItemIdByKey(normalizedKey: string, matchValue?: unknown): number | null {
     const maskedMatchValue = maskPII(matchValue);
     const maskedNormalizedKey = maskPII(normalizedKey);
 
@@ -0,0 +1,362 @@
+/**
+ * Post-migration reconciliation report
+ *
+ * Streams both apps, pairs source items with target items through the job's
+ * item ID map (and the match fields, when set) and compares every mapped
+ * field. Values are compared in a form that does not depend on the app:
+ * category labels instead of option IDs, referenced item titles instead of
+ * item IDs, contact names instead of profile IDs. Per-field counts are stored
+ * with the job; every differing value is written to a CSV.
+ * The CSV directory can be overridden via MIGRATION_RECONCILIATION_DIR.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { getPodioHttpClient, PodioHttpClient } from '../../podio/http/client';
+import { streamItems, PodioFieldValue, PodioItem, PodioItemField } from '../../podio/resources/items';
+import { getAppStructureDetailed } from '../../podio/migration';
+import { logger as migrationLogger } from '../logging';
+import { migrationStateStore } from '../state-store';
+import { itemIdMapStore } from './item-id-map';
+import { extractMatchKey } from './match-key';
+import { convertFilters } from './filter-converter';
+import { ItemMigrationJobMetadata, MatchKey, ReconciliationFieldStats, ReconciliationReport } from './types';
+
+const REPORT_ROOT_CONFIG = process.env.MIGRATION_RECONCILIATION_DIR || 'data/reconciliation-reports';
+const DEFAULT_REPORT_ROOT = path.resolve(process.cwd(), REPORT_ROOT_CONFIG);
+
+const STREAM_BATCH_SIZE = 500;
+
+const CSV_HEADER = ['source_item_id', 'target_item_id', 'source_field', 'target_field', 'source_value', 'target_value'];
+
+/** Field shown in the CSV for source items that have no target item */
+const MISSING_TARGET_FIELD = '(missing in target)';
+
+/**
+ * A mapped field pair, by external ID
+ */
+export interface ReconciledFieldPair {
+  sourceField: string;
+  targetField: string;
+}
+
+/**
+ * A mapped field whose values differ between a source item and its target item
+ */
+export interface FieldDifference extends ReconciledFieldPair {
+  sourceValue: string;
+  targetValue: string;
+}
+
+function valueText(fieldType: string, fieldValue: PodioFieldValue): string {
+  const value = fieldValue.value as Record<string, unknown> | string | number | null | undefined;
+
+  switch (fieldType) {
+    case 'text':
+      return String(value ?? '').replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+
+    case 'number':
+    case 'progress':
+    case 'duration':
+    case 'calculation': {
+      const numeric = Number(value);
+      return value !== null && value !== '' && Number.isFinite(numeric) ? String(numeric) : String(value ?? '').trim();
+    }
+
+    case 'money':
+      return `${Number(value)} ${fieldValue.currency || ''}`.trim();
+
+    case 'date':
+      return fieldValue.end && fieldValue.end !== fieldValue.start
+        ? `${fieldValue.start} - ${fieldValue.end}`
+        : String(fieldValue.start ?? '');
+
+    case 'category':
+      return String((value as { text?: string } | null)?.text ?? '').trim();
+
+    case 'app':
+      return String((value as { title?: string } | null)?.title ?? '').trim();
+
+    case 'contact':
+      return String((value as { name?: string } | null)?.name ?? '').trim();
+
+    case 'image':
+    case 'file':
+      return String((value as { name?: string } | null)?.name ?? '');
+
+    case 'embed':
+      return String((fieldValue.embed as { url?: string } | undefined)?.url ?? '');
+
+    case 'email':
+    case 'phone':
+    case 'tel':
+      return String(value ?? '').trim().toLowerCase();
+
+    default:
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '').trim();
+  }
+}
+
+/**
+ * Render a field value in a form that can be compared across apps
+ * Multiple values are sorted so their order does not count as a difference.
+ * Empty or missing fields render as ''.
+ */
+export function comparableFieldValue(field: PodioItemField | undefined): string {
+  if (!field?.values || field.values.length === 0) {
+    return '';
+  }
+
+  return field.values
+    .map((fieldValue) => valueText(field.type, fieldValue))
+    .filter((text) => text !== '')
+    .sort()
+    .join('; ');
+}
+
+/**
+ * Compare the mapped fields of a source item with the comparable values of its target item
+ *
+ * @param sourceItem - Source item
+ * @param targetValues - Comparable values of the target item, keyed by target external ID
+ * @param fieldPairs - Mapped fields to compare
+ */
+export function diffMappedFields(
+  sourceItem: Pick<PodioItem, 'fields'>,
+  targetValues: Record<string, string>,
+  fieldPairs: ReconciledFieldPair[]
+): FieldDifference[] {
+  const sourceFields = new Map(sourceItem.fields.map((field) => [field.external_id, field]));
+  const differences: FieldDifference[] = [];
+
+  for (const pair of fieldPairs) {
+    const sourceValue = comparableFieldValue(sourceFields.get(pair.sourceField));
+    const targetValue = targetValues[pair.targetField] ?? '';
+
+    if (sourceValue !== targetValue) {
+      differences.push({ ...pair, sourceValue, targetValue });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Format one CSV line (RFC 4180 quoting)
+ * Text starting with a formula character is prefixed with `'` so spreadsheet
+ * apps show it instead of evaluating it; numbers are written as they are.
+ */
+export function formatCsvRow(values: Array<string | number | null | undefined>): string {
+  return values
+    .map((value) => {
+      let text = value === null || value === undefined ? '' : String(value);
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
+
+function matchKey(item: PodioItem, key: MatchKey): string | null {
+  return extractMatchKey(item, key).key || null;
+}
+
+/**
+ * Path of the CSV of differing values for a job
+ */
+export function getReconciliationCsvPath(jobId: string, baseDir = DEFAULT_REPORT_ROOT): string {
+  return path.join(baseDir, `${jobId}.csv`);
+}
+
+/**
+ * Read the CSV of the last reconciliation report, or null when there is none
+ */
+export async function readReconciliationCsv(jobId: string, baseDir = DEFAULT_REPORT_ROOT): Promise<string | null> {
+  try {
+    return await fs.readFile(getReconciliationCsvPath(jobId, baseDir), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a reconciliation report for a job and store it in the job metadata
+ */
+export async function runReconciliation(
+  jobId: string,
+  client: PodioHttpClient = getPodioHttpClient(),
+  baseDir = DEFAULT_REPORT_ROOT
+): Promise<ReconciliationReport> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+
+  const metadata = job.metadata as unknown as ItemMigrationJobMetadata & {
+    sourceMatchField?: MatchKey;
+    targetMatchField?: MatchKey;
+  };
+  const sourceAppId = Number(metadata.sourceAppId);
+  const targetAppId = Number(metadata.targetAppId);
+  const useMatchField = !!(metadata.sourceMatchField && metadata.targetMatchField);
+
+  const report: ReconciliationReport = {
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    pairedBy: useMatchField ? 'id_map_and_match_field' : 'id_map',
+    sourceItems: 0,
+    targetItems: 0,
+    paired: 0,
+    missingInTarget: 0,
+    unpairedTarget: 0,
+    itemsWithDifferences: 0,
+    fields: [],
+  };
+
+  await migrationStateStore.updateJobMetadata(jobId, { reconciliation: report });
+
+  try {
+    const [sourceApp, targetApp, idMap] = await Promise.all([
+      getAppStructureDetailed(sourceAppId),
+      getAppStructureDetailed(targetAppId),
+      itemIdMapStore.getMappings(jobId),
+    ]);
+
+    if (idMap.size === 0 && !useMatchField) {
+      throw new Error('Job has no item ID map and no match fields - nothing to pair items by');
+    }
+    if (idMap.size === 0) {
+      report.pairedBy = 'match_field';
+    }
+
+    // Field mapping is stored by field ID; compare by external ID like the migrator
+    const fieldPairs: ReconciledFieldPair[] = [];
+    const fieldStats = new Map<string, ReconciliationFieldStats>();
+    for (const [sourceFieldId, targetFieldId] of Object.entries(metadata.fieldMapping || {})) {
+      const sourceField = sourceApp.fields?.find((field) => field.field_id.toString() === sourceFieldId);
+      const targetField = targetApp.fields?.find((field) => field.field_id.toString() === targetFieldId);
+      if (!sourceField?.external_id || !targetField?.external_id) {
+        continue;
+      }
+
+      fieldPairs.push({ sourceField: sourceField.external_id, targetField: targetField.external_id });
+      fieldStats.set(sourceField.external_id, {
+        sourceField: sourceField.external_id,
+        targetField: targetField.external_id,
+        label: sourceField.label || sourceField.external_id,
+        compared: 0,
+        mismatched: 0,
+        transformed: metadata.fieldTransforms?.[sourceFieldId]?.length ? true : undefined,
+      });
+    }
+
+    // Index the target app: comparable values of the mapped fields only
+    const targetFieldIds = new Set(fieldPairs.map((pair) => pair.targetField));
+    const targetValues = new Map<number, Record<string, string>>();
+    const targetByMatchKey = new Map<string, number>();
+
+    for await (const batch of streamItems(client, targetAppId, { batchSize: STREAM_BATCH_SIZE })) {
+      for (const item of batch) {
+        const values: Record<string, string> = {};
+        for (const field of item.fields) {
+          if (targetFieldIds.has(field.external_id)) {
+            values[field.external_id] = comparableFieldValue(field);
+          }
+        }
+        targetValues.set(item.item_id, values);
+
+        if (useMatchField) {
+          const key = matchKey(item, metadata.targetMatchField!);
+          if (key !== null && !targetByMatchKey.has(key)) {
+            targetByMatchKey.set(key, item.item_id);
+          }
+        }
+      }
+    }
+    report.targetItems = targetValues.size;
+
+    const csvPath = getReconciliationCsvPath(jobId, baseDir);
+    await fs.mkdir(path.dirname(csvPath), { recursive: true });
+    await fs.writeFile(csvPath, formatCsvRow(CSV_HEADER) + '\n', 'utf-8');
+
+    const pairedTargets = new Set<number>();
+
+    for await (const batch of streamItems(client, sourceAppId, {
+      batchSize: STREAM_BATCH_SIZE,
+      filters: convertFilters(metadata.filters),
+    })) {
+      const rows: string[] = [];
+
+      for (const sourceItem of batch) {
+        report.sourceItems++;
+
+        let targetItemId = idMap.get(sourceItem.item_id);
+        if (targetItemId === undefined && useMatchField) {
+          const key = matchKey(sourceItem, metadata.sourceMatchField!);
+          targetItemId = key !== null ? targetByMatchKey.get(key) : undefined;
+        }
+
+        const values = targetItemId !== undefined ? targetValues.get(targetItemId) : undefined;
+        if (targetItemId === undefined || !values) {
+          report.missingInTarget++;
+          rows.push(formatCsvRow([sourceItem.item_id, targetItemId, MISSING_TARGET_FIELD, '', '', '']));
+          continue;
+        }
+
+        report.paired++;
+        pairedTargets.add(targetItemId);
+
+        const differences = diffMappedFields(sourceItem, values, fieldPairs);
+        for (const stats of fieldStats.values()) {
+          stats.compared++;
+        }
+        for (const difference of differences) {
+          fieldStats.get(difference.sourceField)!.mismatched++;
+          rows.push(formatCsvRow([
+            sourceItem.item_id,
+            targetItemId,
+            difference.sourceField,
+            difference.targetField,
+            difference.sourceValue,
+            difference.targetValue,
+          ]));
+        }
+        if (differences.length > 0) {
+          report.itemsWithDifferences++;
+        }
+      }
+
+      if (rows.length > 0) {
+        await fs.appendFile(csvPath, rows.join('\n') + '\n', 'utf-8');
+      }
+    }
+
+    report.unpairedTarget = report.targetItems - pairedTargets.size;
+    report.fields = Array.from(fieldStats.values());
+    report.status = 'completed';
+    report.completedAt = new Date().toISOString();
+
+    migrationLogger.info('Reconciliation report complete', {
+      jobId,
+      sourceItems: report.sourceItems,
+      targetItems: report.targetItems,
+      paired: report.paired,
+      missingInTarget: report.missingInTarget,
+      itemsWithDifferences: report.itemsWithDifferences,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    migrationLogger.error('Reconciliation report failed', { jobId, error: message });
+
+    report.status = 'failed';
+    report.error = message;
+    report.completedAt = new Date().toISOString();
+  }
+
+  await migrationStateStore.updateJobMetadata(jobId, { reconciliation: report });
+  return report;
+}
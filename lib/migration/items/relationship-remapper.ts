@@ -0,0 +1,197 @@
+/**
+ * Relationship remapper for `app` reference fields
+ *
+ * Source `app` field values are raw source item IDs, which are meaningless in
+ * the target workspace. These helpers rewrite them through the item ID map and
+ * run the deferred link-fixup pass for references whose targets did not exist
+ * yet when the owning item was written.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import { PodioItem, extractFieldValue, bulkUpdateItems } from '../../podio/resources/items';
+import { logger as migrationLogger } from '../logging';
+import { itemIdMapStore, PendingLinkEntry } from './item-id-map';
+
+/**
+ * A relationship field whose references are not all mapped yet
+ */
+export interface UnresolvedRelationship {
+  targetFieldExternalId: string;
+  sourceReferenceIds: number[];
+}
+
+/**
+ * Result of rewriting a mapped item's relationship fields
+ */
+export interface RelationshipRemapResult {
+  fields: Record<string, unknown>;
+  unresolved: UnresolvedRelationship[];
+}
+
+/**
+ * Link-fixup pass summary
+ */
+export interface LinkFixupResult {
+  /** Pending links fully resolved and written */
+  resolved: number;
+  /** Pending links still waiting for their targets */
+  pending: number;
+  /** Target item updates that failed (kept as pending) */
+  failed: number;
+}
+
+/**
+ * Split source reference IDs into mapped target IDs and still-unmapped source IDs
+ */
+export function resolveReferenceIds(
+  sourceReferenceIds: number[],
+  idMap: ReadonlyMap<number, number>
+): { resolved: number[]; unresolved: number[] } {
+  const resolved: number[] = [];
+  const unresolved: number[] = [];
+
+  for (const sourceId of sourceReferenceIds) {
+    const targetId = idMap.get(sourceId);
+    if (targetId !== undefined) {
+      resolved.push(targetId);
+    } else {
+      unresolved.push(sourceId);
+    }
+  }
+
+  return { resolved, unresolved };
+}
+
+/**
+ * Rewrite `app` field values of a mapped item through the ID map
+ *
+ * Resolved references replace the raw source IDs; fields with no resolved
+ * references are dropped from the payload. Any field with unresolved
+ * references is reported so the caller can defer it to the link-fixup pass.
+ */
+export function remapRelationshipFields(
+  sourceItem: PodioItem,
+  mappedFields: Record<string, unknown>,
+  fieldMapping: Record<string, string>,
+  idMap: ReadonlyMap<number, number>
+): RelationshipRemapResult {
+  const fields = { ...mappedFields };
+  const unresolved: UnresolvedRelationship[] = [];
+
+  for (const field of sourceItem.fields) {
+    const targetExternalId = fieldMapping[field.external_id];
+    if (field.type !== 'app' || !targetExternalId || !(targetExternalId in fields)) {
+      continue;
+    }
+
+    const sourceReferenceIds = ((extractFieldValue(field) as number[] | null) || [])
+      .filter((id): id is number => typeof id === 'number');
+    const resolution = resolveReferenceIds(sourceReferenceIds, idMap);
+
+    if (resolution.resolved.length > 0) {
+      fields[targetExternalId] = resolution.resolved;
+    } else {
+      delete fields[targetExternalId];
+    }
+
+    if (resolution.unresolved.length > 0) {
+      unresolved.push({ targetFieldExternalId: targetExternalId, sourceReferenceIds });
+    }
+  }
+
+  return { fields, unresolved };
+}
+
+/**
+ * Link-fixup pass: write pending relationship links whose targets now exist
+ *
+ * Links whose owning item was never migrated, or that still reference
+ * unmigrated items, stay pending for a later pass.
+ */
+export async function resolvePendingLinks(
+  client: PodioHttpClient,
+  jobId: string,
+  options: { idMap?: ReadonlyMap<number, number>; concurrency?: number } = {}
+): Promise<LinkFixupResult> {
+  const pendingLinks = await itemIdMapStore.getPendingLinks(jobId);
+  if (pendingLinks.length === 0) {
+    return { resolved: 0, pending: 0, failed: 0 };
+  }
+
+  const idMap = options.idMap ?? await itemIdMapStore.loadAllMappings();
+
+  // Collapse to the latest entry per (item, field) and group by target item
+  const latestLinks = new Map<string, PendingLinkEntry>();
+  for (const link of pendingLinks) {
+    latestLinks.set(`${link.sourceItemId}|${link.targetFieldExternalId}`, link);
+  }
+
+  const remaining: PendingLinkEntry[] = [];
+  const updatesByItem = new Map<number, { fields: Record<string, unknown>; links: PendingLinkEntry[]; complete: boolean[] }>();
+
+  for (const link of latestLinks.values()) {
+    const targetItemId = idMap.get(link.sourceItemId);
+    const resolution = resolveReferenceIds(link.sourceReferenceIds, idMap);
+
+    if (targetItemId === undefined || resolution.resolved.length === 0) {
+      remaining.push(link);
+      continue;
+    }
+
+    const update = updatesByItem.get(targetItemId) ?? { fields: {}, links: [], complete: [] };
+    update.fields[link.targetFieldExternalId] = resolution.resolved;
+    update.links.push(link);
+    update.complete.push(resolution.unresolved.length === 0);
+    updatesByItem.set(targetItemId, update);
+  }
+
+  const updates = Array.from(updatesByItem.entries()).map(([itemId, update]) => ({
+    itemId,
+    fields: update.fields,
+  }));
+
+  let resolved = 0;
+  let failed = 0;
+
+  if (updates.length > 0) {
+    migrationLogger.info('Running link-fixup pass', {
+      jobId,
+      pendingLinks: latestLinks.size,
+      itemsToUpdate: updates.length,
+    });
+
+    const updateResult = await bulkUpdateItems(client, updates, {
+      concurrency: options.concurrency ?? 5,
+      hook: false,
+      silent: true,
+    });
+    const failedItemIds = new Set(updateResult.failed.map(f => f.itemId));
+
+    for (const [itemId, update] of updatesByItem.entries()) {
+      if (failedItemIds.has(itemId)) {
+        failed++;
+        remaining.push(...update.links);
+        continue;
+      }
+
+      update.links.forEach((link, idx) => {
+        if (update.complete[idx]) {
+          resolved++;
+        } else {
+          remaining.push(link);
+        }
+      });
+    }
+  }
+
+  await itemIdMapStore.replacePendingLinks(jobId, remaining);
+
+  migrationLogger.info('Link-fixup pass complete', {
+    jobId,
+    resolved,
+    pending: remaining.length,
+    failed,
+  });
+
+  return { resolved, pending: remaining.length, failed };
+}
@@ -0,0 +1,419 @@
+/**
+ * Rollback of item migration jobs
+ *
+ * Item migrations journal every target item they create and, before updating
+ * an item, the values of the fields they are about to overwrite. A rollback
+ * job reads that journal, deletes the created items and writes the previous
+ * values back. Handled items are logged, so a paused or failed rollback picks
+ * up where it stopped when it is run again.
+ */
+
+import { getPodioHttpClient, PodioHttpClient } from '../../podio/http/client';
+import {
+  bulkDeleteItems,
+  bulkUpdateItems,
+  extractFieldValue,
+  fetchItemsByIds,
+  PodioItem,
+} from '../../podio/resources/items';
+import { logger } from '../logging';
+import { migrationStateStore } from '../state-store';
+import {
+  registerActiveMigration,
+  unregisterActiveMigration,
+  registerShutdownCallback,
+  isPauseRequested,
+} from '../shutdown-handler';
+import { updateJobHeartbeat, getHeartbeatInterval } from '../job-lifecycle';
+import { itemIdMapStore, RollbackLogEntry, UndoJournalEntry } from './item-id-map';
+import {
+  ItemRollbackJobMetadata,
+  ItemRollbackPreview,
+  ItemRollbackResult,
+  ItemRollbackStatusResponse,
+} from './types';
+
+/** Field types whose values cannot be written back through the item API */
+const NON_RESTORABLE_FIELD_TYPES = ['image', 'file', 'calculation', 'created_on', 'created_by', 'created_via'];
+
+const PREVIEW_SAMPLE_SIZE = 50;
+const MAX_STORED_ERRORS = 100;
+
+/**
+ * Work left for a rollback
+ */
+export interface RollbackPlan {
+  /** Target items created by the job, newest first */
+  deletes: number[];
+  /** Target items updated (not created) by the job, with the values they had before the job */
+  restores: Array<{ targetItemId: number; fields: Record<string, unknown> }>;
+}
+
+/**
+ * Capture the current values of the fields an update is about to overwrite
+ * Empty fields are recorded as null so the rollback can clear them again.
+ */
+export function snapshotPreviousFields(
+  targetItem: Pick<PodioItem, 'fields'>,
+  targetFieldExternalIds: string[]
+): Record<string, unknown> {
+  const previous: Record<string, unknown> = {};
+
+  for (const externalId of targetFieldExternalIds) {
+    const field = targetItem.fields.find((candidate) => candidate.external_id === externalId);
+    if (field && NON_RESTORABLE_FIELD_TYPES.includes(field.type)) {
+      continue;
+    }
+    previous[externalId] = field ? extractFieldValue(field) : null;
+  }
+
+  return previous;
+}
+
+/**
+ * Journal the current values of the fields an update migration is about to
+ * overwrite, so the updates can be rolled back
+ *
+ * Items that cannot be snapshotted are updated anyway: when a chunk cannot be
+ * fetched or journaled, its items are counted as missing and a warning is logged.
+ *
+ * @returns the number of items that were not journaled
+ */
+export async function journalUpdateSnapshots(
+  client: PodioHttpClient,
+  jobId: string,
+  updates: Array<{ itemId: number; fields: Record<string, unknown>; sourceItemId?: number }>,
+  fetchItems: typeof fetchItemsByIds = fetchItemsByIds
+): Promise<number> {
+  const chunkSize = 200;
+  let missing = 0;
+
+  for (let i = 0; i < updates.length; i += chunkSize) {
+    const chunk = updates.slice(i, i + chunkSize);
+
+    try {
+      const targetItems = new Map(
+        (await fetchItems(client, chunk.map((update) => update.itemId))).map((item) => [item.item_id, item])
+      );
+      const recordedAt = new Date().toISOString();
+      const entries: UndoJournalEntry[] = [];
+
+      for (const update of chunk) {
+        const targetItem = targetItems.get(update.itemId);
+        if (!targetItem) {
+          continue;
+        }
+        entries.push({
+          operation: 'updated',
+          targetItemId: update.itemId,
+          sourceItemId: update.sourceItemId,
+          previousFields: snapshotPreviousFields(targetItem, Object.keys(update.fields)),
+          recordedAt,
+        });
+      }
+
+      await itemIdMapStore.recordUndoEntries(jobId, entries);
+      missing += chunk.length - entries.length;
+    } catch (error) {
+      missing += chunk.length;
+      logger.warn('Failed to journal update snapshots for chunk', {
+        jobId,
+        offset: i,
+        count: chunk.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (missing > 0) {
+    logger.warn('Could not snapshot some items before update - they cannot be rolled back', {
+      jobId,
+      missing,
+      total: updates.length,
+    });
+  }
+
+  return missing;
+}
+
+/**
+ * Turn an undo journal into the deletes and restores still to do
+ *
+ * Items the job created are deleted, even if a later run updated them. For
+ * items updated several times, the earliest recorded value of each field wins:
+ * that is the value from before the job first touched the item.
+ *
+ * @param entries - Undo journal, oldest first
+ * @param rolledBack - Target items an earlier rollback run already handled
+ */
+export function buildRollbackPlan(entries: UndoJournalEntry[], rolledBack: Set<number> = new Set()): RollbackPlan {
+  const created = new Set<number>();
+  const previousValues = new Map<number, Record<string, unknown>>();
+
+  for (const entry of entries) {
+    if (entry.operation === 'created') {
+      created.add(entry.targetItemId);
+      continue;
+    }
+
+    const fields = previousValues.get(entry.targetItemId) ?? {};
+    for (const [externalId, value] of Object.entries(entry.previousFields ?? {})) {
+      if (!(externalId in fields)) {
+        fields[externalId] = value;
+      }
+    }
+    previousValues.set(entry.targetItemId, fields);
+  }
+
+  const deletes = Array.from(created)
+    .filter((targetItemId) => !rolledBack.has(targetItemId))
+    .reverse();
+
+  const restores: RollbackPlan['restores'] = [];
+  for (const [targetItemId, fields] of previousValues) {
+    if (created.has(targetItemId) || rolledBack.has(targetItemId) || Object.keys(fields).length === 0) {
+      continue;
+    }
+    restores.push({
+      targetItemId,
+      // Podio clears a field when it is sent an empty list
+      fields: Object.fromEntries(
+        Object.entries(fields).map(([externalId, value]) => [externalId, value === null ? [] : value])
+      ),
+    });
+  }
+
+  return { deletes, restores };
+}
+
+/**
+ * Run (or resume) a rollback job in the background
+ * Dry runs only store a preview of what would be deleted and restored.
+ */
+export async function runItemRollback(
+  rollbackJobId: string,
+  client: PodioHttpClient = getPodioHttpClient()
+): Promise<void> {
+  logger.info('Starting item rollback job execution', { rollbackJobId });
+
+  registerActiveMigration(rollbackJobId);
+
+  let shouldPause = false;
+  let heartbeatTimer: NodeJS.Timeout | undefined;
+
+  registerShutdownCallback(rollbackJobId, async () => {
+    logger.info('Shutdown callback triggered', { rollbackJobId });
+    shouldPause = true;
+  });
+
+  try {
+    const job = await migrationStateStore.getMigrationJob(rollbackJobId);
+    if (!job) {
+      throw new Error(`Job not found: ${rollbackJobId}`);
+    }
+
+    const metadata = job.metadata as unknown as ItemRollbackJobMetadata;
+    const { migrationJobId } = metadata;
+
+    await migrationStateStore.updateJobStatus(rollbackJobId, 'in_progress');
+    await updateJobHeartbeat(rollbackJobId);
+    heartbeatTimer = setInterval(() => {
+      void updateJobHeartbeat(rollbackJobId);
+    }, getHeartbeatInterval());
+
+    const [entries, rolledBack] = await Promise.all([
+      itemIdMapStore.getUndoEntries(migrationJobId),
+      itemIdMapStore.getRolledBackItemIds(migrationJobId),
+    ]);
+    const plan = buildRollbackPlan(entries, rolledBack);
+
+    logger.info('Rollback plan built', {
+      rollbackJobId,
+      migrationJobId,
+      journalEntries: entries.length,
+      deletes: plan.deletes.length,
+      restores: plan.restores.length,
+      alreadyRolledBack: rolledBack.size,
+    });
+
+    if (metadata.dryRun) {
+      const preview: ItemRollbackPreview = {
+        wouldDelete: plan.deletes.length,
+        wouldRestore: plan.restores.length,
+        alreadyRolledBack: rolledBack.size,
+        deleteItemIds: plan.deletes.slice(0, PREVIEW_SAMPLE_SIZE),
+        restores: plan.restores.slice(0, PREVIEW_SAMPLE_SIZE),
+      };
+
+      await migrationStateStore.updateJobMetadata(rollbackJobId, { preview });
+      await migrationStateStore.updateJobStatus(rollbackJobId, 'completed', new Date());
+      return;
+    }
+
+    // Counts carry over from earlier (paused) runs of this rollback job
+    const result: ItemRollbackResult = metadata.result
+      ? { ...metadata.result, failed: 0, errors: [] }
+      : { deleted: 0, restored: 0, failed: 0, errors: [] };
+    const total = result.deleted + result.restored + plan.deletes.length + plan.restores.length;
+    const batchSize = metadata.batchSize;
+
+    const saveProgress = async () => {
+      const processed = result.deleted + result.restored + result.failed;
+      await migrationStateStore.updateJobProgress(rollbackJobId, {
+        total,
+        processed,
+        successful: result.deleted + result.restored,
+        failed: result.failed,
+        percent: total > 0 ? Math.round((processed / total) * 100) : 100,
+        lastUpdate: new Date(),
+      });
+      await migrationStateStore.updateJobMetadata(rollbackJobId, {
+        result: { ...result, errors: result.errors.slice(0, MAX_STORED_ERRORS) },
+      });
+    };
+    const checkPause = () => {
+      if (shouldPause || isPauseRequested(rollbackJobId)) {
+        throw new PauseRequested();
+      }
+    };
+
+    await saveProgress();
+
+    // Phase 1: delete the items the job created
+    for (let i = 0; i < plan.deletes.length; i += batchSize) {
+      checkPause();
+
+      const batch = plan.deletes.slice(i, i + batchSize);
+      const batchResult = await bulkDeleteItems(client, batch, {
+        concurrency: metadata.concurrency,
+        stopOnError: false,
+      });
+
+      const recordedAt = new Date().toISOString();
+      result.deleted += batchResult.successCount;
+      result.failed += batchResult.failureCount;
+      for (const failure of batchResult.failed) {
+        result.errors.push({ targetItemId: failure.itemId, operation: 'delete', message: failure.error });
+      }
+
+      await itemIdMapStore.recordRolledBackItems(
+        migrationJobId,
+        batchResult.successful.map((targetItemId): RollbackLogEntry => ({
+          targetItemId,
+          action: 'deleted',
+          recordedAt,
+        }))
+      );
+      await saveProgress();
+    }
+
+    // Phase 2: write back the values the job overwrote
+    for (let i = 0; i < plan.restores.length; i += batchSize) {
+      checkPause();
+
+      const batch = plan.restores.slice(i, i + batchSize);
+      const batchResult = await bulkUpdateItems(
+        client,
+        batch.map((restore) => ({ itemId: restore.targetItemId, fields: restore.fields })),
+        { concurrency: metadata.concurrency, stopOnError: false, hook: false }
+      );
+
+      const recordedAt = new Date().toISOString();
+      result.restored += batchResult.successCount;
+      result.failed += batchResult.failureCount;
+      for (const failure of batchResult.failed) {
+        result.errors.push({ targetItemId: failure.itemId, operation: 'restore', message: failure.error });
+      }
+
+      await itemIdMapStore.recordRolledBackItems(
+        migrationJobId,
+        batchResult.successful.map(({ itemId }): RollbackLogEntry => ({
+          targetItemId: itemId,
+          action: 'restored',
+          recordedAt,
+        }))
+      );
+      await saveProgress();
+    }
+
+    await migrationStateStore.updateJobStatus(
+      rollbackJobId,
+      result.failed > 0 ? 'failed' : 'completed',
+      new Date()
+    );
+
+    logger.info('Item rollback job finished', {
+      rollbackJobId,
+      migrationJobId,
+      deleted: result.deleted,
+      restored: result.restored,
+      failed: result.failed,
+    });
+  } catch (error) {
+    if (error instanceof PauseRequested) {
+      await migrationStateStore.updateJobStatus(rollbackJobId, 'paused');
+      logger.info('Item rollback job paused', { rollbackJobId });
+      return;
+    }
+
+    logger.error('Item rollback job failed', { rollbackJobId, error });
+
+    await migrationStateStore.updateJobStatus(rollbackJobId, 'failed', new Date());
+    await migrationStateStore.addMigrationError(
+      rollbackJobId,
+      'item_rollback',
+      error instanceof Error ? error.message : String(error),
+      'EXECUTION_ERROR'
+    );
+
+    throw error;
+  } finally {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+    }
+
+    unregisterActiveMigration(rollbackJobId);
+  }
+}
+
+/**
+ * Custom error to signal pause request
+ */
+class PauseRequested extends Error {
+  constructor() {
+    super('Rollback pause requested');
+    this.name = 'PauseRequested';
+  }
+}
+
+/**
+ * Get rollback job status
+ */
+export async function getItemRollbackJob(rollbackJobId: string): Promise<ItemRollbackStatusResponse | null> {
+  const job = await migrationStateStore.getMigrationJob(rollbackJobId);
+  if (!job || job.jobType !== 'item_rollback') {
+    return null;
+  }
+
+  const metadata = job.metadata as unknown as ItemRollbackJobMetadata;
+
+  return {
+    jobId: job.id,
+    migrationJobId: metadata.migrationJobId,
+    status: job.status as ItemRollbackStatusResponse['status'],
+    dryRun: metadata.dryRun,
+    progress: job.progress
+      ? {
+          total: job.progress.total,
+          processed: job.progress.processed,
+          successful: job.progress.successful,
+          failed: job.progress.failed,
+          percent: job.progress.percent,
+        }
+      : undefined,
+    preview: metadata.preview,
+    result: metadata.result,
+    startedAt: new Date(job.startedAt).toISOString(),
+    completedAt: job.completedAt ? new Date(job.completedAt).toISOString() : undefined,
+  };
+}
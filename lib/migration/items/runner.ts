@@ -8,6 +8,8 @@ import { ItemMigrator } from './item-migrator';
 import { updateMigrationProgress } from './service';
 import { logger } from '../logging';
 import { convertFilters } from './filter-converter';
+import { applySyncWatermark } from './sync-watermark';
+import { runOrphanDetection } from './orphan-reconciler';
 import {
   registerActiveMigration,
   unregisterActiveMigration,
@@ -17,15 +19,31 @@ import {
 import { ThroughputCalculator } from './throughput-calculator';
 import { MemoryMonitor, logMemoryStats, forceGC } from '../memory-monitor';
 import { updateJobHeartbeat, getHeartbeatInterval } from '../job-lifecycle';
+import { publishJobEvent } from '../job-events';
 import { failureLogger } from './failure-logger';
 import { getAppStructureCache } from './app-structure-cache';
 
+/**
+ * Options for running an item migration job
+ */
+export interface RunItemMigrationOptions {
+  /**
+   * Continue a paused, cancelled or failed run: source items already in the
+   * job's ID map are skipped and everything else (including earlier failures)
+   * is processed, instead of retrying only the logged failures
+   */
+  resume?: boolean;
+}
+
 /**
  * Run an item migration job in the background
  * Updates job status and progress throughout execution
  */
-export async function runItemMigrationJob(jobId: string): Promise<void> {
-  logger.info('Starting item migration job execution', { jobId });
+export async function runItemMigrationJob(
+  jobId: string,
+  options: RunItemMigrationOptions = {}
+): Promise<void> {
+  logger.info('Starting item migration job execution', { jobId, resume: !!options.resume });
 
   // Log initial memory usage
   logMemoryStats('migration_start');
@@ -77,8 +95,18 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
 
     // Extract failed item IDs for retry (if this is a retry)
     // Load lightweight list from the failures log
-    const retryItemIds = (await failureLogger.getFailedItemIds(jobId))
-      .filter(id => id > 0);
+    // Sync runs never switch to retry mode: the watermark is held back before
+    // failed items, so the next run picks them up along with new edits
+    const isSync = metadata.mode === 'sync';
+    const retryItemIds = isSync || options.resume
+      ? []
+      : (await failureLogger.getFailedItemIds(jobId)).filter(id => id > 0);
+
+    // A resumed run re-attempts earlier failures itself, so a later retry
+    // must not pick them up again
+    if (options.resume) {
+      await failureLogger.clearFailedItems(jobId);
+    }
 
     if (retryItemIds.length > 0) {
       logger.info('Retry mode detected - will process only failed items', {
@@ -162,8 +190,22 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
     let batchStartTime = Date.now();
     const PROGRESS_UPDATE_INTERVAL = 2000; // Update every 2 seconds
 
+    // Sync runs only fetch items edited since the stored watermark
+    const syncWatermark: string | undefined = isSync
+      ? metadata.resumption?.lastProcessedTimestamp
+      : undefined;
+    if (isSync) {
+      logger.info('Sync run starting', {
+        jobId,
+        watermark: syncWatermark ?? null,
+        previousRuns: metadata.sync?.runs || 0,
+      });
+    }
+
     // Convert user-friendly filters to Podio API format
-    const podioFilters = convertFilters(metadata.filters);
+    const podioFilters = convertFilters(
+      isSync ? applySyncWatermark(metadata.filters, syncWatermark) : metadata.filters
+    );
     if (Object.keys(podioFilters).length > 0) {
       logger.info('Applying migration filters', {
         jobId,
@@ -174,9 +216,12 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
 
     // Execute migration with progress callback
     const result = await migrator.executeMigration({
+      jobId,
       sourceAppId: metadata.sourceAppId,
       targetAppId: metadata.targetAppId,
       fieldMapping: metadata.fieldMapping,
+      fieldTransforms: metadata.fieldTransforms,
+      contactMapping: metadata.contactMapping,
       mode: metadata.mode || 'create',
       sourceMatchField: metadata.sourceMatchField,
       targetMatchField: metadata.targetMatchField,
@@ -189,7 +234,13 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
       maxItems: metadata.maxItems,
       dryRun: metadata.dryRun, // Pass dry-run mode
       transferFiles: metadata.transferFiles, // Pass file transfer mode
+      transferComments: metadata.transferComments,
+      transferTasks: metadata.transferTasks,
+      includeCompletedTasks: metadata.includeCompletedTasks,
+      createMissingCategoryOptions: metadata.createMissingCategoryOptions,
+      syncWatermark,
       retryItemIds: retryItemIds.length > 0 ? retryItemIds : undefined,
+      skipMigratedItems: options.resume,
       onProgress: async (progress) => {
         // Check for pause request
         if (isPauseRequested(jobId)) {
@@ -235,6 +286,8 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
             failed: progress.failed,
             percent: progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0,
             lastUpdate: new Date(),
+            tasks: progress.tasks,
+            comments: progress.comments,
           });
           lastProgressUpdate = now;
         }
@@ -290,6 +343,8 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
       failed: result.failed,
       percent: 100,
       lastUpdate: new Date(),
+      tasks: result.taskTransfer,
+      comments: result.commentTransfer,
     });
 
     // Store dry-run preview in metadata if available
@@ -311,13 +366,81 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
       }
     }
 
+    // Store relationship link-fixup summary so unresolved links are visible
+    if (result.linkFixup) {
+      logger.info('Storing link-fixup summary in job metadata', {
+        jobId,
+        ...result.linkFixup,
+      });
+      await migrationStateStore.updateJobMetadata(jobId, {
+        linkFixup: result.linkFixup,
+      });
+    }
+
+    if (result.commentTransfer) {
+      await migrationStateStore.updateJobMetadata(jobId, {
+        commentTransfer: result.commentTransfer,
+      });
+    }
+
+    if (result.categoryOptions) {
+      await migrationStateStore.updateJobMetadata(jobId, {
+        categoryOptions: result.categoryOptions,
+      });
+    }
+
+    // Store the new watermark for the next sync run
+    if (isSync && !metadata.dryRun && !shouldPause) {
+      await migrationStateStore.updateJobMetadata(jobId, {
+        resumption: {
+          ...metadata.resumption,
+          sortBy: 'last_event_on',
+          lastProcessedTimestamp: result.syncWatermark,
+        },
+        sync: {
+          runs: (metadata.sync?.runs || 0) + 1,
+          lastRunAt: new Date().toISOString(),
+          lastRunItems: result.successful,
+          lastRunFailed: result.failed,
+        },
+      });
+      logger.info('Sync watermark stored', {
+        jobId,
+        previous: syncWatermark ?? null,
+        next: result.syncWatermark ?? null,
+      });
+    }
+
+    // Look for target items whose source was deleted; acting on them waits for approval
+    const detectsOrphans = metadata.deletionSync && (metadata.mode === 'upsert' || isSync);
+    if (detectsOrphans && !metadata.dryRun && !shouldPause && retryItemIds.length === 0) {
+      const reconciliation = await runOrphanDetection(jobId, metadata.deletionSync);
+      logger.info('Orphan detection after run', {
+        jobId,
+        status: reconciliation.status,
+        orphans: reconciliation.orphans.length,
+      });
+    }
+
     // Check if cancelled by user
     if (shouldPause) {
       await migrationStateStore.updateJobStatus(jobId, 'cancelled', new Date());
+      publishJobEvent(jobId, { type: 'cancelled', status: 'cancelled' });
       logger.info('Item migration job cancelled by user', { jobId });
     } else {
       // Update status to completed
       await migrationStateStore.updateJobStatus(jobId, 'completed', new Date());
+      publishJobEvent(jobId, {
+        type: 'completed',
+        status: 'completed',
+        progress: {
+          total: result.processed,
+          processed: result.processed,
+          successful: result.successful,
+          failed: result.failed,
+          percent: 100,
+        },
+      });
 
       logger.info('Item migration job completed successfully', {
         jobId,
@@ -331,6 +454,7 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
     // Check if this was a cancellation request
     if (error instanceof PauseRequested) {
       await migrationStateStore.updateJobStatus(jobId, 'cancelled', new Date());
+      publishJobEvent(jobId, { type: 'cancelled', status: 'cancelled' });
       logger.info('Item migration job cancelled gracefully', { jobId });
       return; // Don't throw - this is a successful cancellation
     }
@@ -347,6 +471,14 @@ export async function runItemMigrationJob(jobId: string): Promise<void> {
       error instanceof Error ? error.message : String(error),
       'EXECUTION_ERROR'
     );
+    publishJobEvent(jobId, {
+      type: 'failed',
+      status: 'failed',
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: 'EXECUTION_ERROR',
+      },
+    });
 
     throw error;
   } finally {
@@ -377,12 +509,3 @@ class PauseRequested extends Error {
   }
 }
 
-/**
- * Start an item migration job in the background (non-blocking)
- * Used for starting new migrations or resuming paused ones
- */
-export function startItemMigrationJob(config: any): Promise<string> {
-  // This will be the entry point called by the resume API
-  // For now, return jobId placeholder - will be implemented when integrating with actual migration
-  return Promise.resolve('jobId-placeholder');
-}
@@ -4,7 +4,14 @@
  */
 
 import { migrationStateStore, MigrationProgress } from '../state-store';
-import { ItemMigrationRequestPayload, ItemMigrationStatusResponse, FieldMapping } from './types';
+import {
+  ItemMigrationJobMetadata,
+  ItemMigrationRequestPayload,
+  ItemMigrationStatusResponse,
+  FieldMapping,
+  FieldMappingSuggestion,
+  FieldTransforms,
+} from './types';
 import { getAppStructureDetailed } from '../../podio/migration';
 import { logger } from '../logging';
 import { isJobActive } from '../job-lifecycle';
@@ -17,6 +24,49 @@ import {
   INVALID_MATCH_FIELD_TYPES,
   isInvalidMatchFieldType
 } from './field-mapping';
+import { suggestFieldMappings } from './field-suggestions';
+import {
+  describeIncompatibleFields,
+  IncompatibleFieldPair,
+  isCompatibleFieldType,
+  planFieldConversions,
+} from './type-conversion';
+import { describeMatchKey, MATCH_NORMALIZATIONS, matchKeyFields } from './match-key';
+import { getAppStructureCache } from './app-structure-cache';
+
+/**
+ * Error thrown when mapped fields have types that cannot be converted
+ */
+export class IncompatibleFieldTypesError extends Error {
+  readonly pairs: IncompatibleFieldPair[];
+
+  constructor(pairs: IncompatibleFieldPair[]) {
+    super(describeIncompatibleFields(pairs));
+    this.name = 'IncompatibleFieldTypesError';
+    this.pairs = pairs;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Find mapped field pairs whose types cannot be converted
+ *
+ * @param fieldMapping - Source field_id -> target field_id
+ */
+export async function findIncompatibleFieldPairs(
+  fieldMapping: FieldMapping,
+  sourceAppId: number,
+  targetAppId: number
+): Promise<IncompatibleFieldPair[]> {
+  const externalIdFieldMapping = await convertFieldMappingToExternalIds(fieldMapping, sourceAppId, targetAppId);
+  const cache = getAppStructureCache();
+  const [sourceApp, targetApp] = await Promise.all([
+    cache.getAppStructure(sourceAppId),
+    cache.getAppStructure(targetAppId),
+  ]);
+
+  return planFieldConversions(sourceApp.fields || [], targetApp.fields || [], externalIdFieldMapping).incompatible;
+}
 
 /**
  * Validate that a field type is suitable for matching
@@ -190,32 +240,58 @@ export async function createItemMigrationJob(
       targetMatchField: request.targetMatchField,
     });
 
+    const sourceKeyFields = matchKeyFields(request.sourceMatchField);
+    const targetKeyFields = matchKeyFields(request.targetMatchField);
+    if (sourceKeyFields.length !== targetKeyFields.length) {
+      throw new Error(
+        `Source and target match keys must have the same number of fields ` +
+        `(source: ${describeMatchKey(request.sourceMatchField)}, target: ${describeMatchKey(request.targetMatchField)})`
+      );
+    }
+
     const sourceApp = await getAppStructureDetailed(request.sourceAppId);
     const targetApp = await getAppStructureDetailed(request.targetAppId);
 
-    const sourceField = sourceApp.fields?.find(f => f.external_id === request.sourceMatchField);
-    const targetField = targetApp.fields?.find(f => f.external_id === request.targetMatchField);
+    const validatedFields: Array<{ source: string; target: string; normalize?: string }> = [];
+    for (let i = 0; i < sourceKeyFields.length; i++) {
+      const sourceKeyField = sourceKeyFields[i];
+      const targetKeyField = targetKeyFields[i];
+      for (const keyField of [sourceKeyField, targetKeyField]) {
+        if (keyField.normalize && !MATCH_NORMALIZATIONS.includes(keyField.normalize)) {
+          throw new Error(
+            `Invalid match normalization "${keyField.normalize}" for "${keyField.field}". ` +
+            `Valid normalizations: ${MATCH_NORMALIZATIONS.join(', ')}`
+          );
+        }
+      }
+
+      const sourceField = sourceApp.fields?.find(f => f.external_id === sourceKeyField.field);
+      const targetField = targetApp.fields?.find(f => f.external_id === targetKeyField.field);
 
-    if (!sourceField) {
-      throw new Error(
-        `Source match field not found: "${request.sourceMatchField}" does not exist in source app ${request.sourceAppId}`
-      );
-    }
+      if (!sourceField) {
+        throw new Error(
+          `Source match field not found: "${sourceKeyField.field}" does not exist in source app ${request.sourceAppId}`
+        );
+      }
 
-    if (!targetField) {
-      throw new Error(
-        `Target match field not found: "${request.targetMatchField}" does not exist in target app ${request.targetAppId}`
-      );
-    }
+      if (!targetField) {
+        throw new Error(
+          `Target match field not found: "${targetKeyField.field}" does not exist in target app ${request.targetAppId}`
+        );
+      }
 
-    // Validate field types are suitable for matching
-    validateMatchFieldType(sourceField.type, sourceField.label || 'unknown', 'source');
-    validateMatchFieldType(targetField.type, targetField.label || 'unknown', 'target');
+      // Validate field types are suitable for matching
+      validateMatchFieldType(sourceField.type, sourceField.label || 'unknown', 'source');
+      validateMatchFieldType(targetField.type, targetField.label || 'unknown', 'target');
 
-    logger.info('Match field validation passed', {
-      sourceField: { external_id: sourceField.external_id, label: sourceField.label, type: sourceField.type },
-      targetField: { external_id: targetField.external_id, label: targetField.label, type: targetField.type },
-    });
+      validatedFields.push({
+        source: `${sourceField.label} (${sourceField.type})`,
+        target: `${targetField.label} (${targetField.type})`,
+        normalize: sourceKeyField.normalize,
+      });
+    }
+
+    logger.info('Match field validation passed', { fields: validatedFields });
   }
 
   // Validate filters if provided
@@ -241,6 +317,12 @@ export async function createItemMigrationJob(
     fieldMapping = await buildDefaultFieldMapping(request.sourceAppId, request.targetAppId);
   }
 
+  // Reject pairs without a converter in every mode, instead of dropping them while the job runs
+  const incompatible = await findIncompatibleFieldPairs(fieldMapping, request.sourceAppId, request.targetAppId);
+  if (incompatible.length > 0) {
+    throw new IncompatibleFieldTypesError(incompatible);
+  }
+
   // Create migration job in state store
   const job = await migrationStateStore.createMigrationJob(
     String(request.sourceAppId), // Using appId as spaceId for item migrations
@@ -251,6 +333,8 @@ export async function createItemMigrationJob(
       targetAppId: request.targetAppId,
       mode: request.mode || 'create',
       fieldMapping,
+      fieldTransforms: request.fieldTransforms,
+      contactMapping: request.contactMapping,
       sourceMatchField: request.sourceMatchField,
       targetMatchField: request.targetMatchField,
       duplicateBehavior: request.duplicateBehavior,
@@ -262,6 +346,11 @@ export async function createItemMigrationJob(
       maxItems: request.maxItems,
       dryRun: request.dryRun,
       transferFiles: request.transferFiles,
+      transferComments: request.transferComments,
+      transferTasks: request.transferTasks,
+      includeCompletedTasks: request.includeCompletedTasks,
+      createMissingCategoryOptions: request.createMissingCategoryOptions,
+      deletionSync: request.deletionSync,
     }
   );
 
@@ -273,6 +362,39 @@ export async function createItemMigrationJob(
   };
 }
 
+/**
+ * Rebuild the request an item migration job was created from
+ * Run state (resume tokens, sync watermarks, results) is left out, so the
+ * request starts a fresh job with the same configuration.
+ */
+export function itemMigrationRequestFromMetadata(
+  metadata: ItemMigrationJobMetadata & Partial<ItemMigrationRequestPayload>
+): ItemMigrationRequestPayload {
+  return {
+    sourceAppId: metadata.sourceAppId,
+    targetAppId: metadata.targetAppId,
+    mode: metadata.mode,
+    sourceMatchField: metadata.sourceMatchField,
+    targetMatchField: metadata.targetMatchField,
+    duplicateBehavior: metadata.duplicateBehavior,
+    fieldMapping: metadata.fieldMapping,
+    fieldTransforms: metadata.fieldTransforms,
+    contactMapping: metadata.contactMapping,
+    batchSize: metadata.batchSize,
+    concurrency: metadata.concurrency,
+    stopOnError: metadata.stopOnError,
+    filters: metadata.filters,
+    maxItems: metadata.maxItems,
+    dryRun: metadata.dryRun,
+    transferFiles: metadata.transferFiles,
+    transferComments: metadata.transferComments,
+    transferTasks: metadata.transferTasks,
+    includeCompletedTasks: metadata.includeCompletedTasks,
+    createMissingCategoryOptions: metadata.createMissingCategoryOptions,
+    deletionSync: metadata.deletionSync,
+  };
+}
+
 /**
  * Get item migration job status
  */
@@ -336,6 +458,8 @@ export async function getItemMigrationJob(
           failed: job.progress.failed,
           percent: job.progress.percent,
           lastUpdate: job.progress.lastUpdate.toISOString(),
+          tasks: job.progress.tasks,
+          comments: job.progress.comments,
         }
       : {
           total: 0,
@@ -362,9 +486,15 @@ export async function getItemMigrationJob(
       timestamp: err.timestamp.toISOString(),
     })),
     fieldMapping: metadata?.fieldMapping,
+    fieldTransforms: metadata?.fieldTransforms,
     errorsByCategory: Object.keys(errorsByCategory).length > 0 ? errorsByCategory : undefined,
     resumeToken: metadata?.resumeToken,
     canResume: job.status === 'failed' && !!metadata?.resumeToken,
+    resumption: metadata?.resumption,
+    sync: metadata?.sync,
+    orphanReconciliation: metadata?.orphanReconciliation,
+    reconciliation: metadata?.reconciliation,
+    rollbackJobId: metadata?.rollbackJobId,
     startedAt: typeof job.startedAt === 'string'
       ? job.startedAt
       : job.startedAt.toISOString(),
@@ -396,6 +526,9 @@ export async function getItemMigrationJob(
       : undefined,
     // Include dry-run preview if available
     dryRunPreview: metadata?.dryRunPreview || undefined,
+    linkFixup: metadata?.linkFixup || undefined,
+    commentTransfer: metadata?.commentTransfer || undefined,
+    categoryOptions: metadata?.categoryOptions || undefined,
   } as any;
 }
 
@@ -469,11 +602,49 @@ export async function convertFieldMappingToExternalIds(
   return externalIdMapping;
 }
 
+/**
+ * Convert per-mapping transforms from field IDs to external IDs
+ * Keys and concat source fields use source field IDs in the UI, but
+ * mapItemFields and the transform pipeline work with external IDs
+ */
+export async function convertFieldTransformsToExternalIds(
+  fieldTransforms: FieldTransforms,
+  sourceAppId: number
+): Promise<FieldTransforms> {
+  const sourceApp = await getAppStructureDetailed(sourceAppId);
+  const toExternalId = (fieldId: string) =>
+    sourceApp.fields?.find(f => f.field_id.toString() === fieldId)?.external_id;
+
+  const externalIdTransforms: FieldTransforms = {};
+
+  for (const [sourceFieldId, steps] of Object.entries(fieldTransforms)) {
+    const sourceExternalId = toExternalId(sourceFieldId);
+    if (!sourceExternalId) {
+      logger.warn('Could not convert field transforms to external IDs', { sourceFieldId });
+      continue;
+    }
+
+    externalIdTransforms[sourceExternalId] = steps.map(step =>
+      step.type === 'concat'
+        ? {
+            ...step,
+            sourceFields: step.sourceFields
+              .map(toExternalId)
+              .filter((externalId): externalId is string => !!externalId),
+          }
+        : step
+    );
+  }
+
+  return externalIdTransforms;
+}
+
 /**
  * Build default field mapping between two apps
  * Maps fields by external_id first, then by label if no external_id match
- * Automatically excludes read-only target fields that cannot be set via API
- * Automatically excludes app relationship fields to prevent unintended app-to-app references
+ * Only pairs types the conversion matrix allows, which excludes read-only target
+ * fields. App relationship fields are only paired with other app fields; their
+ * values are rewritten through the item ID map during migration
  */
 export async function buildDefaultFieldMapping(
   sourceAppId: number,
@@ -487,27 +658,13 @@ export async function buildDefaultFieldMapping(
 
     const mapping: FieldMapping = {};
 
-    // Field types to skip in auto-matching
-    const skipAutoMatchFieldTypes = [
-      'app' // App relationship fields - skip to prevent unintended app-to-app references
-    ];
-
     // First pass: match by external_id
     for (const sourceField of sourceApp.fields || []) {
-      // Skip app relationship fields in auto-matching
-      if (skipAutoMatchFieldTypes.includes(sourceField.type)) {
-        logger.debug('Skipping app relationship field in auto-match', {
-          sourceField: sourceField.external_id || sourceField.label,
-          type: sourceField.type,
-        });
-        continue;
-      }
-
       if (sourceField.external_id) {
         const targetField = targetApp.fields?.find(
           (f) => f.external_id === sourceField.external_id &&
-                 !isReadOnlyTargetFieldType(f.type) && // Exclude read-only target fields
-                 !skipAutoMatchFieldTypes.includes(f.type) // Skip app fields
+                 // Excludes read-only targets and pairs without a type converter
+                 isCompatibleFieldType(sourceField.type, f.type)
         );
         if (targetField) {
           mapping[sourceField.field_id.toString()] = targetField.field_id.toString();
@@ -538,26 +695,13 @@ export async function buildDefaultFieldMapping(
     }
 
     // Second pass: match by label for unmapped fields
-    // Allow cross-type matching if both types are valid for matching
-    const isCompatibleType = (type: string) =>
-      (VALID_MATCH_FIELD_TYPES as readonly string[]).includes(type) &&
-      !skipAutoMatchFieldTypes.includes(type);
-
     for (const sourceField of sourceApp.fields || []) {
-      // Skip app relationship fields in auto-matching
-      if (skipAutoMatchFieldTypes.includes(sourceField.type)) {
-        continue;
-      }
-
       if (!mapping[sourceField.field_id.toString()]) {
         const targetField = targetApp.fields?.find(
           (f) =>
             f.label === sourceField.label &&
-            // Allow type mismatch if both are compatible types (e.g., calculation -> text)
-            (f.type === sourceField.type ||
-             (isCompatibleType(sourceField.type) && isCompatibleType(f.type))) &&
-            !isReadOnlyTargetFieldType(f.type) && // Exclude read-only target fields
-            !skipAutoMatchFieldTypes.includes(f.type) && // Skip app fields
+            // Cross-type pairs need a converter (e.g., calculation -> text)
+            isCompatibleFieldType(sourceField.type, f.type) &&
             !Object.values(mapping).includes(f.field_id.toString())
         );
         if (targetField) {
@@ -592,6 +736,34 @@ export async function buildDefaultFieldMapping(
   }
 }
 
+/**
+ * Rank target field candidates for every source field
+ * Uses full field configs (category options included) from the app structure cache
+ * @param currentMapping - Mapping already in place; mapped fields and targets are not suggested again
+ */
+export async function suggestFieldMapping(
+  sourceAppId: number,
+  targetAppId: number,
+  currentMapping?: FieldMapping
+): Promise<FieldMappingSuggestion[]> {
+  const cache = getAppStructureCache();
+  const [sourceApp, targetApp] = await Promise.all([
+    cache.getAppStructure(sourceAppId),
+    cache.getAppStructure(targetAppId),
+  ]);
+
+  const suggestions = suggestFieldMappings(sourceApp.fields || [], targetApp.fields || [], { currentMapping });
+
+  logger.info('Field mapping suggestions built', {
+    sourceAppId,
+    targetAppId,
+    sourceFields: suggestions.length,
+    suggested: suggestions.filter((suggestion) => suggestion.suggested).length,
+  });
+
+  return suggestions;
+}
+
 /**
  * Update migration job progress
  * Called by the migration executor to update progress
@@ -710,27 +882,13 @@ export async function validateFieldMappingForRetry(
         continue; // Skip this mapping - don't add to filtered
       }
 
-      // Validate field type compatibility (warning only, not blocking)
-      if (sourceField.type !== targetField.type) {
-        // Allow certain cross-type mappings
-        const compatibleCrossTypes = [
-          ['calculation', 'text'],
-          ['calculation', 'number'],
-          ['number', 'text'],
-          ['text', 'number'],
-        ];
-
-        const isCompatible = compatibleCrossTypes.some(
-          ([src, tgt]) => sourceField.type === src && targetField.type === tgt
+      // Cross-type pairs need a converter; anything else would fail in Podio or store garbage
+      if (!isCompatibleFieldType(sourceField.type, targetField.type)) {
+        errors.push(
+          `Incompatible field types: "${sourceField.label || sourceFieldKey}" (${sourceField.type}) ` +
+          `cannot be mapped to "${targetField.label || targetFieldKey}" (${targetField.type}).`
         );
-
-        if (!isCompatible) {
-          warnings.push(
-            `Field type mismatch: "${sourceField.label || sourceFieldKey}" (${sourceField.type}) ` +
-            `-> "${targetField.label || targetFieldKey}" (${targetField.type}). ` +
-            `Data may not transfer correctly.`
-          );
-        }
+        continue;
       }
 
       // Add to filtered mapping (using field IDs for consistency)
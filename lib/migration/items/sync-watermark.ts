@@ -0,0 +1,111 @@
+/**
+ * Watermark helpers for sync mode
+ *
+ * A sync job remembers the latest source `last_event_on` it has mirrored.
+ * Each run narrows the source query to items edited on or after that day
+ * (Podio date filters are day-granular) and then skips items whose
+ * `last_event_on` is not strictly later than the watermark.
+ */
+
+import { PodioItem } from '../../podio/resources/items';
+import { ItemMigrationFilters } from './types';
+
+/**
+ * Parse a Podio timestamp ("YYYY-MM-DD HH:MM:SS", UTC) or ISO 8601 string
+ * Returns NaN for unparseable input.
+ */
+export function parseEventTimestamp(timestamp: string): number {
+  const trimmed = timestamp.trim();
+  const podioFormat = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(trimmed);
+  return Date.parse(podioFormat ? `${trimmed.replace(' ', 'T')}Z` : trimmed);
+}
+
+/**
+ * Format a time as a Podio timestamp ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+export function formatEventTimestamp(time: number): string {
+  return new Date(time).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Whether a source item changed after the watermark
+ * Items are always included when there is no watermark or no `last_event_on`.
+ */
+export function isEditedSince(item: Pick<PodioItem, 'last_event_on'>, watermark?: string): boolean {
+  if (!watermark || !item.last_event_on) {
+    return true;
+  }
+
+  const editedAt = parseEventTimestamp(item.last_event_on);
+  const since = parseEventTimestamp(watermark);
+  if (Number.isNaN(editedAt) || Number.isNaN(since)) {
+    return true;
+  }
+  return editedAt > since;
+}
+
+/**
+ * Narrow user filters to items edited on or after the watermark's day
+ * A later `lastEditFrom` chosen by the user is kept.
+ */
+export function applySyncWatermark(
+  filters: ItemMigrationFilters | undefined,
+  watermark?: string
+): ItemMigrationFilters | undefined {
+  if (!watermark) {
+    return filters;
+  }
+
+  const watermarkDay = watermark.trim().slice(0, 10);
+  const userFrom = filters?.lastEditFrom?.trim();
+  if (userFrom && userFrom.slice(0, 10) >= watermarkDay) {
+    return filters;
+  }
+
+  return { ...filters, lastEditFrom: watermarkDay };
+}
+
+/**
+ * Compute the watermark after a sync run
+ *
+ * The watermark moves to the latest `last_event_on` among the items the run
+ * saw, but never past a failed item: it stops one second before the earliest
+ * failure so that item is picked up again by the next run.
+ *
+ * @param previous - Watermark before the run
+ * @param eventTimes - Source item ID -> `last_event_on` for every item the run queued
+ * @param failedItemIds - Source item IDs that failed to write
+ */
+export function advanceSyncWatermark(
+  previous: string | undefined,
+  eventTimes: Map<number, string>,
+  failedItemIds: number[]
+): string | undefined {
+  const failed = new Set(failedItemIds);
+  let latest: number | undefined;
+  let earliestFailure: number | undefined;
+
+  for (const [sourceItemId, eventOn] of eventTimes) {
+    const time = parseEventTimestamp(eventOn);
+    if (Number.isNaN(time)) {
+      continue;
+    }
+    latest = latest === undefined ? time : Math.max(latest, time);
+    if (failed.has(sourceItemId)) {
+      earliestFailure = earliestFailure === undefined ? time : Math.min(earliestFailure, time);
+    }
+  }
+
+  if (latest === undefined) {
+    return previous;
+  }
+  if (earliestFailure !== undefined) {
+    latest = Math.min(latest, earliestFailure - 1000);
+  }
+
+  const previousTime = previous ? parseEventTimestamp(previous) : NaN;
+  if (!Number.isNaN(previousTime) && latest <= previousTime) {
+    return previous;
+  }
+  return formatEventTimestamp(latest);
+}
@@ -0,0 +1,181 @@
+/**
+ * Task transfer - recreates tasks attached to source items on migrated target items
+ *
+ * Text, description, due date, reminder and responsible user are preserved.
+ * When the responsible user cannot be assigned in the target workspace the task
+ * is created unassigned and the original assignee is noted in its description.
+ * Completed tasks are only copied when requested and are completed again after
+ * creation.
+ */
+
+import { PodioHttpClient } from '../../podio/http/client';
+import { PodioApiError } from '../../podio/errors';
+import {
+  PodioTask,
+  CreateTaskRequest,
+  CreateTaskResponse,
+  getItemTasks,
+  createItemTask,
+  completeTask,
+} from '../../podio/resources/tasks';
+import { TaskTransferCounts } from '../state-store';
+import { logger as migrationLogger } from '../logging';
+import { TaskMapEntry } from './item-id-map';
+
+/**
+ * Outcome of copying the tasks of a single item
+ */
+export interface ItemTaskTransfer extends TaskTransferCounts {
+  /** Source -> target task pairs to journal */
+  entries: TaskMapEntry[];
+  /** Errors for tasks that could not be copied */
+  errors: string[];
+}
+
+/**
+ * Build the create request for a copy of a source task
+ *
+ * @param task - Source task
+ * @param options.assignResponsible - Keep the original responsible user (default: true)
+ */
+export function buildTaskRequest(
+  task: PodioTask,
+  options: { assignResponsible?: boolean } = {}
+): CreateTaskRequest {
+  const assignResponsible = options.assignResponsible ?? true;
+  const responsibleUserId = task.responsible?.user_id;
+
+  let description = task.description || undefined;
+  if (!assignResponsible && task.responsible?.name) {
+    const note = `Originally assigned to ${task.responsible.name}`;
+    description = description ? `${description}\n\n${note}` : note;
+  }
+
+  return {
+    text: task.text,
+    description,
+    private: task.private,
+    due_date: task.due_date || undefined,
+    due_time: task.due_time || undefined,
+    responsible: assignResponsible && responsibleUserId ? responsibleUserId : undefined,
+    reminder: task.reminder ? { remind_delta: task.reminder.remind_delta } : undefined,
+  };
+}
+
+/**
+ * Copy the tasks of a source item to its target item
+ *
+ * @param client - Podio HTTP client
+ * @param sourceItemId - Item to read tasks from
+ * @param targetItemId - Item to create tasks on
+ * @param copiedTaskIds - Source task IDs already copied (updated in place)
+ * @param options.includeCompleted - Also copy completed tasks (default: false)
+ */
+export async function transferItemTasks(
+  client: PodioHttpClient,
+  sourceItemId: number,
+  targetItemId: number,
+  copiedTaskIds: Set<number>,
+  options: { includeCompleted?: boolean } = {}
+): Promise<ItemTaskTransfer> {
+  const outcome: ItemTaskTransfer = { copied: 0, skipped: 0, failed: 0, entries: [], errors: [] };
+
+  let tasks: PodioTask[] = [];
+  try {
+    tasks = await getItemTasks(client, sourceItemId);
+    if (options.includeCompleted) {
+      tasks = tasks.concat(await getItemTasks(client, sourceItemId, { completed: true }));
+    }
+  } catch (error) {
+    // The task count is unknown, so the item counts as one failure
+    outcome.failed++;
+    outcome.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  for (const task of tasks) {
+    if (copiedTaskIds.has(task.task_id)) {
+      outcome.skipped++;
+      continue;
+    }
+
+    try {
+      const created = await createTaskCopy(client, targetItemId, task);
+
+      copiedTaskIds.add(task.task_id);
+      outcome.copied++;
+      outcome.entries.push({
+        sourceTaskId: task.task_id,
+        targetTaskId: created.task_id,
+        sourceItemId,
+        targetItemId,
+        recordedAt: new Date().toISOString(),
+      });
+
+      if (task.status === 'completed') {
+        try {
+          await completeTask(client, created.task_id);
+        } catch (error) {
+          // The copy exists, so it is still journaled to avoid duplicating it on resume
+          migrationLogger.warn('Copied task could not be marked completed', {
+            sourceTaskId: task.task_id,
+            targetTaskId: created.task_id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } catch (error) {
+      outcome.failed++;
+      outcome.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (outcome.errors.length > 0) {
+    migrationLogger.warn('Task transfer incomplete for item', {
+      sourceItemId,
+      targetItemId,
+      copied: outcome.copied,
+      failed: outcome.failed,
+      errors: outcome.errors,
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Create a task copy, falling back to an unassigned task when the
+ * responsible user is rejected by the target workspace
+ */
+async function createTaskCopy(
+  client: PodioHttpClient,
+  targetItemId: number,
+  task: PodioTask
+): Promise<CreateTaskResponse> {
+  const request = buildTaskRequest(task);
+
+  try {
+    return await createItemTask(client, targetItemId, request, { hook: false, silent: true });
+  } catch (error) {
+    if (
+      !request.responsible ||
+      !(error instanceof PodioApiError) ||
+      !error.isClientError() ||
+      error.isRateLimited()
+    ) {
+      throw error;
+    }
+
+    migrationLogger.warn('Responsible user rejected - creating task unassigned', {
+      sourceTaskId: task.task_id,
+      targetItemId,
+      responsible: request.responsible,
+    });
+
+    return createItemTask(
+      client,
+      targetItemId,
+      buildTaskRequest(task, { assignResponsible: false }),
+      { hook: false, silent: true }
+    );
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * Field type compatibility matrix and cross-type value converters
+ *
+ * `mapItemFields` copies `extractFieldValue` output as-is, which only fits a
+ * target field of the same type. Every allowed source type -> target type pair
+ * is listed here with a converter that turns the raw source field into a value
+ * the target field type accepts. Pairs that are not listed are incompatible and
+ * rejected when a mapping is validated.
+ *
+ * This module has no runtime dependencies so the mapping editor can use the
+ * matrix as well.
+ */
+
+import type { PodioItem, PodioItemField } from '../../podio/resources/items';
+import type { AppField } from '../../podio/types';
+import { isReadOnlyTargetFieldType } from './field-mapping';
+
+/**
+ * Turns a raw source field into a value for the target field type
+ * Returns null when there is nothing to write (the field is left out)
+ */
+export type FieldValueConverter = (field: PodioItemField, targetField?: TargetFieldInfo) => unknown;
+
+export type TargetFieldInfo = Pick<AppField, 'type' | 'external_id'> & Partial<Pick<AppField, 'label' | 'config'>>;
+
+interface FieldTypeConversion {
+  /** How well values survive the conversion (0-1); used to rank mapping suggestions */
+  quality: number;
+  /** Short description shown in the mapping editor */
+  description: string;
+  convert: FieldValueConverter;
+}
+
+/**
+ * A mapped field pair whose types cannot be converted
+ */
+export interface IncompatibleFieldPair {
+  sourceExternalId: string;
+  sourceLabel: string;
+  sourceType: string;
+  targetExternalId: string;
+  targetLabel: string;
+  targetType: string;
+}
+
+/**
+ * Converters for the cross-type pairs of a field mapping, keyed by target external_id
+ */
+export interface FieldConversionPlan {
+  conversions: Map<string, { sourceType: string; targetType: string; convert: FieldValueConverter }>;
+  incompatible: IncompatibleFieldPair[];
+}
+
+const PODIO_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2})(?::\d{2})?)?/;
+const EMAIL_PATTERN = /[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+/g;
+
+// ---------------------------------------------------------------------------
+// Raw value readers
+// ---------------------------------------------------------------------------
+
+function plainText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value)
+    .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  const text = plainText(value).replace(/,/g, '').replace(/[^0-9.eE+-]/g, '');
+  if (text === '') {
+    return null;
+  }
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function firstValue(field: PodioItemField): unknown {
+  return field.values?.[0]?.value;
+}
+
+function numberOf(field: PodioItemField): number | null {
+  const value = firstValue(field);
+  // Money values arrive as { value, currency } or with the amount at the top level
+  if (value && typeof value === 'object' && 'value' in value) {
+    return parseNumber((value as { value: unknown }).value);
+  }
+  return parseNumber(value);
+}
+
+/**
+ * Format a Podio date ("YYYY-MM-DD HH:MM:SS"), leaving out midnight times of date-only values
+ */
+function formatDate(value: unknown, dateOnly: boolean): string {
+  const match = typeof value === 'string' ? PODIO_DATE_PATTERN.exec(value) : null;
+  if (!match) {
+    return '';
+  }
+  return match[2] && !dateOnly ? `${match[1]} ${match[2]}` : match[1];
+}
+
+function dateRangeText(field: PodioItemField): string {
+  const value = field.values?.[0];
+  if (!value) {
+    return '';
+  }
+  const dateOnly = value.start_time === null || (value.start_time === undefined && /00:00:00$/.test(value.start ?? ''));
+  const start = formatDate(value.start ?? value.value, dateOnly);
+  const end = formatDate(value.end, dateOnly);
+  return end && end !== start ? `${start} – ${end}` : start;
+}
+
+/**
+ * Parse text into a Podio date value, or null when it is not a date
+ */
+function parseDate(text: string): { start: string } | null {
+  const match = PODIO_DATE_PATTERN.exec(text.trim());
+  if (match) {
+    return { start: `${match[1]} ${match[2] ?? '00:00'}:00` };
+  }
+
+  const parsed = new Date(text);
+  if (!text.trim() || Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+  const iso = parsed.toISOString();
+  return { start: `${iso.slice(0, 10)} ${iso.slice(11, 19)}` };
+}
+
+function labels(field: PodioItemField): string[] {
+  return (field.values || [])
+    .map((entry) => (entry.value as { text?: string } | null)?.text)
+    .filter((text): text is string => typeof text === 'string' && text !== '');
+}
+
+function typedValues(field: PodioItemField): string[] {
+  return (field.values || [])
+    .map((entry) => plainText(typeof entry.value === 'object' ? (entry.value as { value?: unknown })?.value : entry.value))
+    .filter((text) => text !== '');
+}
+
+function contacts(field: PodioItemField): Array<{ name?: string; mail?: string[]; phone?: string[] }> {
+  return (field.values || [])
+    .map((entry) => entry.value as { name?: string; mail?: string[]; phone?: string[] } | null)
+    .filter((contact): contact is { name?: string; mail?: string[]; phone?: string[] } => !!contact);
+}
+
+function embedUrls(field: PodioItemField): string[] {
+  return (field.values || [])
+    .map((entry) => {
+      const embed = entry.embed as { original_url?: string; url?: string } | undefined;
+      return embed?.original_url || embed?.url || (typeof entry.value === 'string' ? entry.value : '');
+    })
+    .filter((url) => url !== '');
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = Math.round(seconds % 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+}
+
+function joinText(parts: string[]): string | null {
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// ---------------------------------------------------------------------------
+// Target value builders
+// ---------------------------------------------------------------------------
+
+function toMoney(amount: number | null, targetField?: TargetFieldInfo): { value: number; currency: string } | null {
+  if (amount === null) {
+    return null;
+  }
+  const currencies = targetField?.config?.settings?.allowed_currencies;
+  const currency = Array.isArray(currencies) && typeof currencies[0] === 'string' ? currencies[0] : 'USD';
+  return { value: amount, currency };
+}
+
+function toProgress(amount: number | null): number | null {
+  return amount === null ? null : Math.min(100, Math.max(0, Math.round(amount)));
+}
+
+function toTypedList(values: string[], type: string): Array<{ type: string; value: string }> | null {
+  return values.length > 0 ? values.map((value) => ({ type, value })) : null;
+}
+
+function toEmails(texts: string[]): Array<{ type: string; value: string }> | null {
+  return toTypedList(texts.flatMap((text) => text.match(EMAIL_PATTERN) ?? []), 'other');
+}
+
+/**
+ * Resolve labels to active options of the target category field
+ */
+function toCategoryIds(texts: string[], targetField?: TargetFieldInfo): number[] | null {
+  const options = targetField?.config?.settings?.options;
+  if (!Array.isArray(options)) {
+    return null;
+  }
+
+  const byLabel = new Map<string, number>();
+  for (const option of options as Array<{ id: number; text: string; status?: string }>) {
+    if (option.status !== 'deleted') {
+      byLabel.set(option.text.trim().toLowerCase(), option.id);
+    }
+  }
+
+  const ids = texts
+    .flatMap((text) => [text, ...text.split(',')])
+    .map((text) => byLabel.get(text.trim().toLowerCase()))
+    .filter((id): id is number => id !== undefined);
+  return ids.length > 0 ? [...new Set(ids)] : null;
+}
+
+const textOf = (field: PodioItemField) => plainText(firstValue(field));
+
+/**
+ * Allowed source type -> target type conversions (same-type pairs need none)
+ */
+const FIELD_TYPE_CONVERSIONS: Record<string, Record<string, FieldTypeConversion>> = {
+  text: {
+    number: { quality: 0.3, description: 'parsed as a number', convert: (field) => parseNumber(textOf(field)) },
+    money: { quality: 0.3, description: 'parsed as an amount', convert: (field, target) => toMoney(parseNumber(textOf(field)), target) },
+    email: { quality: 0.5, description: 'email addresses found in the text', convert: (field) => toEmails([textOf(field)]) },
+    phone: { quality: 0.5, description: 'phone number', convert: (field) => toTypedList([textOf(field)].filter(Boolean), 'other') },
+    location: { quality: 0.5, description: 'address', convert: (field) => textOf(field) || null },
+    date: { quality: 0.3, description: 'parsed as a date', convert: (field) => parseDate(textOf(field)) },
+    category: { quality: 0.4, description: 'matched to option labels', convert: (field, target) => toCategoryIds([textOf(field)], target) },
+  },
+  number: {
+    text: { quality: 0.5, description: 'as text', convert: (field) => numberOf(field)?.toString() ?? null },
+    money: { quality: 0.8, description: 'as an amount in the target currency', convert: (field, target) => toMoney(numberOf(field), target) },
+    progress: { quality: 0.6, description: 'rounded to 0-100', convert: (field) => toProgress(numberOf(field)) },
+  },
+  calculation: {
+    text: { quality: 0.8, description: 'calculated value as text', convert: (field) => (field.values?.[0]?.start ? dateRangeText(field) : textOf(field)) || null },
+    number: { quality: 0.8, description: 'calculated value', convert: (field) => numberOf(field) },
+    money: { quality: 0.6, description: 'calculated value as an amount', convert: (field, target) => toMoney(numberOf(field), target) },
+    date: {
+      quality: 0.5,
+      description: 'calculated date',
+      convert: (field) => {
+        const start = field.values?.[0]?.start;
+        return typeof start === 'string' ? { start } : parseDate(textOf(field));
+      },
+    },
+  },
+  money: {
+    number: { quality: 0.8, description: 'amount without currency', convert: (field) => numberOf(field) },
+    text: {
+      quality: 0.4,
+      description: 'amount and currency as text',
+      convert: (field) => {
+        const amount = numberOf(field);
+        const currency = field.values?.[0]?.currency ?? (firstValue(field) as { currency?: string } | null)?.currency;
+        return amount === null ? null : `${amount}${currency ? ` ${currency}` : ''}`;
+      },
+    },
+  },
+  progress: {
+    number: { quality: 0.8, description: 'percentage', convert: (field) => numberOf(field) },
+    text: { quality: 0.3, description: 'percentage as text', convert: (field) => (numberOf(field) === null ? null : `${numberOf(field)}%`) },
+  },
+  duration: {
+    number: { quality: 0.6, description: 'seconds', convert: (field) => numberOf(field) },
+    text: { quality: 0.3, description: 'as h:mm:ss', convert: (field) => (numberOf(field) === null ? null : formatDuration(numberOf(field)!)) },
+  },
+  date: {
+    text: { quality: 0.3, description: 'formatted date', convert: (field) => dateRangeText(field) || null },
+  },
+  category: {
+    text: { quality: 0.5, description: 'option labels', convert: (field) => joinText(labels(field)) },
+  },
+  question: {
+    text: { quality: 0.4, description: 'answer labels', convert: (field) => joinText(labels(field)) },
+    category: { quality: 0.6, description: 'matched to option labels', convert: (field, target) => toCategoryIds(labels(field), target) },
+  },
+  contact: {
+    text: { quality: 0.3, description: 'contact names', convert: (field) => joinText(contacts(field).map((c) => c.name ?? '').filter(Boolean)) },
+    email: {
+      quality: 0.4,
+      description: "contacts' email addresses",
+      convert: (field) => toTypedList(contacts(field).flatMap((c) => c.mail ?? []), 'work'),
+    },
+    phone: {
+      quality: 0.3,
+      description: "contacts' phone numbers",
+      convert: (field) => toTypedList(contacts(field).flatMap((c) => c.phone ?? []), 'work'),
+    },
+  },
+  email: {
+    text: { quality: 0.7, description: 'addresses as text', convert: (field) => joinText(typedValues(field)) },
+  },
+  phone: {
+    text: { quality: 0.7, description: 'numbers as text', convert: (field) => joinText(typedValues(field)) },
+    tel: { quality: 1, description: 'same values', convert: (field) => toTypedList(typedValues(field), 'other') },
+  },
+  tel: {
+    text: { quality: 0.7, description: 'numbers as text', convert: (field) => joinText(typedValues(field)) },
+    phone: { quality: 1, description: 'same values', convert: (field) => toTypedList(typedValues(field), 'other') },
+  },
+  location: {
+    text: { quality: 0.7, description: 'address as text', convert: (field) => textOf(field) || null },
+  },
+  embed: {
+    text: { quality: 0.5, description: 'link URLs', convert: (field) => joinText(embedUrls(field)) },
+  },
+  link: {
+    text: { quality: 0.7, description: 'link URLs', convert: (field) => joinText(embedUrls(field)) },
+  },
+};
+
+/**
+ * How well a source field type maps to a target field type (0 = incompatible)
+ * Same-type pairs score 1; read-only targets always score 0.
+ */
+export function fieldTypeCompatibility(sourceType: string, targetType: string): number {
+  if (isReadOnlyTargetFieldType(targetType)) {
+    return 0;
+  }
+  if (sourceType === targetType) {
+    return 1;
+  }
+  return FIELD_TYPE_CONVERSIONS[sourceType]?.[targetType]?.quality ?? 0;
+}
+
+export function isCompatibleFieldType(sourceType: string, targetType: string): boolean {
+  return fieldTypeCompatibility(sourceType, targetType) > 0;
+}
+
+/**
+ * What happens to values of a cross-type pair, e.g. "date → text: formatted date"
+ * @returns undefined for same-type and incompatible pairs
+ */
+export function describeFieldTypeConversion(sourceType: string, targetType: string): string | undefined {
+  const conversion = sourceType === targetType ? undefined : FIELD_TYPE_CONVERSIONS[sourceType]?.[targetType];
+  return conversion ? `${sourceType} → ${targetType}: ${conversion.description}` : undefined;
+}
+
+/**
+ * Target types a source type can be mapped to, besides its own type
+ */
+export function convertibleTargetTypes(sourceType: string): string[] {
+  return Object.keys(FIELD_TYPE_CONVERSIONS[sourceType] ?? {});
+}
+
+/**
+ * Find the converters for a mapping and the pairs that cannot be converted
+ *
+ * @param sourceFields - Source app fields
+ * @param targetFields - Target app fields
+ * @param fieldMapping - Source external_id -> target external_id
+ */
+export function planFieldConversions(
+  sourceFields: Array<Pick<AppField, 'type' | 'external_id' | 'label'>>,
+  targetFields: TargetFieldInfo[],
+  fieldMapping: Record<string, string>
+): FieldConversionPlan {
+  const plan: FieldConversionPlan = { conversions: new Map(), incompatible: [] };
+
+  for (const [sourceExternalId, targetExternalId] of Object.entries(fieldMapping)) {
+    const sourceField = sourceFields.find((field) => field.external_id === sourceExternalId);
+    const targetField = targetFields.find((field) => field.external_id === targetExternalId);
+    // Missing and read-only fields are reported by the existing mapping checks
+    if (!sourceField || !targetField || sourceField.type === targetField.type || isReadOnlyTargetFieldType(targetField.type)) {
+      continue;
+    }
+
+    const conversion = FIELD_TYPE_CONVERSIONS[sourceField.type]?.[targetField.type];
+    if (conversion) {
+      plan.conversions.set(targetExternalId, {
+        sourceType: sourceField.type,
+        targetType: targetField.type,
+        convert: (field) => conversion.convert(field, targetField),
+      });
+    } else {
+      plan.incompatible.push({
+        sourceExternalId,
+        sourceLabel: sourceField.label || sourceExternalId,
+        sourceType: sourceField.type,
+        targetExternalId,
+        targetLabel: targetField.label || targetExternalId,
+        targetType: targetField.type,
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Human-readable error for incompatible pairs
+ */
+export function describeIncompatibleFields(pairs: IncompatibleFieldPair[]): string {
+  return (
+    'Incompatible field types: ' +
+    pairs
+      .map(
+        (pair) =>
+          `"${pair.sourceLabel}" (${pair.sourceType}) cannot be mapped to "${pair.targetLabel}" (${pair.targetType})` +
+          (convertibleTargetTypes(pair.sourceType).length > 0
+            ? ` - ${pair.sourceType} fields map to ${[pair.sourceType, ...convertibleTargetTypes(pair.sourceType)].join(', ')}`
+            : ` - ${pair.sourceType} fields only map to ${pair.sourceType} fields`)
+      )
+      .join('; ')
+  );
+}
+
+/**
+ * Replace the values of cross-type pairs with converted values
+ * Incompatible pairs are left out, since Podio would reject or garble them.
+ *
+ * @param sourceItem - Source item being migrated
+ * @param mappedFields - Output of mapItemFields (target external_id -> value)
+ * @param fieldMapping - Source external_id -> target external_id
+ * @param plan - Result of planFieldConversions for the same mapping
+ * @returns New mapped fields
+ */
+export function convertFieldTypes(
+  sourceItem: PodioItem,
+  mappedFields: Record<string, unknown>,
+  fieldMapping: Record<string, string>,
+  plan: FieldConversionPlan
+): Record<string, unknown> {
+  if (plan.conversions.size === 0 && plan.incompatible.length === 0) {
+    return mappedFields;
+  }
+
+  const result = { ...mappedFields };
+  for (const pair of plan.incompatible) {
+    delete result[pair.targetExternalId];
+  }
+
+  for (const field of sourceItem.fields) {
+    const targetExternalId = fieldMapping[field.external_id];
+    const conversion = targetExternalId ? plan.conversions.get(targetExternalId) : undefined;
+    if (!conversion || !(targetExternalId in result)) {
+      continue;
+    }
+
+    const value = conversion.convert(field);
+    if (value === null || value === undefined || value === '') {
+      delete result[targetExternalId];
+    } else {
+      result[targetExternalId] = value;
+    }
+  }
+
+  return result;
+}
@@ -3,10 +3,12 @@
  * Defines data models for item migration jobs, requests, and progress tracking
  */
 
+import type { JobProgressEvent } from '../job-events';
+
 /**
  * Item migration mode
  */
-export type ItemMigrationMode = 'create' | 'update' | 'upsert';
+export type ItemMigrationMode = 'create' | 'update' | 'upsert' | 'sync';
 
 /**
  * Failed item record for retry functionality
@@ -23,6 +25,92 @@ export interface FailedItemRecord {
  */
 export type FieldMapping = Record<string, string>;
 
+/**
+ * How well a target field fits a source field; every part is 0-1
+ */
+export interface FieldMatchScore {
+  /** Weighted total used for ranking */
+  score: number;
+  /** Fuzzy similarity of the labels (or external IDs, whichever is higher) */
+  label: number;
+  /** Type compatibility; 0 means the pair cannot be mapped */
+  type: number;
+  /** Shared category option labels, for category -> category pairs */
+  options?: number;
+}
+
+export interface FieldMappingCandidate extends FieldMatchScore {
+  targetFieldId: string;
+}
+
+/**
+ * Ranked target candidates for one source field
+ */
+export interface FieldMappingSuggestion {
+  sourceFieldId: string;
+  /** Best candidates first */
+  candidates: FieldMappingCandidate[];
+  /** Candidate to pre-select; no target is suggested for more than one source field */
+  suggested?: FieldMappingCandidate;
+}
+
+/**
+ * Declarative value transform applied to a mapped field
+ * Transforms run in order on the source value before it is written to the target field.
+ */
+export type FieldTransform =
+  /** Trim surrounding whitespace */
+  | { type: 'trim' }
+  /** Change letter case */
+  | { type: 'case'; mode: 'upper' | 'lower' | 'title' }
+  /** Replace regex matches (JavaScript syntax) */
+  | { type: 'regex_replace'; pattern: string; flags?: string; replacement: string }
+  /** Rename category options by label (source label -> target label); unlisted labels are kept */
+  | { type: 'category_map'; options: Record<string, string> }
+  /** Shift date values */
+  | { type: 'date_shift'; days?: number; hours?: number; minutes?: number }
+  /** Join the value with other source fields (source field IDs) into text */
+  | { type: 'concat'; sourceFields: string[]; separator?: string }
+  /** Use a constant when the value is empty */
+  | { type: 'default'; value: string | number }
+  /** Convert text to a number */
+  | { type: 'to_number' }
+  /** Convert any value to text */
+  | { type: 'to_text' };
+
+export type FieldTransformType = FieldTransform['type'];
+
+/**
+ * Per-mapping transforms, keyed by source field ID like FieldMapping
+ */
+export type FieldTransforms = Record<string, FieldTransform[]>;
+
+/**
+ * How a match key field is compared
+ * - default: trimmed, case-insensitive, numbers in canonical form
+ * - text: also ignores accents, spaces and punctuation ("O'Brien" = "obrien")
+ * - digits: digits only, for phone numbers and formatted IDs
+ * - date: calendar date of the (start) date, time ignored
+ */
+export type MatchNormalization = 'default' | 'text' | 'digits' | 'date';
+
+/**
+ * One field of a composite match key
+ */
+export interface MatchKeyField {
+  /** Field external_id */
+  field: string;
+  /** Defaults to 'date' for date fields and 'default' otherwise */
+  normalize?: MatchNormalization;
+}
+
+/**
+ * Fields that identify an item for duplicate detection
+ * A single external_id, or several fields that must all match. Source and
+ * target keys of a migration pair up by position.
+ */
+export type MatchKey = string | MatchKeyField[];
+
 /**
  * Item migration filters for date-based and tag-based filtering
  *
@@ -123,6 +211,193 @@ export interface ResumptionConfig {
   userOverride?: boolean;
 }
 
+/**
+ * Sync mode bookkeeping stored with the job
+ * The watermark (latest mirrored source `last_event_on`) lives in
+ * `resumption.lastProcessedTimestamp`.
+ */
+export interface SyncState {
+  /** Completed sync runs, the initial full load included */
+  runs: number;
+  /** When the last run finished (ISO 8601) */
+  lastRunAt?: string;
+  /** Source items written by the last run */
+  lastRunItems?: number;
+  /** Items that failed in the last run and held the watermark back */
+  lastRunFailed?: number;
+}
+
+/**
+ * What to do with target items whose source item was deleted
+ * - delete: delete the target item
+ * - archive: tag the target item (default tag: "source-deleted")
+ * - report: only list them
+ */
+export type OrphanAction = 'delete' | 'archive' | 'report';
+
+/**
+ * Deletion propagation settings
+ * When set, each completed upsert/sync run compares the source app with the
+ * job's item ID map. Deleting or archiving always waits for approval.
+ */
+export interface DeletionSyncConfig {
+  action: OrphanAction;
+  /** Tag added to target items when action is 'archive' */
+  archiveTag?: string;
+}
+
+/**
+ * A migrated target item whose source item no longer exists
+ */
+export interface OrphanedItem {
+  sourceItemId: number;
+  targetItemId: number;
+}
+
+/**
+ * Orphan reconciliation state stored with the job
+ */
+export interface OrphanReconciliationState {
+  status: 'detecting' | 'waiting_approval' | 'applying' | 'completed' | 'failed';
+  action: OrphanAction;
+  archiveTag?: string;
+  /** Orphaned target items found by the last detection */
+  orphans: OrphanedItem[];
+  detectedAt?: string;
+  completedAt?: string;
+  /** Outcome of the approved action */
+  result?: {
+    deleted: number;
+    archived: number;
+    failed: number;
+    errors: Array<{ targetItemId: number; message: string }>;
+  };
+  error?: string;
+}
+
+/**
+ * Per-field outcome of a reconciliation report (external IDs)
+ */
+export interface ReconciliationFieldStats {
+  sourceField: string;
+  targetField: string;
+  label: string;
+  /** Paired items compared on this field */
+  compared: number;
+  mismatched: number;
+  /** The mapping has value transforms, so some differences may be intended */
+  transformed?: boolean;
+}
+
+/**
+ * Field-by-field comparison of the source app with the target app, stored with the job
+ * Differing values are written to a CSV that the reconciliation route serves.
+ */
+export interface ReconciliationReport {
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt?: string;
+  /** How source items were paired with target items */
+  pairedBy: 'id_map' | 'match_field' | 'id_map_and_match_field';
+  sourceItems: number;
+  targetItems: number;
+  paired: number;
+  /** Source items without a target counterpart */
+  missingInTarget: number;
+  /** Target items not paired with any source item */
+  unpairedTarget: number;
+  /** Paired items with at least one differing field */
+  itemsWithDifferences: number;
+  fields: ReconciliationFieldStats[];
+  error?: string;
+}
+
+/**
+ * What a rollback would do, computed from the undo journal (dry run)
+ */
+export interface ItemRollbackPreview {
+  wouldDelete: number;
+  wouldRestore: number;
+  /** Items already handled by an earlier (paused or failed) rollback */
+  alreadyRolledBack: number;
+  /** First target items that would be deleted */
+  deleteItemIds: number[];
+  /** First target items that would get their previous values back */
+  restores: Array<{ targetItemId: number; fields: Record<string, unknown> }>;
+}
+
+/**
+ * Outcome of a rollback run
+ */
+export interface ItemRollbackResult {
+  deleted: number;
+  restored: number;
+  failed: number;
+  errors: Array<{ targetItemId: number; operation: 'delete' | 'restore'; message: string }>;
+}
+
+/**
+ * Rollback job metadata (stored in MigrationJob.metadata of an `item_rollback` job)
+ */
+export interface ItemRollbackJobMetadata {
+  jobType: 'item_rollback';
+  /** Item migration job being undone */
+  migrationJobId: string;
+  sourceAppId: number;
+  targetAppId: number;
+  dryRun: boolean;
+  batchSize: number;
+  concurrency: number;
+  preview?: ItemRollbackPreview;
+  result?: ItemRollbackResult;
+}
+
+/**
+ * Rollback status response
+ */
+export interface ItemRollbackStatusResponse {
+  jobId: string;
+  migrationJobId: string;
+  status: 'queued' | 'deferred' | 'planning' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled';
+  dryRun: boolean;
+  progress?: {
+    total: number;
+    processed: number;
+    successful: number;
+    failed: number;
+    percent: number;
+  };
+  preview?: ItemRollbackPreview;
+  result?: ItemRollbackResult;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Contact resolution settings
+ * When set, contact values are re-pointed to members of the target space
+ * (same profile, then email, then unique name) instead of copying profile IDs.
+ */
+export interface ContactMappingConfig {
+  /** What to do with contacts that have no matching target member (default: 'drop') */
+  fallback?: 'drop' | 'default_user' | 'note';
+  /** Target profile ID assigned when fallback is 'default_user' */
+  defaultProfileId?: number;
+  /** Target text field ID that receives the names of unmatched contacts when fallback is 'note' */
+  noteFieldId?: string;
+}
+
+/**
+ * A source category option with no option of the same label on the mapped target field
+ */
+export interface MissingCategoryOption {
+  sourceFieldExternalId: string;
+  targetFieldExternalId: string;
+  targetFieldLabel: string;
+  sourceOptionId: number;
+  label: string;
+}
+
 /**
  * Item migration job metadata
  */
@@ -131,12 +406,24 @@ export interface ItemMigrationJobMetadata {
   targetAppId: number;
   mode: ItemMigrationMode;
   fieldMapping: FieldMapping;
+  fieldTransforms?: FieldTransforms;
+  contactMapping?: ContactMappingConfig;
   batchSize?: number;
   concurrency?: number;
   filters?: ItemMigrationFilters;
   resumeToken?: string;
   /** Resumption configuration for multi-session migrations */
   resumption?: ResumptionConfig;
+  /** Sync mode run history */
+  sync?: SyncState;
+  /** Deletion propagation settings */
+  deletionSync?: DeletionSyncConfig;
+  /** Last orphan reconciliation */
+  orphanReconciliation?: OrphanReconciliationState;
+  /** Last field-by-field reconciliation report */
+  reconciliation?: ReconciliationReport;
+  /** Latest rollback job started for this job */
+  rollbackJobId?: string;
 }
 
 /**
@@ -146,10 +433,12 @@ export interface ItemMigrationRequestPayload {
   sourceAppId: number;
   targetAppId: number;
   mode?: ItemMigrationMode;
-  sourceMatchField?: string; // Source field external_id to extract value from for matching
-  targetMatchField?: string; // Target field external_id to search by for matching
+  sourceMatchField?: MatchKey; // Source field external_id (or composite key) to extract values from for matching
+  targetMatchField?: MatchKey; // Target field external_id (or composite key) to search by for matching
   duplicateBehavior?: 'skip' | 'error' | 'update'; // How to handle duplicates when match fields are set
   fieldMapping?: FieldMapping;
+  fieldTransforms?: FieldTransforms; // Per-mapping value transforms (keyed by source field ID)
+  contactMapping?: ContactMappingConfig; // Re-point contacts to target space members
   batchSize?: number;
   concurrency?: number;
   stopOnError?: boolean;
@@ -158,6 +447,11 @@ export interface ItemMigrationRequestPayload {
   maxItems?: number; // Maximum number of items to migrate (for testing)
   dryRun?: boolean; // Dry-run mode: preview changes without executing (CREATE, UPDATE, and UPSERT modes)
   transferFiles?: boolean; // Transfer files from source to destination (UPDATE/UPSERT modes only)
+  transferComments?: boolean; // Copy source item comments to the migrated items
+  transferTasks?: boolean; // Recreate tasks attached to source items on the migrated items
+  includeCompletedTasks?: boolean; // Also copy completed tasks (requires transferTasks)
+  createMissingCategoryOptions?: boolean; // Add category options missing on target fields (matched by label)
+  deletionSync?: DeletionSyncConfig; // Find target items whose source was deleted after upsert/sync runs
   /** Resumption configuration for multi-session migrations */
   resumption?: ResumptionConfig;
 }
@@ -205,8 +499,8 @@ export interface ItemMigrationJob {
  */
 export interface ItemMigrationStatusResponse {
   jobId: string;
-  status: 'planning' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled';
-  mode: 'create' | 'update' | 'upsert';
+  status: 'queued' | 'deferred' | 'planning' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled';
+  mode: ItemMigrationMode;
   progress: {
     total: number;
     processed: number;
@@ -216,6 +510,18 @@ export interface ItemMigrationStatusResponse {
     failed: number;
     percent: number;
     lastUpdate: string;
+    /** Item task transfer counts (only when task transfer is enabled) */
+    tasks?: {
+      copied: number;
+      skipped: number;
+      failed: number;
+    };
+    /** Item comment transfer counts (only when comment transfer is enabled) */
+    comments?: {
+      copied: number;
+      skipped: number;
+      failed: number;
+    };
   };
   /** Real-time throughput and performance metrics */
   throughput?: {
@@ -234,6 +540,8 @@ export interface ItemMigrationStatusResponse {
   }>;
   /** Field mapping used for this job */
   fieldMapping?: FieldMapping;
+  /** Value transforms used for this job */
+  fieldTransforms?: FieldTransforms;
   /** Error statistics by category */
   errorsByCategory?: Record<string, {
     count: number;
@@ -246,6 +554,14 @@ export interface ItemMigrationStatusResponse {
   completedAt?: string;
   /** Current resumption state (where migration will resume from) */
   resumption?: ResumptionConfig;
+  /** Sync mode run history (sync jobs only) */
+  sync?: SyncState;
+  /** Orphan reconciliation (target items whose source item was deleted) */
+  orphanReconciliation?: OrphanReconciliationState;
+  /** Last field-by-field reconciliation report */
+  reconciliation?: ReconciliationReport;
+  /** Latest rollback job started for this job */
+  rollbackJobId?: string;
   /** Failed items for retry functionality */
   failedItems?: FailedItemRecord[];
   /** Number of retry attempts made */
@@ -261,31 +577,30 @@ export interface ItemMigrationStatusResponse {
     percent: number;
     lastUpdate: string;
   };
-}
-
-/**
- * Item migration progress event (for SSE)
- */
-export interface ItemMigrationProgressEvent {
-  type: 'progress' | 'error' | 'completed' | 'failed';
-  jobId: string;
-  progress?: {
-    total: number;
-    processed: number;
-    successful: number;
+  /** Relationship link-fixup summary (resolved / still pending / failed links) */
+  linkFixup?: {
+    resolved: number;
+    pending: number;
     failed: number;
-    percent: number;
-    throughput?: number; // items per second
-    eta?: number; // seconds remaining
   };
-  error?: {
-    itemId?: string;
-    message: string;
-    code?: string;
+  /** Comment transfer summary (copied / skipped as already copied / failed) */
+  commentTransfer?: {
+    copied: number;
+    skipped: number;
+    failed: number;
+  };
+  /** Category options missing on target fields, and those added during the run */
+  categoryOptions?: {
+    missing: MissingCategoryOption[];
+    created: MissingCategoryOption[];
   };
-  timestamp: string;
 }
 
+/**
+ * Item migration progress event, as streamed by `GET /api/migration/items/[jobId]/events`
+ */
+export type ItemMigrationProgressEvent = JobProgressEvent;
+
 /**
  * Item migration service result
  */
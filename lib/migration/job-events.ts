@@ -0,0 +1,218 @@
+/**
+ * Job Event Bus
+ *
+ * Running jobs publish progress, item errors, rate-limit pauses and status
+ * changes here; the per-job SSE endpoints subscribe and forward them to the
+ * browser. Events are not stored, so a stream always opens with a snapshot of
+ * the job's persisted state and only then relays live events.
+ */
+
+import { EventEmitter } from 'events';
+import type { MigrationJob, MigrationJobStatus } from './state-store';
+
+/**
+ * Kinds of job events
+ * - `status`: the job moved to another running phase (e.g. detecting -> deleting)
+ * - `waiting_approval`, `paused`, `completed`, `failed`, `cancelled`: the job stopped
+ */
+export type JobEventType =
+  | 'progress'
+  | 'error'
+  | 'rate_limit_paused'
+  | 'rate_limit_resumed'
+  | 'status'
+  | 'waiting_approval'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Job event, as sent over SSE
+ */
+export interface JobProgressEvent {
+  type: JobEventType;
+  jobId: string;
+  status?: MigrationJobStatus;
+  progress?: {
+    total: number;
+    processed: number;
+    successful: number;
+    failed: number;
+    percent: number;
+    throughput?: number; // items per second
+    eta?: number; // seconds remaining
+  };
+  error?: {
+    itemId?: string;
+    message: string;
+    code?: string;
+  };
+  rateLimit?: {
+    remaining?: number;
+    limit?: number;
+    resumeAt?: string;
+    pauseDurationMs?: number;
+  };
+  timestamp: string;
+}
+
+/** Event types after which the job does nothing until a user acts */
+const STOPPED_EVENT_TYPES: JobEventType[] = ['waiting_approval', 'paused', 'completed', 'failed', 'cancelled'];
+
+/** Interval of SSE comment lines that keep proxies from closing idle streams */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export const JOB_EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+const emitter = new EventEmitter();
+// One listener per open stream; many browser tabs may watch the same job
+emitter.setMaxListeners(0);
+
+/**
+ * Whether the job has stopped after this event
+ */
+export function isStoppedJobEvent(event: Pick<JobProgressEvent, 'type'>): boolean {
+  return STOPPED_EVENT_TYPES.includes(event.type);
+}
+
+/**
+ * Publish an event for a job
+ * Never throws: a failing subscriber must not break the job that publishes.
+ */
+export function publishJobEvent(
+  jobId: string,
+  event: Omit<JobProgressEvent, 'jobId' | 'timestamp'>
+): void {
+  const fullEvent: JobProgressEvent = {
+    ...event,
+    jobId,
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    emitter.emit(jobId, fullEvent);
+  } catch {
+    // Subscribers handle their own errors; ignore anything that slips through
+  }
+}
+
+/**
+ * Subscribe to a job's events
+ * @returns Unsubscribe function
+ */
+export function subscribeToJobEvents(
+  jobId: string,
+  listener: (event: JobProgressEvent) => void
+): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
+
+/**
+ * Build the opening event of a stream from the job's persisted state
+ */
+export function snapshotJobEvent(job: MigrationJob): JobProgressEvent {
+  const stoppedType = STOPPED_EVENT_TYPES.find((type) => type === job.status);
+
+  return {
+    type: stoppedType ?? 'status',
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress
+      ? {
+          total: job.progress.total,
+          processed: job.progress.processed,
+          successful: job.progress.successful,
+          failed: job.progress.failed,
+          percent: job.progress.percent,
+        }
+      : undefined,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Create a Server-Sent Events stream of a job's events
+ *
+ * The stream subscribes before loading the snapshot, so nothing published in
+ * between is lost: it sends the snapshot, then the buffered and live events,
+ * and ends after an event that stops the job or when the client disconnects.
+ */
+export function createJobEventStream(
+  jobId: string,
+  loadSnapshot: () => Promise<JobProgressEvent>,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cleanup: () => void = () => undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let buffered: JobProgressEvent[] | null = [];
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        if (heartbeat) clearInterval(heartbeat);
+        signal.removeEventListener('abort', close);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      cleanup = close;
+
+      const send = (event: JobProgressEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (isStoppedJobEvent(event)) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToJobEvents(jobId, (event) => {
+        if (buffered) {
+          buffered.push(event);
+        } else {
+          send(event);
+        }
+      });
+      signal.addEventListener('abort', close);
+
+      try {
+        send(await loadSnapshot());
+      } catch (error) {
+        controller.error(error);
+        closed = true;
+        unsubscribe();
+        return;
+      }
+
+      const pending = buffered;
+      buffered = null;
+      pending.forEach(send);
+
+      if (!closed) {
+        heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+        }, HEARTBEAT_INTERVAL_MS);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Job specs <-> jobs
+ *
+ * Templates, schedules and re-runs store a job's configuration as a job spec
+ * (the CLI format: the create route's request body plus `type`). These helpers
+ * create a job from a spec and recover the spec of an existing job.
+ */
+
+import { JobSpec, JobSpecError, specPayload } from '../cli/job-spec';
+import { createFlowCloneJob } from '../globiflow/service';
+import { cleanupRequestFromMetadata, createCleanupJob } from './cleanup/service';
+import type { CleanupJobMetadata } from './cleanup/types';
+import { createItemMigrationJob, itemMigrationRequestFromMetadata } from './items/service';
+import type { ItemMigrationJobMetadata } from './items/types';
+import type { MigrationJob } from './state-store';
+import { getJobType } from './storage/job-serialization';
+
+/**
+ * Create a job from a spec (it is not started)
+ * @returns The new job's ID
+ */
+export async function createJobFromSpec(spec: JobSpec): Promise<string> {
+  switch (spec.type) {
+    case 'item_migration':
+      return (await createItemMigrationJob(specPayload(spec))).jobId;
+    case 'cleanup':
+      return (await createCleanupJob(specPayload(spec))).jobId;
+    case 'flow_clone':
+      return (await createFlowCloneJob(specPayload(spec))).id;
+  }
+}
+
+/**
+ * The spec that recreates a job's configuration
+ * @throws JobSpecError for job types that have no spec (multi-app migrations, rollbacks)
+ */
+export function jobSpecFromJob(job: MigrationJob): JobSpec {
+  const jobType = getJobType(job);
+
+  switch (jobType) {
+    case 'item_migration':
+      return {
+        type: 'item_migration',
+        ...itemMigrationRequestFromMetadata(job.metadata as unknown as ItemMigrationJobMetadata),
+      };
+    case 'cleanup':
+      return {
+        type: 'cleanup',
+        ...cleanupRequestFromMetadata(job.metadata as unknown as CleanupJobMetadata),
+      };
+    case 'flow_clone': {
+      const metadata = job.metadata as { sourceAppId: number; targetAppId: number; continueOnError?: boolean };
+      return {
+        type: 'flow_clone',
+        sourceAppId: metadata.sourceAppId,
+        targetAppId: metadata.targetAppId,
+        flows: job.steps.filter((step) => step.type === 'clone_flow').map((step) => ({ flowId: step.sourceId })),
+        continueOnError: metadata.continueOnError,
+      };
+    }
+    default:
+      throw new JobSpecError(`Jobs of type '${jobType ?? 'unknown'}' cannot be saved as a job spec`);
+  }
+}
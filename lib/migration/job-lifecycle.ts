@@ -13,18 +13,10 @@ const HEARTBEAT_TIMEOUT_MS = 60000; // 60 seconds - job is stale if no heartbeat
 const HEARTBEAT_UPDATE_INTERVAL_MS = 10000; // 10 seconds - how often to update heartbeat
 
 /**
- * Check if a job is currently active based on its in-memory state
- * A job is considered active if:
- * 1. It has status 'in_progress'
- * 2. It has a recent heartbeat (within HEARTBEAT_TIMEOUT_MS)
+ * Check if a job has a recent heartbeat, or started recently if it has none yet
+ * Says nothing about its status.
  */
-function isJobActiveFrom(job: MigrationJob, now = Date.now()): boolean {
-  // Only in_progress jobs can be active
-  if (job.status !== 'in_progress') {
-    return false;
-  }
-
-  // Check heartbeat
+export function hasLiveHeartbeat(job: MigrationJob, now = Date.now()): boolean {
   if (!job.lastHeartbeat) {
     // No heartbeat yet - could be a job that just started
     // Check if it started recently (within last 60 seconds)
@@ -37,6 +29,17 @@ function isJobActiveFrom(job: MigrationJob, now = Date.now()): boolean {
   return timeSinceHeartbeat < HEARTBEAT_TIMEOUT_MS;
 }
 
+/**
+ * Check if a job is currently active based on its in-memory state
+ * A job is considered active if:
+ * 1. It has status 'in_progress'
+ * 2. It has a recent heartbeat (within HEARTBEAT_TIMEOUT_MS)
+ */
+function isJobActiveFrom(job: MigrationJob, now = Date.now()): boolean {
+  // Only in_progress jobs can be active
+  return job.status === 'in_progress' && hasLiveHeartbeat(job, now);
+}
+
 /**
  * Check if a job is currently active based on its heartbeat
  * A job is considered active if:
@@ -115,12 +118,12 @@ export async function updateJobHeartbeat(jobId: string): Promise<void> {
  */
 export async function findStaleJobs(): Promise<MigrationJob[]> {
   try {
-    const allJobs = await migrationStateStore.listMigrationJobs();
+    const runningJobs = await migrationStateStore.listMigrationJobs({ status: 'in_progress' });
     const staleJobs: MigrationJob[] = [];
     const now = Date.now();
 
-    for (const job of allJobs) {
-      if (job.status === 'in_progress' && !isJobActiveFrom(job, now)) {
+    for (const job of runningJobs) {
+      if (!isJobActiveFrom(job, now)) {
         staleJobs.push(job);
       }
     }
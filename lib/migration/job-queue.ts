@@ -0,0 +1,451 @@
+/**
+ * Persistent job queue
+ *
+ * Jobs wait in the MigrationStateStore itself (status `queued` or `deferred`
+ * plus `job.queue`), so the queue survives restarts. This process starts them
+ * in priority order, at most MIGRATION_MAX_CONCURRENT_JOBS at a time: all jobs
+ * share one Podio rate limit, and a few big migrations running side by side
+ * only slow each other down. Jobs running elsewhere (CLI runs, other server
+ * processes) take up slots too while their heartbeat is live.
+ *
+ * `deferred` jobs have a `runAt` in the future and become `queued` once it
+ * passes.
+ */
+
+import {
+  migrationStateStore,
+  JobQueueEntry,
+  JobQueueReason,
+  MigrationJob,
+  MigrationJobStatus,
+} from './state-store';
+import { getJobType } from './storage/job-serialization';
+import { publishJobEvent } from './job-events';
+import { hasLiveHeartbeat } from './job-lifecycle';
+import type { CleanupJobMetadata } from './cleanup/types';
+import { logger } from './logging';
+
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+/** How often deferred jobs are checked for their start time */
+const QUEUE_POLL_INTERVAL_MS = 15_000;
+
+export const MIN_JOB_PRIORITY = -100;
+export const MAX_JOB_PRIORITY = 100;
+
+const WAITING_STATUSES: MigrationJobStatus[] = ['queued', 'deferred'];
+/** Statuses of a job whose runner is (or should be) executing it */
+const RUNNING_STATUSES: MigrationJobStatus[] = ['planning', 'in_progress', 'detecting', 'deleting'];
+
+export interface EnqueueOptions {
+  /** Higher priorities start first (default 0) */
+  priority?: number;
+  /** Earliest start; the job is `deferred` until then */
+  runAt?: Date;
+  reason?: JobQueueReason;
+  /** Continue from where the job stopped instead of starting it over */
+  resume?: boolean;
+}
+
+/**
+ * Priority and start time of a job, as set when it is created
+ */
+export type JobScheduleOptions = Pick<EnqueueOptions, 'priority' | 'runAt'>;
+
+/**
+ * Queue settings accepted in API request bodies
+ */
+export interface JobQueueRequestFields {
+  priority?: unknown;
+  /** ISO date-time */
+  runAt?: unknown;
+}
+
+export interface JobQueueSnapshot {
+  maxConcurrentJobs: number;
+  /** IDs of jobs this process is running */
+  running: string[];
+  /** Queued and deferred jobs in start order */
+  waiting: MigrationJob[];
+}
+
+/**
+ * Error thrown for invalid queue requests (bad options, job not in the queue)
+ */
+export class JobQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+function readMaxConcurrentJobs(): number {
+  const value = Number(process.env.MIGRATION_MAX_CONCURRENT_JOBS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_CONCURRENT_JOBS;
+}
+
+/**
+ * Validate the queue settings of an API request
+ */
+export function parseQueueOptions(input: JobQueueRequestFields): JobScheduleOptions {
+  const options: JobScheduleOptions = {};
+
+  if (input.priority !== undefined && input.priority !== null) {
+    const priority = input.priority;
+    if (
+      typeof priority !== 'number' ||
+      !Number.isInteger(priority) ||
+      priority < MIN_JOB_PRIORITY ||
+      priority > MAX_JOB_PRIORITY
+    ) {
+      throw new JobQueueError(`priority must be an integer between ${MIN_JOB_PRIORITY} and ${MAX_JOB_PRIORITY}`);
+    }
+    options.priority = priority;
+  }
+
+  if (input.runAt !== undefined && input.runAt !== null) {
+    const runAt = typeof input.runAt === 'string' ? new Date(input.runAt) : null;
+    if (!runAt || Number.isNaN(runAt.getTime())) {
+      throw new JobQueueError('runAt must be an ISO date-time');
+    }
+    options.runAt = runAt;
+  }
+
+  return options;
+}
+
+/**
+ * Start order: higher priority first, then first come first served
+ */
+export function compareQueueEntries(a: JobQueueEntry, b: JobQueueEntry): number {
+  return b.priority - a.priority || a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
+
+/**
+ * IDs of the jobs that take up a slot: the ones this process runs, plus
+ * running jobs in the store with a live heartbeat
+ */
+export function occupiedJobSlots(
+  runningJobs: MigrationJob[],
+  localJobIds: Iterable<string>,
+  now = Date.now()
+): Set<string> {
+  const occupied = new Set(localJobIds);
+  for (const job of runningJobs) {
+    if (RUNNING_STATUSES.includes(job.status) && hasLiveHeartbeat(job, now)) {
+      occupied.add(job.id);
+    }
+  }
+  return occupied;
+}
+
+function isDue(entry: JobQueueEntry, now: number): boolean {
+  return !entry.runAt || new Date(entry.runAt).getTime() <= now;
+}
+
+/**
+ * Whether an interrupted job can continue where it stopped
+ * Item migrations skip items already in their ID map, multi-app migrations
+ * restart at the first unfinished app, and rollbacks skip rolled-back items.
+ */
+export function canResumeInterruptedJob(job: MigrationJob): boolean {
+  switch (getJobType(job)) {
+    case 'item_migration':
+    case 'multi_app_migration':
+      return true;
+    case 'item_rollback':
+      return !job.metadata?.dryRun;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Run a claimed job with the runner for its type
+ * Runners are imported on demand: the item runners need Podio credentials at
+ * import time, and several of them import modules that import this one.
+ */
+async function dispatchJob(job: MigrationJob, entry: JobQueueEntry): Promise<void> {
+  const jobType = getJobType(job);
+
+  switch (jobType) {
+    case 'item_migration': {
+      const { runItemMigrationJob } = await import('./items/runner');
+      await runItemMigrationJob(job.id, { resume: entry.resume });
+      return;
+    }
+    case 'multi_app_migration': {
+      const { runMultiAppMigrationJob } = await import('./multi-app/runner');
+      await runMultiAppMigrationJob(job.id);
+      return;
+    }
+    case 'item_rollback': {
+      const { runItemRollback } = await import('./items/rollback');
+      await runItemRollback(job.id);
+      return;
+    }
+    case 'cleanup': {
+      const [{ executeCleanup }, { cleanupRequestFromMetadata }, { getPodioHttpClient }] = await Promise.all([
+        import('./cleanup/executor'),
+        import('./cleanup/service'),
+        import('../podio/http/client'),
+      ]);
+      const request = cleanupRequestFromMetadata(job.metadata as unknown as CleanupJobMetadata);
+      await executeCleanup(getPodioHttpClient(), job.id, request);
+      return;
+    }
+    case 'flow_clone': {
+      const { executeFlowCloneJob } = await import('../globiflow/clone-runner');
+      await executeFlowCloneJob(job.id);
+      return;
+    }
+    default:
+      throw new JobQueueError(`Jobs of type '${jobType ?? 'unknown'}' cannot be run from the queue`);
+  }
+}
+
+/**
+ * Job queue for this process
+ */
+export class JobQueue {
+  private running: Map<string, Promise<void>> = new Map();
+  private maxConcurrentJobs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private pumping: Promise<void> | null = null;
+  private pumpAgain = false;
+  private shuttingDown = false;
+
+  constructor(maxConcurrentJobs = readMaxConcurrentJobs()) {
+    this.maxConcurrentJobs = maxConcurrentJobs;
+  }
+
+  /**
+   * Start watching the queue: run waiting jobs now and deferred ones when due
+   */
+  start(): void {
+    if (this.shuttingDown) {
+      return;
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.pump(), QUEUE_POLL_INTERVAL_MS);
+      this.timer.unref?.();
+    }
+    void this.pump();
+  }
+
+  /**
+   * Stop starting jobs for good (process shutdown)
+   * Waiting jobs stay in the store for the next process to start.
+   */
+  shutdown(): void {
+    this.shuttingDown = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue jobs a shutdown stopped mid-run so the next start resumes them
+   */
+  async requeueInterrupted(jobIds: string[]): Promise<number> {
+    let requeued = 0;
+    for (const jobId of jobIds) {
+      try {
+        const job = await migrationStateStore.getMigrationJob(jobId);
+        if (!job || (job.status !== 'paused' && job.status !== 'cancelled') || !canResumeInterruptedJob(job)) {
+          continue;
+        }
+        await this.enqueue(jobId, { reason: 'recovery', resume: true });
+        requeued++;
+      } catch (error) {
+        logger.error('Failed to re-enqueue interrupted job', { jobId, error });
+      }
+    }
+    return requeued;
+  }
+
+  /**
+   * Put a job in the queue
+   * @returns The job's new status (`queued`, or `deferred` when `runAt` is in the future)
+   */
+  async enqueue(jobId: string, options: EnqueueOptions = {}): Promise<MigrationJobStatus> {
+    const deferred = options.runAt !== undefined && options.runAt.getTime() > Date.now();
+    const entry: JobQueueEntry = {
+      priority: options.priority ?? 0,
+      enqueuedAt: new Date().toISOString(),
+      reason: options.reason ?? 'new',
+      ...(deferred && { runAt: options.runAt!.toISOString() }),
+      ...(options.resume && { resume: true }),
+    };
+    const status: MigrationJobStatus = deferred ? 'deferred' : 'queued';
+
+    await migrationStateStore.updateJobQueue(jobId, status, entry);
+    publishJobEvent(jobId, { type: 'status', status });
+
+    this.start();
+    return status;
+  }
+
+  /**
+   * Change the priority or start time of a waiting job (`runAt: null` starts it as soon as possible)
+   */
+  async reschedule(jobId: string, changes: { priority?: number; runAt?: Date | null }): Promise<MigrationJobStatus> {
+    const job = await migrationStateStore.getMigrationJob(jobId);
+    if (!job || !WAITING_STATUSES.includes(job.status) || !job.queue) {
+      throw new JobQueueError(`Job ${jobId} is not waiting in the queue`);
+    }
+
+    const entry: JobQueueEntry = { ...job.queue };
+    if (changes.priority !== undefined) {
+      entry.priority = changes.priority;
+    }
+    if (changes.runAt !== undefined) {
+      if (changes.runAt && changes.runAt.getTime() > Date.now()) {
+        entry.runAt = changes.runAt.toISOString();
+      } else {
+        delete entry.runAt;
+      }
+    }
+    const status: MigrationJobStatus = entry.runAt ? 'deferred' : 'queued';
+
+    await migrationStateStore.updateJobQueue(jobId, status, entry);
+    publishJobEvent(jobId, { type: 'status', status });
+
+    void this.pump();
+    return status;
+  }
+
+  /**
+   * Take a waiting job out of the queue and mark it cancelled
+   */
+  async cancel(jobId: string): Promise<void> {
+    const job = await migrationStateStore.getMigrationJob(jobId);
+    if (!job || !WAITING_STATUSES.includes(job.status)) {
+      throw new JobQueueError(`Job ${jobId} is not waiting in the queue`);
+    }
+
+    await migrationStateStore.updateJobQueue(jobId, 'cancelled');
+    publishJobEvent(jobId, { type: 'cancelled', status: 'cancelled' });
+  }
+
+  async snapshot(): Promise<JobQueueSnapshot> {
+    const waiting = await migrationStateStore.listMigrationJobs({ status: WAITING_STATUSES });
+    return {
+      maxConcurrentJobs: this.maxConcurrentJobs,
+      running: [...this.running.keys()],
+      waiting: waiting
+        .filter((job) => job.queue)
+        .sort((a, b) => compareQueueEntries(a.queue!, b.queue!)),
+    };
+  }
+
+  /**
+   * Start waiting jobs while slots are free
+   * Calls during a pass are folded into one more pass.
+   */
+  pump(): Promise<void> {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return this.pumping;
+    }
+
+    this.pumping = (async () => {
+      do {
+        this.pumpAgain = false;
+        await this.fillSlots();
+      } while (this.pumpAgain);
+    })()
+      .catch((error) => {
+        logger.error('Job queue pass failed', { error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        this.pumping = null;
+      });
+
+    return this.pumping;
+  }
+
+  private async fillSlots(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+
+    const waiting = await migrationStateStore.listMigrationJobs({ status: WAITING_STATUSES });
+    const now = Date.now();
+    const ready: MigrationJob[] = [];
+
+    for (const job of waiting) {
+      if (!job.queue || this.running.has(job.id) || !isDue(job.queue, now)) {
+        continue;
+      }
+      if (job.status === 'deferred') {
+        // Show the job as queued while it waits for a slot
+        await migrationStateStore.updateJobQueue(job.id, 'queued', job.queue);
+        publishJobEvent(job.id, { type: 'status', status: 'queued' });
+      }
+      ready.push(job);
+    }
+
+    if (ready.length === 0) {
+      return;
+    }
+    ready.sort((a, b) => compareQueueEntries(a.queue!, b.queue!));
+
+    const runningJobs = await migrationStateStore.listMigrationJobs({ status: RUNNING_STATUSES });
+    const occupied = occupiedJobSlots(runningJobs, this.running.keys(), now);
+
+    for (const job of ready) {
+      if (occupied.size >= this.maxConcurrentJobs) {
+        break;
+      }
+
+      const entry = await migrationStateStore.claimQueuedJob(job.id);
+      if (entry) {
+        occupied.add(job.id);
+        this.launch(job, entry, occupied.size);
+      }
+    }
+  }
+
+  private launch(job: MigrationJob, entry: JobQueueEntry, running: number): void {
+    logger.info('Starting queued job', {
+      jobId: job.id,
+      jobType: getJobType(job),
+      priority: entry.priority,
+      reason: entry.reason,
+      running,
+      maxConcurrentJobs: this.maxConcurrentJobs,
+    });
+
+    const run = dispatchJob(job, entry)
+      .catch((error) => this.recordFailure(job.id, error))
+      .finally(() => {
+        this.running.delete(job.id);
+        void this.pump();
+      });
+
+    this.running.set(job.id, run);
+  }
+
+  /**
+   * Runners record their own failures; this covers jobs that failed before
+   * their runner took over (unknown type, import errors)
+   */
+  private async recordFailure(jobId: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Queued job failed', { jobId, error: message });
+
+    try {
+      const job = await migrationStateStore.getMigrationJob(jobId);
+      if (job && RUNNING_STATUSES.includes(job.status)) {
+        await migrationStateStore.updateJobStatus(jobId, 'failed', new Date());
+        await migrationStateStore.addMigrationError(jobId, 'job_queue', message, 'QUEUE_DISPATCH_ERROR');
+        publishJobEvent(jobId, { type: 'failed', status: 'failed', error: { message } });
+      }
+    } catch (updateError) {
+      logger.error('Failed to record queued job failure', { jobId, error: updateError });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,85 @@
+/**
+ * App dependency graph for multi-app migrations
+ * An app depends on every app its `app` reference fields point to, so referenced
+ * apps are migrated first and their item IDs are already mapped when needed.
+ */
+
+/**
+ * Execution order derived from app reference fields
+ */
+export interface AppExecutionPlan {
+  /** Source app IDs in migration order */
+  order: number[];
+  /** Apps that reference an app migrated after them (part of a reference cycle) */
+  cyclicApps: number[];
+}
+
+/**
+ * Extract referenced app IDs from an app field's `referenced_apps` setting
+ * Podio returns either plain IDs or `{ app_id }` objects depending on the endpoint.
+ */
+export function extractReferencedAppIds(referencedApps: unknown): number[] {
+  if (!Array.isArray(referencedApps)) {
+    return [];
+  }
+
+  return referencedApps
+    .map((ref) => (typeof ref === 'number' ? ref : (ref as { app_id?: number } | null)?.app_id))
+    .filter((appId): appId is number => typeof appId === 'number');
+}
+
+/**
+ * Order apps so that referenced apps come before the apps referencing them
+ *
+ * Uses Kahn's algorithm and keeps the input order among apps that are ready at
+ * the same time. Self-references and references to apps outside the job are
+ * ignored. When a cycle blocks progress, the blocked app with the fewest
+ * unmigrated dependencies is migrated next; references it cannot resolve yet
+ * are completed by the back-fill phase.
+ */
+export function buildExecutionPlan(
+  appIds: number[],
+  dependencies: Record<string, number[]>
+): AppExecutionPlan {
+  const appSet = new Set(appIds);
+  const remainingDeps = new Map<number, Set<number>>();
+
+  for (const appId of appIds) {
+    const deps = (dependencies[String(appId)] || []).filter(
+      (dep) => dep !== appId && appSet.has(dep)
+    );
+    remainingDeps.set(appId, new Set(deps));
+  }
+
+  const order: number[] = [];
+  const pending = [...appIds];
+
+  while (pending.length > 0) {
+    let nextIndex = pending.findIndex((appId) => remainingDeps.get(appId)!.size === 0);
+
+    if (nextIndex === -1) {
+      // Cycle - pick the app closest to being ready
+      nextIndex = pending.reduce(
+        (best, appId, idx) =>
+          remainingDeps.get(appId)!.size < remainingDeps.get(pending[best])!.size ? idx : best,
+        0
+      );
+    }
+
+    const [next] = pending.splice(nextIndex, 1);
+    order.push(next);
+
+    for (const deps of remainingDeps.values()) {
+      deps.delete(next);
+    }
+  }
+
+  const position = new Map(order.map((appId, idx) => [appId, idx]));
+  const cyclicApps = order.filter((appId) =>
+    (dependencies[String(appId)] || []).some(
+      (dep) => appSet.has(dep) && dep !== appId && position.get(dep)! > position.get(appId)!
+    )
+  );
+
+  return { order, cyclicApps };
+}
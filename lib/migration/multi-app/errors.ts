@@ -0,0 +1,25 @@
+/**
+ * Custom error classes for multi-app migration operations
+ */
+
+/**
+ * Error thrown when a multi-app migration job is not found
+ */
+export class MultiAppJobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`Multi-app migration job not found: ${jobId}`);
+    this.name = 'MultiAppJobNotFoundError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Error thrown when a multi-app migration request is invalid
+ */
+export class MultiAppValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MultiAppValidationError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
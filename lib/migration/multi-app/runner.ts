@@ -0,0 +1,230 @@
+/**
+ * Multi-app migration background job runner
+ * Migrates each app pair in execution order, then back-fills relationship links
+ */
+
+import { migrationStateStore } from '../state-store';
+import { ItemMigrator } from '../items/item-migrator';
+import { convertFilters } from '../items/filter-converter';
+import { logger } from '../logging';
+import {
+  registerActiveMigration,
+  unregisterActiveMigration,
+  registerShutdownCallback,
+  isPauseRequested,
+} from '../shutdown-handler';
+import { updateJobHeartbeat, getHeartbeatInterval } from '../job-lifecycle';
+import { MultiAppMigrationJobMetadata } from './types';
+
+const PROGRESS_UPDATE_INTERVAL = 2000; // Update every 2 seconds
+
+/**
+ * Run (or resume) a multi-app migration job in the background
+ *
+ * Apps already marked completed are skipped, and items already recorded in the
+ * job's item ID map are not migrated again, so a paused or failed job can be
+ * resumed by calling this again.
+ */
+export async function runMultiAppMigrationJob(jobId: string): Promise<void> {
+  logger.info('Starting multi-app migration job execution', { jobId });
+
+  registerActiveMigration(jobId);
+
+  let shouldPause = false;
+  let heartbeatTimer: NodeJS.Timeout | undefined;
+
+  registerShutdownCallback(jobId, async () => {
+    logger.info('Shutdown callback triggered', { jobId });
+    shouldPause = true;
+  });
+
+  try {
+    const job = await migrationStateStore.getMigrationJob(jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+
+    const metadata = job.metadata as unknown as MultiAppMigrationJobMetadata;
+
+    await migrationStateStore.updateJobStatus(jobId, 'in_progress');
+    await updateJobHeartbeat(jobId);
+    heartbeatTimer = setInterval(() => {
+      void updateJobHeartbeat(jobId);
+    }, getHeartbeatInterval());
+
+    const migrator = new ItemMigrator();
+    let failedApps = 0;
+
+    // Phase 1: migrate apps in dependency order
+    await migrationStateStore.updateJobMetadata(jobId, { phase: 'migrate' });
+
+    for (const sourceAppId of metadata.executionOrder) {
+      const app = metadata.apps.find(candidate => candidate.sourceAppId === sourceAppId);
+      const appProgress = job.appProgress?.find(entry => entry.sourceAppId === sourceAppId);
+
+      if (!app || !appProgress) {
+        logger.warn('Skipping app missing from job metadata', { jobId, sourceAppId });
+        continue;
+      }
+
+      if (appProgress.status === 'completed') {
+        logger.info('App already migrated - skipping', { jobId, sourceAppId });
+        continue;
+      }
+
+      logger.info('Migrating app', {
+        jobId,
+        sourceAppId,
+        targetAppId: app.targetAppId,
+        mode: app.mode,
+      });
+
+      await migrationStateStore.updateAppProgress(jobId, sourceAppId, {
+        status: 'in_progress',
+        startedAt: new Date().toISOString(),
+        error: undefined,
+      });
+
+      let lastProgressUpdate = 0;
+
+      try {
+        const result = await migrator.executeMigration({
+          jobId,
+          sourceAppId: app.sourceAppId,
+          targetAppId: app.targetAppId,
+          fieldMapping: app.fieldMapping,
+          fieldTransforms: app.fieldTransforms,
+          contactMapping: app.contactMapping,
+          mode: app.mode,
+          sourceMatchField: app.sourceMatchField,
+          targetMatchField: app.targetMatchField,
+          duplicateBehavior: app.duplicateBehavior || 'skip',
+          batchSize: metadata.batchSize,
+          concurrency: metadata.concurrency,
+          stopOnError: metadata.stopOnError,
+          filters: convertFilters(app.filters),
+          transferFiles: metadata.transferFiles,
+          transferComments: metadata.transferComments,
+          transferTasks: metadata.transferTasks,
+          includeCompletedTasks: metadata.includeCompletedTasks,
+          createMissingCategoryOptions: metadata.createMissingCategoryOptions,
+          skipMigratedItems: true,
+          onProgress: async (progress) => {
+            if (isPauseRequested(jobId)) {
+              shouldPause = true;
+            }
+
+            const now = Date.now();
+            if (now - lastProgressUpdate >= PROGRESS_UPDATE_INTERVAL) {
+              await migrationStateStore.updateAppProgress(jobId, sourceAppId, {
+                total: progress.total,
+                processed: progress.processed,
+                successful: progress.successful,
+                failed: progress.failed,
+              });
+              lastProgressUpdate = now;
+            }
+
+            if (shouldPause) {
+              throw new PauseRequested();
+            }
+          },
+        });
+
+        await migrationStateStore.updateAppProgress(jobId, sourceAppId, {
+          status: 'completed',
+          total: result.processed,
+          processed: result.processed,
+          successful: result.successful,
+          failed: result.failed,
+          completedAt: new Date().toISOString(),
+        });
+
+        logger.info('App migration completed', {
+          jobId,
+          sourceAppId,
+          processed: result.processed,
+          successful: result.successful,
+          failed: result.failed,
+        });
+      } catch (error) {
+        if (error instanceof PauseRequested) {
+          await migrationStateStore.updateAppProgress(jobId, sourceAppId, { status: 'paused' });
+          await migrationStateStore.updateJobStatus(jobId, 'paused');
+          logger.info('Multi-app migration job paused', { jobId, sourceAppId });
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        failedApps++;
+
+        logger.error('App migration failed', { jobId, sourceAppId, error: message });
+
+        await migrationStateStore.updateAppProgress(jobId, sourceAppId, {
+          status: 'failed',
+          error: message,
+          completedAt: new Date().toISOString(),
+        });
+        await migrationStateStore.addMigrationError(
+          jobId,
+          `migrate_app_${sourceAppId}`,
+          message,
+          'APP_MIGRATION_FAILED'
+        );
+
+        if (metadata.stopOnError) {
+          throw error;
+        }
+      }
+    }
+
+    // Phase 2: back-fill relationship links now that every app has been migrated
+    logger.info('Starting relationship back-fill phase', { jobId });
+    await migrationStateStore.updateJobMetadata(jobId, { phase: 'backfill' });
+
+    const linkFixup = await migrator.runLinkFixup(jobId, { concurrency: metadata.concurrency });
+    await migrationStateStore.updateJobMetadata(jobId, { linkFixup });
+
+    logger.info('Relationship back-fill phase complete', { jobId, ...linkFixup });
+
+    await migrationStateStore.updateJobStatus(
+      jobId,
+      failedApps > 0 ? 'failed' : 'completed',
+      new Date()
+    );
+
+    logger.info('Multi-app migration job finished', {
+      jobId,
+      apps: metadata.executionOrder.length,
+      failedApps,
+    });
+  } catch (error) {
+    logger.error('Multi-app migration job failed', { jobId, error });
+
+    await migrationStateStore.updateJobStatus(jobId, 'failed', new Date());
+    await migrationStateStore.addMigrationError(
+      jobId,
+      'multi_app_migration',
+      error instanceof Error ? error.message : String(error),
+      'EXECUTION_ERROR'
+    );
+
+    throw error;
+  } finally {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+    }
+
+    unregisterActiveMigration(jobId);
+  }
+}
+
+/**
+ * Custom error to signal pause request
+ */
+class PauseRequested extends Error {
+  constructor() {
+    super('Migration pause requested');
+    this.name = 'PauseRequested';
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Multi-app migration service layer
+ * Validates app pairs, builds the dependency graph and reports job status
+ */
+
+import { migrationStateStore, AppMigrationProgress } from '../state-store';
+import { getAppStructureDetailed } from '../../podio/migration';
+import { logger } from '../logging';
+import { buildDefaultFieldMapping } from '../items/service';
+import { validateFieldTransforms } from '../items/field-transforms';
+import { validateContactMapping } from '../items/contact-resolver';
+import { buildExecutionPlan, extractReferencedAppIds } from './dependency-graph';
+import { MultiAppJobNotFoundError, MultiAppValidationError } from './errors';
+import {
+  MultiAppMigrationJobMetadata,
+  MultiAppMigrationRequestPayload,
+  MultiAppMigrationStatusResponse,
+} from './types';
+
+/**
+ * Create a new multi-app migration job
+ * Resolves field mappings and the execution order up front so a resumed job
+ * always migrates apps in the same order with the same mappings.
+ */
+export async function createMultiAppMigrationJob(
+  request: MultiAppMigrationRequestPayload
+): Promise<{ jobId: string; executionOrder: number[]; cyclicApps: number[] }> {
+  logger.info('Creating multi-app migration job', {
+    appCount: request.apps?.length || 0,
+    sourceAppIds: request.apps?.map(app => app.sourceAppId),
+  });
+
+  if (!Array.isArray(request.apps) || request.apps.length === 0) {
+    throw new MultiAppValidationError('apps must contain at least one source/target app pair');
+  }
+
+  const seenSourceApps = new Set<number>();
+  for (const app of request.apps) {
+    if (!app.sourceAppId || !app.targetAppId) {
+      throw new MultiAppValidationError('Every app pair requires sourceAppId and targetAppId');
+    }
+    if (seenSourceApps.has(app.sourceAppId)) {
+      throw new MultiAppValidationError(`Source app ${app.sourceAppId} is listed more than once`);
+    }
+    seenSourceApps.add(app.sourceAppId);
+
+    if (app.fieldTransforms) {
+      const transformErrors = validateFieldTransforms(app.fieldTransforms);
+      if (transformErrors.length > 0) {
+        throw new MultiAppValidationError(
+          `Invalid field transforms for source app ${app.sourceAppId}: ${transformErrors.join('; ')}`
+        );
+      }
+    }
+
+    if (app.contactMapping) {
+      const contactErrors = validateContactMapping(app.contactMapping);
+      if (contactErrors.length > 0) {
+        throw new MultiAppValidationError(
+          `Invalid contact mapping for source app ${app.sourceAppId}: ${contactErrors.join('; ')}`
+        );
+      }
+    }
+  }
+
+  // Build dependency graph from app reference fields
+  const dependencies: Record<string, number[]> = {};
+  const apps: MultiAppMigrationJobMetadata['apps'] = [];
+
+  for (const app of request.apps) {
+    const sourceApp = await getAppStructureDetailed(app.sourceAppId);
+    const referencedAppIds = new Set<number>();
+
+    for (const field of sourceApp.fields || []) {
+      if (field.type === 'app') {
+        extractReferencedAppIds(field.referenced_apps)
+          .filter(appId => seenSourceApps.has(appId))
+          .forEach(appId => referencedAppIds.add(appId));
+      }
+    }
+
+    dependencies[String(app.sourceAppId)] = Array.from(referencedAppIds);
+
+    const fieldMapping = app.fieldMapping && Object.keys(app.fieldMapping).length > 0
+      ? app.fieldMapping
+      : await buildDefaultFieldMapping(app.sourceAppId, app.targetAppId);
+
+    apps.push({
+      ...app,
+      mode: app.mode || 'create',
+      fieldMapping,
+    });
+  }
+
+  const plan = buildExecutionPlan(
+    request.apps.map(app => app.sourceAppId),
+    dependencies
+  );
+
+  logger.info('Multi-app execution order resolved', {
+    executionOrder: plan.order,
+    cyclicApps: plan.cyclicApps,
+    dependencies,
+  });
+
+  const metadata: MultiAppMigrationJobMetadata = {
+    jobType: 'multi_app_migration',
+    apps,
+    executionOrder: plan.order,
+    dependencies,
+    cyclicApps: plan.cyclicApps,
+    phase: 'migrate',
+    batchSize: request.batchSize || 500,
+    concurrency: request.concurrency || 5,
+    stopOnError: request.stopOnError ?? false,
+    transferFiles: request.transferFiles ?? false,
+    transferComments: request.transferComments ?? false,
+    transferTasks: request.transferTasks ?? false,
+    includeCompletedTasks: request.includeCompletedTasks ?? false,
+    createMissingCategoryOptions: request.createMissingCategoryOptions ?? false,
+  };
+
+  const job = await migrationStateStore.createMigrationJob(
+    String(plan.order[0]),
+    String(apps.find(app => app.sourceAppId === plan.order[0])!.targetAppId),
+    metadata as unknown as Record<string, unknown>
+  );
+
+  job.appProgress = plan.order.map((sourceAppId): AppMigrationProgress => ({
+    sourceAppId,
+    targetAppId: apps.find(app => app.sourceAppId === sourceAppId)!.targetAppId,
+    status: 'pending',
+    total: 0,
+    processed: 0,
+    successful: 0,
+    failed: 0,
+  }));
+  await migrationStateStore.saveMigrationJob(job);
+
+  logger.info('Multi-app migration job created', {
+    jobId: job.id,
+    appCount: apps.length,
+  });
+
+  return { jobId: job.id, executionOrder: plan.order, cyclicApps: plan.cyclicApps };
+}
+
+/**
+ * Get multi-app migration job status
+ */
+export async function getMultiAppMigrationStatus(jobId: string): Promise<MultiAppMigrationStatusResponse> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+
+  if (!job || job.jobType !== 'multi_app_migration') {
+    throw new MultiAppJobNotFoundError(jobId);
+  }
+
+  const metadata = job.metadata as unknown as MultiAppMigrationJobMetadata;
+  const apps = job.appProgress || [];
+  const completedApps = apps.filter(app => app.status === 'completed').length;
+  const failedApps = apps.filter(app => app.status === 'failed').length;
+
+  // Completed apps count fully; the running app counts by its own item progress
+  const runningApp = apps.find(app => app.status === 'in_progress');
+  const runningFraction = runningApp && runningApp.total > 0
+    ? runningApp.processed / runningApp.total
+    : 0;
+  const percent = apps.length > 0
+    ? Math.round(((completedApps + failedApps + runningFraction) / apps.length) * 100)
+    : 0;
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    phase: metadata.phase || 'migrate',
+    executionOrder: metadata.executionOrder || [],
+    dependencies: metadata.dependencies || {},
+    cyclicApps: metadata.cyclicApps || [],
+    apps,
+    progress: {
+      totalApps: apps.length,
+      completedApps,
+      failedApps,
+      processed: apps.reduce((sum, app) => sum + app.processed, 0),
+      successful: apps.reduce((sum, app) => sum + app.successful, 0),
+      failed: apps.reduce((sum, app) => sum + app.failed, 0),
+      percent,
+    },
+    linkFixup: (job.metadata?.linkFixup as MultiAppMigrationStatusResponse['linkFixup']) || undefined,
+    errors: job.errors.map(err => ({
+      message: err.message,
+      code: err.code,
+      timestamp: err.timestamp.toISOString(),
+    })),
+    startedAt: job.startedAt.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Multi-app migration types and interfaces
+ * A multi-app job migrates a set of source -> target app pairs in dependency order,
+ * then back-fills relationship fields that could not be resolved during the first pass
+ */
+
+import { AppMigrationProgress } from '../state-store';
+import {
+  ContactMappingConfig,
+  FieldMapping,
+  FieldTransforms,
+  ItemMigrationFilters,
+  ItemMigrationMode,
+  MatchKey,
+} from '../items/types';
+
+/**
+ * Phase of a multi-app migration job
+ * - migrate: apps are migrated one by one in execution order
+ * - backfill: pending relationship links are written once every app exists
+ */
+export type MultiAppMigrationPhase = 'migrate' | 'backfill';
+
+/**
+ * One source -> target app pair in a multi-app migration request
+ */
+export interface AppMigrationPair {
+  sourceAppId: number;
+  targetAppId: number;
+  mode?: ItemMigrationMode;
+  /** Source field_id -> target field_id (auto-built when omitted) */
+  fieldMapping?: FieldMapping;
+  /** Per-mapping value transforms keyed by source field_id */
+  fieldTransforms?: FieldTransforms;
+  /** Re-point contacts to members of the target space */
+  contactMapping?: ContactMappingConfig;
+  sourceMatchField?: MatchKey;
+  targetMatchField?: MatchKey;
+  duplicateBehavior?: 'skip' | 'error' | 'update';
+  filters?: ItemMigrationFilters;
+}
+
+/**
+ * Multi-app migration request payload
+ */
+export interface MultiAppMigrationRequestPayload {
+  apps: AppMigrationPair[];
+  batchSize?: number;
+  concurrency?: number;
+  /** Stop the whole job when one app fails (default: false - continue with the next app) */
+  stopOnError?: boolean;
+  transferFiles?: boolean;
+  transferComments?: boolean;
+  transferTasks?: boolean;
+  includeCompletedTasks?: boolean;
+  createMissingCategoryOptions?: boolean;
+}
+
+/**
+ * Multi-app migration job metadata (stored in MigrationJob.metadata)
+ */
+export interface MultiAppMigrationJobMetadata {
+  jobType: 'multi_app_migration';
+  /** App pairs with resolved field mappings */
+  apps: Array<AppMigrationPair & { mode: ItemMigrationMode; fieldMapping: FieldMapping }>;
+  /** Source app IDs in the order they are migrated */
+  executionOrder: number[];
+  /** Source app ID -> source app IDs it references (within this job) */
+  dependencies: Record<string, number[]>;
+  /** Apps that are part of a reference cycle (their links are completed in the back-fill phase) */
+  cyclicApps: number[];
+  phase: MultiAppMigrationPhase;
+  batchSize: number;
+  concurrency: number;
+  stopOnError: boolean;
+  transferFiles: boolean;
+  transferComments?: boolean;
+  transferTasks?: boolean;
+  includeCompletedTasks?: boolean;
+  createMissingCategoryOptions?: boolean;
+}
+
+/**
+ * Multi-app migration status response
+ */
+export interface MultiAppMigrationStatusResponse {
+  jobId: string;
+  status: string;
+  phase: MultiAppMigrationPhase;
+  executionOrder: number[];
+  dependencies: Record<string, number[]>;
+  cyclicApps: number[];
+  apps: AppMigrationProgress[];
+  progress: {
+    totalApps: number;
+    completedApps: number;
+    failedApps: number;
+    processed: number;
+    successful: number;
+    failed: number;
+    percent: number;
+  };
+  linkFixup?: {
+    resolved: number;
+    pending: number;
+    failed: number;
+  };
+  errors: Array<{
+    message: string;
+    code?: string;
+    timestamp: string;
+  }>;
+  startedAt: string;
+  completedAt?: string;
+}
@@ -0,0 +1,213 @@
+/**
+ * Cron expressions for recurring jobs
+ *
+ * Standard five-field expressions (minute hour day-of-month month day-of-week)
+ * with lists, ranges, steps and month/day names, plus the @hourly, @daily,
+ * @weekly and @monthly shortcuts. Times are evaluated in the server's local
+ * time zone. As in cron, when both day fields are restricted a day matches if
+ * either one does.
+ */
+
+/**
+ * Error thrown for an expression that cannot be parsed
+ */
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month / day-of-week field was `*` */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset of `names[0]` (months start at 1) */
+  nameBase?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
+
+/** Give up looking for a match after this long (e.g. `0 0 31 2 *`) */
+const MAX_SEARCH_MINUTES = 366 * 24 * 60 * 5;
+
+function parseValue(token: string, field: FieldSpec): number {
+  const nameIndex = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.nameBase ?? 0);
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronExpressionError(`Invalid ${field.name} value "${token}"`);
+  }
+  const value = Number(token);
+  if (value < field.min || value > field.max) {
+    throw new CronExpressionError(`${field.name} value ${value} is outside ${field.min}-${field.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new CronExpressionError(`Invalid ${field.name} field "${text}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new CronExpressionError(`Invalid ${field.name} step "${stepText}"`);
+      }
+      step = Number(stepText);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // `5/15` means every 15 starting at 5
+      end = stepText !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws CronExpressionError when the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = SHORTCUTS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronExpressionError(
+      `Expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return domMatch && dowMatch;
+  }
+  return domMatch || dowMatch;
+}
+
+/**
+ * The first time after `after` (exclusive, minute precision) the schedule fires
+ * @returns null when the schedule never fires (e.g. February 31st)
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let searched = 0; searched < MAX_SEARCH_MINUTES; ) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      const before = candidate.getTime();
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      searched += Math.round((candidate.getTime() - before) / 60_000);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      const before = candidate.getTime();
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      searched += Math.round((candidate.getTime() - before) / 60_000);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      searched += 60;
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      searched += 1;
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Parse an expression and return its next fire time after `after`
+ * @throws CronExpressionError when the expression is invalid
+ */
+export function nextCronRun(expression: string, after: Date): Date | null {
+  return nextCronTime(parseCronExpression(expression), after);
+}
@@ -0,0 +1,132 @@
+/**
+ * Recurring job scheduler
+ *
+ * Checks the saved schedules every 30 seconds and, for each one that is due,
+ * creates a fresh job from its definition and hands it to the job queue. A run
+ * is skipped while the previous run's job is still waiting or running. Runs
+ * missed while the server was down are made up once, not once per missed slot.
+ */
+
+import { applySyncWatermark, formatEventTimestamp } from '../items/sync-watermark';
+import { createJobFromSpec } from '../job-factory';
+import { jobQueue } from '../job-queue';
+import { logger } from '../logging';
+import { nextCronRun } from './cron';
+import { isRunPending, refreshRunOutcomes } from './service';
+import { scheduleStore } from './store';
+import type { JobSchedule, ScheduleRun } from './types';
+
+const SCHEDULER_INTERVAL_MS = 30_000;
+
+/**
+ * The start time of the last run whose job completed without failed items
+ * Items that failed in a later run are older than that, so they are retried.
+ */
+function lastSuccessfulRunStart(schedule: JobSchedule): string | undefined {
+  return schedule.history.find((run) => run.outcome === 'completed' && !run.summary?.failed)?.startedAt;
+}
+
+/**
+ * Create the job for one run and queue it
+ * @returns The new job's ID
+ */
+async function createScheduledJob(schedule: JobSchedule): Promise<string> {
+  let spec = schedule.job;
+
+  const since = schedule.sinceLastRun ? lastSuccessfulRunStart(schedule) : undefined;
+  if (spec.type === 'item_migration' && since) {
+    spec = { ...spec, filters: applySyncWatermark(spec.filters, formatEventTimestamp(Date.parse(since))) };
+  }
+
+  const jobId = await createJobFromSpec(spec);
+  await jobQueue.enqueue(jobId, { priority: schedule.priority });
+  return jobId;
+}
+
+export class JobScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<void> | null = null;
+
+  /**
+   * Start checking schedules (no-op when already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), SCHEDULER_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every schedule that is due; overlapping calls share one pass
+   */
+  tick(now: Date = new Date()): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runDueSchedules(now)
+        .catch((error) => {
+          logger.error('Schedule check failed', { error: error instanceof Error ? error.message : String(error) });
+        })
+        .finally(() => {
+          this.ticking = null;
+        });
+    }
+    return this.ticking;
+  }
+
+  private async runDueSchedules(now: Date): Promise<void> {
+    for (const stored of await scheduleStore.list()) {
+      const schedule = await refreshRunOutcomes(stored);
+      if (!schedule.enabled || !schedule.nextRunAt || Date.parse(schedule.nextRunAt) > now.getTime()) {
+        continue;
+      }
+      await this.runSchedule(schedule, now);
+    }
+  }
+
+  private async runSchedule(schedule: JobSchedule, now: Date): Promise<void> {
+    const run: ScheduleRun = {
+      scheduledFor: schedule.nextRunAt!,
+      startedAt: now.toISOString(),
+      outcome: 'queued',
+    };
+
+    const previous = schedule.history.find((past) => past.jobId);
+    if (previous && isRunPending(previous)) {
+      run.outcome = 'skipped';
+      run.message = `Previous run (job ${previous.jobId}) is still ${previous.outcome.replace('_', ' ')}`;
+    } else {
+      try {
+        run.jobId = await createScheduledJob(schedule);
+      } catch (error) {
+        run.outcome = 'failed';
+        run.message = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const next = nextCronRun(schedule.cron, now);
+    await scheduleStore.update(schedule.id, (stored) => {
+      stored.history.unshift(run);
+      stored.nextRunAt = next?.toISOString() ?? null;
+    });
+
+    logger.info('Ran job schedule', {
+      scheduleId: schedule.id,
+      name: schedule.name,
+      jobId: run.jobId,
+      outcome: run.outcome,
+      message: run.message,
+      nextRunAt: next?.toISOString(),
+    });
+  }
+}
+
+export const jobScheduler = new JobScheduler();
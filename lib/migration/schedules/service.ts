@@ -0,0 +1,277 @@
+/**
+ * Recurring job schedule service
+ * Validates and saves schedules, and keeps their run outcomes up to date
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { JobSpecError, validateJobSpec } from '../../cli/job-spec';
+import { JobQueueError, parseQueueOptions } from '../job-queue';
+import { logger } from '../logging';
+import { MigrationJob, migrationStateStore } from '../state-store';
+import { CronExpressionError, nextCronRun } from './cron';
+import { scheduleStore } from './store';
+import type { JobSchedule, JobScheduleInput, ScheduledJobSpec, ScheduleRun, ScheduleRunOutcome } from './types';
+
+/**
+ * Error thrown when a schedule does not exist
+ */
+export class ScheduleNotFoundError extends Error {
+  constructor(scheduleId: string) {
+    super(`Schedule not found: ${scheduleId}`);
+    this.name = 'ScheduleNotFoundError';
+  }
+}
+
+/**
+ * Error thrown for an invalid schedule definition
+ */
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+/**
+ * Outcomes that still change as the job runs
+ * A manual cleanup waiting for approval counts as finished: it may wait for
+ * days, and later runs should not be skipped meanwhile.
+ */
+const PENDING_OUTCOMES: ScheduleRunOutcome[] = ['queued', 'running', 'paused'];
+
+/**
+ * Whether a run's job has not finished yet
+ */
+export function isRunPending(run: ScheduleRun): boolean {
+  return PENDING_OUTCOMES.includes(run.outcome);
+}
+
+/**
+ * Map a job's status to the outcome of the run that created it
+ */
+export function runOutcomeForJob(job: Pick<MigrationJob, 'status'>): ScheduleRunOutcome {
+  switch (job.status) {
+    case 'queued':
+    case 'deferred':
+      return 'queued';
+    case 'planning':
+    case 'in_progress':
+    case 'detecting':
+    case 'deleting':
+      return 'running';
+    default:
+      return job.status;
+  }
+}
+
+function nextRunAt(cron: string, after: Date): string | null {
+  return nextCronRun(cron, after)?.toISOString() ?? null;
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new ScheduleValidationError('name is required');
+  }
+  return name.trim();
+}
+
+function validateCron(cron: unknown): string {
+  if (typeof cron !== 'string') {
+    throw new ScheduleValidationError('cron is required');
+  }
+  try {
+    if (!nextCronRun(cron, new Date())) {
+      throw new ScheduleValidationError(`cron "${cron}" never fires`);
+    }
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      throw new ScheduleValidationError(`cron: ${error.message}`);
+    }
+    throw error;
+  }
+  return cron.trim();
+}
+
+function validateJob(job: unknown): ScheduledJobSpec {
+  let spec;
+  try {
+    spec = validateJobSpec(job, 'job');
+  } catch (error) {
+    if (error instanceof JobSpecError) {
+      throw new ScheduleValidationError(error.message);
+    }
+    throw error;
+  }
+
+  if (spec.type === 'flow_clone') {
+    throw new ScheduleValidationError('job: only item_migration and cleanup jobs can be scheduled');
+  }
+  return spec;
+}
+
+function validatePriority(priority: unknown): number | undefined {
+  try {
+    return parseQueueOptions({ priority }).priority;
+  } catch (error) {
+    if (error instanceof JobQueueError) {
+      throw new ScheduleValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+function validateSinceLastRun(sinceLastRun: unknown, job: ScheduledJobSpec): boolean | undefined {
+  if (sinceLastRun === undefined || sinceLastRun === null) {
+    return undefined;
+  }
+  if (typeof sinceLastRun !== 'boolean') {
+    throw new ScheduleValidationError('sinceLastRun must be a boolean');
+  }
+  if (sinceLastRun && job.type !== 'item_migration') {
+    throw new ScheduleValidationError('sinceLastRun only applies to item_migration jobs');
+  }
+  return sinceLastRun;
+}
+
+/**
+ * Create a schedule; it is enabled unless `enabled: false` is given
+ */
+export async function createSchedule(input: JobScheduleInput): Promise<JobSchedule> {
+  const job = validateJob(input.job);
+  const cron = validateCron(input.cron);
+  const enabled = input.enabled !== false;
+  const now = new Date();
+
+  const schedule: JobSchedule = {
+    id: uuidv4(),
+    name: validateName(input.name),
+    cron,
+    enabled,
+    job,
+    sinceLastRun: validateSinceLastRun(input.sinceLastRun, job),
+    priority: validatePriority(input.priority),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    nextRunAt: enabled ? nextRunAt(cron, now) : null,
+    history: [],
+  };
+
+  await scheduleStore.save(schedule);
+  logger.info('Created job schedule', { scheduleId: schedule.id, name: schedule.name, cron, jobType: job.type });
+  return schedule;
+}
+
+/**
+ * Change a schedule's definition; the next run is recomputed when the cron or enabled state changes
+ */
+export async function updateSchedule(scheduleId: string, changes: Partial<JobScheduleInput>): Promise<JobSchedule> {
+  const current = await scheduleStore.get(scheduleId);
+  if (!current) {
+    throw new ScheduleNotFoundError(scheduleId);
+  }
+
+  // Validate everything before writing anything
+  const job = changes.job !== undefined ? validateJob(changes.job) : current.job;
+  const cron = changes.cron !== undefined ? validateCron(changes.cron) : current.cron;
+  const name = changes.name !== undefined ? validateName(changes.name) : current.name;
+  const enabled = changes.enabled !== undefined ? changes.enabled === true : current.enabled;
+  const sinceLastRun = validateSinceLastRun(
+    changes.sinceLastRun !== undefined ? changes.sinceLastRun : current.sinceLastRun,
+    job
+  );
+  const priority = changes.priority !== undefined ? validatePriority(changes.priority) : current.priority;
+  const rescheduled = cron !== current.cron || enabled !== current.enabled;
+
+  const updated = await scheduleStore.update(scheduleId, (schedule) => {
+    Object.assign(schedule, { name, cron, enabled, job, sinceLastRun, priority });
+    if (rescheduled) {
+      schedule.nextRunAt = enabled ? nextRunAt(cron, new Date()) : null;
+    }
+  });
+  if (!updated) {
+    throw new ScheduleNotFoundError(scheduleId);
+  }
+
+  logger.info('Updated job schedule', { scheduleId, enabled, cron });
+  return updated;
+}
+
+export async function setScheduleEnabled(scheduleId: string, enabled: boolean): Promise<JobSchedule> {
+  return updateSchedule(scheduleId, { enabled });
+}
+
+export async function deleteSchedule(scheduleId: string): Promise<void> {
+  if (!(await scheduleStore.get(scheduleId))) {
+    throw new ScheduleNotFoundError(scheduleId);
+  }
+  await scheduleStore.delete(scheduleId);
+}
+
+/**
+ * Update the outcome of runs whose job has not finished yet
+ */
+export async function refreshRunOutcomes(schedule: JobSchedule): Promise<JobSchedule> {
+  const pending = schedule.history.filter((run) => run.jobId && isRunPending(run));
+  if (pending.length === 0) {
+    return schedule;
+  }
+
+  const updates = new Map<string, Partial<ScheduleRun>>();
+  for (const run of pending) {
+    const job = await migrationStateStore.getMigrationJob(run.jobId!);
+    if (!job) {
+      updates.set(run.jobId!, { outcome: 'failed', message: 'Job no longer exists' });
+      continue;
+    }
+
+    const outcome = runOutcomeForJob(job);
+    if (outcome === run.outcome) {
+      continue;
+    }
+    updates.set(run.jobId!, {
+      outcome,
+      ...(!PENDING_OUTCOMES.includes(outcome) && {
+        finishedAt: (job.completedAt ?? new Date()).toISOString(),
+        message:
+          outcome === 'failed'
+            ? job.errors.at(-1)?.message
+            : outcome === 'waiting_approval'
+              ? 'Duplicate groups are waiting for approval'
+              : undefined,
+        summary: job.progress
+          ? { processed: job.progress.processed, successful: job.progress.successful, failed: job.progress.failed }
+          : undefined,
+      }),
+    });
+  }
+
+  if (updates.size === 0) {
+    return schedule;
+  }
+
+  const updated = await scheduleStore.update(schedule.id, (stored) => {
+    stored.history = stored.history.map((run) =>
+      run.jobId && updates.has(run.jobId) ? { ...run, ...updates.get(run.jobId) } : run
+    );
+  });
+  return updated ?? schedule;
+}
+
+/**
+ * List schedules with up-to-date run outcomes
+ */
+export async function listSchedules(): Promise<JobSchedule[]> {
+  const schedules = await scheduleStore.list();
+  return Promise.all(schedules.map(refreshRunOutcomes));
+}
+
+/**
+ * Get a schedule with up-to-date run outcomes
+ */
+export async function getSchedule(scheduleId: string): Promise<JobSchedule> {
+  const schedule = await scheduleStore.get(scheduleId);
+  if (!schedule) {
+    throw new ScheduleNotFoundError(scheduleId);
+  }
+  return refreshRunOutcomes(schedule);
+}
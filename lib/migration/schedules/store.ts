@@ -0,0 +1,32 @@
+/**
+ * Schedule Store - one JSON file per recurring job schedule
+ * The directory can be overridden via MIGRATION_SCHEDULES_DIR.
+ */
+
+import path from 'node:path';
+import { JsonRecordStore } from '../utils/json-record-store';
+import type { JobSchedule } from './types';
+
+const SCHEDULES_ROOT_CONFIG = process.env.MIGRATION_SCHEDULES_DIR || 'data/schedules';
+const DEFAULT_SCHEDULES_ROOT = path.resolve(process.cwd(), SCHEDULES_ROOT_CONFIG);
+
+/** Runs kept per schedule */
+export const MAX_SCHEDULE_HISTORY = 50;
+
+export class ScheduleStore extends JsonRecordStore<JobSchedule> {
+  constructor(baseDir: string = DEFAULT_SCHEDULES_ROOT) {
+    super(baseDir, 'schedule');
+  }
+
+  /**
+   * Update a schedule, keeping the newest MAX_SCHEDULE_HISTORY runs
+   */
+  async update(scheduleId: string, mutate: (schedule: JobSchedule) => void): Promise<JobSchedule | null> {
+    return super.update(scheduleId, (schedule) => {
+      mutate(schedule);
+      schedule.history = schedule.history.slice(0, MAX_SCHEDULE_HISTORY);
+    });
+  }
+}
+
+export const scheduleStore = new ScheduleStore();
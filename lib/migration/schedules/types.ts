@@ -0,0 +1,80 @@
+/**
+ * Type definitions for recurring job schedules
+ */
+
+import type { CleanupSpec, ItemMigrationSpec } from '../../cli/job-spec';
+
+/**
+ * Job a schedule creates on every run: an item migration or cleanup request
+ * body plus `type`, the same format as a CLI job spec
+ */
+export type ScheduledJobSpec = ItemMigrationSpec | CleanupSpec;
+
+/**
+ * What happened to a run. `queued`, `running` and `paused` change as the job
+ * progresses; `skipped` runs created no job.
+ */
+export type ScheduleRunOutcome =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'waiting_approval'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped';
+
+export interface ScheduleRun {
+  /** Cron time the run was due at (ISO) */
+  scheduledFor: string;
+  /** When the job was created (ISO) */
+  startedAt: string;
+  jobId?: string;
+  outcome: ScheduleRunOutcome;
+  finishedAt?: string;
+  /** Why the run failed or was skipped */
+  message?: string;
+  /** Item counts of the finished job */
+  summary?: {
+    processed: number;
+    successful: number;
+    failed: number;
+  };
+}
+
+/**
+ * A saved job definition that creates a fresh job on a cron schedule
+ */
+export interface JobSchedule {
+  id: string;
+  name: string;
+  /** Five-field cron expression, evaluated in the server's time zone */
+  cron: string;
+  enabled: boolean;
+  job: ScheduledJobSpec;
+  /**
+   * Item migrations only: limit each run to source items edited since the
+   * day the last successful run started (`filters.lastEditFrom`)
+   */
+  sinceLastRun?: boolean;
+  /** Queue priority of the created jobs */
+  priority?: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Next due time (ISO); null while disabled */
+  nextRunAt: string | null;
+  /** Runs, newest first */
+  history: ScheduleRun[];
+}
+
+/**
+ * Body of the create route; `PATCH` accepts any subset
+ */
+export interface JobScheduleInput {
+  name: string;
+  cron: string;
+  job: unknown;
+  enabled?: boolean;
+  sinceLastRun?: boolean;
+  priority?: number;
+}
@@ -10,6 +10,7 @@ import { migrationStateStore } from './state-store';
 import { shutdownAllLoggers } from './file-logger';
 import { logger } from './logging';
 import { isJobActive } from './job-lifecycle';
+import { jobQueue } from './job-queue';
 
 /**
  * Pause request registry for UI-triggered pauses
@@ -107,7 +108,9 @@ class ShutdownCoordinator {
       activeMigrations: this.activeMigrations.size,
     });
 
-    // Step 1: Call all registered shutdown callbacks
+    // Step 1: Stop starting queued jobs, then call all registered shutdown callbacks
+    jobQueue.shutdown();
+    const interruptedIds = Array.from(this.shutdownCallbacks.keys());
     const shutdownPromises: Promise<void>[] = [];
     for (const [migrationId, callback] of this.shutdownCallbacks.entries()) {
       logger.info('Calling shutdown callback', { migrationId });
@@ -121,6 +124,12 @@ class ShutdownCoordinator {
     // Wait for all migrations to complete their current batch
     await Promise.all(shutdownPromises);
 
+    // Queue the paused jobs so the next server start resumes them
+    if (signal && interruptedIds.length > 0) {
+      const requeued = await jobQueue.requeueInterrupted(interruptedIds);
+      logger.info('Queued interrupted migrations for the next start', { requeued });
+    }
+
     // Step 2: Flush all log buffers
     logger.info('Flushing log buffers');
     await shutdownAllLoggers();
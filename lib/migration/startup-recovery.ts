@@ -1,9 +1,10 @@
 /**
  * Startup Recovery
- * Automatically cleanup stale jobs when the server starts
+ * Re-enqueue or clean up jobs interrupted by a restart, then start the job queue
  */
 
 import { cleanupStaleJobs, findStaleJobs } from './job-lifecycle';
+import { canResumeInterruptedJob, jobQueue } from './job-queue';
 import { logger } from './logging';
 
 /**
@@ -19,23 +20,37 @@ export async function runStartupRecovery(): Promise<void> {
 
     if (staleJobs.length === 0) {
       logger.info('Startup recovery: No stale jobs found');
-      return;
-    }
+    } else {
+      logger.warn('Startup recovery: Found stale jobs from previous server session', {
+        count: staleJobs.length,
+        jobIds: staleJobs.map(j => j.id),
+      });
 
-    logger.warn('Startup recovery: Found stale jobs from previous server session', {
-      count: staleJobs.length,
-      jobIds: staleJobs.map(j => j.id),
-    });
+      let requeued = 0;
+      for (const job of staleJobs.filter(canResumeInterruptedJob)) {
+        try {
+          await jobQueue.enqueue(job.id, { reason: 'recovery', resume: true });
+          requeued++;
+        } catch (error) {
+          logger.error('Startup recovery: Failed to re-enqueue job', { jobId: job.id, error });
+        }
+      }
 
-    // Cleanup stale jobs
-    const cleanedCount = await cleanupStaleJobs();
+      // Jobs that cannot continue (or failed to re-enqueue) are still
+      // in_progress and get marked as failed
+      const cleanedCount = await cleanupStaleJobs();
 
-    logger.info('Startup recovery complete', {
-      staleJobsFound: staleJobs.length,
-      jobsCleaned: cleanedCount,
-    });
+      logger.info('Startup recovery complete', {
+        staleJobsFound: staleJobs.length,
+        jobsRequeued: requeued,
+        jobsCleaned: cleanedCount,
+      });
+    }
   } catch (error) {
     logger.error('Startup recovery failed', { error });
     // Don't throw - startup recovery failure shouldn't prevent server from starting
   }
+
+  // Run jobs still queued from the previous session
+  jobQueue.start();
 }
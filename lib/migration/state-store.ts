@@ -1,17 +1,22 @@
 import { randomUUID } from 'crypto';
-import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from './logging';
+import { FileJobStorage } from './storage/file-storage';
+import { SqliteJobStorage } from './storage/sqlite-storage';
+import type { MigrationJobQuery, MigrationJobStorage, SaveJobOptions } from './storage/types';
+
+export type { MigrationJobQuery, MigrationJobStorage } from './storage/types';
 
 /**
  * Migration job status types
+ * `queued` jobs wait for a free slot in the job queue, `deferred` jobs for their scheduled start time
  */
-export type MigrationJobStatus = 'planning' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'detecting' | 'waiting_approval' | 'deleting';
+export type MigrationJobStatus = 'planning' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'detecting' | 'waiting_approval' | 'deleting' | 'queued' | 'deferred';
 
 /**
  * Migration job types
  */
-export type MigrationJobType = 'flow_clone' | 'item_migration' | 'cleanup';
+export type MigrationJobType = 'flow_clone' | 'item_migration' | 'cleanup' | 'multi_app_migration' | 'item_rollback';
 
 /**
  * Migration step types
@@ -143,6 +148,75 @@ export interface MigrationProgress {
   failedItemsByCategory?: Record<ErrorCategory, number>;
   /** Snapshot of progress before retry was initiated (for displaying pre-retry state) */
   preRetrySnapshot?: ProgressSnapshot;
+  /** Item task transfer counts (only when task transfer is enabled) */
+  tasks?: TaskTransferCounts;
+  /** Item comment transfer counts (only when comment transfer is enabled) */
+  comments?: CommentTransferCounts;
+}
+
+/**
+ * Counts of item tasks recreated on target items
+ */
+export interface TaskTransferCounts {
+  /** Tasks created on target items */
+  copied: number;
+  /** Tasks skipped because an earlier run already copied them */
+  skipped: number;
+  /** Tasks that could not be copied; an item whose tasks could not be read counts once */
+  failed: number;
+}
+
+/**
+ * Counts of item comments copied to target items
+ */
+export interface CommentTransferCounts {
+  /** Comments posted on target items */
+  copied: number;
+  /** Comments skipped because an earlier run already copied them */
+  skipped: number;
+  /** Comments that could not be copied; an item whose comments could not be read counts once */
+  failed: number;
+}
+
+/**
+ * Status of a single app within a multi-app migration job
+ */
+export type AppMigrationStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'paused';
+
+/**
+ * Per-app progress for multi-app migration jobs
+ */
+export interface AppMigrationProgress {
+  sourceAppId: number;
+  targetAppId: number;
+  status: AppMigrationStatus;
+  total: number;
+  processed: number;
+  successful: number;
+  failed: number;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/**
+ * Why a job was put in the queue
+ */
+export type JobQueueReason = 'new' | 'resume' | 'retry' | 'sync' | 'recovery';
+
+/**
+ * Queue placement of a queued or deferred job (see lib/migration/job-queue.ts)
+ */
+export interface JobQueueEntry {
+  /** Higher priorities start first */
+  priority: number;
+  /** ISO timestamp; orders jobs of equal priority */
+  enqueuedAt: string;
+  /** ISO timestamp of the earliest start */
+  runAt?: string;
+  reason: JobQueueReason;
+  /** Continue from where the job stopped instead of starting it over */
+  resume?: boolean;
 }
 
 /**
@@ -160,6 +234,10 @@ export interface MigrationJob {
   steps: MigrationStep[];
   errors: MigrationError[];
   progress?: MigrationProgress;
+  /** Per-app progress (multi-app migration jobs only), in execution order */
+  appProgress?: AppMigrationProgress[];
+  /** Set while the job waits in the job queue */
+  queue?: JobQueueEntry;
   metadata?: {
     appCount?: number;
     flowCount?: number;
@@ -177,178 +255,59 @@ export interface MigrationJob {
 }
 
 /**
- * Migration state store with file-based persistence
+ * Create the job storage selected by MIGRATION_STATE_BACKEND
  *
- * Stores migration job state in JSON files for tracking progress
- * and enabling recovery from failures.
+ * - `file` (default): one JSON file per job in MIGRATION_STATE_DIR (data/migrations)
+ * - `sqlite`: MIGRATION_STATE_SQLITE_PATH (data/migrations.sqlite); existing job
+ *   files are imported the first time the database is initialized
+ */
+export function createMigrationJobStorage(env: NodeJS.ProcessEnv = process.env): MigrationJobStorage {
+  const fileStorePath = env.MIGRATION_STATE_DIR || 'data/migrations';
+  const backend = env.MIGRATION_STATE_BACKEND || 'file';
+
+  switch (backend) {
+    case 'file':
+      return new FileJobStorage(fileStorePath);
+    case 'sqlite':
+      return new SqliteJobStorage(
+        path.resolve(process.cwd(), env.MIGRATION_STATE_SQLITE_PATH || 'data/migrations.sqlite'),
+        { importFrom: fileStorePath }
+      );
+    default:
+      throw new Error(`Unknown MIGRATION_STATE_BACKEND '${backend}' (expected 'file' or 'sqlite')`);
+  }
+}
+
+/**
+ * Migration state store
  *
- * Features:
- * - Write queue to serialize all write operations (prevents concurrent write corruption)
- * - Retry logic for reads with exponential backoff
- * - Automatic backup before writes
- * - Recovery from corrupted files
+ * Tracks migration jobs for progress reporting and recovery from failures.
+ * Persistence is delegated to a MigrationJobStorage (JSON files or SQLite);
+ * a string argument is taken as the directory of a file store.
  */
 export class MigrationStateStore {
-  private storePath: string;
-  private writeQueue: Map<string, Promise<void>> = new Map();
-  private backupPath: string;
+  private storage: MigrationJobStorage;
 
-  constructor(storePath = 'data/migrations') {
-    this.storePath = storePath;
-    this.backupPath = `${storePath}/.backups`;
+  constructor(storage: MigrationJobStorage | string = createMigrationJobStorage()) {
+    this.storage = typeof storage === 'string' ? new FileJobStorage(storage) : storage;
   }
 
   /**
-   * Initialize the state store (ensure directory exists)
+   * Initialize the state store (create directories, open the database)
    */
   async initialize(): Promise<void> {
-    try {
-      await fs.mkdir(this.storePath, { recursive: true });
-      await fs.mkdir(this.backupPath, { recursive: true });
-      logger.info('MigrationStateStore initialized', { storePath: this.storePath, backupPath: this.backupPath });
-    } catch (error) {
-      logger.error('Failed to initialize MigrationStateStore', { error });
-      throw error;
-    }
+    await this.storage.initialize();
+    logger.info('MigrationStateStore initialized', { backend: this.storage.kind });
   }
 
   /**
-   * Queue a write operation to prevent concurrent writes to the same file
-   * This ensures all writes for a given jobId are serialized
+   * Apply a change to a stored job, failing when the job does not exist
    */
-  private async queueWrite(jobId: string, writeOperation: () => Promise<void>): Promise<void> {
-    const prev = this.writeQueue.get(jobId) ?? Promise.resolve();
-    // Swallow previous errors so the chain continues
-    const writePromise = prev.catch(() => void 0).then(() => writeOperation());
-    this.writeQueue.set(jobId, writePromise);
-    try {
-      await writePromise;
-    } finally {
-      if (this.writeQueue.get(jobId) === writePromise) {
-        this.writeQueue.delete(jobId);
-      }
-    }
-  }
-
-  /**
-   * Create a backup of the job file before writing
-   */
-  private async createBackup(jobId: string): Promise<void> {
-    const jobPath = this.getJobPath(jobId);
-    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
-
-    try {
-      // Ensure backup directory exists
-      await fs.mkdir(this.backupPath, { recursive: true });
-
-      // Check if job file exists
-      await fs.access(jobPath);
-
-      // Read and validate JSON before overwriting stable backup
-      const content = await fs.readFile(jobPath, 'utf-8');
-      try {
-        JSON.parse(content);
-        // Valid JSON — persist exactly what we validated (avoids TOCTOU)
-        const tmp = `${backupFilePath}.${randomUUID()}.tmp`;
-        await fs.writeFile(tmp, content, 'utf8');
-        const fh = await fs.open(tmp, 'r+');
-        try {
-          await fh.sync();
-        } finally {
-          await fh.close();
-        }
-        await fs.rename(tmp, backupFilePath);
-      } catch {
-        // Corrupted source - save with distinct name to avoid overwriting good backup
-        const corruptedBackupPath = path.join(this.backupPath, `${jobId}.backup.corrupted.${Date.now()}.json`);
-        await fs.writeFile(corruptedBackupPath, content, 'utf8');
-        logger.warn('Skipped overwriting stable backup with corrupted source', { jobId, corruptedBackupPath });
-        return;
-      }
-      logger.debug('Created backup for job', { jobId });
-    } catch (error: any) {
-      // If file doesn't exist (ENOENT), that's okay - no backup needed
-      if (error?.code !== 'ENOENT') {
-        logger.warn('Failed to create backup', { jobId, error: error?.message });
-      }
-    }
-  }
-
-  /**
-   * Attempt to recover a corrupted job file from backup
-   */
-  private async recoverFromBackup(jobId: string): Promise<MigrationJob | null> {
-    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
-
-    try {
-      const content = await fs.readFile(backupFilePath, 'utf-8');
-      const job = JSON.parse(content) as MigrationJob;
-
-      logger.warn('Recovered job from backup', { jobId });
-
-      // Convert date strings back to Date objects
-      return this.deserializeJob(job);
-    } catch (error: any) {
-      if (error?.code === 'ENOENT') {
-        logger.warn('No backup found for recovery', { jobId });
-      } else {
-        logger.error('Failed to recover from backup', { jobId, error: error?.message });
-      }
-      return null;
-    }
-  }
-
-  /**
-   * Convert date strings back to Date objects
-   */
-  private deserializeJob(job: MigrationJob): MigrationJob {
-    job.startedAt = new Date(job.startedAt);
-    if (job.completedAt) {
-      job.completedAt = new Date(job.completedAt);
-    }
-    if (job.lastHeartbeat) {
-      job.lastHeartbeat = new Date(job.lastHeartbeat);
-    }
-    if (job.progress?.lastUpdate) {
-      job.progress.lastUpdate = new Date(job.progress.lastUpdate);
-    }
-    job.errors = Array.isArray(job.errors) ? job.errors.map(err => ({
-      ...err,
-      timestamp: new Date(err.timestamp),
-    })) : [];
-    job.steps = Array.isArray(job.steps) ? job.steps.map(step => ({
-      ...step,
-      startedAt: step.startedAt ? new Date(step.startedAt) : undefined,
-      completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
-    })) : [];
-
-    // Convert nested date fields in progress object
-    if (job.progress) {
-      if (job.progress.throughput?.estimatedCompletionTime) {
-        job.progress.throughput.estimatedCompletionTime = new Date(job.progress.throughput.estimatedCompletionTime);
-      }
-
-      if (job.progress.preRetrySnapshot?.lastUpdate) {
-        job.progress.preRetrySnapshot.lastUpdate = new Date(job.progress.preRetrySnapshot.lastUpdate);
-      }
-
-      if (job.progress.batchCheckpoints) {
-        job.progress.batchCheckpoints = job.progress.batchCheckpoints.map(checkpoint => ({
-          ...checkpoint,
-          startedAt: new Date(checkpoint.startedAt),
-          completedAt: checkpoint.completedAt ? new Date(checkpoint.completedAt) : undefined,
-        }));
-      }
-
-      if (Array.isArray(job.progress.failedItems)) {
-        job.progress.failedItems = job.progress.failedItems.map(item => ({
-          ...item,
-          firstAttemptAt: new Date(item.firstAttemptAt),
-          lastAttemptAt: new Date(item.lastAttemptAt),
-        }));
-      }
+  private async mutateJob(jobId: string, mutate: (job: MigrationJob) => void): Promise<MigrationJob> {
+    const job = await this.storage.update(jobId, mutate);
+    if (!job) {
+      throw new Error(`Migration job not found: ${jobId}`);
     }
-
     return job;
   }
 
@@ -381,249 +340,24 @@ export class MigrationStateStore {
   }
 
   /**
-   * Save migration job to disk with atomic write, verification, and retry
-   * Now uses write queue to prevent concurrent writes and creates backups
+   * Save a whole migration job, replacing the stored version
    */
-  async saveMigrationJob(job: MigrationJob, opts: { skipBackup?: boolean } = {}): Promise<void> {
-    // Queue the write operation to prevent concurrent writes
-    await this.queueWrite(job.id, async () => {
-      // Create backup before writing unless explicitly skipped (e.g., recovery)
-      if (!opts.skipBackup) {
-        await this.createBackup(job.id);
-      }
-
-      const jobPath = this.getJobPath(job.id);
-      // Use unique temp path to prevent concurrent write collisions
-      const tempPath = `${jobPath}.${randomUUID()}.tmp`;
-      const MAX_RETRIES = 3;
-      let lastError: Error | null = null;
-
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        try {
-          // Ensure directory exists
-          await fs.mkdir(this.storePath, { recursive: true });
-
-          // Serialize to JSON
-          const jsonContent = JSON.stringify(job, null, 2);
-          const expectedBytes = Buffer.byteLength(jsonContent, 'utf8');
-
-          // Write to temp file
-          await fs.writeFile(tempPath, jsonContent, 'utf-8');
-
-          // Force flush to disk (fsync)
-          const fileHandle = await fs.open(tempPath, 'r+');
-          try {
-            await fileHandle.sync();
-          } finally {
-            await fileHandle.close();
-          }
-
-          // Verify write by reading back and parsing
-          const writtenContent = await fs.readFile(tempPath, 'utf-8');
-          try {
-            JSON.parse(writtenContent); // Validate JSON structure
-          } catch (parseError) {
-            throw new Error(`Write verification failed: Invalid JSON in temp file - ${parseError}`);
-          }
-
-          // Verify content matches (byte-length check)
-          const writtenBytes = Buffer.byteLength(writtenContent, 'utf8');
-          if (writtenBytes !== expectedBytes) {
-            throw new Error(`Write verification failed: Size mismatch (expected ${expectedBytes}, got ${writtenBytes})`);
-          }
-
-          // Atomic rename (only after verification passes)
-          await fs.rename(tempPath, jobPath);
-
-          // Best-effort fsync of parent directory to persist the rename
-          try {
-            const dirHandle = await fs.open(this.storePath, 'r');
-            try {
-              await dirHandle.sync();
-            } finally {
-              await dirHandle.close();
-            }
-          } catch {
-            // Ignore if not supported on this platform
-          }
-
-          logger.debug('Saved migration job', {
-            jobId: job.id,
-            sizeBytes: expectedBytes,
-            attempt: attempt > 1 ? attempt : undefined,
-          });
-
-          return; // Success!
-        } catch (error) {
-          lastError = error as Error;
-
-          // With unique temp files, cross-writer rename collisions are eliminated
-          // Log retry attempt
-          if (attempt < MAX_RETRIES) {
-            logger.warn('Failed to save migration job, retrying', {
-              jobId: job.id,
-              attempt,
-              maxRetries: MAX_RETRIES,
-              error: lastError.message,
-            });
-
-            // Clean up temp file before retry
-            try {
-              await fs.unlink(tempPath);
-            } catch {
-              // Ignore cleanup errors
-            }
-
-            // Wait before retry (exponential backoff: 100ms, 200ms, 400ms)
-            await new Promise(resolve => setTimeout(resolve, 100 * Math.pow(2, attempt - 1)));
-          }
-        }
-      }
-
-      // All retries failed
-      logger.error('Failed to save migration job after all retries', {
-        jobId: job.id,
-        attempts: MAX_RETRIES,
-        error: lastError,
-      });
-
-      // Clean up temp file
-      try {
-        await fs.unlink(tempPath);
-      } catch {
-        // Ignore cleanup errors
-      }
-
-      throw lastError || new Error('Failed to save migration job');
-    });
+  async saveMigrationJob(job: MigrationJob, opts: SaveJobOptions = {}): Promise<void> {
+    await this.storage.save(job, opts);
   }
 
   /**
    * Get migration job by ID
    */
   async getMigrationJob(jobId: string): Promise<MigrationJob | null> {
-    const jobPath = this.getJobPath(jobId);
-    const MAX_RETRIES = 5;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        // Wait for any pending writes to this job to complete
-        const pendingWrite = this.writeQueue.get(jobId);
-        if (pendingWrite) {
-          try {
-            await pendingWrite;
-          } catch {
-            // Continue even if write failed - we'll try to read anyway
-          }
-        }
-
-        const content = await fs.readFile(jobPath, 'utf-8');
-        const job = JSON.parse(content) as MigrationJob;
-
-        // Convert date strings back to Date objects using our helper
-        return this.deserializeJob(job);
-      } catch (error: unknown) {
-        lastError = error as Error;
-
-        // If file doesn't exist, return null immediately (no retry needed)
-        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-          if (attempt === 1) {
-            logger.debug('Migration job not found', { jobId });
-          }
-          return null;
-        }
-
-        // Handle JSON parse errors (corrupted files)
-        if (error instanceof SyntaxError) {
-          logger.error('JSON parse error - file may be corrupted', {
-            jobId,
-            attempt,
-            maxRetries: MAX_RETRIES,
-            filePath: jobPath,
-            error: (error as Error).message,
-          });
-
-          // On first parse error, try to recover from backup
-          if (attempt === 1) {
-            // Create a backup of the corrupted file
-            try {
-              const corruptedBackupPath = `${jobPath}.corrupted.${Date.now()}`;
-              await fs.copyFile(jobPath, corruptedBackupPath);
-              logger.warn('Created backup of corrupted migration file', {
-                jobId,
-                backupPath: corruptedBackupPath,
-              });
-            } catch (backupError) {
-              logger.error('Failed to create backup of corrupted file', {
-                jobId,
-                backupError,
-              });
-            }
-
-            // Try to recover from our automatic backup
-            const recovered = await this.recoverFromBackup(jobId);
-            if (recovered) {
-              // Restore the recovered version to the main file
-              try {
-                await this.saveMigrationJob(recovered, { skipBackup: true });
-                logger.info('Successfully recovered and restored corrupted job file', { jobId });
-                return recovered;
-              } catch (saveError) {
-                logger.error('Failed to restore recovered job', { jobId, error: saveError });
-              }
-            }
-          }
-        }
-
-        // Retry with exponential backoff (50ms, 100ms, 200ms, 400ms, 800ms)
-        if (attempt < MAX_RETRIES) {
-          const backoffMs = 50 * Math.pow(2, attempt - 1);
-          logger.warn('Failed to read migration job, retrying', {
-            jobId,
-            attempt,
-            maxRetries: MAX_RETRIES,
-            backoffMs,
-            errorType: error instanceof SyntaxError ? 'JSON parse error' : 'read error',
-            error: (error as Error).message,
-          });
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
-        }
-      }
-    }
-
-    // All retries failed
-    logger.error('Failed to get migration job after all retries', {
-      jobId,
-      attempts: MAX_RETRIES,
-      error: lastError,
-    });
-
-    // Return null to allow the system to continue gracefully
-    // The caller can decide how to handle the missing job
-    return null;
+    return this.storage.get(jobId);
   }
 
   /**
-   * List all migration jobs
+   * List migration jobs, optionally filtered by type, status or app
    */
-  async listMigrationJobs(): Promise<MigrationJob[]> {
-    try {
-      const files = await fs.readdir(this.storePath);
-      const jobFiles = files.filter(f => f.endsWith('.json'));
-
-      const jobs = await Promise.all(
-        jobFiles.map(async (file) => {
-          const jobId = file.replace('.json', '');
-          return this.getMigrationJob(jobId);
-        })
-      );
-
-      return jobs.filter((job): job is MigrationJob => job !== null);
-    } catch (error) {
-      logger.error('Failed to list migration jobs', { error });
-      throw error;
-    }
+  async listMigrationJobs(query?: MigrationJobQuery): Promise<MigrationJob[]> {
+    return this.storage.list(query);
   }
 
   /**
@@ -634,25 +368,60 @@ export class MigrationStateStore {
     status: MigrationJobStatus,
     completedAt?: Date
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
+    await this.mutateJob(jobId, (job) => {
+      job.status = status;
+      if (completedAt) {
+        job.completedAt = completedAt;
+      }
 
-    job.status = status;
-    if (completedAt) {
-      job.completedAt = completedAt;
-    }
+      // Seed heartbeat when entering in_progress, clear on terminal/pause states
+      if (status === 'in_progress') {
+        job.lastHeartbeat = new Date();
+      } else if (status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'paused') {
+        job.lastHeartbeat = undefined;
+      }
+    });
+    logger.info('Updated migration job status', { jobId, status });
+  }
 
-    // Seed heartbeat when entering in_progress, clear on terminal/pause states
-    if (status === 'in_progress') {
-      job.lastHeartbeat = new Date();
-    } else if (status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'paused') {
+  /**
+   * Put a job in the queue (`queued`/`deferred`), or move it out with
+   * `queue` undefined
+   */
+  async updateJobQueue(
+    jobId: string,
+    status: MigrationJobStatus,
+    queue?: JobQueueEntry
+  ): Promise<void> {
+    await this.mutateJob(jobId, (job) => {
+      job.status = status;
+      job.queue = queue;
       job.lastHeartbeat = undefined;
-    }
+    });
+    logger.info('Updated job queue entry', { jobId, status, queue });
+  }
 
-    await this.saveMigrationJob(job);
-    logger.info('Updated migration job status', { jobId, status });
+  /**
+   * Claim a queued job for execution
+   * Moves it to `planning`, seeds its heartbeat and clears its queue entry in
+   * one update, so a job is only started once. The file backend serializes
+   * updates within one process only; queues in several processes need the
+   * SQLite backend.
+   *
+   * @returns The queue entry the job had, or null when it was no longer queued
+   */
+  async claimQueuedJob(jobId: string): Promise<JobQueueEntry | null> {
+    let claimed: JobQueueEntry | null = null;
+    await this.mutateJob(jobId, (job) => {
+      if ((job.status !== 'queued' && job.status !== 'deferred') || !job.queue) {
+        return;
+      }
+      claimed = job.queue;
+      job.status = 'planning';
+      job.queue = undefined;
+      job.lastHeartbeat = new Date();
+    });
+    return claimed;
   }
 
   /**
@@ -663,11 +432,6 @@ export class MigrationStateStore {
     type: MigrationStepType,
     sourceId: string
   ): Promise<string> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
     const step: MigrationStep = {
       id: randomUUID(),
       type,
@@ -675,8 +439,9 @@ export class MigrationStateStore {
       status: 'pending',
     };
 
-    job.steps.push(step);
-    await this.saveMigrationJob(job);
+    await this.mutateJob(jobId, (job) => {
+      job.steps.push(step);
+    });
 
     logger.debug('Added migration step', { jobId, stepId: step.id, type, sourceId });
     return step.id;
@@ -690,22 +455,17 @@ export class MigrationStateStore {
     stepId: string,
     update: Partial<MigrationStep>
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    const stepIndex = job.steps.findIndex(s => s.id === stepId);
-    if (stepIndex === -1) {
-      throw new Error(`Migration step not found: ${stepId}`);
-    }
-
-    job.steps[stepIndex] = {
-      ...job.steps[stepIndex],
-      ...update,
-    };
+    await this.mutateJob(jobId, (job) => {
+      const stepIndex = job.steps.findIndex(s => s.id === stepId);
+      if (stepIndex === -1) {
+        throw new Error(`Migration step not found: ${stepId}`);
+      }
 
-    await this.saveMigrationJob(job);
+      job.steps[stepIndex] = {
+        ...job.steps[stepIndex],
+        ...update,
+      };
+    });
     logger.debug('Updated migration step', { jobId, stepId, update });
   }
 
@@ -718,19 +478,14 @@ export class MigrationStateStore {
     message: string,
     code?: string
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    job.errors.push({
-      step,
-      message,
-      code,
-      timestamp: new Date(),
+    await this.mutateJob(jobId, (job) => {
+      job.errors.push({
+        step,
+        message,
+        code,
+        timestamp: new Date(),
+      });
     });
-
-    await this.saveMigrationJob(job);
     logger.error('Added migration error', { jobId, step, message, code });
   }
 
@@ -741,29 +496,25 @@ export class MigrationStateStore {
     jobId: string,
     progress: MigrationProgress
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    const mergedProgress: MigrationProgress = {
-      ...job.progress,
-      ...progress,
-    };
+    await this.mutateJob(jobId, (job) => {
+      const mergedProgress: MigrationProgress = {
+        ...job.progress,
+        ...progress,
+      };
 
-    if (job.progress?.failedItemsByCategory || progress.failedItemsByCategory) {
-      mergedProgress.failedItemsByCategory = {
-        ...(job.progress?.failedItemsByCategory ?? {}),
-        ...(progress.failedItemsByCategory ?? {}),
-      } as Record<ErrorCategory, number>;
-    }
+      if (job.progress?.failedItemsByCategory || progress.failedItemsByCategory) {
+        mergedProgress.failedItemsByCategory = {
+          ...(job.progress?.failedItemsByCategory ?? {}),
+          ...(progress.failedItemsByCategory ?? {}),
+        } as Record<ErrorCategory, number>;
+      }
 
-    if (!progress.failedItems && job.progress?.failedItems && !mergedProgress.failedItems) {
-      mergedProgress.failedItems = job.progress.failedItems;
-    }
+      if (!progress.failedItems && job.progress?.failedItems && !mergedProgress.failedItems) {
+        mergedProgress.failedItems = job.progress.failedItems;
+      }
 
-    job.progress = mergedProgress;
-    await this.saveMigrationJob(job);
+      job.progress = mergedProgress;
+    });
     logger.debug('Updated migration job progress', { jobId, progress });
   }
 
@@ -774,48 +525,56 @@ export class MigrationStateStore {
     jobId: string,
     metadata: Record<string, unknown>
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    // Merge new metadata with existing
-    job.metadata = {
-      ...job.metadata,
-      ...metadata,
-    };
-    await this.saveMigrationJob(job);
+    await this.mutateJob(jobId, (job) => {
+      // Merge new metadata with existing
+      job.metadata = {
+        ...job.metadata,
+        ...metadata,
+      };
+    });
     logger.debug('Updated migration job metadata', { jobId, metadata });
   }
 
   /**
-   * Delete a migration job
+   * Read and change a job's metadata in one storage update
+   * @returns What `mutate` returns, e.g. whether it changed anything
    */
-  async deleteMigrationJob(jobId: string): Promise<void> {
-    const jobPath = this.getJobPath(jobId);
-    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
-
-    // Serialize with write queue to prevent race with in-flight saves
-    await this.queueWrite(jobId, async () => {
-      try {
-        await fs.unlink(jobPath);
-        logger.info('Deleted migration job', { jobId });
-      } catch (error: unknown) {
-        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-          logger.error('Failed to delete migration job', { jobId, error });
-          throw error;
-        }
-      }
+  async mutateJobMetadata<T>(
+    jobId: string,
+    mutate: (metadata: Record<string, unknown>) => T
+  ): Promise<T> {
+    let result: T | undefined;
+    await this.mutateJob(jobId, (job) => {
+      job.metadata = { ...job.metadata };
+      result = mutate(job.metadata);
+    });
+    return result as T;
+  }
 
-      // Best-effort cleanup of backup
-      try {
-        await fs.unlink(backupFilePath);
-      } catch (error: unknown) {
-        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-          logger.warn('Failed to delete job backup', { jobId, error });
-        }
+  /**
+   * Update progress for one app of a multi-app migration job
+   */
+  async updateAppProgress(
+    jobId: string,
+    sourceAppId: number,
+    update: Partial<Omit<AppMigrationProgress, 'sourceAppId' | 'targetAppId'>>
+  ): Promise<void> {
+    await this.mutateJob(jobId, (job) => {
+      const entry = job.appProgress?.find(app => app.sourceAppId === sourceAppId);
+      if (!entry) {
+        throw new Error(`App ${sourceAppId} is not part of migration job ${jobId}`);
       }
+
+      Object.assign(entry, update);
     });
+    logger.debug('Updated app progress', { jobId, sourceAppId, update });
+  }
+
+  /**
+   * Delete a migration job
+   */
+  async deleteMigrationJob(jobId: string): Promise<void> {
+    await this.storage.delete(jobId);
   }
 
   /**
@@ -825,40 +584,28 @@ export class MigrationStateStore {
     jobId: string,
     checkpoint: MigrationBatchCheckpoint
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    if (!job.progress) {
-      job.progress = {
-        total: 0,
-        processed: 0,
-        successful: 0,
-        failed: 0,
-        percent: 0,
-        lastUpdate: new Date(),
-      };
-    }
-
-    if (!job.progress.batchCheckpoints) {
-      job.progress.batchCheckpoints = [];
-    }
+    await this.mutateJob(jobId, (job) => {
+      if (!job.progress) {
+        job.progress = emptyProgress();
+      }
 
-    // Find existing checkpoint for this batch number
-    const existingIndex = job.progress.batchCheckpoints.findIndex(
-      (c) => c.batchNumber === checkpoint.batchNumber
-    );
+      if (!job.progress.batchCheckpoints) {
+        job.progress.batchCheckpoints = [];
+      }
 
-    if (existingIndex >= 0) {
-      // Update existing checkpoint
-      job.progress.batchCheckpoints[existingIndex] = checkpoint;
-    } else {
-      // Add new checkpoint
-      job.progress.batchCheckpoints.push(checkpoint);
-    }
+      // Find existing checkpoint for this batch number
+      const existingIndex = job.progress.batchCheckpoints.findIndex(
+        (c) => c.batchNumber === checkpoint.batchNumber
+      );
 
-    await this.saveMigrationJob(job);
+      if (existingIndex >= 0) {
+        // Update existing checkpoint
+        job.progress.batchCheckpoints[existingIndex] = checkpoint;
+      } else {
+        // Add new checkpoint
+        job.progress.batchCheckpoints.push(checkpoint);
+      }
+    });
     logger.debug('Saved batch checkpoint', {
       jobId,
       batchNumber: checkpoint.batchNumber,
@@ -909,48 +656,37 @@ export class MigrationStateStore {
       return;
     }
 
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    if (!job.progress) {
-      job.progress = {
-        total: 0,
-        processed: 0,
-        successful: 0,
-        failed: 0,
-        percent: 0,
-        lastUpdate: new Date(),
-      };
-    }
+    const job = await this.mutateJob(jobId, (job) => {
+      if (!job.progress) {
+        job.progress = emptyProgress();
+      }
 
-    if (!job.progress.failedItemsByCategory) {
-      job.progress.failedItemsByCategory = {
-        network: 0,
-        validation: 0,
-        permission: 0,
-        rate_limit: 0,
-        duplicate: 0,
-        unknown: 0,
-      };
-    }
+      if (!job.progress.failedItemsByCategory) {
+        job.progress.failedItemsByCategory = {
+          network: 0,
+          validation: 0,
+          permission: 0,
+          rate_limit: 0,
+          duplicate: 0,
+          unknown: 0,
+        };
+      }
 
-    let totalIncrement = 0;
-    for (const [category, value] of entries) {
-      job.progress.failedItemsByCategory[category] =
-        (job.progress.failedItemsByCategory[category] || 0) + value;
-      totalIncrement += value;
-    }
+      let totalIncrement = 0;
+      for (const [category, value] of entries) {
+        job.progress.failedItemsByCategory[category] =
+          (job.progress.failedItemsByCategory[category] || 0) + value;
+        totalIncrement += value;
+      }
 
-    job.progress.failed = (job.progress.failed || 0) + totalIncrement;
-    job.progress.lastUpdate = new Date();
+      job.progress.failed = (job.progress.failed || 0) + totalIncrement;
+      job.progress.lastUpdate = new Date();
+    });
 
-    await this.saveMigrationJob(job);
     logger.debug('Incremented failed item counts', {
       jobId,
       updates: entries,
-      totalFailed: job.progress.failed,
+      totalFailed: job.progress?.failed,
     });
   }
 
@@ -978,33 +714,26 @@ export class MigrationStateStore {
     jobId: string,
     metrics: ThroughputMetrics
   ): Promise<void> {
-    const job = await this.getMigrationJob(jobId);
-    if (!job) {
-      throw new Error(`Migration job not found: ${jobId}`);
-    }
-
-    if (!job.progress) {
-      job.progress = {
-        total: 0,
-        processed: 0,
-        successful: 0,
-        failed: 0,
-        percent: 0,
-        lastUpdate: new Date(),
-      };
-    }
+    await this.mutateJob(jobId, (job) => {
+      if (!job.progress) {
+        job.progress = emptyProgress();
+      }
 
-    job.progress.throughput = metrics;
-    await this.saveMigrationJob(job);
+      job.progress.throughput = metrics;
+    });
     logger.debug('Updated throughput metrics', { jobId, metrics });
   }
+}
 
-  /**
-   * Get the file path for a job ID
-   */
-  private getJobPath(jobId: string): string {
-    return path.join(this.storePath, `${jobId}.json`);
-  }
+function emptyProgress(): MigrationProgress {
+  return {
+    total: 0,
+    processed: 0,
+    successful: 0,
+    failed: 0,
+    percent: 0,
+    lastUpdate: new Date(),
+  };
 }
 
 // Export singleton instance
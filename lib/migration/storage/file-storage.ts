@@ -0,0 +1,452 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../logging';
+import type { MigrationJob } from '../state-store';
+import { deserializeJob, jobMatchesQuery } from './job-serialization';
+import type { MigrationJobQuery, MigrationJobStorage, SaveJobOptions } from './types';
+
+/**
+ * File-based job storage: one JSON file per job
+ *
+ * Features:
+ * - Write queue to serialize all write operations (prevents concurrent write corruption)
+ * - Retry logic for reads with exponential backoff
+ * - Automatic backup before writes
+ * - Recovery from corrupted files
+ */
+export class FileJobStorage implements MigrationJobStorage {
+  readonly kind = 'file' as const;
+  private storePath: string;
+  private writeQueue: Map<string, Promise<void>> = new Map();
+  private backupPath: string;
+
+  constructor(storePath = 'data/migrations') {
+    this.storePath = storePath;
+    this.backupPath = `${storePath}/.backups`;
+  }
+
+  /**
+   * Ensure the store and backup directories exist
+   */
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.storePath, { recursive: true });
+      await fs.mkdir(this.backupPath, { recursive: true });
+      logger.debug('File job storage initialized', { storePath: this.storePath, backupPath: this.backupPath });
+    } catch (error) {
+      logger.error('Failed to initialize file job storage', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a write operation to prevent concurrent writes to the same file
+   * This ensures all writes for a given jobId are serialized
+   */
+  private async queueWrite(jobId: string, writeOperation: () => Promise<void>): Promise<void> {
+    const prev = this.writeQueue.get(jobId) ?? Promise.resolve();
+    // Swallow previous errors so the chain continues
+    const writePromise = prev.catch(() => void 0).then(() => writeOperation());
+    this.writeQueue.set(jobId, writePromise);
+    try {
+      await writePromise;
+    } finally {
+      if (this.writeQueue.get(jobId) === writePromise) {
+        this.writeQueue.delete(jobId);
+      }
+    }
+  }
+
+  /**
+   * Create a backup of the job file before writing
+   */
+  private async createBackup(jobId: string): Promise<void> {
+    const jobPath = this.getJobPath(jobId);
+    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
+
+    try {
+      // Ensure backup directory exists
+      await fs.mkdir(this.backupPath, { recursive: true });
+
+      // Check if job file exists
+      await fs.access(jobPath);
+
+      // Read and validate JSON before overwriting stable backup
+      const content = await fs.readFile(jobPath, 'utf-8');
+      try {
+        JSON.parse(content);
+        // Valid JSON — persist exactly what we validated (avoids TOCTOU)
+        const tmp = `${backupFilePath}.${randomUUID()}.tmp`;
+        await fs.writeFile(tmp, content, 'utf8');
+        const fh = await fs.open(tmp, 'r+');
+        try {
+          await fh.sync();
+        } finally {
+          await fh.close();
+        }
+        await fs.rename(tmp, backupFilePath);
+      } catch {
+        // Corrupted source - save with distinct name to avoid overwriting good backup
+        const corruptedBackupPath = path.join(this.backupPath, `${jobId}.backup.corrupted.${Date.now()}.json`);
+        await fs.writeFile(corruptedBackupPath, content, 'utf8');
+        logger.warn('Skipped overwriting stable backup with corrupted source', { jobId, corruptedBackupPath });
+        return;
+      }
+      logger.debug('Created backup for job', { jobId });
+    } catch (error: any) {
+      // If file doesn't exist (ENOENT), that's okay - no backup needed
+      if (error?.code !== 'ENOENT') {
+        logger.warn('Failed to create backup', { jobId, error: error?.message });
+      }
+    }
+  }
+
+  /**
+   * Attempt to recover a corrupted job file from backup
+   */
+  private async recoverFromBackup(jobId: string): Promise<MigrationJob | null> {
+    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
+
+    try {
+      const content = await fs.readFile(backupFilePath, 'utf-8');
+      const job = JSON.parse(content) as MigrationJob;
+
+      logger.warn('Recovered job from backup', { jobId });
+
+      // Convert date strings back to Date objects
+      return deserializeJob(job);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        logger.warn('No backup found for recovery', { jobId });
+      } else {
+        logger.error('Failed to recover from backup', { jobId, error: error?.message });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Save migration job to disk with atomic write, verification, and retry
+   * Now uses write queue to prevent concurrent writes and creates backups
+   */
+  async save(job: MigrationJob, opts: SaveJobOptions = {}): Promise<void> {
+    // Queue the write operation to prevent concurrent writes
+    await this.queueWrite(job.id, () => this.writeJob(job, opts));
+  }
+
+  /**
+   * Write a job file with backup, verification and retry
+   * Callers must hold the job's write queue.
+   */
+  private async writeJob(job: MigrationJob, opts: SaveJobOptions): Promise<void> {
+    // Create backup before writing unless explicitly skipped (e.g., recovery)
+    if (!opts.skipBackup) {
+      await this.createBackup(job.id);
+    }
+
+    const jobPath = this.getJobPath(job.id);
+    // Use unique temp path to prevent concurrent write collisions
+    const tempPath = `${jobPath}.${randomUUID()}.tmp`;
+    const MAX_RETRIES = 3;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        // Ensure directory exists
+        await fs.mkdir(this.storePath, { recursive: true });
+
+        // Serialize to JSON
+        const jsonContent = JSON.stringify(job, null, 2);
+        const expectedBytes = Buffer.byteLength(jsonContent, 'utf8');
+
+        // Write to temp file
+        await fs.writeFile(tempPath, jsonContent, 'utf-8');
+
+        // Force flush to disk (fsync)
+        const fileHandle = await fs.open(tempPath, 'r+');
+        try {
+          await fileHandle.sync();
+        } finally {
+          await fileHandle.close();
+        }
+
+        // Verify write by reading back and parsing
+        const writtenContent = await fs.readFile(tempPath, 'utf-8');
+        try {
+          JSON.parse(writtenContent); // Validate JSON structure
+        } catch (parseError) {
+          throw new Error(`Write verification failed: Invalid JSON in temp file - ${parseError}`);
+        }
+
+        // Verify content matches (byte-length check)
+        const writtenBytes = Buffer.byteLength(writtenContent, 'utf8');
+        if (writtenBytes !== expectedBytes) {
+          throw new Error(`Write verification failed: Size mismatch (expected ${expectedBytes}, got ${writtenBytes})`);
+        }
+
+        // Atomic rename (only after verification passes)
+        await fs.rename(tempPath, jobPath);
+
+        // Best-effort fsync of parent directory to persist the rename
+        try {
+          const dirHandle = await fs.open(this.storePath, 'r');
+          try {
+            await dirHandle.sync();
+          } finally {
+            await dirHandle.close();
+          }
+        } catch {
+          // Ignore if not supported on this platform
+        }
+
+        logger.debug('Saved migration job', {
+          jobId: job.id,
+          sizeBytes: expectedBytes,
+          attempt: attempt > 1 ? attempt : undefined,
+        });
+
+        return; // Success!
+      } catch (error) {
+        lastError = error as Error;
+
+        // With unique temp files, cross-writer rename collisions are eliminated
+        // Log retry attempt
+        if (attempt < MAX_RETRIES) {
+          logger.warn('Failed to save migration job, retrying', {
+            jobId: job.id,
+            attempt,
+            maxRetries: MAX_RETRIES,
+            error: lastError.message,
+          });
+
+          // Clean up temp file before retry
+          try {
+            await fs.unlink(tempPath);
+          } catch {
+            // Ignore cleanup errors
+          }
+
+          // Wait before retry (exponential backoff: 100ms, 200ms, 400ms)
+          await new Promise(resolve => setTimeout(resolve, 100 * Math.pow(2, attempt - 1)));
+        }
+      }
+    }
+
+    // All retries failed
+    logger.error('Failed to save migration job after all retries', {
+      jobId: job.id,
+      attempts: MAX_RETRIES,
+      error: lastError,
+    });
+
+    // Clean up temp file
+    try {
+      await fs.unlink(tempPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    throw lastError || new Error('Failed to save migration job');
+  }
+
+  /**
+   * Get migration job by ID
+   */
+  async get(jobId: string): Promise<MigrationJob | null> {
+    return this.readJob(jobId, false);
+  }
+
+  /**
+   * Read a job file, recovering it from backup when it is corrupted
+   * @param inWriteQueue - The caller holds the job's write queue, so pending
+   *   writes are not awaited and a recovered job is written directly
+   */
+  private async readJob(jobId: string, inWriteQueue: boolean): Promise<MigrationJob | null> {
+    const jobPath = this.getJobPath(jobId);
+    const MAX_RETRIES = 5;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        // Wait for any pending writes to this job to complete
+        const pendingWrite = inWriteQueue ? undefined : this.writeQueue.get(jobId);
+        if (pendingWrite) {
+          try {
+            await pendingWrite;
+          } catch {
+            // Continue even if write failed - we'll try to read anyway
+          }
+        }
+
+        const content = await fs.readFile(jobPath, 'utf-8');
+        const job = JSON.parse(content) as MigrationJob;
+
+        // Convert date strings back to Date objects using our helper
+        return deserializeJob(job);
+      } catch (error: unknown) {
+        lastError = error as Error;
+
+        // If file doesn't exist, return null immediately (no retry needed)
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          if (attempt === 1) {
+            logger.debug('Migration job not found', { jobId });
+          }
+          return null;
+        }
+
+        // Handle JSON parse errors (corrupted files)
+        if (error instanceof SyntaxError) {
+          logger.error('JSON parse error - file may be corrupted', {
+            jobId,
+            attempt,
+            maxRetries: MAX_RETRIES,
+            filePath: jobPath,
+            error: (error as Error).message,
+          });
+
+          // On first parse error, try to recover from backup
+          if (attempt === 1) {
+            // Create a backup of the corrupted file
+            try {
+              const corruptedBackupPath = `${jobPath}.corrupted.${Date.now()}`;
+              await fs.copyFile(jobPath, corruptedBackupPath);
+              logger.warn('Created backup of corrupted migration file', {
+                jobId,
+                backupPath: corruptedBackupPath,
+              });
+            } catch (backupError) {
+              logger.error('Failed to create backup of corrupted file', {
+                jobId,
+                backupError,
+              });
+            }
+
+            // Try to recover from our automatic backup
+            const recovered = await this.recoverFromBackup(jobId);
+            if (recovered) {
+              // Restore the recovered version to the main file
+              try {
+                if (inWriteQueue) {
+                  await this.writeJob(recovered, { skipBackup: true });
+                } else {
+                  await this.save(recovered, { skipBackup: true });
+                }
+                logger.info('Successfully recovered and restored corrupted job file', { jobId });
+                return recovered;
+              } catch (saveError) {
+                logger.error('Failed to restore recovered job', { jobId, error: saveError });
+              }
+            }
+          }
+        }
+
+        // Retry with exponential backoff (50ms, 100ms, 200ms, 400ms, 800ms)
+        if (attempt < MAX_RETRIES) {
+          const backoffMs = 50 * Math.pow(2, attempt - 1);
+          logger.warn('Failed to read migration job, retrying', {
+            jobId,
+            attempt,
+            maxRetries: MAX_RETRIES,
+            backoffMs,
+            errorType: error instanceof SyntaxError ? 'JSON parse error' : 'read error',
+            error: (error as Error).message,
+          });
+          await new Promise(resolve => setTimeout(resolve, backoffMs));
+        }
+      }
+    }
+
+    // All retries failed
+    logger.error('Failed to get migration job after all retries', {
+      jobId,
+      attempts: MAX_RETRIES,
+      error: lastError,
+    });
+
+    // Return null to allow the system to continue gracefully
+    // The caller can decide how to handle the missing job
+    return null;
+  }
+
+  /**
+   * Read, mutate and save a job
+   * The read and the write run in the job's write queue, so updates within
+   * this process never overwrite each other. Not atomic across processes: a
+   * writer in another process between the read and the save is overwritten.
+   */
+  async update(jobId: string, mutate: (job: MigrationJob) => void): Promise<MigrationJob | null> {
+    let updated: MigrationJob | null = null;
+    await this.queueWrite(jobId, async () => {
+      const job = await this.readJob(jobId, true);
+      if (!job) {
+        return;
+      }
+
+      mutate(job);
+      await this.writeJob(job, {});
+      updated = job;
+    });
+    return updated;
+  }
+
+  /**
+   * List migration jobs
+   * Reads every job file; the query is applied in memory
+   */
+  async list(query: MigrationJobQuery = {}): Promise<MigrationJob[]> {
+    try {
+      const files = await fs.readdir(this.storePath);
+      const jobFiles = files.filter(f => f.endsWith('.json'));
+
+      const jobs = await Promise.all(
+        jobFiles.map(async (file) => {
+          const jobId = file.replace('.json', '');
+          return this.get(jobId);
+        })
+      );
+
+      return jobs.filter((job): job is MigrationJob => job !== null && jobMatchesQuery(job, query));
+    } catch (error) {
+      logger.error('Failed to list migration jobs', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a migration job
+   */
+  async delete(jobId: string): Promise<void> {
+    const jobPath = this.getJobPath(jobId);
+    const backupFilePath = path.join(this.backupPath, `${jobId}.backup.json`);
+
+    // Serialize with write queue to prevent race with in-flight saves
+    await this.queueWrite(jobId, async () => {
+      try {
+        await fs.unlink(jobPath);
+        logger.info('Deleted migration job', { jobId });
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.error('Failed to delete migration job', { jobId, error });
+          throw error;
+        }
+      }
+
+      // Best-effort cleanup of backup
+      try {
+        await fs.unlink(backupFilePath);
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn('Failed to delete job backup', { jobId, error });
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the file path for a job ID
+   */
+  private getJobPath(jobId: string): string {
+    return path.join(this.storePath, `${jobId}.json`);
+  }
+}
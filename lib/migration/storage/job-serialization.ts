@@ -0,0 +1,106 @@
+import type { MigrationJob, MigrationJobType } from '../state-store';
+import type { MigrationJobQuery } from './types';
+
+/**
+ * Convert date strings of a parsed job back to Date objects
+ */
+export function deserializeJob(job: MigrationJob): MigrationJob {
+  job.startedAt = new Date(job.startedAt);
+  if (job.completedAt) {
+    job.completedAt = new Date(job.completedAt);
+  }
+  if (job.lastHeartbeat) {
+    job.lastHeartbeat = new Date(job.lastHeartbeat);
+  }
+  if (job.progress?.lastUpdate) {
+    job.progress.lastUpdate = new Date(job.progress.lastUpdate);
+  }
+  job.errors = Array.isArray(job.errors) ? job.errors.map(err => ({
+    ...err,
+    timestamp: new Date(err.timestamp),
+  })) : [];
+  job.steps = Array.isArray(job.steps) ? job.steps.map(step => ({
+    ...step,
+    startedAt: step.startedAt ? new Date(step.startedAt) : undefined,
+    completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
+  })) : [];
+
+  // Convert nested date fields in progress object
+  if (job.progress) {
+    if (job.progress.throughput?.estimatedCompletionTime) {
+      job.progress.throughput.estimatedCompletionTime = new Date(job.progress.throughput.estimatedCompletionTime);
+    }
+
+    if (job.progress.preRetrySnapshot?.lastUpdate) {
+      job.progress.preRetrySnapshot.lastUpdate = new Date(job.progress.preRetrySnapshot.lastUpdate);
+    }
+
+    if (job.progress.batchCheckpoints) {
+      job.progress.batchCheckpoints = job.progress.batchCheckpoints.map(checkpoint => ({
+        ...checkpoint,
+        startedAt: new Date(checkpoint.startedAt),
+        completedAt: checkpoint.completedAt ? new Date(checkpoint.completedAt) : undefined,
+      }));
+    }
+
+    if (Array.isArray(job.progress.failedItems)) {
+      job.progress.failedItems = job.progress.failedItems.map(item => ({
+        ...item,
+        firstAttemptAt: new Date(item.firstAttemptAt),
+        lastAttemptAt: new Date(item.lastAttemptAt),
+      }));
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Job type of a job; older jobs only carry it in their metadata
+ */
+export function getJobType(job: MigrationJob): MigrationJobType | undefined {
+  return job.jobType ?? (job.metadata?.jobType as MigrationJobType | undefined);
+}
+
+/**
+ * Podio apps a job reads from or writes to
+ *
+ * Item, flow clone and rollback jobs keep `sourceAppId`/`targetAppId` in their
+ * metadata, cleanup jobs `appId`, and multi-app jobs list theirs in `appProgress`.
+ */
+export function getJobAppIds(job: MigrationJob): number[] {
+  const ids = new Set<number>();
+  const add = (value: unknown) => {
+    const id = Number(value);
+    if (Number.isInteger(id) && id > 0) {
+      ids.add(id);
+    }
+  };
+
+  add(job.metadata?.sourceAppId);
+  add(job.metadata?.targetAppId);
+  add(job.metadata?.appId);
+  for (const app of job.appProgress ?? []) {
+    add(app.sourceAppId);
+    add(app.targetAppId);
+  }
+
+  return [...ids];
+}
+
+function matchesOneOf<T>(value: T | undefined, expected: T | T[] | undefined): boolean {
+  if (expected === undefined) return true;
+  if (value === undefined) return false;
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+/**
+ * Check a job against a list query
+ */
+export function jobMatchesQuery(job: MigrationJob, query: MigrationJobQuery): boolean {
+  return (
+    matchesOneOf(getJobType(job), query.jobType) &&
+    matchesOneOf(job.status, query.status) &&
+    (query.appId === undefined || getJobAppIds(job).includes(query.appId))
+  );
+}
@@ -0,0 +1,265 @@
+import Database from 'better-sqlite3';
+import { mkdirSync, promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../logging';
+import type { MigrationJob } from '../state-store';
+import { FileJobStorage } from './file-storage';
+import { deserializeJob, getJobAppIds, getJobType } from './job-serialization';
+import type { MigrationJobQuery, MigrationJobStorage } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS migration_jobs (
+    id TEXT PRIMARY KEY,
+    job_type TEXT,
+    status TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_migration_jobs_type_status ON migration_jobs (job_type, status);
+  CREATE INDEX IF NOT EXISTS idx_migration_jobs_status ON migration_jobs (status);
+
+  CREATE TABLE IF NOT EXISTS migration_job_apps (
+    job_id TEXT NOT NULL REFERENCES migration_jobs (id) ON DELETE CASCADE,
+    app_id INTEGER NOT NULL,
+    PRIMARY KEY (job_id, app_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_migration_job_apps_app ON migration_job_apps (app_id);
+
+  CREATE TABLE IF NOT EXISTS store_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/** store_meta key recording that the file store was imported */
+const FILE_IMPORT_KEY = 'file_import_completed_at';
+
+export interface SqliteJobStorageOptions {
+  /**
+   * Job file directory to import on first initialization. Runs once per
+   * database; the files are left in place.
+   */
+  importFrom?: string;
+}
+
+export interface FileImportResult {
+  imported: number;
+  /** Jobs already in the database */
+  skipped: number;
+}
+
+/**
+ * Embedded SQLite job storage
+ *
+ * Each job is one row holding the serialized job, with its type, status and
+ * apps in indexed columns for list queries. Updates run in a transaction, so
+ * concurrent progress updates from the server and the CLI never lose writes.
+ */
+export class SqliteJobStorage implements MigrationJobStorage {
+  readonly kind = 'sqlite' as const;
+  private dbPath: string;
+  private options: SqliteJobStorageOptions;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath = 'data/migrations.sqlite', options: SqliteJobStorageOptions = {}) {
+    this.dbPath = dbPath;
+    this.options = options;
+  }
+
+  /**
+   * Open the database and import the file store if that has not happened yet
+   */
+  async initialize(): Promise<void> {
+    const db = this.open();
+
+    if (this.options.importFrom && !this.getMeta(db, FILE_IMPORT_KEY)) {
+      const result = await this.importFromFileStore(this.options.importFrom);
+      db.prepare('INSERT OR REPLACE INTO store_meta (key, value) VALUES (?, ?)').run(
+        FILE_IMPORT_KEY,
+        new Date().toISOString()
+      );
+      logger.info('Imported file-based migration jobs into SQLite', {
+        from: this.options.importFrom,
+        dbPath: this.dbPath,
+        ...result,
+      });
+    }
+  }
+
+  async get(jobId: string): Promise<MigrationJob | null> {
+    const row = this.open().prepare('SELECT data FROM migration_jobs WHERE id = ?').get(jobId) as
+      | { data: string }
+      | undefined;
+    if (!row) {
+      logger.debug('Migration job not found', { jobId });
+      return null;
+    }
+
+    try {
+      return deserializeJob(JSON.parse(row.data) as MigrationJob);
+    } catch (error) {
+      logger.error('Failed to parse stored migration job', { jobId, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async save(job: MigrationJob): Promise<void> {
+    const db = this.open();
+    db.transaction(() => this.writeJob(db, job)).immediate();
+    logger.debug('Saved migration job', { jobId: job.id });
+  }
+
+  async update(jobId: string, mutate: (job: MigrationJob) => void): Promise<MigrationJob | null> {
+    const db = this.open();
+
+    // IMMEDIATE takes the write lock before reading, so another process
+    // cannot change the row between the read and the write
+    return db
+      .transaction((): MigrationJob | null => {
+        const row = db.prepare('SELECT data FROM migration_jobs WHERE id = ?').get(jobId) as
+          | { data: string }
+          | undefined;
+        if (!row) {
+          return null;
+        }
+
+        const job = deserializeJob(JSON.parse(row.data) as MigrationJob);
+        mutate(job);
+        this.writeJob(db, job);
+        return job;
+      })
+      .immediate();
+  }
+
+  async delete(jobId: string): Promise<void> {
+    this.open().prepare('DELETE FROM migration_jobs WHERE id = ?').run(jobId);
+    logger.info('Deleted migration job', { jobId });
+  }
+
+  /**
+   * List migration jobs, newest first
+   */
+  async list(query: MigrationJobQuery = {}): Promise<MigrationJob[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    const addIn = (column: string, value: string | string[] | undefined) => {
+      if (value === undefined) return;
+      const values = Array.isArray(value) ? value : [value];
+      conditions.push(values.length > 0 ? `${column} IN (${values.map(() => '?').join(', ')})` : '0');
+      params.push(...values);
+    };
+
+    addIn('job_type', query.jobType);
+    addIn('status', query.status);
+    if (query.appId !== undefined) {
+      conditions.push('id IN (SELECT job_id FROM migration_job_apps WHERE app_id = ?)');
+      params.push(query.appId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.open()
+      .prepare(`SELECT id, data FROM migration_jobs ${where} ORDER BY started_at DESC`)
+      .all(...params) as Array<{ id: string; data: string }>;
+
+    const jobs: MigrationJob[] = [];
+    for (const row of rows) {
+      try {
+        jobs.push(deserializeJob(JSON.parse(row.data) as MigrationJob));
+      } catch (error) {
+        logger.error('Failed to parse stored migration job', { jobId: row.id, error: (error as Error).message });
+      }
+    }
+    return jobs;
+  }
+
+  /**
+   * Copy the jobs of a file store into the database
+   * Jobs that already exist in the database are kept as they are, so this is
+   * safe to run again.
+   */
+  async importFromFileStore(storePath: string): Promise<FileImportResult> {
+    try {
+      await fs.access(storePath);
+    } catch {
+      return { imported: 0, skipped: 0 };
+    }
+
+    const jobs = await new FileJobStorage(storePath).list();
+    const db = this.open();
+    const exists = db.prepare('SELECT 1 FROM migration_jobs WHERE id = ?');
+
+    return db
+      .transaction((): FileImportResult => {
+        let imported = 0;
+        for (const job of jobs) {
+          if (exists.get(job.id)) continue;
+          this.writeJob(db, job);
+          imported++;
+        }
+        return { imported, skipped: jobs.length - imported };
+      })
+      .immediate();
+  }
+
+  /**
+   * Close the database (it reopens on next use)
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private open(): Database.Database {
+    if (this.db) {
+      return this.db;
+    }
+
+    mkdirSync(path.dirname(path.resolve(this.dbPath)), { recursive: true });
+    const db = new Database(this.dbPath);
+    // WAL lets the UI read while a CLI process writes progress
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.pragma('foreign_keys = ON');
+    db.exec(SCHEMA);
+
+    this.db = db;
+    logger.debug('SQLite job storage opened', { dbPath: this.dbPath });
+    return db;
+  }
+
+  private getMeta(db: Database.Database, key: string): string | undefined {
+    const row = db.prepare('SELECT value FROM store_meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  /**
+   * Upsert a job row and its app index (call inside a transaction)
+   */
+  private writeJob(db: Database.Database, job: MigrationJob): void {
+    db.prepare(
+      `INSERT INTO migration_jobs (id, job_type, status, started_at, updated_at, data)
+       VALUES (@id, @jobType, @status, @startedAt, @updatedAt, @data)
+       ON CONFLICT (id) DO UPDATE SET
+         job_type = excluded.job_type,
+         status = excluded.status,
+         started_at = excluded.started_at,
+         updated_at = excluded.updated_at,
+         data = excluded.data`
+    ).run({
+      id: job.id,
+      jobType: getJobType(job) ?? null,
+      status: job.status,
+      startedAt: new Date(job.startedAt).getTime(),
+      updatedAt: Date.now(),
+      data: JSON.stringify(job),
+    });
+
+    db.prepare('DELETE FROM migration_job_apps WHERE job_id = ?').run(job.id);
+    const insertApp = db.prepare('INSERT INTO migration_job_apps (job_id, app_id) VALUES (?, ?)');
+    for (const appId of getJobAppIds(job)) {
+      insertApp.run(job.id, appId);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import type { MigrationJob, MigrationJobStatus, MigrationJobType } from '../state-store';
+
+/**
+ * Filter for listing migration jobs. All given criteria must match.
+ */
+export interface MigrationJobQuery {
+  /** Job type (from `job.jobType`, falling back to `metadata.jobType`) */
+  jobType?: MigrationJobType | MigrationJobType[];
+  status?: MigrationJobStatus | MigrationJobStatus[];
+  /** Podio app the job reads from or writes to */
+  appId?: number;
+}
+
+export interface SaveJobOptions {
+  /** Skip the pre-write backup (file store only, used when restoring from one) */
+  skipBackup?: boolean;
+}
+
+/**
+ * Persistence backend for MigrationStateStore
+ *
+ * Jobs are stored and returned whole; Date fields are revived on read.
+ */
+export interface MigrationJobStorage {
+  readonly kind: 'file' | 'sqlite';
+
+  initialize(): Promise<void>;
+
+  /**
+   * Load a job, or null when it does not exist (or cannot be recovered)
+   */
+  get(jobId: string): Promise<MigrationJob | null>;
+
+  /**
+   * Insert or replace a job
+   */
+  save(job: MigrationJob, options?: SaveJobOptions): Promise<void>;
+
+  /**
+   * Read a job, apply `mutate` and write it back
+   *
+   * `mutate` must be synchronous; if it throws, nothing is written. The SQLite
+   * store runs the whole read-modify-write in one transaction; the file store
+   * reads the job and saves it back, so concurrent writers can overwrite each
+   * other as before.
+   *
+   * @returns The updated job, or null when the job does not exist
+   */
+  update(jobId: string, mutate: (job: MigrationJob) => void): Promise<MigrationJob | null>;
+
+  delete(jobId: string): Promise<void>;
+
+  list(query?: MigrationJobQuery): Promise<MigrationJob[]>;
+}
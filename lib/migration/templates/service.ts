@@ -0,0 +1,231 @@
+/**
+ * Job template service
+ * Saves job configurations as named templates, exports and imports them, and
+ * creates jobs from them
+ */
+
+import path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { JobSpec, JobSpecError, validateJobSpec } from '../../cli/job-spec';
+import { createJobFromSpec, jobSpecFromJob } from '../job-factory';
+import { logger } from '../logging';
+import { migrationStateStore } from '../state-store';
+import { JsonRecordStore } from '../utils/json-record-store';
+import {
+  JobTemplate,
+  JobTemplateExport,
+  JobTemplateImportResult,
+  JobTemplateInput,
+  TEMPLATE_EXPORT_FORMAT,
+  TEMPLATE_EXPORT_VERSION,
+} from './types';
+
+const TEMPLATES_ROOT_CONFIG = process.env.MIGRATION_TEMPLATES_DIR || 'data/templates';
+const DEFAULT_TEMPLATES_ROOT = path.resolve(process.cwd(), TEMPLATES_ROOT_CONFIG);
+
+export const templateStore = new JsonRecordStore<JobTemplate>(DEFAULT_TEMPLATES_ROOT, 'job template');
+
+/**
+ * Error thrown when a template does not exist
+ */
+export class TemplateNotFoundError extends Error {
+  constructor(templateId: string) {
+    super(`Template not found: ${templateId}`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+/**
+ * Error thrown for an invalid template, import file or source job
+ */
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new TemplateValidationError('name is required');
+  }
+  return name.trim();
+}
+
+function validateDescription(description: unknown): string | undefined {
+  if (description === undefined || description === null || description === '') {
+    return undefined;
+  }
+  if (typeof description !== 'string') {
+    throw new TemplateValidationError('description must be a string');
+  }
+  return description;
+}
+
+function validateSpec(spec: unknown): JobSpec {
+  try {
+    return validateJobSpec(spec, 'spec');
+  } catch (error) {
+    if (error instanceof JobSpecError) {
+      throw new TemplateValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The configuration of an existing job, as a job spec
+ */
+export async function getJobSpec(jobId: string): Promise<JobSpec> {
+  const job = await migrationStateStore.getMigrationJob(jobId);
+  if (!job) {
+    throw new TemplateValidationError(`Job not found: ${jobId}`);
+  }
+
+  try {
+    return jobSpecFromJob(job);
+  } catch (error) {
+    if (error instanceof JobSpecError) {
+      throw new TemplateValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save a template from a spec, or from the configuration of `fromJobId`
+ */
+export async function createTemplate(input: JobTemplateInput): Promise<JobTemplate> {
+  const name = validateName(input.name);
+  const description = validateDescription(input.description);
+  const spec = validateSpec(input.fromJobId ? await getJobSpec(input.fromJobId) : input.spec);
+  const now = new Date().toISOString();
+
+  const template: JobTemplate = {
+    id: uuidv4(),
+    name,
+    description,
+    spec,
+    sourceJobId: input.fromJobId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await templateStore.save(template);
+  logger.info('Saved job template', { templateId: template.id, name, jobType: spec.type, sourceJobId: input.fromJobId });
+  return template;
+}
+
+export async function updateTemplate(
+  templateId: string,
+  changes: Partial<Pick<JobTemplateInput, 'name' | 'description' | 'spec'>>
+): Promise<JobTemplate> {
+  const name = changes.name !== undefined ? validateName(changes.name) : undefined;
+  const description = changes.description !== undefined ? validateDescription(changes.description) : undefined;
+  const spec = changes.spec !== undefined ? validateSpec(changes.spec) : undefined;
+
+  const updated = await templateStore.update(templateId, (template) => {
+    if (name !== undefined) template.name = name;
+    if (changes.description !== undefined) template.description = description;
+    if (spec !== undefined) template.spec = spec;
+  });
+  if (!updated) {
+    throw new TemplateNotFoundError(templateId);
+  }
+  return updated;
+}
+
+export async function getTemplate(templateId: string): Promise<JobTemplate> {
+  const template = await templateStore.get(templateId);
+  if (!template) {
+    throw new TemplateNotFoundError(templateId);
+  }
+  return template;
+}
+
+export async function listTemplates(): Promise<JobTemplate[]> {
+  return templateStore.list();
+}
+
+export async function deleteTemplate(templateId: string): Promise<void> {
+  await getTemplate(templateId);
+  await templateStore.delete(templateId);
+}
+
+/**
+ * Create a job from a template
+ * @param overrides - Top-level spec keys to replace for this job (e.g. other app IDs); `type` cannot change
+ * @returns The new job's ID and the spec it was created from
+ */
+export async function createJobFromTemplate(
+  templateId: string,
+  overrides: Record<string, unknown> = {}
+): Promise<{ jobId: string; spec: JobSpec }> {
+  const template = await getTemplate(templateId);
+  const spec = validateSpec({ ...template.spec, ...overrides, type: template.spec.type });
+  const jobId = await createJobFromSpec(spec);
+
+  logger.info('Created job from template', { templateId, jobId, jobType: spec.type });
+  return { jobId, spec };
+}
+
+/**
+ * Create a new job with the configuration of an existing one ("re-run with same configuration")
+ * @param overrides - Top-level spec keys to replace for the new job; `type` cannot change
+ */
+export async function cloneJob(
+  jobId: string,
+  overrides: Record<string, unknown> = {}
+): Promise<{ jobId: string; spec: JobSpec }> {
+  const source = await getJobSpec(jobId);
+  const spec = validateSpec({ ...source, ...overrides, type: source.type });
+  const newJobId = await createJobFromSpec(spec);
+
+  logger.info('Cloned job', { sourceJobId: jobId, jobId: newJobId, jobType: spec.type });
+  return { jobId: newJobId, spec };
+}
+
+/**
+ * Export templates (all of them when no IDs are given)
+ */
+export async function exportTemplates(templateIds?: string[]): Promise<JobTemplateExport> {
+  const templates = templateIds ? await Promise.all(templateIds.map(getTemplate)) : await listTemplates();
+
+  return {
+    format: TEMPLATE_EXPORT_FORMAT,
+    version: TEMPLATE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(({ name, description, spec }) => ({ name, description, spec })),
+  };
+}
+
+/**
+ * Import an exported templates file
+ * Every template is saved as a new one; invalid entries are reported and skipped.
+ */
+export async function importTemplates(file: unknown): Promise<JobTemplateImportResult> {
+  const data = file as Partial<JobTemplateExport> | null;
+  if (!data || typeof data !== 'object' || data.format !== TEMPLATE_EXPORT_FORMAT || !Array.isArray(data.templates)) {
+    throw new TemplateValidationError(`Not a templates file (expected "format": "${TEMPLATE_EXPORT_FORMAT}")`);
+  }
+  if (typeof data.version !== 'number' || data.version > TEMPLATE_EXPORT_VERSION) {
+    throw new TemplateValidationError(`Unsupported templates file version: ${data.version}`);
+  }
+
+  const result: JobTemplateImportResult = { imported: [], errors: [] };
+  for (const [index, entry] of data.templates.entries()) {
+    try {
+      result.imported.push(
+        await createTemplate({ name: entry?.name, description: entry?.description, spec: entry?.spec } as JobTemplateInput)
+      );
+    } catch (error) {
+      if (!(error instanceof TemplateValidationError)) {
+        throw error;
+      }
+      result.errors.push({ index, name: entry?.name, message: error.message });
+    }
+  }
+
+  logger.info('Imported job templates', { imported: result.imported.length, failed: result.errors.length });
+  return result;
+}
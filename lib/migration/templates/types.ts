@@ -0,0 +1,50 @@
+/**
+ * Type definitions for saved job templates
+ */
+
+import type { JobSpec } from '../../cli/job-spec';
+
+/**
+ * A named job configuration that new jobs can be created from
+ */
+export interface JobTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  /** Item migration, cleanup or flow clone request body plus `type` (the CLI job spec format) */
+  spec: JobSpec;
+  /** Job the template was saved from */
+  sourceJobId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Body of the create route; `PATCH` accepts any subset of name, description and spec
+ */
+export interface JobTemplateInput {
+  name: string;
+  description?: string;
+  spec?: unknown;
+  /** Save the configuration of this job instead of `spec` */
+  fromJobId?: string;
+}
+
+export const TEMPLATE_EXPORT_FORMAT = 'podio-migration-templates';
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+/**
+ * Contents of an exported templates file
+ */
+export interface JobTemplateExport {
+  format: typeof TEMPLATE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  templates: Array<Pick<JobTemplate, 'name' | 'description' | 'spec'>>;
+}
+
+export interface JobTemplateImportResult {
+  imported: JobTemplate[];
+  /** Templates that were not imported, by position in the file */
+  errors: Array<{ index: number; name?: string; message: string }>;
+}
@@ -0,0 +1,116 @@
+/**
+ * One JSON file per record, keyed by `id`
+ *
+ * Used for small collections that are read and edited whole (schedules,
+ * templates). Files are replaced atomically (write to a temp file, then
+ * rename), and updates to the same record are serialized within the process.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { logger } from '../logging';
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class JsonRecordStore<T extends StoredRecord> {
+  private baseDir: string;
+  /** Record kind for log messages */
+  private label: string;
+  private writeChains: Map<string, Promise<unknown>> = new Map();
+
+  constructor(baseDir: string, label: string) {
+    this.baseDir = baseDir;
+    this.label = label;
+  }
+
+  private getFilePath(id: string): string {
+    return path.join(this.baseDir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(this.getFilePath(id), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read ${this.label}`, { id, error: (error as Error).message });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * List all records, oldest first
+   */
+  async list(): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch {
+      return [];
+    }
+
+    const records: T[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const record = await this.get(path.basename(file, '.json'));
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async save(record: T): Promise<void> {
+    await this.serialize(record.id, () => this.write(record));
+  }
+
+  /**
+   * Read a record, apply `mutate` and write it back with a new `updatedAt`
+   * @returns The updated record, or null when it does not exist
+   */
+  async update(id: string, mutate: (record: T) => void): Promise<T | null> {
+    return this.serialize(id, async () => {
+      const record = await this.get(id);
+      if (!record) {
+        return null;
+      }
+
+      mutate(record);
+      record.updatedAt = new Date().toISOString();
+      await this.write(record);
+      return record;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.serialize(id, () => fs.rm(this.getFilePath(id), { force: true }));
+    logger.info(`Deleted ${this.label}`, { id });
+  }
+
+  private async write(record: T): Promise<void> {
+    await fs.mkdir(this.baseDir, { recursive: true });
+    const filePath = this.getFilePath(record.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private serialize<R>(id: string, operation: () => Promise<R>): Promise<R> {
+    const previous = this.writeChains.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.writeChains.set(id, next);
+    void next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.writeChains.get(id) === next) {
+          this.writeChains.delete(id);
+        }
+      });
+    return next;
+  }
+}
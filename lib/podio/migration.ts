@@ -23,6 +23,7 @@ import type {
   Flow,
   Hook,
 } from './types';
+import type { MatchKey } from '../migration/items/types';
 
 // ============================================================================
 // Discovery Functions
@@ -687,8 +688,8 @@ export async function migrateItemsBetweenApps(config: {
   targetAppId: number;
   fieldMapping: Record<string, string>;
   mode: 'create' | 'update' | 'upsert';
-  sourceMatchField?: string;
-  targetMatchField?: string;
+  sourceMatchField?: MatchKey;
+  targetMatchField?: MatchKey;
   duplicateBehavior?: 'skip' | 'error' | 'update';
   batchSize?: number;
   concurrency?: number;
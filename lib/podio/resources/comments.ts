@@ -0,0 +1,114 @@
+import { PodioHttpClient } from '../http/client';
+import { logger } from '../logging';
+
+/**
+ * Podio comment
+ */
+export interface PodioComment {
+  comment_id: number;
+  value: string;
+  rich_value?: string;
+  external_id?: string | null;
+  created_on: string;
+  created_by: {
+    type?: string;
+    id?: number;
+    user_id?: number;
+    name: string;
+  };
+  files?: Array<{ file_id: number; name: string }>;
+}
+
+/**
+ * Comment creation response
+ */
+export interface CreateCommentResponse {
+  comment_id: number;
+}
+
+/** Comments per page when reading an item's comments */
+const COMMENT_PAGE_SIZE = 100;
+
+/**
+ * Get all comments on an item
+ * GET /comment/item/{item_id}/?limit={limit}&offset={offset}
+ * Pages through the comments until a page comes back short.
+ *
+ * @param client - Podio HTTP client
+ * @param itemId - Item ID to read comments from
+ */
+export async function getItemComments(
+  client: PodioHttpClient,
+  itemId: number
+): Promise<PodioComment[]> {
+  logger.info('Getting item comments', { itemId });
+
+  try {
+    const comments: PodioComment[] = [];
+    for (let offset = 0; ; offset += COMMENT_PAGE_SIZE) {
+      const page = await client.get<PodioComment[]>(
+        `/comment/item/${itemId}/?limit=${COMMENT_PAGE_SIZE}&offset=${offset}`
+      );
+      comments.push(...page);
+      if (page.length < COMMENT_PAGE_SIZE) break;
+    }
+
+    logger.info('Retrieved item comments', {
+      itemId,
+      commentCount: comments.length,
+    });
+    return comments;
+  } catch (error) {
+    logger.error('Failed to get item comments', { itemId, error });
+    throw error;
+  }
+}
+
+/**
+ * Add a comment to an item
+ * POST /comment/item/{item_id}/
+ *
+ * @param client - Podio HTTP client
+ * @param itemId - Item ID to comment on
+ * @param value - Comment text
+ * @param options - Additional options
+ * @param options.externalId - External ID to store on the comment
+ * @param options.hook - Whether to trigger webhooks (default: true)
+ * @param options.silent - Whether to suppress notifications (default: false)
+ */
+export async function createItemComment(
+  client: PodioHttpClient,
+  itemId: number,
+  value: string,
+  options: {
+    externalId?: string;
+    hook?: boolean;
+    silent?: boolean;
+  } = {}
+): Promise<CreateCommentResponse> {
+  const { externalId, hook = true, silent = false } = options;
+
+  logger.info('Creating item comment', { itemId, externalId, hookEnabled: hook, silent });
+
+  try {
+    const queryParams = new URLSearchParams();
+    queryParams.set('hook', String(hook));
+    if (silent) {
+      queryParams.set('silent', 'true');
+    }
+
+    const response = await client.post<CreateCommentResponse>(
+      `/comment/item/${itemId}/?${queryParams.toString()}`,
+      {
+        value,
+        ...(externalId ? { external_id: externalId } : {}),
+      }
+    );
+
+    logger.info('Created item comment', { itemId, commentId: response.comment_id });
+    return response;
+  } catch (error) {
+    logger.error('Failed to create item comment', { itemId, error });
+    throw error;
+  }
+}
@@ -62,8 +62,18 @@ export interface PodioItem {
     user_id: number;
     name: string;
   };
+  /** Time of the latest change to the item (UTC, "YYYY-MM-DD HH:MM:SS") */
+  last_event_on?: string;
   link: string;
   rights: string[];
+  /** Returned by GET /item/{item_id} */
+  tags?: string[];
+  /** Returned by GET /item/{item_id} */
+  files?: Array<{ file_id: number; name?: string }>;
+  /** Returned by item filters */
+  comment_count?: number;
+  /** Returned by item filters */
+  file_count?: number;
 }
 
 /**
@@ -404,6 +414,25 @@ export async function deleteItem(
   }
 }
 
+/**
+ * Add tags to an item (existing tags are kept)
+ * POST /tag/item/{item_id}/
+ */
+export async function addItemTags(
+  client: PodioHttpClient,
+  itemId: number,
+  tags: string[]
+): Promise<void> {
+  logger.info('Tagging item', { itemId, tags });
+
+  try {
+    await client.post(`/tag/item/${itemId}/`, tags);
+  } catch (error) {
+    logger.error('Failed to tag item', { itemId, tags, error });
+    throw error;
+  }
+}
+
 /**
  * Extract field value from a Podio item field based on field type
  */
@@ -710,7 +739,8 @@ export async function fetchItemCount(
  * Bulk create result
  */
 export interface BulkCreateResult {
-  successful: CreateItemResponse[];
+  /** Created items, each tagged with the index of its request */
+  successful: Array<CreateItemResponse & { index: number }>;
   failed: Array<{
     request: CreateItemRequest;
     error: string;
@@ -781,7 +811,7 @@ export async function bulkCreateItems(
         { method: 'POST', url: `/item/app/${appId}/` }
       )
         .then((response) => {
-          result.successful.push(response);
+          result.successful.push({ ...response, index: globalIndex });
           result.successCount++;
           return { success: true, response, index: globalIndex };
         })
@@ -1082,15 +1112,30 @@ export async function bulkDeleteItems(
 // Item Matching & Duplicate Detection
 // ============================================================================
 
+/**
+ * Convert an extracted field value to a Podio filter value
+ * Date values ({ start, end }) filter on the calendar day of their start.
+ */
+function toFilterValue(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'start' in value) {
+    const day = String((value as { start?: string }).start ?? '').slice(0, 10);
+    return day ? { from: day, to: day } : null;
+  }
+  return value;
+}
+
 /**
  * Find an item by field value
  * Searches for an item in an app where a specific field matches a value
  * Supports pre-normalized values for duplicate checking
+ *
+ * For a composite match key pass several field external_ids and an array with
+ * one value per field; only items matching every field are returned.
  */
 export async function findItemByFieldValue(
   client: PodioHttpClient,
   appId: number,
-  fieldExternalId: string,
+  fieldExternalId: string | string[],
   value: unknown,
   options?: {
     /** Use pre-normalized value (skip client-side normalization) */
@@ -1109,8 +1154,11 @@ export async function findItemByFieldValue(
     // Build filter based on field value
     const filters: Record<string, unknown> = {};
 
+    const fieldExternalIds = Array.isArray(fieldExternalId) ? fieldExternalId : [fieldExternalId];
+    const values = Array.isArray(fieldExternalId) && Array.isArray(value) ? value : [value];
+
     // Handle different value types for Podio filter API
-    if (value === null || value === undefined) {
+    if (values.length !== fieldExternalIds.length || values.some((v) => v === null || v === undefined)) {
       logger.debug('Skipping search for null/undefined value', {
         appId,
         fieldExternalId,
@@ -1119,7 +1167,9 @@ export async function findItemByFieldValue(
     }
 
     // For text, number, and most field types, use direct value
-    filters[fieldExternalId] = value;
+    fieldExternalIds.forEach((externalId, index) => {
+      filters[externalId] = toFilterValue(values[index]);
+    });
 
     logger.debug('Sending Podio filter request', {
       appId,
@@ -1179,12 +1229,13 @@ export async function findItemByFieldValue(
 
 /**
  * Find multiple items by field values
- * Batch lookup for multiple values
+ * Batch lookup for multiple values; with a composite key (several field
+ * external_ids) each value is an array holding one value per field
  */
 export async function findItemsByFieldValues(
   client: PodioHttpClient,
   appId: number,
-  fieldExternalId: string,
+  fieldExternalId: string | string[],
   values: unknown[]
 ): Promise<Map<unknown, PodioItem>> {
   logger.info('Finding items by field values (batch)', {
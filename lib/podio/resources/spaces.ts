@@ -87,15 +87,44 @@ export async function updateSpace(
   return client.put<void>(`/space/${spaceId}`, updates);
 }
 
+/**
+ * Active member of a space
+ */
+export interface PodioSpaceMember {
+  role: string;
+  profile: {
+    profile_id: number;
+    user_id?: number;
+    name: string;
+    mail?: string[];
+  };
+  user?: {
+    user_id: number;
+    mail?: string;
+  };
+}
+
 /**
  * Get space members
  * GET /space/{space_id}/member/
  *
  * @param spaceId - Space ID
- * @returns {Promise<unknown[]>} List of space members
+ * @param options - Paging (limit, offset)
+ * @returns {Promise<PodioSpaceMember[]>} List of space members
  */
-export async function getSpaceMembers(spaceId: number): Promise<unknown[]> {
+export async function getSpaceMembers(
+  spaceId: number,
+  options: { limit?: number; offset?: number } = {}
+): Promise<PodioSpaceMember[]> {
   const client = getPodioHttpClient();
-  return client.get<unknown[]>(`/space/${spaceId}/member/`);
+  const queryParams = new URLSearchParams();
+  if (options.limit !== undefined) {
+    queryParams.set('limit', String(options.limit));
+  }
+  if (options.offset !== undefined) {
+    queryParams.set('offset', String(options.offset));
+  }
+  const query = queryParams.toString();
+  return client.get<PodioSpaceMember[]>(`/space/${spaceId}/member/${query ? `?${query}` : ''}`);
 }
 
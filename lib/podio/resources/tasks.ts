@@ -0,0 +1,162 @@
+import { PodioHttpClient } from '../http/client';
+import { logger } from '../logging';
+
+/**
+ * Podio task
+ */
+export interface PodioTask {
+  task_id: number;
+  status: 'active' | 'completed' | 'deleted';
+  text: string;
+  description?: string | null;
+  private?: boolean;
+  due_on?: string | null;
+  due_date?: string | null;
+  due_time?: string | null;
+  responsible?: {
+    user_id?: number;
+    profile_id?: number;
+    name: string;
+  } | null;
+  reminder?: {
+    remind_delta: number;
+  } | null;
+  created_on?: string;
+  completed_on?: string | null;
+}
+
+/**
+ * Task creation request
+ */
+export interface CreateTaskRequest {
+  text: string;
+  description?: string;
+  private?: boolean;
+  due_date?: string;
+  due_time?: string;
+  /** User ID of the responsible user */
+  responsible?: number;
+  reminder?: {
+    remind_delta: number;
+  };
+}
+
+/**
+ * Task creation response
+ */
+export interface CreateTaskResponse {
+  task_id: number;
+}
+
+/** Tasks per page when reading an item's tasks */
+const TASK_PAGE_SIZE = 100;
+
+/**
+ * Get tasks referencing an item
+ * GET /task/?reference=item:{item_id}&completed={completed}&limit={limit}&offset={offset}
+ * Pages through the tasks until a page comes back short.
+ *
+ * @param client - Podio HTTP client
+ * @param itemId - Item ID the tasks are attached to
+ * @param options.completed - Return completed tasks instead of open ones (default: false)
+ */
+export async function getItemTasks(
+  client: PodioHttpClient,
+  itemId: number,
+  options: { completed?: boolean } = {}
+): Promise<PodioTask[]> {
+  const completed = options.completed ?? false;
+
+  logger.info('Getting item tasks', { itemId, completed });
+
+  try {
+    const tasks: PodioTask[] = [];
+    for (let offset = 0; ; offset += TASK_PAGE_SIZE) {
+      const queryParams = new URLSearchParams();
+      queryParams.set('reference', `item:${itemId}`);
+      queryParams.set('completed', String(completed));
+      queryParams.set('limit', String(TASK_PAGE_SIZE));
+      queryParams.set('offset', String(offset));
+
+      const page = await client.get<PodioTask[]>(`/task/?${queryParams.toString()}`);
+      tasks.push(...page);
+      if (page.length < TASK_PAGE_SIZE) break;
+    }
+    logger.info('Retrieved item tasks', { itemId, completed, taskCount: tasks.length });
+    return tasks;
+  } catch (error) {
+    logger.error('Failed to get item tasks', { itemId, completed, error });
+    throw error;
+  }
+}
+
+/**
+ * Create a task attached to an item
+ * POST /task/item/{item_id}/
+ *
+ * @param client - Podio HTTP client
+ * @param itemId - Item ID to attach the task to
+ * @param request - Task data
+ * @param options.hook - Whether to trigger webhooks (default: true)
+ * @param options.silent - Whether to suppress notifications (default: false)
+ */
+export async function createItemTask(
+  client: PodioHttpClient,
+  itemId: number,
+  request: CreateTaskRequest,
+  options: {
+    hook?: boolean;
+    silent?: boolean;
+  } = {}
+): Promise<CreateTaskResponse> {
+  const { hook = true, silent = false } = options;
+
+  logger.info('Creating item task', {
+    itemId,
+    responsible: request.responsible,
+    dueDate: request.due_date,
+    hookEnabled: hook,
+    silent,
+  });
+
+  try {
+    const queryParams = new URLSearchParams();
+    queryParams.set('hook', String(hook));
+    if (silent) {
+      queryParams.set('silent', 'true');
+    }
+
+    const response = await client.post<CreateTaskResponse>(
+      `/task/item/${itemId}/?${queryParams.toString()}`,
+      request
+    );
+
+    logger.info('Created item task', { itemId, taskId: response.task_id });
+    return response;
+  } catch (error) {
+    logger.error('Failed to create item task', { itemId, error });
+    throw error;
+  }
+}
+
+/**
+ * Mark a task as completed
+ * POST /task/{task_id}/complete
+ *
+ * @param client - Podio HTTP client
+ * @param taskId - Task ID to complete
+ */
+export async function completeTask(
+  client: PodioHttpClient,
+  taskId: number
+): Promise<void> {
+  logger.info('Completing task', { taskId });
+
+  try {
+    await client.post(`/task/${taskId}/complete`, {});
+    logger.info('Completed task', { taskId });
+  } catch (error) {
+    logger.error('Failed to complete task', { taskId, error });
+    throw error;
+  }
+}
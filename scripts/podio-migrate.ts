@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Headless migration CLI
+ *
+ * Runs and monitors migrations without the Next.js UI, against the same job
+ * store (data/migrations) the UI uses. Podio credentials are read from the
+ * environment, .env.local or .env.
+ *
+ * Usage:
+ *   npm run migrate -- run <spec.json|spec.yaml> [--json]
+ *   npm run migrate -- status <jobId> [--json]
+ *   npm run migrate -- pause <jobId> [--json]
+ *   npm run migrate -- resume <jobId> [--json]
+ *   npm run migrate -- retry <jobId> [--json]
+ *
+ * Exit codes: 0 completed, 1 failed, 2 usage error, 3 completed with failed
+ * items, 4 stopped (paused, cancelled or waiting for approval), 130 aborted.
+ */
+
+import { existsSync } from 'fs';
+import { parseArgs } from 'util';
+
+// Exit codes are repeated here because lib/cli is imported only after the
+// env files are loaded (several modules read settings at import time)
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 1;
+
+const USAGE = `Usage: podio-migrate <command> <argument> [--json]
+
+Commands:
+  run <spec>       Create a job from a JSON/YAML spec file and run it
+  status <jobId>   Show a job's status and progress
+  pause <jobId>    Pause a job started by another podio-migrate process
+  resume <jobId>   Continue a paused, cancelled or failed job
+  retry <jobId>    Re-run only the failed items of an item migration
+
+Options:
+  --json           Print progress and the summary as JSON lines
+  -h, --help       Show this help`;
+
+function loadEnvFiles(): void {
+  // Existing variables win, so .env.local overrides .env as in Next.js
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) {
+      process.loadEnvFile(file);
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const [command, argument] = parsed.positionals;
+  if (parsed.values.help || !command) {
+    console.log(USAGE);
+    return parsed.values.help ? 0 : EXIT_USAGE;
+  }
+  if (!argument) {
+    console.error(`Missing argument for '${command}'.\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  loadEnvFiles();
+  // The migration logger writes to the console; keep stdout for command output
+  console.log = console.info = console.debug = console.error;
+
+  const { migrationStateStore } = await import('../lib/migration/state-store');
+  const { loadPodioConfig } = await import('../lib/podio/config');
+  const { JobSpecError, loadJobSpec } = await import('../lib/cli/job-spec');
+  const cli = await import('../lib/cli/commands');
+
+  const requirePodioConfig = (): boolean => {
+    try {
+      loadPodioConfig();
+      return true;
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  };
+
+  const options = { json: parsed.values.json };
+  await migrationStateStore.initialize();
+
+  switch (command) {
+    case 'run': {
+      let spec;
+      try {
+        spec = await loadJobSpec(argument);
+      } catch (error) {
+        if (error instanceof JobSpecError) {
+          console.error(error.message);
+          return EXIT_USAGE;
+        }
+        throw error;
+      }
+      if (!requirePodioConfig()) return EXIT_USAGE;
+      return cli.runSpecCommand(spec, options);
+    }
+    case 'status':
+      return cli.statusCommand(argument, options);
+    case 'pause':
+      return cli.pauseCommand(argument, options);
+    case 'resume':
+      if (!requirePodioConfig()) return EXIT_USAGE;
+      return cli.resumeCommand(argument, options);
+    case 'retry':
+      if (!requirePodioConfig()) return EXIT_USAGE;
+      return cli.retryCommand(argument, options);
+    default:
+      console.error(`Unknown command '${command}'.\n\n${USAGE}`);
+      return EXIT_USAGE;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILED;
+  })
+  .then(async (code) => {
+    const { shutdownAllLoggers } = await import('../lib/migration/file-logger');
+    await shutdownAllLoggers().catch(() => undefined);
+    // Exit explicitly: HTTP keep-alive sockets and monitors would keep the process alive
+    process.exit(code);
+  });
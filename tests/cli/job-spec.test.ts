@@ -0,0 +1,107 @@
+/**
+ * Tests for CLI job spec parsing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { JobSpecError, parseJobSpec, specPayload } from '@/lib/cli/job-spec';
+
+describe('parseJobSpec', () => {
+  it('parses a JSON item migration spec', () => {
+    const spec = parseJobSpec(
+      JSON.stringify({
+        type: 'item_migration',
+        sourceAppId: 1,
+        targetAppId: 2,
+        mode: 'upsert',
+        sourceMatchField: '100',
+        targetMatchField: '200',
+        fieldMapping: { '100': '200' },
+      }),
+      'spec.json'
+    );
+
+    expect(spec).toMatchObject({ type: 'item_migration', sourceAppId: 1, targetAppId: 2, mode: 'upsert' });
+  });
+
+  it('parses a YAML cleanup spec', () => {
+    const spec = parseJobSpec(
+      ['type: cleanup', 'appId: 42', 'matchField: email', 'mode: automated', 'keepStrategy: oldest', 'dryRun: true'].join(
+        '\n'
+      ),
+      'cleanup.yaml'
+    );
+
+    expect(spec).toEqual({
+      type: 'cleanup',
+      appId: 42,
+      matchField: 'email',
+      mode: 'automated',
+      keepStrategy: 'oldest',
+      dryRun: true,
+    });
+  });
+
+  it('reports malformed files with the file name', () => {
+    expect(() => parseJobSpec('{ not json', 'broken.json')).toThrow(/broken\.json: not valid JSON/);
+  });
+
+  it('lists schema problems by path', () => {
+    expect(() => parseJobSpec(JSON.stringify({ type: 'cleanup', appId: -1, mode: 'manual' }), 'spec.json')).toThrow(
+      JobSpecError
+    );
+    expect(() => parseJobSpec(JSON.stringify({ type: 'cleanup', appId: -1, mode: 'manual' }), 'spec.json')).toThrow(
+      /appId[\s\S]*matchField/
+    );
+  });
+
+  it('accepts composite match keys with matching field counts', () => {
+    const spec = parseJobSpec(
+      JSON.stringify({
+        type: 'item_migration',
+        sourceAppId: 1,
+        targetAppId: 2,
+        sourceMatchField: [{ field: 'first-name', normalize: 'text' }, { field: 'birthday' }],
+        targetMatchField: [{ field: 'given-name', normalize: 'text' }, { field: 'dob' }],
+      }),
+      'spec.json'
+    );
+    expect(spec).toMatchObject({ sourceMatchField: [{ field: 'first-name', normalize: 'text' }, { field: 'birthday' }] });
+
+    expect(() =>
+      parseJobSpec(
+        JSON.stringify({
+          type: 'item_migration',
+          sourceAppId: 1,
+          targetAppId: 2,
+          sourceMatchField: [{ field: 'first-name' }, { field: 'birthday' }],
+          targetMatchField: 'given-name',
+        }),
+        'spec.json'
+      )
+    ).toThrow(/same number of fields/);
+  });
+
+  it('rejects unknown job types', () => {
+    expect(() => parseJobSpec(JSON.stringify({ type: 'reindex' }), 'spec.json')).toThrow(/type/);
+  });
+
+  it('checks nested item migration settings', () => {
+    expect(() =>
+      parseJobSpec(
+        JSON.stringify({ type: 'item_migration', sourceAppId: 1, targetAppId: 2, fieldMapping: { title: '200' } }),
+        'spec.json'
+      )
+    ).toThrow(/fieldMapping/);
+  });
+});
+
+describe('specPayload', () => {
+  it('strips the job type', () => {
+    const spec = parseJobSpec(
+      JSON.stringify({ type: 'flow_clone', sourceAppId: 1, targetAppId: 2, flows: [{ flowId: 'f1' }] }),
+      'spec.json'
+    );
+
+    expect(specPayload(spec)).toEqual({ sourceAppId: 1, targetAppId: 2, flows: [{ flowId: 'f1' }] });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for fuzzy duplicate matching
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  findFuzzyClusters,
+  levenshteinDistance,
+  similarity,
+  soundex,
+  tokenSetRatio,
+  validateFuzzyMatchOptions,
+} from '@/lib/migration/cleanup/fuzzy-match';
+
+describe('similarity algorithms', () => {
+  it('counts single-character edits', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('same', 'same')).toBe(0);
+  });
+
+  it('ignores word order, case and punctuation with token_set', () => {
+    expect(similarity('Acme Inc.', 'ACME, Inc')).toBe(1);
+    expect(similarity('Inc Acme', 'acme inc acme')).toBe(1);
+    expect(tokenSetRatio(['john'], ['john', 'smith'])).toBeCloseTo(0.4);
+  });
+
+  it('scores typos with levenshtein', () => {
+    expect(similarity('jon@acme.com', 'john@acme.com', 'levenshtein')).toBeGreaterThan(0.9);
+    expect(similarity('Acme', 'Zenith', 'levenshtein')).toBeLessThan(0.5);
+  });
+
+  it('matches names that sound alike with phonetic', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Tymczak')).toBe('T522');
+    expect(soundex('2024')).toBe('2024');
+    expect(similarity('Jon Smith', 'John Smyth', 'phonetic')).toBe(1);
+  });
+});
+
+describe('validateFuzzyMatchOptions', () => {
+  it('accepts defaults and valid settings', () => {
+    expect(validateFuzzyMatchOptions({})).toEqual([]);
+    expect(validateFuzzyMatchOptions({ algorithm: 'phonetic', threshold: 0.9, maxBlockSize: 100 })).toEqual([]);
+  });
+
+  it('reports unknown algorithms and out-of-range values', () => {
+    const errors = validateFuzzyMatchOptions({
+      algorithm: 'cosine' as never,
+      threshold: 1.5,
+      maxBlockSize: 1,
+    });
+
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('cosine');
+  });
+});
+
+describe('findFuzzyClusters', () => {
+  it('links similar values and reports the weakest link as confidence', () => {
+    const { clusters } = findFuzzyClusters(
+      [['Acme Inc.'], ['Globex'], ['ACME, Inc'], ['Acme Incorporated'], ['Acme Incc']],
+      { threshold: 0.85 }
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members).toEqual([0, 2, 4]);
+    expect(clusters[0].confidence).toBeCloseTo(8 / 9);
+  });
+
+  it('requires every field of a composite key to be similar', () => {
+    const { clusters } = findFuzzyClusters(
+      [
+        ['Jon Smith', '1990-04-01'],
+        ['John Smith', '1990-04-01'],
+        ['John Smith', '1985-11-23'],
+      ],
+      { algorithm: 'levenshtein', threshold: 0.85 }
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members).toEqual([0, 1]);
+    expect(clusters[0].confidence).toBeCloseTo(0.9);
+  });
+
+  it('only compares values that share a block', () => {
+    const result = findFuzzyClusters([['alpha'], ['bravo'], ['charlie'], ['alpha']]);
+
+    expect(result.comparisons).toBe(1);
+    expect(result.clusters).toEqual([{ members: [0, 3], confidence: 1 }]);
+  });
+
+  it('skips blocks larger than maxBlockSize', () => {
+    const result = findFuzzyClusters([['acme one'], ['acme two'], ['acme three']], { maxBlockSize: 2 });
+
+    expect(result.skippedBlocks).toBeGreaterThan(0);
+    expect(result.clusters).toEqual([]);
+  });
+});
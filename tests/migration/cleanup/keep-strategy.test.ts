@@ -0,0 +1,119 @@
+/**
+ * Tests for keep strategies and custom keep rules
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  countFilledFields,
+  keepFieldValues,
+  parseKeepRule,
+  selectKeepItem,
+  validateKeepStrategy,
+} from '@/lib/migration/cleanup/keep-strategy';
+import { DuplicateItem } from '@/lib/migration/cleanup/types';
+import { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+import { AppField } from '@/lib/podio/types';
+
+function duplicate(itemId: number, createdOn: string, extra: Partial<DuplicateItem> = {}): DuplicateItem {
+  return { itemId, title: `Item ${itemId}`, createdOn, lastEditOn: createdOn, matchValue: 'acme', ...extra };
+}
+
+function appField(externalId: string, type: string): AppField {
+  return { field_id: externalId.length, external_id: externalId, type, label: externalId, config: {} };
+}
+
+// Oldest first, as detection returns them
+const items = [
+  duplicate(1, '2023-01-01 10:00:00', { filledFields: 3, commentCount: 0, fileCount: 2, fieldValues: { revenue: 100 } }),
+  duplicate(2, '2023-02-01 10:00:00', {
+    lastEditOn: '2024-05-01 10:00:00',
+    filledFields: 5,
+    commentCount: 4,
+    fieldValues: { status: ['Active'], revenue: 250 },
+  }),
+  duplicate(3, '2023-03-01 10:00:00', { filledFields: 5, fileCount: 2, fieldValues: { status: ['Active', 'VIP'], revenue: 900 } }),
+];
+
+describe('selectKeepItem', () => {
+  it('keeps the item each single strategy ranks first', () => {
+    expect(selectKeepItem(items, [{ type: 'oldest' }]).itemId).toBe(1);
+    expect(selectKeepItem(items, [{ type: 'newest' }]).itemId).toBe(3);
+    expect(selectKeepItem(items, [{ type: 'most_active' }]).itemId).toBe(2);
+    expect(selectKeepItem(items, [{ type: 'most_comments' }]).itemId).toBe(2);
+  });
+
+  it('falls back to the oldest item on ties', () => {
+    expect(selectKeepItem(items, [{ type: 'most_complete' }]).itemId).toBe(2);
+    expect(selectKeepItem(items, [{ type: 'most_files' }]).itemId).toBe(1);
+  });
+
+  it('applies the criteria of a rule in order', () => {
+    expect(selectKeepItem(items, parseKeepRule('status = active, min(revenue)').criteria).itemId).toBe(2);
+    expect(selectKeepItem(items, parseKeepRule('most_complete, newest').criteria).itemId).toBe(3);
+    expect(selectKeepItem(items, parseKeepRule('max(revenue)').criteria).itemId).toBe(3);
+  });
+
+  it('ranks items without a value last', () => {
+    const withMissing = [duplicate(1, '2023-01-01 10:00:00'), duplicate(2, '2023-02-01 10:00:00', { fieldValues: { revenue: -5 } })];
+
+    expect(selectKeepItem(withMissing, parseKeepRule('max(revenue)').criteria).itemId).toBe(2);
+    expect(selectKeepItem(withMissing, parseKeepRule('min(revenue)').criteria).itemId).toBe(2);
+  });
+});
+
+describe('parseKeepRule', () => {
+  it('parses strategies, extremes and field values', () => {
+    expect(parseKeepRule('Status = Active , MAX( revenue ), most_files')).toEqual({
+      criteria: [
+        { type: 'equals', field: 'Status', value: 'Active' },
+        { type: 'max', field: 'revenue' },
+        { type: 'most_files' },
+      ],
+      errors: [],
+    });
+  });
+
+  it('reports unknown criteria and empty rules', () => {
+    expect(parseKeepRule('largest(revenue)').errors[0]).toContain('largest(revenue)');
+    expect(parseKeepRule(' , ').errors).toEqual(['Keep rule is empty']);
+  });
+});
+
+describe('validateKeepStrategy', () => {
+  const fields = [appField('status', 'category'), appField('revenue', 'money'), appField('name', 'text')];
+
+  it('accepts known strategies and valid rules', () => {
+    expect(validateKeepStrategy('most_complete', undefined, fields)).toEqual([]);
+    expect(validateKeepStrategy('custom', 'status = Active, max(revenue)', fields)).toEqual([]);
+  });
+
+  it('reports unknown strategies, missing rules and invalid fields', () => {
+    expect(validateKeepStrategy('random', undefined, fields)[0]).toContain('random');
+    expect(validateKeepStrategy('custom', '', fields)[0]).toContain('keepRule');
+
+    const errors = validateKeepStrategy('custom', 'max(name), owner = Ann', fields);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('numeric');
+    expect(errors[1]).toContain('owner');
+  });
+});
+
+describe('item values for keep rules', () => {
+  const item = {
+    item_id: 1,
+    fields: [
+      { field_id: 1, external_id: 'status', type: 'category', label: 'Status', values: [{ value: { id: 4, text: 'Active' } }] },
+      { field_id: 2, external_id: 'revenue', type: 'money', label: 'Revenue', values: [{ value: '1250.5000', currency: 'EUR' }] },
+      { field_id: 3, external_id: 'notes', type: 'text', label: 'Notes', values: [{ value: ' ' }] },
+      { field_id: 4, external_id: 'due', type: 'date', label: 'Due', values: [{ start: '2024-01-01 00:00:00' }] },
+    ] as PodioItemField[],
+  } as PodioItem;
+
+  it('keeps category texts and numbers', () => {
+    expect(keepFieldValues(item, ['status', 'revenue', 'missing'])).toEqual({ status: ['Active'], revenue: 1250.5 });
+  });
+
+  it('counts fields that hold a value', () => {
+    expect(countFilledFields(item)).toBe(3);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for merging duplicates into the kept item
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyGroupMerge, defaultMergeRule, planGroupMerge, validateMergeOptions } from '@/lib/migration/cleanup/merge';
+import { ItemIdMapStore } from '@/lib/migration/items/item-id-map';
+import { PodioHttpClient } from '@/lib/podio/http/client';
+import { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+import { AppField } from '@/lib/podio/types';
+
+function appField(externalId: string, type: string, settings?: Record<string, unknown>): AppField {
+  return { field_id: externalId.length, external_id: externalId, type, label: externalId, config: { settings } };
+}
+
+function item(
+  itemId: number,
+  createdOn: string,
+  fields: Array<Pick<PodioItemField, 'external_id' | 'type' | 'values'>>,
+  extra: Partial<PodioItem> = {}
+): PodioItem {
+  return {
+    item_id: itemId,
+    app_item_id: itemId,
+    app: { app_id: 10, config: { name: 'Companies' } },
+    fields: fields.map((field, index) => ({ field_id: index + 1, label: field.external_id, ...field })),
+    created_on: createdOn,
+    created_by: { user_id: 1, name: 'Ada' },
+    ...extra,
+  } as PodioItem;
+}
+
+const appFields = [
+  appField('name', 'text'),
+  appField('website', 'text'),
+  appField('industry', 'category', { multiple: true }),
+  appField('status', 'category', { multiple: false }),
+  appField('contacts', 'app'),
+  appField('email', 'email'),
+  appField('score', 'calculation'),
+];
+
+describe('defaultMergeRule', () => {
+  it('combines multi-value fields and fills the others', () => {
+    expect(defaultMergeRule(appField('industry', 'category', { multiple: true }))).toBe('union');
+    expect(defaultMergeRule(appField('status', 'category', { multiple: false }))).toBe('fill_empty');
+    expect(defaultMergeRule(appField('contacts', 'app'))).toBe('union');
+    expect(defaultMergeRule(appField('name', 'text'))).toBe('fill_empty');
+    expect(defaultMergeRule(appField('score', 'calculation'))).toBe('keep');
+  });
+});
+
+describe('validateMergeOptions', () => {
+  it('reports unknown fields, unknown rules and impossible unions', () => {
+    const errors = validateMergeOptions(
+      {
+        rules: {
+          missing: 'keep',
+          name: 'union',
+          website: 'latest' as never,
+          score: 'fill_empty',
+          industry: 'union',
+        },
+      },
+      appFields
+    );
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain('missing');
+    expect(errors[1]).toContain('single value');
+    expect(errors[2]).toContain('latest');
+    expect(errors[3]).toContain('cannot be written');
+  });
+});
+
+describe('planGroupMerge', () => {
+  const keep = item(
+    1,
+    '2023-01-01 10:00:00',
+    [
+      { external_id: 'name', type: 'text', values: [{ value: 'Acme' }] },
+      { external_id: 'industry', type: 'category', values: [{ value: { id: 1, text: 'Retail' } }] },
+      { external_id: 'email', type: 'email', values: [{ type: 'work', value: 'info@acme.com' }] },
+    ],
+    { tags: ['customer'], last_event_on: '2023-01-01 10:00:00' }
+  );
+  const older = item(
+    2,
+    '2023-02-01 10:00:00',
+    [
+      { external_id: 'name', type: 'text', values: [{ value: 'ACME Inc' }] },
+      { external_id: 'website', type: 'text', values: [{ value: 'acme.com' }] },
+      { external_id: 'status', type: 'category', values: [{ value: { id: 7, text: 'Active' } }] },
+      { external_id: 'contacts', type: 'app', values: [{ value: { item_id: 501, title: 'Ann Lee' } }] },
+    ],
+    { tags: ['customer', 'vip'], files: [{ file_id: 900 }], last_event_on: '2024-06-01 10:00:00' }
+  );
+  const newer = item(
+    3,
+    '2023-03-01 10:00:00',
+    [
+      { external_id: 'website', type: 'text', values: [{ value: 'www.acme.com' }] },
+      { external_id: 'industry', type: 'category', values: [{ value: { id: 1, text: 'Retail' } }, { value: { id: 2, text: 'Online' } }] },
+      { external_id: 'email', type: 'email', values: [{ type: 'home', value: 'INFO@acme.com' }, { type: 'work', value: 'sales@acme.com' }] },
+    ],
+    { last_event_on: '2024-01-01 10:00:00' }
+  );
+
+  it('fills empty fields, combines multi-value fields and moves tags and files', () => {
+    const plan = planGroupMerge(keep, [newer, older], appFields);
+
+    expect(plan.keepItemId).toBe(1);
+    expect(plan.mergedItemIds).toEqual([3, 2]);
+    expect(plan.tags).toEqual(['vip']);
+    expect(plan.fileIds).toEqual([900]);
+    expect(plan.comments).toBe(true);
+
+    const byField = Object.fromEntries(plan.fields.map((change) => [change.externalId, change]));
+    expect(Object.keys(byField).sort()).toEqual(['contacts', 'email', 'industry', 'status', 'website']);
+
+    // The oldest duplicate with a value fills the field
+    expect(byField.website).toMatchObject({ rule: 'fill_empty', sourceItemIds: [2], before: '', after: 'acme.com', value: 'acme.com' });
+    expect(byField.status).toMatchObject({ value: [7], after: 'Active' });
+    expect(byField.industry).toMatchObject({ rule: 'union', value: [1, 2], before: 'Retail', after: 'Retail, Online' });
+    expect(byField.contacts).toMatchObject({ value: [501], sourceItemIds: [2] });
+    // Email addresses are compared case-insensitively
+    expect(byField.email.value).toEqual([
+      { type: 'work', value: 'info@acme.com' },
+      { type: 'work', value: 'sales@acme.com' },
+    ]);
+  });
+
+  it('applies configured rules', () => {
+    const plan = planGroupMerge(keep, [newer, older], appFields, {
+      rules: { name: 'prefer_newest', website: 'prefer_newest', industry: 'keep' },
+      tags: false,
+      files: false,
+      comments: false,
+    });
+
+    const byField = Object.fromEntries(plan.fields.map((change) => [change.externalId, change]));
+    expect(byField.name).toMatchObject({ before: 'Acme', after: 'ACME Inc', sourceItemIds: [2] });
+    expect(byField.website).toMatchObject({ after: 'acme.com', sourceItemIds: [2] });
+    expect(byField.industry).toBeUndefined();
+    expect(plan.tags).toEqual([]);
+    expect(plan.fileIds).toEqual([]);
+    expect(plan.comments).toBe(false);
+  });
+
+  it('leaves fields that already hold the value out of the plan', () => {
+    const twin = item(4, '2023-04-01 10:00:00', [{ external_id: 'name', type: 'text', values: [{ value: ' acme ' }] }]);
+
+    const plan = planGroupMerge(keep, [twin], appFields, { rules: { name: 'prefer_newest' } });
+
+    expect(plan.fields).toEqual([]);
+  });
+});
+
+describe('applyGroupMerge', () => {
+  it('does not post a comment twice when the same group is merged again', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanup-merge-'));
+    try {
+      const store = new ItemIdMapStore(dir);
+      const comments: Record<number, Array<{ comment_id: number; value: string; created_on: string }>> = {
+        2: [
+          { comment_id: 21, value: 'First', created_on: '2024-03-01 10:00:00' },
+          { comment_id: 22, value: 'Second', created_on: '2024-03-02 10:00:00' },
+        ],
+        3: [{ comment_id: 31, value: 'Third', created_on: '2024-03-03 10:00:00' }],
+      };
+      const posted: string[] = [];
+      let posts = 0;
+      const client = {
+        get: async (url: string) => (url.includes('offset=0') ? comments[Number(url.split('/')[3])] ?? [] : []),
+        post: async (_url: string, body: { value: string }) => {
+          // The second post fails, after the first comment of item 2 was copied
+          if (++posts === 2) {
+            throw new Error('Rate limited');
+          }
+          posted.push(body.value);
+          return { comment_id: 1000 + posted.length };
+        },
+      } as unknown as PodioHttpClient;
+      const plan = { keepItemId: 1, mergedItemIds: [2, 3], fields: [], tags: [], fileIds: [], comments: true };
+
+      await expect(
+        applyGroupMerge(client, plan, { jobId: 'job-1', copiedCommentIds: await store.getCopiedCommentIds('job-1'), store })
+      ).rejects.toThrow('Comments of item 2 could not be copied');
+      expect(posted).toHaveLength(1);
+
+      // A resumed or re-run job loads what was copied from the comment map
+      await applyGroupMerge(client, plan, { jobId: 'job-1', copiedCommentIds: await store.getCopiedCommentIds('job-1'), store });
+      await applyGroupMerge(client, plan, { jobId: 'job-1', copiedCommentIds: await store.getCopiedCommentIds('job-1'), store });
+
+      expect(posted).toHaveLength(3);
+      expect(new Set(posted).size).toBe(3);
+      expect([...(await store.getCopiedCommentIds('job-1'))].sort()).toEqual([21, 22, 31]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
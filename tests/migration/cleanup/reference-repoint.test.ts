@@ -0,0 +1,47 @@
+/**
+ * Tests for re-pointing links to duplicates before deletion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildReplacements, repointReferenceIds } from '@/lib/migration/cleanup/reference-repoint';
+
+describe('buildReplacements', () => {
+  it('maps each duplicate to the item its group keeps', () => {
+    const replacements = buildReplacements([
+      { matchValue: 'acme', items: [], keepItemId: 1, deleteItemIds: [2, 3] },
+      { matchValue: 'globex', items: [], keepItemId: 10, deleteItemIds: [11] },
+      { matchValue: 'initech', items: [], deleteItemIds: [20] },
+    ]);
+
+    expect([...replacements.entries()]).toEqual([
+      [2, 1],
+      [3, 1],
+      [11, 10],
+    ]);
+  });
+});
+
+describe('repointReferenceIds', () => {
+  const replacements = new Map([
+    [2, 1],
+    [3, 1],
+    [11, 10],
+  ]);
+
+  it('replaces duplicates with their kept item', () => {
+    expect(repointReferenceIds([11, 500], replacements)).toEqual({ itemIds: [10, 500], replaced: [11] });
+  });
+
+  it('drops links that end up repeated', () => {
+    expect(repointReferenceIds([1, 2, 3], replacements)).toEqual({ itemIds: [1], replaced: [2, 3] });
+  });
+
+  it('removes a link the kept item would hold to itself', () => {
+    expect(repointReferenceIds([2, 500], replacements, 1)).toEqual({ itemIds: [500], replaced: [2] });
+  });
+
+  it('leaves values without duplicates alone', () => {
+    expect(repointReferenceIds([1, 500], replacements)).toBeUndefined();
+    expect(repointReferenceIds([], replacements)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for archiving deleted cleanup items and rebuilding them
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CleanupArchiveStore, snapshotItem } from '@/lib/migration/cleanup/archive';
+import { buildRestoreRequest, claimRestore } from '@/lib/migration/cleanup/restore';
+import { MigrationStateStore } from '@/lib/migration/state-store';
+import { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+
+function item(itemId: number, fields: Array<Pick<PodioItemField, 'external_id' | 'type' | 'values'>>): PodioItem {
+  return {
+    item_id: itemId,
+    app_item_id: itemId,
+    app: { app_id: 10, config: { name: 'Companies' } },
+    fields: fields.map((field, index) => ({ field_id: index + 1, label: field.external_id, ...field })),
+    created_on: '2023-01-01 10:00:00',
+    created_by: { user_id: 1, name: 'Ada' },
+    link: `https://podio.com/items/${itemId}`,
+    rights: [],
+    tags: ['vip'],
+  };
+}
+
+const deleted = item(2, [
+  { external_id: 'name', type: 'text', values: [{ value: 'ACME Inc' }] },
+  { external_id: 'status', type: 'category', values: [{ value: { id: 7, text: 'Active' } }] },
+  { external_id: 'contacts', type: 'app', values: [{ value: { item_id: 501 } }, { value: { item_id: 3 } }] },
+  { external_id: 'score', type: 'calculation', values: [{ value: 42 }] },
+  { external_id: 'notes', type: 'text', values: [] },
+]);
+
+describe('snapshotItem', () => {
+  it('keeps the item, its files and its group', () => {
+    const snapshot = snapshotItem(deleted, [{ fileId: 900, name: 'logo.png', stored: true }], {
+      keepItemId: 1,
+      matchValue: 'acme',
+    });
+
+    expect(snapshot).toMatchObject({
+      itemId: 2,
+      appId: 10,
+      tags: ['vip'],
+      files: [{ fileId: 900, name: 'logo.png', stored: true }],
+      keepItemId: 1,
+      matchValue: 'acme',
+    });
+    expect(snapshot.fields).toHaveLength(5);
+  });
+});
+
+describe('buildRestoreRequest', () => {
+  it('writes restorable values and points links to deleted items at their kept item', () => {
+    const request = buildRestoreRequest(snapshotItem(deleted, []), new Map([[3, 1]]));
+
+    expect(request).toEqual({
+      fields: { name: 'ACME Inc', status: [7], contacts: [501, 1] },
+      tags: ['vip'],
+    });
+  });
+});
+
+describe('CleanupArchiveStore', () => {
+  it('reads back archived items and file content', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanup-archive-'));
+    try {
+      const store = new CleanupArchiveStore(dir);
+      await store.archiveItems('job-1', [snapshotItem(deleted, []), snapshotItem(item(4, []), [])]);
+      await store.archiveItems('job-1', [snapshotItem(deleted, [], { keepItemId: 1 })]);
+      await store.saveFile('job-1', 900, Buffer.from('content'));
+
+      const archived = await store.getArchivedItems('job-1');
+      expect(archived.map((entry) => entry.itemId)).toEqual([2, 4]);
+      expect(archived[0].keepItemId).toBe(1);
+      expect((await store.readFile('job-1', 900)).toString()).toBe('content');
+      expect(await store.getArchivedItems('missing')).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('claimRestore', () => {
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  it('refuses items that were restored or are being restored', () => {
+    const metadata: Record<string, unknown> = {
+      restoredItems: [{ itemId: 2, restoredItemId: 20, filesRestored: 0, restoredAt: now.toISOString() }],
+    };
+
+    expect(claimRestore(metadata, 2, now)).toBe('Item was already restored as item 20');
+    expect(claimRestore(metadata, 4, now)).toBeNull();
+    expect(claimRestore(metadata, 4, now)).toBe('Item is being restored by another request');
+  });
+
+  it('ignores claims of requests that died mid-restore', () => {
+    const metadata: Record<string, unknown> = {
+      restoringItems: [{ itemId: 4, claimedAt: '2025-03-10T11:00:00.000Z' }],
+    };
+
+    expect(claimRestore(metadata, 4, now)).toBeNull();
+    expect(metadata.restoringItems).toEqual([{ itemId: 4, claimedAt: now.toISOString() }]);
+  });
+
+  it('lets only one of two concurrent requests claim an item', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanup-restore-'));
+    try {
+      const store = new MigrationStateStore(dir);
+      await store.initialize();
+      const job = await store.createMigrationJob('10', '10', { jobType: 'cleanup' });
+
+      const claims = await Promise.all([
+        store.mutateJobMetadata(job.id, (metadata) => claimRestore(metadata, 2)),
+        store.mutateJobMetadata(job.id, (metadata) => claimRestore(metadata, 2)),
+      ]);
+
+      expect(claims.filter((claim) => claim === null)).toHaveLength(1);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for matching category options between apps by label
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCategoryOptionMap,
+  remapCategoryFields,
+  CategoryOption,
+} from '@/lib/migration/items/category-resolver';
+import { AppField } from '@/lib/podio/types';
+import { PodioItem } from '@/lib/podio/resources/items';
+
+function categoryField(externalId: string, options: CategoryOption[]): AppField {
+  return {
+    field_id: 1,
+    external_id: externalId,
+    type: 'category',
+    label: externalId === 'state' ? 'State' : externalId,
+    config: { settings: { options } },
+  };
+}
+
+function itemWithStatus(optionIds: number[]): PodioItem {
+  return {
+    item_id: 1,
+    app_item_id: 1,
+    app: { app_id: 10, config: { name: 'Source' } },
+    fields: [
+      {
+        field_id: 1,
+        external_id: 'status',
+        type: 'category',
+        label: 'Status',
+        values: optionIds.map((id) => ({ value: { id, text: `option ${id}` } })),
+      },
+    ],
+    created_on: '2024-01-01 00:00:00',
+    created_by: { user_id: 1, name: 'Ada' },
+  } as PodioItem;
+}
+
+const sourceFields = [
+  categoryField('status', [
+    { id: 1, text: 'Open', status: 'active' },
+    { id: 2, text: 'In Progress ', status: 'active' },
+    { id: 3, text: 'Blocked', status: 'active' },
+    { id: 4, text: 'Archived', status: 'deleted' },
+  ]),
+];
+
+const targetFields = [
+  categoryField('state', [
+    { id: 11, text: 'open', status: 'active' },
+    { id: 12, text: 'In progress', status: 'active' },
+    { id: 13, text: 'Blocked', status: 'deleted' },
+  ]),
+];
+
+describe('buildCategoryOptionMap', () => {
+  it('matches options by trimmed, case-insensitive label', () => {
+    const { optionMap } = buildCategoryOptionMap(sourceFields, targetFields, { status: 'state' });
+
+    expect(optionMap.get('state')).toEqual(
+      new Map([
+        [1, 11],
+        [2, 12],
+      ])
+    );
+  });
+
+  it('reports active source options with no active target option', () => {
+    const { missing } = buildCategoryOptionMap(sourceFields, targetFields, { status: 'state' });
+
+    expect(missing).toEqual([
+      {
+        sourceFieldExternalId: 'status',
+        targetFieldExternalId: 'state',
+        targetFieldLabel: 'State',
+        sourceOptionId: 3,
+        label: 'Blocked',
+      },
+    ]);
+  });
+
+  it('ignores mappings that are not category to category', () => {
+    const textTarget: AppField = { ...targetFields[0], type: 'text' };
+    const result = buildCategoryOptionMap(sourceFields, [textTarget], { status: 'state' });
+
+    expect(result.optionMap.size).toBe(0);
+    expect(result.missing).toEqual([]);
+  });
+});
+
+describe('remapCategoryFields', () => {
+  const { optionMap } = buildCategoryOptionMap(sourceFields, targetFields, { status: 'state' });
+
+  it('rewrites source option IDs to target option IDs', () => {
+    const fields = remapCategoryFields(itemWithStatus([1, 2]), { state: [1, 2] }, { status: 'state' }, optionMap);
+    expect(fields).toEqual({ state: [11, 12] });
+  });
+
+  it('drops unmatched options and removes fields left empty', () => {
+    expect(
+      remapCategoryFields(itemWithStatus([1, 3]), { state: [1, 3] }, { status: 'state' }, optionMap)
+    ).toEqual({ state: [11] });
+    expect(
+      remapCategoryFields(itemWithStatus([3]), { state: [3], title: 'x' }, { status: 'state' }, optionMap)
+    ).toEqual({ title: 'x' });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for copying item comments to migrated items
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatMigratedComment,
+  transferItemComments,
+} from '@/lib/migration/items/comment-transfer';
+import { PodioComment, getItemComments } from '@/lib/podio/resources/comments';
+import { PodioHttpClient } from '@/lib/podio/http/client';
+
+function comment(commentId: number, createdOn: string, value: string): PodioComment {
+  return {
+    comment_id: commentId,
+    value,
+    created_on: createdOn,
+    created_by: { user_id: 1, name: 'Ada Lovelace' },
+  };
+}
+
+function createClient(comments: PodioComment[], failOnPost?: number) {
+  const posted: Array<{ url: string; value: string }> = [];
+  let nextId = 900;
+
+  const client = {
+    get: async () => comments,
+    post: async (url: string, body: { value: string }) => {
+      if (posted.length === failOnPost) {
+        throw new Error('Podio unavailable');
+      }
+      posted.push({ url, value: body.value });
+      return { comment_id: nextId++ };
+    },
+  } as unknown as PodioHttpClient;
+
+  return { client, posted };
+}
+
+describe('formatMigratedComment', () => {
+  it('should prefix the original author and timestamp', () => {
+    expect(formatMigratedComment(comment(1, '2024-03-01 09:30:00', 'Looks good'))).toBe(
+      '[Originally posted by Ada Lovelace on 2024-03-01 09:30:00 UTC]\n\nLooks good'
+    );
+  });
+});
+
+describe('transferItemComments', () => {
+  it('should post comments oldest first and journal each copy', async () => {
+    const { client, posted } = createClient([
+      comment(2, '2024-03-02 10:00:00', 'second'),
+      comment(1, '2024-03-01 10:00:00', 'first'),
+    ]);
+
+    const outcome = await transferItemComments(client, 10, 20, new Set());
+
+    expect(posted.map(p => p.value.endsWith('first') ? 'first' : 'second')).toEqual(['first', 'second']);
+    expect(posted[0].url).toContain('/comment/item/20/');
+    expect(outcome.copied).toBe(2);
+    expect(outcome.entries.map(e => [e.sourceCommentId, e.targetCommentId])).toEqual([[1, 900], [2, 901]]);
+  });
+
+  it('should skip comments copied by an earlier run', async () => {
+    const { client, posted } = createClient([
+      comment(1, '2024-03-01 10:00:00', 'first'),
+      comment(2, '2024-03-02 10:00:00', 'second'),
+    ]);
+
+    const outcome = await transferItemComments(client, 10, 20, new Set([1]));
+
+    expect(posted).toHaveLength(1);
+    expect(outcome).toMatchObject({ copied: 1, skipped: 1, failed: 0 });
+  });
+
+  it('should stop at the first failure to keep the thread in order', async () => {
+    const { client, posted } = createClient([
+      comment(1, '2024-03-01 10:00:00', 'first'),
+      comment(2, '2024-03-02 10:00:00', 'second'),
+      comment(3, '2024-03-03 10:00:00', 'third'),
+    ], 1);
+
+    const copied = new Set<number>();
+    const outcome = await transferItemComments(client, 10, 20, copied);
+
+    expect(posted).toHaveLength(1);
+    expect(outcome).toMatchObject({ copied: 1, failed: 2, error: 'Podio unavailable' });
+    expect(Array.from(copied)).toEqual([1]);
+  });
+
+  it('should count an item whose comments cannot be read as a failure', async () => {
+    const client = {
+      get: async () => {
+        throw new Error('Podio unavailable');
+      },
+    } as unknown as PodioHttpClient;
+
+    const outcome = await transferItemComments(client, 10, 20, new Set());
+
+    expect(outcome).toMatchObject({ copied: 0, skipped: 0, failed: 1, error: 'Podio unavailable' });
+  });
+});
+
+describe('getItemComments', () => {
+  it('should page through comments until a page comes back short', async () => {
+    const all = Array.from({ length: 230 }, (_, i) => comment(i + 1, '2024-03-01 10:00:00', `c${i + 1}`));
+    const urls: string[] = [];
+    const client = {
+      get: async (url: string) => {
+        urls.push(url);
+        const params = new URLSearchParams(url.split('?')[1]);
+        const offset = Number(params.get('offset'));
+        return all.slice(offset, offset + Number(params.get('limit')));
+      },
+    } as unknown as PodioHttpClient;
+
+    const comments = await getItemComments(client, 10);
+
+    expect(comments).toHaveLength(230);
+    expect(urls).toHaveLength(3);
+    expect(urls[2]).toContain('offset=200');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for re-pointing contacts to target space members
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildContactDirectory,
+  matchContact,
+  remapContactFields,
+  validateContactMapping,
+  ContactResolution,
+} from '@/lib/migration/items/contact-resolver';
+import { PodioSpaceMember } from '@/lib/podio/resources/spaces';
+import { PodioItem } from '@/lib/podio/resources/items';
+import { ContactMappingConfig } from '@/lib/migration/items/types';
+
+function member(profileId: number, name: string, mail: string[] = []): PodioSpaceMember {
+  return { role: 'regular', profile: { profile_id: profileId, name, mail } };
+}
+
+const targetDirectory = buildContactDirectory([
+  member(501, 'Grace Hopper', ['grace@target.example']),
+  member(502, 'Alan Turing'),
+  member(503, 'Sam Smith'),
+  member(504, 'Sam  Smith'),
+]);
+
+const sourceDirectory = buildContactDirectory([
+  member(11, 'Grace H.', ['Grace@Target.example']),
+]);
+
+function itemWithContacts(contacts: Array<{ profile_id: number; name: string; mail?: string[] }>): PodioItem {
+  return {
+    item_id: 42,
+    app_item_id: 1,
+    app: { app_id: 10, config: { name: 'Source' } },
+    fields: [
+      {
+        field_id: 1,
+        external_id: 'owner',
+        type: 'contact',
+        label: 'Owner',
+        values: contacts.map((contact) => ({ value: contact })),
+      },
+    ],
+    created_on: '2024-01-01 00:00:00',
+    created_by: { user_id: 1, name: 'Ada' },
+  } as PodioItem;
+}
+
+function resolution(config: ContactMappingConfig, noteFieldExternalId?: string): ContactResolution {
+  return {
+    config,
+    targetDirectory,
+    sourceDirectory,
+    contactTargetFields: new Set(['owner']),
+    noteFieldExternalId,
+  };
+}
+
+describe('matchContact', () => {
+  it('keeps profiles that are already members of the target space', () => {
+    expect(matchContact({ profileId: 502, emails: [] }, targetDirectory)).toBe(502);
+  });
+
+  it('matches by email before name', () => {
+    expect(matchContact({ profileId: 11, name: 'Alan Turing', emails: ['GRACE@target.example'] }, targetDirectory)).toBe(501);
+  });
+
+  it('matches by name only when exactly one member has it', () => {
+    expect(matchContact({ name: ' alan   turing ', emails: [] }, targetDirectory)).toBe(502);
+    expect(matchContact({ name: 'Sam Smith', emails: [] }, targetDirectory)).toBeUndefined();
+  });
+});
+
+describe('remapContactFields', () => {
+  it('uses emails known from the source space', () => {
+    const { fields, unmatched } = remapContactFields(
+      itemWithContacts([{ profile_id: 11, name: 'Grace H.' }]),
+      { owner: [11] },
+      { owner: 'owner' },
+      resolution({})
+    );
+
+    expect(fields).toEqual({ owner: [501] });
+    expect(unmatched).toEqual([]);
+  });
+
+  it('drops unmatched contacts by default', () => {
+    const { fields, unmatched } = remapContactFields(
+      itemWithContacts([{ profile_id: 99, name: 'Nobody' }]),
+      { owner: [99], title: 'x' },
+      { owner: 'owner' },
+      resolution({})
+    );
+
+    expect(fields).toEqual({ title: 'x' });
+    expect(unmatched).toHaveLength(1);
+    expect(unmatched[0]).toMatchObject({ sourceItemId: 42, name: 'Nobody', fallback: 'dropped' });
+  });
+
+  it('assigns the default user', () => {
+    const { fields, unmatched } = remapContactFields(
+      itemWithContacts([{ profile_id: 99, name: 'Nobody' }, { profile_id: 502, name: 'Alan Turing' }]),
+      { owner: [99, 502] },
+      { owner: 'owner' },
+      resolution({ fallback: 'default_user', defaultProfileId: 777 })
+    );
+
+    expect(fields).toEqual({ owner: [777, 502] });
+    expect(unmatched[0].fallback).toBe('default_user');
+  });
+
+  it('appends unmatched names to the note field', () => {
+    const { fields } = remapContactFields(
+      itemWithContacts([{ profile_id: 99, name: 'Nobody', mail: ['nobody@source.example'] }]),
+      { owner: [99], notes: 'Existing note' },
+      { owner: 'owner' },
+      resolution({ fallback: 'note', noteFieldId: '300' }, 'notes')
+    );
+
+    expect(fields).toEqual({ notes: 'Existing note\n\nOwner: Nobody (nobody@source.example)' });
+  });
+});
+
+describe('validateContactMapping', () => {
+  it('requires the settings each fallback depends on', () => {
+    expect(validateContactMapping({})).toEqual([]);
+    expect(validateContactMapping({ fallback: 'default_user' })).toHaveLength(1);
+    expect(validateContactMapping({ fallback: 'note', noteFieldId: 'notes' })).toHaveLength(1);
+    expect(validateContactMapping({ fallback: 'note', noteFieldId: '300' })).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for field mapping suggestions
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  categoryOptionOverlap,
+  labelSimilarity,
+  scoreFieldPair,
+  SuggestionField,
+  suggestFieldMappings,
+} from '@/lib/migration/items/field-suggestions';
+
+function field(
+  field_id: number,
+  label: string,
+  type = 'text',
+  options?: Array<{ id: number; text: string; status?: string }>
+): SuggestionField {
+  return {
+    field_id,
+    label,
+    type,
+    external_id: label.toLowerCase().replace(/\s+/g, '-'),
+    config: options ? { settings: { options } } : {},
+  };
+}
+
+describe('labelSimilarity', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(labelSimilarity('E-mail Address', 'email address')).toBe(1);
+    expect(labelSimilarity('Télephone', 'telephone')).toBe(1);
+  });
+
+  it('scores typos and partial matches between 0 and 1', () => {
+    const typo = labelSimilarity('Customer Name', 'Custmer Name');
+    const partial = labelSimilarity('Customer Name', 'Name');
+    const unrelated = labelSimilarity('Customer Name', 'Invoice Total');
+
+    expect(typo).toBeGreaterThan(0.8);
+    expect(partial).toBeGreaterThan(unrelated);
+    expect(unrelated).toBeLessThan(0.3);
+  });
+});
+
+describe('categoryOptionOverlap', () => {
+  it('compares active option labels', () => {
+    const source = field(1, 'Status', 'category', [
+      { id: 1, text: 'Open' },
+      { id: 2, text: 'Closed' },
+      { id: 3, text: 'Old', status: 'deleted' },
+    ]);
+    const target = field(2, 'State', 'category', [
+      { id: 10, text: 'open' },
+      { id: 11, text: 'Closed' },
+      { id: 12, text: 'Waiting' },
+    ]);
+
+    expect(categoryOptionOverlap(source, target)).toBeCloseTo(2 / 3);
+    expect(categoryOptionOverlap(source, field(3, 'Notes'))).toBeUndefined();
+  });
+
+  it('adds the option overlap to category pair scores', () => {
+    const source = field(1, 'Stage', 'category', [{ id: 1, text: 'Lead' }, { id: 2, text: 'Won' }]);
+    const sameOptions = field(2, 'Pipeline', 'category', [{ id: 10, text: 'Lead' }, { id: 11, text: 'Won' }]);
+    const otherOptions = field(3, 'Stages', 'category', [{ id: 20, text: 'Red' }, { id: 21, text: 'Blue' }]);
+
+    expect(scoreFieldPair(source, sameOptions).options).toBe(1);
+    expect(scoreFieldPair(source, otherOptions).options).toBe(0);
+    expect(scoreFieldPair(source, sameOptions).score).toBeGreaterThan(
+      scoreFieldPair(source, field(4, 'Pipeline', 'category', [{ id: 30, text: 'Red' }])).score
+    );
+  });
+});
+
+describe('suggestFieldMappings', () => {
+  const sourceFields = [
+    field(1, 'Customer Name'),
+    field(2, 'E-mail', 'email'),
+    field(3, 'Amount', 'number'),
+    field(4, 'Company', 'app'),
+  ];
+  const targetFields = [
+    field(10, 'Name of customer'),
+    field(11, 'Email address', 'email'),
+    field(12, 'Total Amount', 'money'),
+    field(13, 'Company Name'),
+    field(14, 'Total', 'calculation'),
+  ];
+
+  it('ranks candidates and suggests the best fit per field', () => {
+    const suggestions = suggestFieldMappings(sourceFields, targetFields);
+    const suggested = Object.fromEntries(
+      suggestions.map((suggestion) => [suggestion.sourceFieldId, suggestion.suggested?.targetFieldId])
+    );
+
+    expect(suggested).toEqual({ '1': '10', '2': '11', '3': '12', '4': undefined });
+    for (const suggestion of suggestions) {
+      const scores = suggestion.candidates.map((candidate) => candidate.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      expect(suggestion.candidates.map((candidate) => candidate.targetFieldId)).not.toContain('14');
+    }
+  });
+
+  it('does not suggest a target twice or for already mapped fields', () => {
+    const suggestions = suggestFieldMappings(
+      [field(1, 'Phone'), field(2, 'Phone Number')],
+      [field(10, 'Phone')],
+      { currentMapping: {} }
+    );
+    expect(suggestions.filter((suggestion) => suggestion.suggested)).toHaveLength(1);
+    expect(suggestions[0].suggested?.targetFieldId).toBe('10');
+
+    const withMapping = suggestFieldMappings([field(1, 'Phone'), field(2, 'Phone Number')], [field(10, 'Phone')], {
+      currentMapping: { '1': '10' },
+    });
+    expect(withMapping.every((suggestion) => !suggestion.suggested)).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for per-field value transforms
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyFieldTransforms,
+  applyTransform,
+  validateFieldTransforms,
+} from '@/lib/migration/items/field-transforms';
+import { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+import { AppField } from '@/lib/podio/types';
+
+function item(fields: Array<Pick<PodioItemField, 'external_id' | 'type' | 'values'>>): PodioItem {
+  return {
+    item_id: 1,
+    app_item_id: 1,
+    app: { app_id: 10, config: { name: 'Source' } },
+    fields: fields.map((field, index) => ({ field_id: index + 1, label: field.external_id, ...field })),
+    created_on: '2024-01-01 00:00:00',
+    created_by: { user_id: 1, name: 'Ada' },
+  } as PodioItem;
+}
+
+function targetField(externalId: string, type: string, settings?: Record<string, unknown>): AppField {
+  return { field_id: 100, external_id: externalId, type, label: externalId, config: { settings } };
+}
+
+describe('validateFieldTransforms', () => {
+  it('accepts well-formed transforms', () => {
+    expect(
+      validateFieldTransforms({
+        '1': [{ type: 'trim' }, { type: 'case', mode: 'title' }],
+        '2': [{ type: 'regex_replace', pattern: '\\s+', replacement: ' ' }],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports invalid regexes, empty concat and unknown types', () => {
+    const errors = validateFieldTransforms({
+      '1': [{ type: 'regex_replace', pattern: '(', replacement: '' }],
+      '2': [{ type: 'concat', sourceFields: [] }],
+      '3': [{ type: 'explode' } as never],
+    });
+
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('invalid regex');
+    expect(errors[1]).toContain('concat');
+    expect(errors[2]).toContain('unknown transform type');
+  });
+});
+
+describe('applyTransform', () => {
+  it('trims, changes case and replaces by regex', () => {
+    expect(applyTransform({ type: 'trim' }, '  hello  ')).toBe('hello');
+    expect(applyTransform({ type: 'case', mode: 'title' }, 'jean-luc picard')).toBe('Jean-Luc Picard');
+    expect(applyTransform({ type: 'regex_replace', pattern: '-', replacement: '' }, '555-12-34')).toBe('5551234');
+  });
+
+  it('shifts dates and date ranges', () => {
+    expect(applyTransform({ type: 'date_shift', days: 1 }, '2024-02-28')).toBe('2024-02-29');
+    expect(
+      applyTransform({ type: 'date_shift', hours: -2 }, { start: '2024-01-01 01:00:00', end: null })
+    ).toEqual({ start: '2023-12-31 23:00:00', end: null });
+  });
+
+  it('only fills defaults for empty values', () => {
+    expect(applyTransform({ type: 'default', value: 'n/a' }, '')).toBe('n/a');
+    expect(applyTransform({ type: 'default', value: 'n/a' }, 'set')).toBe('set');
+  });
+
+  it('converts between text and numbers', () => {
+    expect(applyTransform({ type: 'to_number' }, '$1,234.50')).toBe(1234.5);
+    expect(applyTransform({ type: 'to_number' }, 'none')).toBeNull();
+    expect(applyTransform({ type: 'to_text' }, ['a', 'b'])).toBe('a, b');
+  });
+});
+
+describe('applyFieldTransforms', () => {
+  it('maps renamed category labels to target option IDs', () => {
+    const source = item([
+      { external_id: 'status', type: 'category', values: [{ value: { id: 1, text: 'In Progress' } }] },
+    ]);
+    const target = targetField('state', 'category', {
+      options: [
+        { id: 7, text: 'Active', status: 'active' },
+        { id: 8, text: 'Done', status: 'active' },
+      ],
+    });
+
+    const result = applyFieldTransforms(
+      source,
+      { state: [1] },
+      { status: 'state' },
+      { status: [{ type: 'category_map', options: { 'in progress': 'Active' } }] },
+      [target]
+    );
+
+    expect(result).toEqual({ state: [7] });
+  });
+
+  it('concatenates other source fields into a text target', () => {
+    const source = item([
+      { external_id: 'first', type: 'text', values: [{ value: 'Ada' }] },
+      { external_id: 'last', type: 'text', values: [{ value: 'Lovelace' }] },
+    ]);
+
+    const result = applyFieldTransforms(
+      source,
+      { name: 'Ada' },
+      { first: 'name' },
+      { first: [{ type: 'concat', sourceFields: ['last'] }] },
+      [targetField('name', 'text')]
+    );
+
+    expect(result).toEqual({ name: 'Ada Lovelace' });
+  });
+
+  it('drops fields whose transformed value is empty', () => {
+    const source = item([{ external_id: 'code', type: 'text', values: [{ value: 'N/A' }] }]);
+
+    const result = applyFieldTransforms(
+      source,
+      { code: 'N/A', other: 'kept' },
+      { code: 'code' },
+      { code: [{ type: 'regex_replace', pattern: '^N/A$', replacement: '' }] }
+    );
+
+    expect(result).toEqual({ other: 'kept' });
+  });
+
+  it('leaves unmapped fields untouched', () => {
+    const source = item([{ external_id: 'title', type: 'text', values: [{ value: ' x ' }] }]);
+
+    expect(applyFieldTransforms(source, { title: ' x ' }, {}, { title: [{ type: 'trim' }] })).toEqual({
+      title: ' x ',
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for single-field and composite match keys
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  describeMatchKey,
+  extractMatchKey,
+  formatMatchKey,
+  hasMatchKey,
+  matchKeyFields,
+  normalizeMatchComponent,
+} from '@/lib/migration/items/match-key';
+import { normalizeForMatch } from '@/lib/migration/items/prefetch-cache';
+import { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+
+function item(fields: Array<Pick<PodioItemField, 'external_id' | 'type' | 'values'>>): PodioItem {
+  return {
+    item_id: 1,
+    app_item_id: 1,
+    app: { app_id: 10, config: { name: 'People' } },
+    fields: fields.map((field, index) => ({ field_id: index + 1, label: field.external_id, ...field })),
+    created_on: '2024-01-01 00:00:00',
+    created_by: { user_id: 1, name: 'Ada' },
+  } as PodioItem;
+}
+
+const person = item([
+  { external_id: 'first-name', type: 'text', values: [{ value: '  José ' }] },
+  { external_id: 'last-name', type: 'text', values: [{ value: "O'Brien" }] },
+  { external_id: 'birthday', type: 'date', values: [{ start: '1990-04-01 08:30:00' }] },
+  { external_id: 'phone', type: 'text', values: [{ value: '+1 (555) 010-0199' }] },
+]);
+
+describe('normalizeMatchComponent', () => {
+  it('ignores accents, case, spaces and punctuation with text normalization', () => {
+    expect(normalizeMatchComponent(' José  O\'Brien ', 'text')).toBe('joseobrien');
+  });
+
+  it('keeps only digits with digits normalization', () => {
+    expect(normalizeMatchComponent('+1 (555) 010-0199', 'digits')).toBe('15550100199');
+  });
+
+  it('compares the calendar day with date normalization', () => {
+    expect(normalizeMatchComponent({ start: '1990-04-01 08:30:00', end: null }, 'date')).toBe('1990-04-01');
+    expect(normalizeMatchComponent('not a date', 'date')).toBe('');
+  });
+
+  it('matches the legacy normalization by default', () => {
+    expect(normalizeMatchComponent(' ACME ')).toBe(normalizeForMatch(' ACME '));
+    expect(normalizeMatchComponent('678.90')).toBe('678.9');
+  });
+});
+
+describe('extractMatchKey', () => {
+  it('produces the legacy key for a single field', () => {
+    const result = extractMatchKey(person, 'last-name');
+
+    expect(result.key).toBe(normalizeForMatch("O'Brien"));
+    expect(result.value).toBe("O'Brien");
+    expect(result.missingFields).toEqual([]);
+  });
+
+  it('combines every field of a composite key', () => {
+    const result = extractMatchKey(person, [
+      { field: 'first-name', normalize: 'text' },
+      { field: 'last-name', normalize: 'text' },
+      { field: 'birthday', normalize: 'date' },
+    ]);
+
+    expect(formatMatchKey(result.key)).toBe('jose + obrien + 1990-04-01');
+    expect(result.label).toBe("José + O'Brien + 1990-04-01 08:30:00");
+    expect(result.value).toHaveLength(3);
+  });
+
+  it('treats the same person with differently formatted values as equal', () => {
+    const other = item([
+      { external_id: 'first-name', type: 'text', values: [{ value: 'jose' }] },
+      { external_id: 'last-name', type: 'text', values: [{ value: 'OBrien' }] },
+      { external_id: 'birthday', type: 'date', values: [{ start: '1990-04-01 17:00:00' }] },
+    ]);
+    const key = [
+      { field: 'first-name', normalize: 'text' as const },
+      { field: 'last-name', normalize: 'text' as const },
+      { field: 'birthday', normalize: 'date' as const },
+    ];
+
+    expect(extractMatchKey(other, key).key).toBe(extractMatchKey(person, key).key);
+  });
+
+  it('compares the full date value unless date normalization is chosen', () => {
+    const sameDay = item([{ external_id: 'birthday', type: 'date', values: [{ start: '1990-04-01 17:00:00' }] }]);
+
+    expect(extractMatchKey(sameDay, 'birthday').key).not.toBe(extractMatchKey(person, 'birthday').key);
+    expect(extractMatchKey(sameDay, [{ field: 'birthday', normalize: 'date' }]).key).toBe(
+      extractMatchKey(person, [{ field: 'birthday', normalize: 'date' }]).key
+    );
+  });
+
+  it('returns an empty key when any field is missing or empty', () => {
+    const partial = item([
+      { external_id: 'first-name', type: 'text', values: [{ value: 'Ann' }] },
+      { external_id: 'last-name', type: 'text', values: [] },
+    ]);
+
+    const result = extractMatchKey(partial, [{ field: 'first-name' }, { field: 'last-name' }, { field: 'birthday' }]);
+
+    expect(result.key).toBe('');
+    expect(result.missingFields).toEqual(['birthday']);
+  });
+});
+
+describe('match key helpers', () => {
+  it('lists the fields of string and composite keys', () => {
+    expect(matchKeyFields('title')).toEqual([{ field: 'title' }]);
+    expect(matchKeyFields([{ field: 'a' }, { field: '' }])).toEqual([{ field: 'a' }]);
+    expect(hasMatchKey('')).toBe(false);
+    expect(hasMatchKey([])).toBe(false);
+    expect(hasMatchKey([{ field: 'a' }])).toBe(true);
+  });
+
+  it('describes keys with their non-default normalizations', () => {
+    expect(describeMatchKey('title')).toBe('title');
+    expect(describeMatchKey([{ field: 'phone', normalize: 'digits' }, { field: 'zip', normalize: 'default' }])).toBe(
+      'phone (digits) + zip'
+    );
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for orphan reconciliation (deletion propagation)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findOrphanedItems, validateDeletionSync } from '@/lib/migration/items/orphan-reconciler';
+
+describe('findOrphanedItems', () => {
+  const mappings = new Map([
+    [101, 201],
+    [102, 202],
+    [103, 203],
+  ]);
+
+  it('reports mapped items whose source item is gone', () => {
+    expect(findOrphanedItems(mappings, new Set([101, 103, 999]))).toEqual([
+      { sourceItemId: 102, targetItemId: 202 },
+    ]);
+  });
+
+  it('skips orphans that were already deleted or archived', () => {
+    expect(findOrphanedItems(mappings, new Set([101]), new Set([102]))).toEqual([
+      { sourceItemId: 103, targetItemId: 203 },
+    ]);
+  });
+
+  it('finds nothing when every source item still exists', () => {
+    expect(findOrphanedItems(mappings, new Set([101, 102, 103]))).toEqual([]);
+  });
+});
+
+describe('validateDeletionSync', () => {
+  it('accepts the supported actions', () => {
+    expect(validateDeletionSync({ action: 'delete' })).toEqual([]);
+    expect(validateDeletionSync({ action: 'archive', archiveTag: 'gone' })).toEqual([]);
+    expect(validateDeletionSync({ action: 'report' })).toEqual([]);
+  });
+
+  it('rejects unknown actions and blank archive tags', () => {
+    expect(validateDeletionSync({ action: 'purge' as never })).toHaveLength(1);
+    expect(validateDeletionSync({ action: 'archive', archiveTag: '  ' })).toEqual(['archiveTag cannot be empty']);
+  });
+});
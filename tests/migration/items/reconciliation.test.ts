@@ -0,0 +1,80 @@
+/**
+ * Tests for the post-migration reconciliation report
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  comparableFieldValue,
+  diffMappedFields,
+  formatCsvRow,
+} from '@/lib/migration/items/reconciliation';
+import { PodioItemField } from '@/lib/podio/resources/items';
+
+function field(externalId: string, type: string, values: PodioItemField['values']): PodioItemField {
+  return { field_id: 1, external_id: externalId, type, label: externalId, values };
+}
+
+describe('comparableFieldValue', () => {
+  it('compares categories, references and contacts by label rather than ID', () => {
+    expect(comparableFieldValue(field('status', 'category', [{ value: { id: 3, text: 'Open' } }]))).toBe('Open');
+    expect(comparableFieldValue(field('project', 'app', [
+      { value: { item_id: 9, title: 'Beta' } },
+      { value: { item_id: 7, title: 'Alpha' } },
+    ]))).toBe('Alpha; Beta');
+    expect(comparableFieldValue(field('owner', 'contact', [{ value: { profile_id: 1, name: 'Sam Lee' } }]))).toBe('Sam Lee');
+  });
+
+  it('canonicalizes numbers and strips markup from text', () => {
+    expect(comparableFieldValue(field('amount', 'number', [{ value: '12.5000' }]))).toBe('12.5');
+    expect(comparableFieldValue(field('notes', 'text', [{ value: '<p>Hello  <b>world</b></p>' }]))).toBe('Hello world');
+  });
+
+  it('renders missing or empty fields as an empty string', () => {
+    expect(comparableFieldValue(undefined)).toBe('');
+    expect(comparableFieldValue(field('notes', 'text', []))).toBe('');
+  });
+});
+
+describe('diffMappedFields', () => {
+  const fieldPairs = [
+    { sourceField: 'title', targetField: 'name' },
+    { sourceField: 'status', targetField: 'state' },
+  ];
+
+  it('reports only the mapped fields that differ', () => {
+    const sourceItem = {
+      fields: [
+        field('title', 'text', [{ value: 'Acme' }]),
+        field('status', 'category', [{ value: { id: 1, text: 'Open' } }]),
+      ],
+    };
+
+    expect(diffMappedFields(sourceItem, { name: 'Acme', state: 'Closed' }, fieldPairs)).toEqual([
+      { sourceField: 'status', targetField: 'state', sourceValue: 'Open', targetValue: 'Closed' },
+    ]);
+  });
+
+  it('treats a value missing on one side as a difference', () => {
+    const sourceItem = { fields: [field('title', 'text', [{ value: 'Acme' }])] };
+
+    expect(diffMappedFields(sourceItem, { state: 'Open' }, fieldPairs)).toEqual([
+      { sourceField: 'title', targetField: 'name', sourceValue: 'Acme', targetValue: '' },
+      { sourceField: 'status', targetField: 'state', sourceValue: '', targetValue: 'Open' },
+    ]);
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('quotes values containing separators, quotes or newlines', () => {
+    expect(formatCsvRow([1, 'plain', 'a,b', 'say "hi"', 'two\nlines', undefined])).toBe(
+      '1,plain,"a,b","say ""hi""","two\nlines",'
+    );
+  });
+
+  it('escapes text that spreadsheet apps would run as a formula', () => {
+    expect(formatCsvRow(['=SUM(A1:A9)', '+1', '-2', '@cmd', '\tx', 'a=b', -3])).toBe(
+      "'=SUM(A1:A9),'+1,'-2,'@cmd,'\tx,a=b,-3"
+    );
+    expect(formatCsvRow(['=HYPERLINK("x")'])).toBe(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for app relationship remapping through the item ID map
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ItemIdMapStore } from '@/lib/migration/items/item-id-map';
+import {
+  remapRelationshipFields,
+  resolveReferenceIds,
+} from '@/lib/migration/items/relationship-remapper';
+import { PodioItem } from '@/lib/podio/resources/items';
+
+function createSourceItem(fields: PodioItem['fields']): PodioItem {
+  return {
+    item_id: 100,
+    app_item_id: 1,
+    app: { app_id: 1, config: { name: 'Source' } },
+    fields,
+    created_on: new Date(0).toISOString(),
+    created_by: { user_id: 1, name: 'Tester' },
+    link: '',
+    rights: [],
+  } as PodioItem;
+}
+
+function appField(externalId: string, itemIds: number[]): PodioItem['fields'][number] {
+  return {
+    field_id: 1,
+    external_id: externalId,
+    type: 'app',
+    label: externalId,
+    values: itemIds.map(item_id => ({ value: { item_id } })),
+  } as PodioItem['fields'][number];
+}
+
+describe('resolveReferenceIds', () => {
+  it('should split references into resolved targets and unresolved sources', () => {
+    const idMap = new Map([[1, 101], [3, 103]]);
+
+    expect(resolveReferenceIds([1, 2, 3], idMap)).toEqual({
+      resolved: [101, 103],
+      unresolved: [2],
+    });
+  });
+});
+
+describe('remapRelationshipFields', () => {
+  const fieldMapping = { 'company': 'target-company', 'title': 'title' };
+
+  it('should rewrite fully mapped references to target item IDs', () => {
+    const sourceItem = createSourceItem([appField('company', [1, 3])]);
+    const result = remapRelationshipFields(
+      sourceItem,
+      { 'target-company': [1, 3], title: 'Hello' },
+      fieldMapping,
+      new Map([[1, 101], [3, 103]])
+    );
+
+    expect(result.fields).toEqual({ 'target-company': [101, 103], title: 'Hello' });
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should keep resolved references and defer the field when some are unmapped', () => {
+    const sourceItem = createSourceItem([appField('company', [1, 2])]);
+    const result = remapRelationshipFields(
+      sourceItem,
+      { 'target-company': [1, 2] },
+      fieldMapping,
+      new Map([[1, 101]])
+    );
+
+    expect(result.fields).toEqual({ 'target-company': [101] });
+    expect(result.unresolved).toEqual([
+      { targetFieldExternalId: 'target-company', sourceReferenceIds: [1, 2] },
+    ]);
+  });
+
+  it('should drop the field instead of writing raw source IDs when nothing is mapped', () => {
+    const sourceItem = createSourceItem([appField('company', [2])]);
+    const result = remapRelationshipFields(
+      sourceItem,
+      { 'target-company': [2] },
+      fieldMapping,
+      new Map()
+    );
+
+    expect(result.fields).not.toHaveProperty('target-company');
+    expect(result.unresolved).toHaveLength(1);
+  });
+
+  it('should ignore unmapped relationship fields', () => {
+    const sourceItem = createSourceItem([appField('contacts', [5])]);
+    const result = remapRelationshipFields(sourceItem, {}, fieldMapping, new Map());
+
+    expect(result.fields).toEqual({});
+    expect(result.unresolved).toEqual([]);
+  });
+});
+
+describe('remapping after a rollback', () => {
+  it('should not link to target items the rollback deleted', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'item-id-map-'));
+    try {
+      const store = new ItemIdMapStore(dir);
+      const recordedAt = '2025-03-10T12:00:00.000Z';
+      await store.recordMappings('job-1', [
+        { sourceItemId: 1, targetItemId: 101, sourceAppId: 1, targetAppId: 2, recordedAt },
+        { sourceItemId: 3, targetItemId: 103, sourceAppId: 1, targetAppId: 2, recordedAt },
+      ]);
+      await store.recordRolledBackItems('job-1', [{ targetItemId: 103, action: 'deleted', recordedAt }]);
+
+      const idMap = await store.loadAllMappings();
+      expect(await store.getMappings('job-1')).toEqual(idMap);
+
+      const sourceItem = createSourceItem([appField('company', [1, 3])]);
+      const result = remapRelationshipFields(sourceItem, { 'target-company': [1, 3] }, { company: 'target-company' }, idMap);
+
+      expect(result.fields).toEqual({ 'target-company': [101] });
+      expect(result.unresolved).toEqual([
+        { targetFieldExternalId: 'target-company', sourceReferenceIds: [1, 3] },
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for item migration rollback planning
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildRollbackPlan, journalUpdateSnapshots, snapshotPreviousFields } from '@/lib/migration/items/rollback';
+import { UndoJournalEntry } from '@/lib/migration/items/item-id-map';
+import { PodioHttpClient } from '@/lib/podio/http/client';
+
+const recordedAt = '2025-03-10T12:00:00.000Z';
+
+describe('snapshotPreviousFields', () => {
+  it('records current values, and null for empty fields', () => {
+    const targetItem = {
+      fields: [
+        { field_id: 1, external_id: 'title', type: 'text', label: 'Title', values: [{ value: 'Old title' }] },
+        { field_id: 2, external_id: 'status', type: 'category', label: 'Status', values: [{ value: { id: 4, text: 'Open' } }] },
+      ],
+    };
+
+    expect(snapshotPreviousFields(targetItem, ['title', 'status', 'notes'])).toEqual({
+      title: 'Old title',
+      status: [4],
+      notes: null,
+    });
+  });
+
+  it('skips fields that cannot be written back', () => {
+    const targetItem = {
+      fields: [{ field_id: 3, external_id: 'photo', type: 'image', label: 'Photo', values: [{ value: { file_id: 9 } }] }],
+    };
+
+    expect(snapshotPreviousFields(targetItem, ['photo'])).toEqual({});
+  });
+});
+
+describe('buildRollbackPlan', () => {
+  const entries: UndoJournalEntry[] = [
+    { operation: 'created', targetItemId: 100, sourceItemId: 1, recordedAt },
+    { operation: 'created', targetItemId: 101, sourceItemId: 2, recordedAt },
+    { operation: 'updated', targetItemId: 200, sourceItemId: 3, previousFields: { title: 'Original', notes: null }, recordedAt },
+    { operation: 'updated', targetItemId: 200, sourceItemId: 3, previousFields: { title: 'Migrated once' }, recordedAt },
+    { operation: 'updated', targetItemId: 101, sourceItemId: 2, previousFields: { title: 'Created by job' }, recordedAt },
+  ];
+
+  it('deletes created items newest first and restores the earliest values of updated items', () => {
+    expect(buildRollbackPlan(entries)).toEqual({
+      deletes: [101, 100],
+      restores: [{ targetItemId: 200, fields: { title: 'Original', notes: [] } }],
+    });
+  });
+
+  it('skips items an earlier rollback run already handled', () => {
+    expect(buildRollbackPlan(entries, new Set([101, 200]))).toEqual({
+      deletes: [100],
+      restores: [],
+    });
+  });
+});
+
+describe('journalUpdateSnapshots', () => {
+  const client = {} as unknown as PodioHttpClient;
+  const updates = [
+    { itemId: 1, fields: { title: 'New' } },
+    { itemId: 2, fields: { title: 'Newer' } },
+  ];
+
+  it('counts the items of a chunk that cannot be fetched as missing instead of failing', async () => {
+    const fetchItems = async () => {
+      throw new Error('Podio unavailable');
+    };
+
+    expect(await journalUpdateSnapshots(client, 'job-1', updates, fetchItems)).toBe(2);
+  });
+
+  it('counts items missing from the fetch result', async () => {
+    const fetchItems = async () => [];
+
+    expect(await journalUpdateSnapshots(client, 'job-1', updates, fetchItems)).toBe(2);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for sync mode watermark handling
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  advanceSyncWatermark,
+  applySyncWatermark,
+  isEditedSince,
+} from '@/lib/migration/items/sync-watermark';
+
+describe('isEditedSince', () => {
+  it('includes everything before the first run', () => {
+    expect(isEditedSince({ last_event_on: '2025-01-01 00:00:00' })).toBe(true);
+  });
+
+  it('only includes items edited strictly after the watermark', () => {
+    const watermark = '2025-03-10 12:00:00';
+    expect(isEditedSince({ last_event_on: '2025-03-10 12:00:01' }, watermark)).toBe(true);
+    expect(isEditedSince({ last_event_on: '2025-03-10 12:00:00' }, watermark)).toBe(false);
+    expect(isEditedSince({ last_event_on: '2025-03-09 23:59:59' }, watermark)).toBe(false);
+  });
+
+  it('includes items without a last_event_on', () => {
+    expect(isEditedSince({}, '2025-03-10 12:00:00')).toBe(true);
+  });
+});
+
+describe('applySyncWatermark', () => {
+  it('narrows lastEditFrom to the watermark day', () => {
+    expect(applySyncWatermark({ tags: ['crm'] }, '2025-03-10 12:00:00')).toEqual({
+      tags: ['crm'],
+      lastEditFrom: '2025-03-10',
+    });
+    expect(applySyncWatermark({ lastEditFrom: '2025-01-01' }, '2025-03-10 12:00:00')).toEqual({
+      lastEditFrom: '2025-03-10',
+    });
+  });
+
+  it('keeps a later lastEditFrom and leaves filters alone without a watermark', () => {
+    const filters = { lastEditFrom: '2025-04-01' };
+    expect(applySyncWatermark(filters, '2025-03-10 12:00:00')).toBe(filters);
+    expect(applySyncWatermark(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('advanceSyncWatermark', () => {
+  const eventTimes = new Map([
+    [1, '2025-03-10 12:00:00'],
+    [2, '2025-03-11 08:30:00'],
+    [3, '2025-03-10 18:15:00'],
+  ]);
+
+  it('moves to the latest edit seen', () => {
+    expect(advanceSyncWatermark('2025-03-01 00:00:00', eventTimes, [])).toBe('2025-03-11 08:30:00');
+  });
+
+  it('stops just before the earliest failed item', () => {
+    expect(advanceSyncWatermark('2025-03-01 00:00:00', eventTimes, [3, 2])).toBe('2025-03-10 18:14:59');
+  });
+
+  it('never moves backwards', () => {
+    expect(advanceSyncWatermark('2025-03-12 00:00:00', eventTimes, [])).toBe('2025-03-12 00:00:00');
+    expect(advanceSyncWatermark('2025-03-05 00:00:00', new Map(), [])).toBe('2025-03-05 00:00:00');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for recreating item tasks on migrated items
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildTaskRequest, transferItemTasks } from '@/lib/migration/items/task-transfer';
+import { PodioTask, getItemTasks } from '@/lib/podio/resources/tasks';
+import { PodioHttpClient } from '@/lib/podio/http/client';
+import { PodioApiError } from '@/lib/podio/errors';
+
+function task(taskId: number, overrides: Partial<PodioTask> = {}): PodioTask {
+  return {
+    task_id: taskId,
+    status: 'active',
+    text: `Task ${taskId}`,
+    description: 'Call the customer',
+    due_date: '2024-05-01',
+    due_time: '09:00:00',
+    responsible: { user_id: 42, name: 'Grace Hopper' },
+    reminder: { remind_delta: 30 },
+    ...overrides,
+  };
+}
+
+function createClient(
+  openTasks: PodioTask[],
+  completedTasks: PodioTask[] = [],
+  options: { rejectResponsible?: boolean } = {}
+) {
+  const created: Array<{ url: string; body: Record<string, unknown> }> = [];
+  const completed: string[] = [];
+  let nextId = 500;
+
+  const client = {
+    get: async (url: string) => (url.includes('completed=true') ? completedTasks : openTasks),
+    post: async (url: string, body: Record<string, unknown>) => {
+      if (url.endsWith('/complete')) {
+        completed.push(url);
+        return {};
+      }
+      if (options.rejectResponsible && body.responsible) {
+        throw new PodioApiError('User is not a member of the space', 400);
+      }
+      created.push({ url, body });
+      return { task_id: nextId++ };
+    },
+  } as unknown as PodioHttpClient;
+
+  return { client, created, completed };
+}
+
+describe('buildTaskRequest', () => {
+  it('should preserve text, due date, reminder and responsible user', () => {
+    expect(buildTaskRequest(task(1))).toEqual({
+      text: 'Task 1',
+      description: 'Call the customer',
+      private: undefined,
+      due_date: '2024-05-01',
+      due_time: '09:00:00',
+      responsible: 42,
+      reminder: { remind_delta: 30 },
+    });
+  });
+
+  it('should note the original assignee when the task is created unassigned', () => {
+    const request = buildTaskRequest(task(1), { assignResponsible: false });
+
+    expect(request.responsible).toBeUndefined();
+    expect(request.description).toBe('Call the customer\n\nOriginally assigned to Grace Hopper');
+  });
+});
+
+describe('transferItemTasks', () => {
+  it('should copy open tasks only by default and skip tasks already copied', async () => {
+    const { client, created } = createClient([task(1), task(2)], [task(3, { status: 'completed' })]);
+
+    const outcome = await transferItemTasks(client, 10, 20, new Set([2]));
+
+    expect(created).toHaveLength(1);
+    expect(created[0].url).toContain('/task/item/20/');
+    expect(outcome).toMatchObject({ copied: 1, skipped: 1, failed: 0 });
+    expect(outcome.entries[0]).toMatchObject({ sourceTaskId: 1, targetTaskId: 500 });
+  });
+
+  it('should complete copies of completed tasks when requested', async () => {
+    const { client, created, completed } = createClient([], [task(3, { status: 'completed' })]);
+
+    const outcome = await transferItemTasks(client, 10, 20, new Set(), { includeCompleted: true });
+
+    expect(created).toHaveLength(1);
+    expect(completed).toEqual(['/task/500/complete']);
+    expect(outcome.copied).toBe(1);
+  });
+
+  it('should fall back to an unassigned task when the responsible user is rejected', async () => {
+    const { client, created } = createClient([task(1)], [], { rejectResponsible: true });
+
+    const outcome = await transferItemTasks(client, 10, 20, new Set());
+
+    expect(outcome).toMatchObject({ copied: 1, failed: 0 });
+    expect(created[0].body.responsible).toBeUndefined();
+  });
+
+  it('should count an item whose tasks cannot be read as a failure', async () => {
+    const client = {
+      get: async () => {
+        throw new Error('Podio unavailable');
+      },
+    } as unknown as PodioHttpClient;
+
+    const outcome = await transferItemTasks(client, 10, 20, new Set());
+
+    expect(outcome).toMatchObject({ copied: 0, skipped: 0, failed: 1 });
+    expect(outcome.errors).toEqual(['Podio unavailable']);
+  });
+});
+
+describe('getItemTasks', () => {
+  it('should page through tasks until a page comes back short', async () => {
+    const all = Array.from({ length: 100 }, (_, i) => task(i + 1));
+    const offsets: number[] = [];
+    const client = {
+      get: async (url: string) => {
+        const params = new URLSearchParams(url.split('?')[1]);
+        const offset = Number(params.get('offset'));
+        offsets.push(offset);
+        return all.slice(offset, offset + Number(params.get('limit')));
+      },
+    } as unknown as PodioHttpClient;
+
+    const tasks = await getItemTasks(client, 10);
+
+    expect(tasks).toHaveLength(100);
+    // A full page is followed by an empty one
+    expect(offsets).toEqual([0, 100]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for the field type compatibility matrix and cross-type converters
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { PodioItem, PodioItemField } from '@/lib/podio/resources/items';
+import {
+  convertFieldTypes,
+  describeFieldTypeConversion,
+  describeIncompatibleFields,
+  fieldTypeCompatibility,
+  isCompatibleFieldType,
+  planFieldConversions,
+  TargetFieldInfo,
+} from '@/lib/migration/items/type-conversion';
+
+function sourceField(external_id: string, type: string, values: PodioItemField['values']): PodioItemField {
+  return { field_id: 1, external_id, type, label: external_id, values };
+}
+
+function item(fields: PodioItemField[]): PodioItem {
+  return { item_id: 1, fields } as PodioItem;
+}
+
+/**
+ * Convert a single source field to a target field through the plan
+ */
+function convert(field: PodioItemField, target: TargetFieldInfo, mappedValue: unknown = 'raw'): unknown {
+  const mapping = { [field.external_id]: target.external_id };
+  const plan = planFieldConversions([field], [target], mapping);
+  return convertFieldTypes(item([field]), { [target.external_id]: mappedValue }, mapping, plan)[target.external_id];
+}
+
+describe('fieldTypeCompatibility', () => {
+  it('rates same, convertible and incompatible types', () => {
+    expect(fieldTypeCompatibility('text', 'text')).toBe(1);
+    expect(fieldTypeCompatibility('calculation', 'text')).toBeGreaterThan(0);
+    expect(fieldTypeCompatibility('number', 'money')).toBeGreaterThan(0);
+    expect(fieldTypeCompatibility('app', 'text')).toBe(0);
+    expect(fieldTypeCompatibility('contact', 'app')).toBe(0);
+    expect(isCompatibleFieldType('date', 'number')).toBe(false);
+  });
+
+  it('never allows read-only targets', () => {
+    expect(fieldTypeCompatibility('calculation', 'calculation')).toBe(0);
+    expect(fieldTypeCompatibility('text', 'created_on')).toBe(0);
+  });
+
+  it('describes conversions', () => {
+    expect(describeFieldTypeConversion('date', 'text')).toBe('date → text: formatted date');
+    expect(describeFieldTypeConversion('text', 'text')).toBeUndefined();
+    expect(describeFieldTypeConversion('app', 'text')).toBeUndefined();
+  });
+});
+
+describe('convertFieldTypes', () => {
+  it('formats dates as text', () => {
+    const dateTime = sourceField('due', 'date', [
+      { value: null, start: '2026-03-01 09:30:00', end: '2026-03-02 17:00:00', start_time: '09:30:00' },
+    ]);
+    const dateOnly = sourceField('due', 'date', [{ value: null, start: '2026-03-01 00:00:00', start_time: null }]);
+    const target = { type: 'text', external_id: 'due-text' };
+
+    expect(convert(dateTime, target)).toBe('2026-03-01 09:30 – 2026-03-02 17:00');
+    expect(convert(dateOnly, target)).toBe('2026-03-01');
+  });
+
+  it('turns numbers into money in the target currency', () => {
+    const amount = sourceField('amount', 'number', [{ value: '1250.5000' }]);
+
+    expect(
+      convert(amount, { type: 'money', external_id: 'price', config: { settings: { allowed_currencies: ['EUR'] } } })
+    ).toEqual({ value: 1250.5, currency: 'EUR' });
+    expect(convert(amount, { type: 'money', external_id: 'price' })).toEqual({ value: 1250.5, currency: 'USD' });
+  });
+
+  it('writes category labels into text fields and text into category options', () => {
+    const status = sourceField('status', 'category', [
+      { value: { id: 1, text: 'Open' } },
+      { value: { id: 2, text: 'Urgent' } },
+    ]);
+    expect(convert(status, { type: 'text', external_id: 'status-text' })).toBe('Open, Urgent');
+
+    const label = sourceField('status-text', 'text', [{ value: '<p>urgent</p>' }]);
+    const categoryTarget = {
+      type: 'category',
+      external_id: 'status',
+      config: { settings: { options: [{ id: 7, text: 'Urgent' }, { id: 8, text: 'Later' }] } },
+    };
+    expect(convert(label, categoryTarget)).toEqual([7]);
+  });
+
+  it("uses contacts' email addresses for email fields", () => {
+    const owner = sourceField('owner', 'contact', [
+      { value: { profile_id: 1, name: 'Ann', mail: ['ann@example.com'] } },
+      { value: { profile_id: 2, name: 'Bob' } },
+    ]);
+
+    expect(convert(owner, { type: 'email', external_id: 'owner-email' })).toEqual([
+      { type: 'work', value: 'ann@example.com' },
+    ]);
+    expect(convert(owner, { type: 'text', external_id: 'owner-name' })).toBe('Ann, Bob');
+  });
+
+  it('leaves out values that cannot be converted and incompatible pairs', () => {
+    const note = sourceField('note', 'text', [{ value: 'not a number' }]);
+    expect(convert(note, { type: 'number', external_id: 'count' })).toBeUndefined();
+
+    const link = sourceField('company', 'app', [{ value: { item_id: 5 } }]);
+    expect(convert(link, { type: 'text', external_id: 'company-name' }, [5])).toBeUndefined();
+  });
+
+  it('keeps same-type values untouched', () => {
+    const title = sourceField('title', 'text', [{ value: 'Hello' }]);
+    const mapping = { title: 'name' };
+    const plan = planFieldConversions([title], [{ type: 'text', external_id: 'name', label: 'Name' }], mapping);
+
+    expect(plan.conversions.size).toBe(0);
+    expect(convertFieldTypes(item([title]), { name: 'Hello' }, mapping, plan)).toEqual({ name: 'Hello' });
+  });
+});
+
+describe('planFieldConversions', () => {
+  it('lists incompatible pairs with the allowed target types', () => {
+    const plan = planFieldConversions(
+      [
+        { type: 'date', external_id: 'due', label: 'Due' },
+        { type: 'number', external_id: 'amount', label: 'Amount' },
+      ],
+      [
+        { type: 'number', external_id: 'due-number', label: 'Due number' },
+        { type: 'money', external_id: 'price', label: 'Price' },
+      ],
+      { due: 'due-number', amount: 'price' }
+    );
+
+    expect(plan.conversions.has('price')).toBe(true);
+    expect(plan.incompatible).toEqual([
+      {
+        sourceExternalId: 'due',
+        sourceLabel: 'Due',
+        sourceType: 'date',
+        targetExternalId: 'due-number',
+        targetLabel: 'Due number',
+        targetType: 'number',
+      },
+    ]);
+    expect(describeIncompatibleFields(plan.incompatible)).toContain('"Due" (date) cannot be mapped to "Due number" (number)');
+  });
+});
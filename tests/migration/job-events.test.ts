@@ -0,0 +1,102 @@
+/**
+ * Tests for the job event bus and its SSE stream
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createJobEventStream,
+  JobProgressEvent,
+  publishJobEvent,
+  subscribeToJobEvents,
+} from '@/lib/migration/job-events';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<JobProgressEvent[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+
+  return text
+    .split('\n\n')
+    .filter((chunk) => chunk.startsWith('data: '))
+    .map((chunk) => JSON.parse(chunk.slice('data: '.length)) as JobProgressEvent);
+}
+
+function snapshot(jobId: string, type: JobProgressEvent['type'] = 'status'): JobProgressEvent {
+  return { type, jobId, status: 'in_progress', timestamp: new Date().toISOString() };
+}
+
+describe('publishJobEvent', () => {
+  it('delivers events only to subscribers of the same job', () => {
+    const received: JobProgressEvent[] = [];
+    const unsubscribe = subscribeToJobEvents('job-a', (event) => received.push(event));
+
+    publishJobEvent('job-a', { type: 'rate_limit_resumed', rateLimit: { pauseDurationMs: 1200 } });
+    publishJobEvent('job-b', { type: 'completed' });
+    unsubscribe();
+    publishJobEvent('job-a', { type: 'completed' });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      type: 'rate_limit_resumed',
+      jobId: 'job-a',
+      rateLimit: { pauseDurationMs: 1200 },
+    });
+    expect(received[0].timestamp).toEqual(expect.any(String));
+  });
+});
+
+describe('createJobEventStream', () => {
+  it('sends the snapshot, then live events, and ends when the job stops', async () => {
+    const controller = new AbortController();
+    const stream = createJobEventStream('job-stream', async () => snapshot('job-stream'), controller.signal);
+    const events = readAll(stream);
+
+    // Let the stream subscribe and send its snapshot
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    publishJobEvent('job-stream', {
+      type: 'progress',
+      progress: { total: 10, processed: 5, successful: 5, failed: 0, percent: 50 },
+    });
+    publishJobEvent('job-stream', { type: 'completed', status: 'completed' });
+
+    expect((await events).map((event) => event.type)).toEqual(['status', 'progress', 'completed']);
+  });
+
+  it('keeps events published while the snapshot loads', async () => {
+    const controller = new AbortController();
+    const stream = createJobEventStream(
+      'job-buffered',
+      async () => {
+        publishJobEvent('job-buffered', { type: 'failed', status: 'failed' });
+        return snapshot('job-buffered');
+      },
+      controller.signal
+    );
+
+    expect((await readAll(stream)).map((event) => event.type)).toEqual(['status', 'failed']);
+  });
+
+  it('ends right after the snapshot when the job has already stopped', async () => {
+    const controller = new AbortController();
+    const stream = createJobEventStream('job-done', async () => snapshot('job-done', 'completed'), controller.signal);
+
+    expect((await readAll(stream)).map((event) => event.type)).toEqual(['completed']);
+  });
+
+  it('ends when the client disconnects', async () => {
+    const controller = new AbortController();
+    const stream = createJobEventStream('job-abort', async () => snapshot('job-abort'), controller.signal);
+    const events = readAll(stream);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    expect(await events).toHaveLength(1);
+  });
+});
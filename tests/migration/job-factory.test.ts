@@ -0,0 +1,89 @@
+/**
+ * Tests for recovering a job's configuration as a job spec
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { JobSpecError, validateJobSpec } from '@/lib/cli/job-spec';
+import { jobSpecFromJob } from '@/lib/migration/job-factory';
+import type { MigrationJob } from '@/lib/migration/state-store';
+
+function job(overrides: Partial<MigrationJob>): MigrationJob {
+  return {
+    id: 'job-1',
+    sourceSpaceId: '',
+    targetSpaceId: '',
+    status: 'completed',
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    steps: [],
+    errors: [],
+    metadata: {},
+    ...overrides,
+  } as MigrationJob;
+}
+
+describe('jobSpecFromJob', () => {
+  it('recovers an item migration request from the job metadata', () => {
+    const spec = jobSpecFromJob(
+      job({
+        jobType: 'item_migration',
+        metadata: {
+          sourceAppId: 1,
+          targetAppId: 2,
+          mode: 'upsert',
+          sourceMatchField: 'email',
+          targetMatchField: 'email-address',
+          fieldMapping: { '10': '20' },
+          batchSize: 100,
+          progress: { processed: 50 },
+        },
+      })
+    );
+
+    expect(spec).toMatchObject({
+      type: 'item_migration',
+      sourceAppId: 1,
+      targetAppId: 2,
+      mode: 'upsert',
+      fieldMapping: { '10': '20' },
+      batchSize: 100,
+    });
+    expect(spec).not.toHaveProperty('progress');
+    expect(validateJobSpec(spec, 'spec')).toMatchObject({ type: 'item_migration', sourceAppId: 1 });
+  });
+
+  it('recovers a cleanup request', () => {
+    const spec = jobSpecFromJob(
+      job({
+        jobType: 'cleanup',
+        metadata: { appId: 5, matchField: 'title', mode: 'automated', keepStrategy: 'newest', dryRun: true },
+      })
+    );
+
+    expect(spec).toMatchObject({ type: 'cleanup', appId: 5, matchField: 'title', keepStrategy: 'newest', dryRun: true });
+  });
+
+  it('lists the cloned flows of a flow clone job', () => {
+    const spec = jobSpecFromJob(
+      job({
+        jobType: 'flow_clone',
+        metadata: { sourceAppId: 1, targetAppId: 2, continueOnError: true },
+        steps: [
+          { type: 'clone_flow', sourceId: '11', status: 'completed' },
+          { type: 'clone_flow', sourceId: '12', status: 'failed' },
+        ] as MigrationJob['steps'],
+      })
+    );
+
+    expect(spec).toEqual({
+      type: 'flow_clone',
+      sourceAppId: 1,
+      targetAppId: 2,
+      flows: [{ flowId: '11' }, { flowId: '12' }],
+      continueOnError: true,
+    });
+  });
+
+  it('rejects job types without a spec', () => {
+    expect(() => jobSpecFromJob(job({ jobType: 'item_rollback' }))).toThrow(JobSpecError);
+  });
+});
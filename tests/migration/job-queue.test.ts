@@ -0,0 +1,107 @@
+/**
+ * Tests for the job queue's option parsing and start order
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  canResumeInterruptedJob,
+  compareQueueEntries,
+  JobQueueError,
+  occupiedJobSlots,
+  parseQueueOptions,
+} from '@/lib/migration/job-queue';
+import { JobQueueEntry, MigrationJob } from '@/lib/migration/state-store';
+
+function entry(priority: number, enqueuedAt: string): JobQueueEntry {
+  return { priority, enqueuedAt, reason: 'new' };
+}
+
+describe('parseQueueOptions', () => {
+  it('accepts priority and an ISO start time', () => {
+    const options = parseQueueOptions({ priority: 5, runAt: '2026-03-01T08:00:00Z' });
+    expect(options.priority).toBe(5);
+    expect(options.runAt?.toISOString()).toBe('2026-03-01T08:00:00.000Z');
+  });
+
+  it('treats missing and null settings as unset', () => {
+    expect(parseQueueOptions({})).toEqual({});
+    expect(parseQueueOptions({ priority: null, runAt: null })).toEqual({});
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parseQueueOptions({ priority: 1.5 })).toThrow(JobQueueError);
+    expect(() => parseQueueOptions({ priority: '3' })).toThrow(JobQueueError);
+    expect(() => parseQueueOptions({ priority: 101 })).toThrow(JobQueueError);
+    expect(() => parseQueueOptions({ runAt: 'tomorrow' })).toThrow(JobQueueError);
+    expect(() => parseQueueOptions({ runAt: 1767225600000 })).toThrow(JobQueueError);
+  });
+});
+
+describe('compareQueueEntries', () => {
+  it('orders by priority, then by enqueue time', () => {
+    const low = entry(0, '2026-01-01T00:00:00.000Z');
+    const high = entry(10, '2026-01-01T00:05:00.000Z');
+    const lowLater = entry(0, '2026-01-01T00:10:00.000Z');
+
+    expect([lowLater, low, high].sort(compareQueueEntries)).toEqual([high, low, lowLater]);
+  });
+});
+
+describe('canResumeInterruptedJob', () => {
+  const job = (overrides: Partial<MigrationJob>): MigrationJob => ({
+    id: 'job',
+    sourceSpaceId: '1',
+    targetSpaceId: '2',
+    status: 'in_progress',
+    startedAt: new Date(),
+    steps: [],
+    errors: [],
+    ...overrides,
+  });
+
+  it('resumes item, multi-app and rollback jobs', () => {
+    expect(canResumeInterruptedJob(job({ jobType: 'item_migration' }))).toBe(true);
+    expect(canResumeInterruptedJob(job({ jobType: 'multi_app_migration' }))).toBe(true);
+    expect(canResumeInterruptedJob(job({ jobType: 'item_rollback', metadata: { dryRun: false } }))).toBe(true);
+  });
+
+  it('does not resume cleanups, flow clones or rollback previews', () => {
+    expect(canResumeInterruptedJob(job({ jobType: 'cleanup' }))).toBe(false);
+    expect(canResumeInterruptedJob(job({ jobType: 'flow_clone' }))).toBe(false);
+    expect(canResumeInterruptedJob(job({ jobType: 'item_rollback', metadata: { dryRun: true } }))).toBe(false);
+  });
+});
+
+describe('occupiedJobSlots', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z').getTime();
+  const runningJob = (id: string, overrides: Partial<MigrationJob>): MigrationJob => ({
+    id,
+    sourceSpaceId: '1',
+    targetSpaceId: '2',
+    status: 'in_progress',
+    startedAt: new Date(now - 3_600_000),
+    steps: [],
+    errors: [],
+    ...overrides,
+  });
+
+  it('counts running jobs from other processes while their heartbeat is live', () => {
+    const occupied = occupiedJobSlots(
+      [
+        runningJob('cli', { lastHeartbeat: new Date(now - 5_000) }),
+        runningJob('cleanup', { status: 'detecting', lastHeartbeat: new Date(now - 5_000) }),
+        runningJob('crashed', { lastHeartbeat: new Date(now - 600_000) }),
+        runningJob('paused', { status: 'paused', lastHeartbeat: new Date(now - 5_000) }),
+      ],
+      ['local'],
+      now
+    );
+
+    expect([...occupied].sort()).toEqual(['cleanup', 'cli', 'local']);
+  });
+
+  it('counts a job this process runs once, even when the store lists it too', () => {
+    const occupied = occupiedJobSlots([runningJob('local', { lastHeartbeat: new Date(now) })], ['local'], now);
+    expect(occupied.size).toBe(1);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for multi-app execution ordering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildExecutionPlan,
+  extractReferencedAppIds,
+} from '@/lib/migration/multi-app/dependency-graph';
+
+describe('extractReferencedAppIds', () => {
+  it('should accept plain IDs and app objects', () => {
+    expect(extractReferencedAppIds([1, { app_id: 2 }, null, { foo: 3 }])).toEqual([1, 2]);
+  });
+
+  it('should return an empty list for missing settings', () => {
+    expect(extractReferencedAppIds(undefined)).toEqual([]);
+  });
+});
+
+describe('buildExecutionPlan', () => {
+  it('should migrate referenced apps before the apps that reference them', () => {
+    // Deals -> Contacts -> Companies
+    const plan = buildExecutionPlan([30, 20, 10], {
+      '30': [20],
+      '20': [10],
+      '10': [],
+    });
+
+    expect(plan.order).toEqual([10, 20, 30]);
+    expect(plan.cyclicApps).toEqual([]);
+  });
+
+  it('should keep input order for independent apps', () => {
+    const plan = buildExecutionPlan([3, 1, 2], {});
+
+    expect(plan.order).toEqual([3, 1, 2]);
+  });
+
+  it('should ignore self references and apps outside the job', () => {
+    const plan = buildExecutionPlan([1, 2], {
+      '1': [1, 99],
+      '2': [1],
+    });
+
+    expect(plan.order).toEqual([1, 2]);
+    expect(plan.cyclicApps).toEqual([]);
+  });
+
+  it('should break cycles and report the apps that need back-filling', () => {
+    const plan = buildExecutionPlan([1, 2, 3], {
+      '1': [2],
+      '2': [1],
+      '3': [1],
+    });
+
+    expect(plan.order).toEqual([1, 2, 3]);
+    expect(plan.cyclicApps).toEqual([1]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for cron expression parsing and next-run calculation
+ * Dates are built in local time, which is what schedules are evaluated in.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CronExpressionError, nextCronRun, parseCronExpression } from '@/lib/migration/schedules/cron';
+
+describe('parseCronExpression', () => {
+  it('expands lists, ranges, steps and names', () => {
+    const schedule = parseCronExpression('0,30 9-17/4 * jan-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('supports shortcuts and Sunday as 7', () => {
+    expect(parseCronExpression('@daily').hours).toEqual(new Set([0]));
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('60 * * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('5-1 * * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('0 0 * foo *')).toThrow(CronExpressionError);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next nightly run', () => {
+    expect(nextCronRun('0 2 * * *', new Date(2026, 0, 5, 1, 30))).toEqual(new Date(2026, 0, 5, 2, 0));
+    expect(nextCronRun('0 2 * * *', new Date(2026, 0, 5, 2, 0))).toEqual(new Date(2026, 0, 6, 2, 0));
+  });
+
+  it('rolls over months and years', () => {
+    expect(nextCronRun('15 6 1 * *', new Date(2026, 11, 20))).toEqual(new Date(2027, 0, 1, 6, 15));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-01-05 is a Monday; the 10th comes after the next Friday (the 9th)
+    expect(nextCronRun('0 0 10 * fri', new Date(2026, 0, 5))).toEqual(new Date(2026, 0, 9));
+    expect(nextCronRun('0 0 10 * fri', new Date(2026, 0, 9, 12))).toEqual(new Date(2026, 0, 10));
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronRun('0 0 31 2 *', new Date(2026, 0, 1))).toBeNull();
+  });
+});
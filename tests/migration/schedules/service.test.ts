@@ -0,0 +1,32 @@
+/**
+ * Tests for schedule run outcomes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isRunPending, runOutcomeForJob } from '@/lib/migration/schedules/service';
+import { ScheduleRun } from '@/lib/migration/schedules/types';
+
+function scheduleRun(outcome: ScheduleRun['outcome']): ScheduleRun {
+  return { scheduledFor: '2025-03-10T02:00:00.000Z', startedAt: '2025-03-10T02:00:01.000Z', jobId: 'job-1', outcome };
+}
+
+describe('runOutcomeForJob', () => {
+  it('maps job statuses to run outcomes', () => {
+    expect(runOutcomeForJob({ status: 'deferred' })).toBe('queued');
+    expect(runOutcomeForJob({ status: 'deleting' })).toBe('running');
+    expect(runOutcomeForJob({ status: 'waiting_approval' })).toBe('waiting_approval');
+  });
+});
+
+describe('isRunPending', () => {
+  it('treats queued, running and paused runs as pending', () => {
+    expect(isRunPending(scheduleRun('queued'))).toBe(true);
+    expect(isRunPending(scheduleRun('running'))).toBe(true);
+    expect(isRunPending(scheduleRun('paused'))).toBe(true);
+  });
+
+  it('does not hold up later runs while a manual cleanup waits for approval', () => {
+    expect(isRunPending(scheduleRun('waiting_approval'))).toBe(false);
+    expect(isRunPending(scheduleRun('completed'))).toBe(false);
+  });
+});
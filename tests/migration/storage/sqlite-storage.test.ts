@@ -0,0 +1,126 @@
+/**
+ * Tests for the SQLite job storage backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MigrationJob, MigrationStateStore } from '@/lib/migration/state-store';
+import { FileJobStorage } from '@/lib/migration/storage/file-storage';
+import { SqliteJobStorage } from '@/lib/migration/storage/sqlite-storage';
+
+function makeJob(id: string, overrides: Partial<MigrationJob> = {}): MigrationJob {
+  return {
+    id,
+    sourceSpaceId: '1',
+    targetSpaceId: '2',
+    status: 'planning',
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    steps: [],
+    errors: [],
+    ...overrides,
+  };
+}
+
+describe('SqliteJobStorage', () => {
+  let dir: string;
+  let storage: SqliteJobStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-storage-'));
+    storage = new SqliteJobStorage(path.join(dir, 'jobs.sqlite'));
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips jobs with their dates', async () => {
+    await storage.save(makeJob('job-1', { completedAt: new Date('2026-01-02T00:00:00Z') }));
+
+    const job = await storage.get('job-1');
+    expect(job?.startedAt).toBeInstanceOf(Date);
+    expect(job?.completedAt?.toISOString()).toBe('2026-01-02T00:00:00.000Z');
+    expect(await storage.get('missing')).toBeNull();
+  });
+
+  it('filters by type, status and app', async () => {
+    await storage.save(
+      makeJob('item', { jobType: 'item_migration', status: 'in_progress', metadata: { sourceAppId: 10, targetAppId: 20 } })
+    );
+    await storage.save(makeJob('cleanup', { jobType: 'cleanup', status: 'completed', metadata: { appId: 20 } }));
+    await storage.save(
+      makeJob('multi', {
+        jobType: 'multi_app_migration',
+        status: 'in_progress',
+        appProgress: [{ sourceAppId: 30, targetAppId: 40, status: 'pending' } as never],
+      })
+    );
+
+    const ids = async (query: Parameters<SqliteJobStorage['list']>[0]) =>
+      (await storage.list(query)).map((job) => job.id).sort();
+
+    expect(await ids({ jobType: 'cleanup' })).toEqual(['cleanup']);
+    expect(await ids({ status: 'in_progress' })).toEqual(['item', 'multi']);
+    expect(await ids({ appId: 20 })).toEqual(['cleanup', 'item']);
+    expect(await ids({ appId: 40, status: ['in_progress', 'paused'] })).toEqual(['multi']);
+    expect(await ids({ status: [] })).toEqual([]);
+  });
+
+  it('keeps the app index in sync when a job is saved again', async () => {
+    await storage.save(makeJob('job', { metadata: { sourceAppId: 10 } }));
+    await storage.save(makeJob('job', { metadata: { sourceAppId: 11 } }));
+
+    expect(await storage.list({ appId: 10 })).toHaveLength(0);
+    expect(await storage.list({ appId: 11 })).toHaveLength(1);
+  });
+
+  it('does not write when an update throws', async () => {
+    await storage.save(makeJob('job'));
+
+    await expect(
+      storage.update('job', (job) => {
+        job.status = 'failed';
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect((await storage.get('job'))?.status).toBe('planning');
+  });
+
+  it('applies concurrent progress updates without losing any', async () => {
+    const store = new MigrationStateStore(storage);
+    const job = await store.createMigrationJob('1', '2');
+
+    await Promise.all(
+      Array.from({ length: 20 }, () => store.incrementFailedItemCounts(job.id, { network: 1 }))
+    );
+
+    const saved = await store.getMigrationJob(job.id);
+    expect(saved?.progress?.failed).toBe(20);
+    expect(saved?.progress?.failedItemsByCategory?.network).toBe(20);
+  });
+
+  it('imports a file store once and keeps existing rows', async () => {
+    const fileDir = path.join(dir, 'migrations');
+    const files = new FileJobStorage(fileDir);
+    await files.initialize();
+    await files.save(makeJob('from-file', { jobType: 'cleanup' }));
+    await files.save(makeJob('both', { status: 'failed' }));
+    await storage.save(makeJob('both', { status: 'completed' }));
+
+    expect(await storage.importFromFileStore(fileDir)).toEqual({ imported: 1, skipped: 1 });
+    expect((await storage.get('from-file'))?.jobType).toBe('cleanup');
+    expect((await storage.get('both'))?.status).toBe('completed');
+
+    const fresh = new SqliteJobStorage(path.join(dir, 'fresh.sqlite'), { importFrom: fileDir });
+    await fresh.initialize();
+    await fresh.delete('from-file');
+    await fresh.initialize();
+    expect(await fresh.get('from-file')).toBeNull();
+    fresh.close();
+  });
+});